@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { adminAuthService } from '@/services/AdminAuthService';
+
+interface AdminLoginProps {
+  onSignIn: () => void;
+}
+
+const AdminLogin: React.FC<AdminLoginProps> = ({ onSignIn }) => {
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (adminAuthService.signIn(passcode)) {
+      onSignIn();
+    } else {
+      setError('Incorrect passcode');
+    }
+  };
+
+  if (!adminAuthService.isEnabled()) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-8 max-w-md mx-auto text-center text-gray-600">
+        The back-office is not enabled on this site.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-8 max-w-md mx-auto">
+      <div className="flex items-center gap-2 mb-6">
+        <Lock className="w-5 h-5 text-gray-600" />
+        <h1 className="text-xl font-semibold">Staff Sign In</h1>
+      </div>
+      <Label htmlFor="adminPasscode" className={error ? "text-destructive" : ""}>Passcode</Label>
+      <Input
+        id="adminPasscode"
+        type="password"
+        value={passcode}
+        onChange={(e) => setPasscode(e.target.value)}
+        autoFocus
+        className={error ? "border-destructive" : ""}
+      />
+      {error && (
+        <p className="text-destructive text-sm mt-1">{error}</p>
+      )}
+      <Button type="submit" className="w-full mt-6">
+        Sign In
+      </Button>
+      <p className="text-xs text-gray-500 mt-4">
+        The passcode is built into the site's code, where anyone can read it. It only hides these
+        pages; orders and the catalogue are protected only when served by an API that checks staff accounts.
+      </p>
+    </form>
+  );
+};
+
+export default AdminLogin;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Order, OrderStatus } from '@/types';
+import { orderStatusSteps } from '@/data/orderStatuses';
+import { orderTrackingService } from '@/services/OrderTrackingService';
+
+interface OrderStatusDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  onUpdated: (order: Order) => void;
+}
+
+const OrderStatusDialog: React.FC<OrderStatusDialogProps> = ({ order, onClose, onUpdated }) => {
+  const [status, setStatus] = useState<OrderStatus>('received');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!order) return;
+    setStatus(orderTrackingService.getStatus(order));
+    setTrackingNumber(order.trackingNumber || '');
+    setNote('');
+  }, [order]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const updatedOrder = await orderTrackingService.updateStatus(order.id, status, {
+        note: note.trim() || undefined,
+        trackingNumber: trackingNumber.trim() || undefined
+      });
+      toast.success(`Order ${order.id} updated`);
+      onUpdated(updatedOrder);
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      toast.error(error instanceof Error ? error.message : 'The order could not be updated.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Update {order?.id}</DialogTitle>
+        </DialogHeader>
+        
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="orderStatus">Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as OrderStatus)}>
+              <SelectTrigger id="orderStatus">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {orderStatusSteps.map(step => (
+                  <SelectItem key={step.status} value={step.status}>{step.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {order?.proof && order.proof.status !== 'approved' && (
+              <p className="text-xs text-amber-600 mt-1">
+                The customer has not approved the proof yet: production steps are locked.
+                {order.proof.status === 'changes_requested' && ' Send a corrected proof from the Proof column.'}
+              </p>
+            )}
+          </div>
+          
+          {(status === 'shipped' || trackingNumber) && (
+            <div>
+              <Label htmlFor="trackingNumber">Tracking Number</Label>
+              <Input
+                id="trackingNumber"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                placeholder="CP123456789MA"
+              />
+            </div>
+          )}
+          
+          <div>
+            <Label htmlFor="statusNote">Note for the customer</Label>
+            <Input
+              id="statusNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Shown on the tracking page"
+            />
+          </div>
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderStatusDialog;
@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Order } from '@/types';
+import { getOrderStatusStep, orderStatusSteps } from '@/data/orderStatuses';
+import { orderTrackingService } from '@/services/OrderTrackingService';
+import { CsvColumn, downloadCsv, toCsv } from '@/utils/csv';
+import { formatMoroccanPhone } from '@/utils/phoneNumber';
+import { paymentMethodRegistry } from '../Checkout/paymentMethods';
+import OrderStatusDialog from './OrderStatusDialog';
+import ProofRevisionDialog from './ProofRevisionDialog';
+import ProductionProofDialog from '../Orders/ProductionProofDialog';
+
+interface OrderFilters {
+  query: string;
+  status: string;
+  paymentStatus: string;
+  // YYYY-MM-DD, inclusive
+  from: string;
+  to: string;
+}
+
+const emptyFilters: OrderFilters = { query: '', status: 'all', paymentStatus: 'all', from: '', to: '' };
+
+const orderCsvColumns: CsvColumn<Order>[] = [
+  { header: 'Order', value: order => order.id },
+  { header: 'Date', value: order => order.date },
+  { header: 'Customer', value: order => order.customerName },
+  { header: 'Email', value: order => order.email },
+  { header: 'Phone', value: order => order.phone },
+  { header: 'Company', value: order => order.company?.name },
+  { header: 'ICE', value: order => order.company?.ice },
+  { header: 'Shipping address', value: order => order.shippingAddress },
+  { header: 'Shipping method', value: order => order.shippingMethod?.name },
+  { header: 'Items', value: order => order.items.map(item => `${item.quantity} x ${item.product.name}${item.variant ? ` [${item.variant.sku}]` : ''}`).join(' | ') },
+  { header: 'Subtotal', value: order => order.subtotal.toFixed(2) },
+  { header: 'Discount', value: order => (order.discount || 0).toFixed(2) },
+  { header: 'Shipping', value: order => order.shipping.toFixed(2) },
+  { header: 'Payment fee', value: order => (order.paymentFee || 0).toFixed(2) },
+  { header: 'Total TTC', value: order => order.total.toFixed(2) },
+  { header: 'Payment method', value: order => paymentMethodRegistry.getLabel(order.paymentMethod) },
+  { header: 'Payment status', value: order => order.paymentStatus },
+  { header: 'Payment reference', value: order => order.paymentReference },
+  { header: 'Proof', value: order => order.proof?.status },
+  { header: 'Status', value: order => orderTrackingService.getStatus(order) },
+  { header: 'Tracking number', value: order => order.trackingNumber }
+];
+
+const OrdersPanel: React.FC = () => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<OrderFilters>(emptyFilters);
+  const [editedOrder, setEditedOrder] = useState<Order | null>(null);
+  const [proofOrder, setProofOrder] = useState<Order | null>(null);
+  const [productionOrder, setProductionOrder] = useState<Order | null>(null);
+
+  useEffect(() => {
+    orderTrackingService.listOrders()
+      .then(setOrders)
+      .catch(error => console.error('Error loading orders:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const updateFilter = (key: keyof OrderFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const filteredOrders = useMemo(() => {
+    const query = filters.query.trim().toLowerCase();
+    
+    return orders.filter(order => {
+      if (query && ![order.id, order.customerName, order.email, order.phone, order.company?.name]
+        .some(value => value?.toLowerCase().includes(query))) {
+        return false;
+      }
+      if (filters.status !== 'all' && orderTrackingService.getStatus(order) !== filters.status) return false;
+      if (filters.paymentStatus !== 'all' && (order.paymentStatus || 'pending') !== filters.paymentStatus) return false;
+      
+      const day = order.date.slice(0, 10);
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+      return true;
+    });
+  }, [orders, filters]);
+
+  const handleOrderUpdated = (updatedOrder: Order) => {
+    setOrders(current => current.map(order => (order.id === updatedOrder.id ? updatedOrder : order)));
+    setEditedOrder(null);
+    setProofOrder(null);
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadCsv(`orders-${date}.csv`, toCsv(filteredOrders, orderCsvColumns));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-md p-4 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="md:col-span-2">
+          <Label htmlFor="orderSearch">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              id="orderSearch"
+              value={filters.query}
+              onChange={(e) => updateFilter('query', e.target.value)}
+              placeholder="Order, customer, email, phone"
+              className="pl-9"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="statusFilter">Status</Label>
+          <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+            <SelectTrigger id="statusFilter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {orderStatusSteps.map(step => (
+                <SelectItem key={step.status} value={step.status}>{step.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="paymentFilter">Payment</Label>
+          <Select value={filters.paymentStatus} onValueChange={(value) => updateFilter('paymentStatus', value)}>
+            <SelectTrigger id="paymentFilter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All payments</SelectItem>
+              <SelectItem value="paid">Paid</SelectItem>
+              <SelectItem value="pending">Awaiting payment</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="fromFilter">From</Label>
+            <Input id="fromFilter" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="toFilter">To</Label>
+            <Input id="toFilter" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+          </div>
+        </div>
+      </div>
+      
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {filteredOrders.length} of {orders.length} orders
+          {JSON.stringify(filters) !== JSON.stringify(emptyFilters) && (
+            <button type="button" onClick={() => setFilters(emptyFilters)} className="ml-2 text-brand-blue hover:underline">
+              Clear filters
+            </button>
+          )}
+        </p>
+        <Button variant="outline" onClick={handleExport} disabled={filteredOrders.length === 0} className="gap-2">
+          <Download size={16} />
+          Export CSV
+        </Button>
+      </div>
+      
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Payment</TableHead>
+              <TableHead>Proof</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-gray-500">Loading orders...</TableCell>
+              </TableRow>
+            ) : filteredOrders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-gray-500">No orders match these filters</TableCell>
+              </TableRow>
+            ) : filteredOrders.map(order => (
+              <TableRow key={order.id}>
+                <TableCell>
+                  <p className="font-medium">{order.id}</p>
+                  <p className="text-xs text-gray-500">{new Date(order.date).toLocaleString('en-GB')}</p>
+                </TableCell>
+                <TableCell>
+                  <p>{order.customerName}</p>
+                  <p className="text-xs text-gray-500">{order.email}</p>
+                  {order.phone && <p className="text-xs text-gray-500">{formatMoroccanPhone(order.phone)}</p>}
+                </TableCell>
+                <TableCell>{order.items.reduce((count, item) => count + item.quantity, 0)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{order.total.toFixed(2)} DHS</TableCell>
+                <TableCell>
+                  <p className="text-sm">{paymentMethodRegistry.getLabel(order.paymentMethod)}</p>
+                  <Badge variant={order.paymentStatus === 'paid' ? 'default' : 'outline'}>
+                    {order.paymentStatus === 'paid' ? 'Paid' : 'Pending'}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {order.proof ? (
+                    <>
+                      <p>{`Rev. ${order.proof.revisions.length} • ${order.proof.status.replace('_', ' ')}`}</p>
+                      {order.proof.status !== 'approved' && (
+                        <button type="button" onClick={() => setProofOrder(order)} className="text-xs text-brand-blue hover:underline">
+                          {order.proof.status === 'changes_requested' ? 'Send corrected proof' : 'Manage proof'}
+                        </button>
+                      )}
+                    </>
+                  ) : '—'}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{getOrderStatusStep(orderTrackingService.getStatus(order))?.label}</Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setProductionOrder(order)}>
+                      Production proof
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditedOrder(order)}>
+                      Update
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      
+      <OrderStatusDialog
+        order={editedOrder}
+        onClose={() => setEditedOrder(null)}
+        onUpdated={handleOrderUpdated}
+      />
+      
+      <ProofRevisionDialog
+        order={proofOrder}
+        onClose={() => setProofOrder(null)}
+        onUpdated={handleOrderUpdated}
+      />
+      
+      <ProductionProofDialog
+        order={productionOrder}
+        onClose={() => setProductionOrder(null)}
+      />
+    </div>
+  );
+};
+
+export default OrdersPanel;
@@ -0,0 +1,300 @@
+import React, { useEffect } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Product, ProductVariant } from '@/types';
+import { catalogRepository } from '@/services/CatalogRepository';
+
+const variantSchema = z.object({
+  sku: z.string().min(1),
+  options: z.object({
+    size: z.string().regex(/^\d+(\.\d+)?(x\d+(\.\d+)?)?mm$/).optional(),
+    bodyColor: z.string().optional(),
+    inkColor: z.string().optional(),
+    padSize: z.string().optional(),
+    daterLanguage: z.string().optional()
+  }).strict(),
+  priceDelta: z.number().optional(),
+  image: z.string().optional(),
+  stock: z.number().int().min(0).optional(),
+  lines: z.number().int().min(1).optional()
+});
+
+// Empty for a product without variants; null when the JSON is not valid
+const parseVariants = (value: string): ProductVariant[] | undefined | null => {
+  if (!value.trim()) return undefined;
+  try {
+    const result = z.array(variantSchema).safeParse(JSON.parse(value));
+    if (!result.success) return null;
+    const skus = result.data.map(variant => variant.sku);
+    return new Set(skus).size === skus.length ? result.data as ProductVariant[] : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const productSchema = z.object({
+  id: z.string().trim().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'Name is required'),
+  brand: z.string().trim().min(1, 'Brand is required'),
+  model: z.string().trim().min(1, 'Model is required'),
+  price: z.coerce.number().positive('Price must be greater than 0'),
+  size: z.string().trim().regex(/^\d+(\.\d+)?(x\d+(\.\d+)?)?mm$/, 'Use the format 38x14mm, or 40mm for round stamps'),
+  lines: z.coerce.number().int().min(1, 'At least 1 line'),
+  shape: z.enum(['rectangle', 'circle', 'square']),
+  colors: z.string().trim().min(1, 'Add at least one body colour'),
+  inkColors: z.string().trim().min(1, 'Add at least one ink colour'),
+  images: z.string().trim().min(1, 'Add at least one image'),
+  description: z.string().trim().min(1, 'Description is required'),
+  stock: z.string().trim().regex(/^\d*$/, 'Leave empty or enter a whole number'),
+  inkStock: z.string().trim().regex(/^([a-z]+\s*:\s*\d+\s*(,\s*|$))*$/, 'Use the format blue: 10, black: 4'),
+  lowStockThreshold: z.string().trim().regex(/^\d*$/, 'Leave empty or enter a whole number'),
+  backorderLeadDays: z.string().trim().regex(/^\d*$/, 'Leave empty or enter a number of business days'),
+  featured: z.boolean(),
+  variants: z.string().refine(value => parseVariants(value) !== null, {
+    message: 'Enter a JSON array of variants with a unique sku and options (size, bodyColor, inkColor, padSize, daterLanguage)'
+  })
+});
+
+type ProductFormData = z.infer<typeof productSchema>;
+
+interface ProductEditorProps {
+  // undefined when the dialog is closed, null to create a new product
+  product: Product | null | undefined;
+  onClose: () => void;
+}
+
+const splitList = (value: string, separator: RegExp) =>
+  value.split(separator).map(entry => entry.trim()).filter(Boolean);
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const parseInkStock = (value: string): Record<string, number> | undefined => {
+  const entries = splitList(value, /,/).map(entry => entry.split(':').map(part => part.trim()));
+  return entries.length > 0
+    ? Object.fromEntries(entries.map(([inkColor, quantity]) => [inkColor, Number(quantity)]))
+    : undefined;
+};
+
+const toFormData = (product: Product | null): ProductFormData => ({
+  id: product?.id || '',
+  name: product?.name || '',
+  brand: product?.brand || '',
+  model: product?.model || '',
+  price: product?.price || 0,
+  size: product?.size || '',
+  lines: product?.lines || 1,
+  shape: product?.shape || 'rectangle',
+  colors: (product?.colors || []).join(', '),
+  inkColors: (product?.inkColors || []).join(', '),
+  images: (product?.images || []).join('\n'),
+  description: product?.description || '',
+  stock: product?.stock !== undefined ? String(product.stock) : '',
+  inkStock: Object.entries(product?.inkStock || {}).map(([inkColor, quantity]) => `${inkColor}: ${quantity}`).join(', '),
+  lowStockThreshold: product?.lowStockThreshold !== undefined ? String(product.lowStockThreshold) : '',
+  backorderLeadDays: product?.backorderLeadDays !== undefined ? String(product.backorderLeadDays) : '',
+  featured: product?.featured || false,
+  variants: product?.variants?.length ? JSON.stringify(product.variants, null, 2) : ''
+});
+
+const ProductEditor: React.FC<ProductEditorProps> = ({ product, onClose }) => {
+  const isNew = product === null;
+  const { register, control, handleSubmit, reset, setError, formState: { errors, isSubmitting } } = useForm<ProductFormData>({
+    resolver: zodResolver(productSchema),
+    defaultValues: toFormData(null)
+  });
+
+  useEffect(() => {
+    if (product !== undefined) reset(toFormData(product));
+  }, [product, reset]);
+
+  const onSubmit = async (data: ProductFormData) => {
+    if (isNew && catalogRepository.getProductById(data.id)) {
+      setError('id', { message: 'A product with this id already exists' });
+      return;
+    }
+
+    const savedProduct: Product = {
+      ...product,
+      id: data.id,
+      name: data.name,
+      brand: data.brand,
+      model: data.model,
+      price: data.price,
+      size: data.size,
+      lines: data.lines,
+      shape: data.shape,
+      colors: splitList(data.colors, /,/),
+      inkColors: splitList(data.inkColors, /,/),
+      images: splitList(data.images, /\n/),
+      description: data.description,
+      stock: toOptionalNumber(data.stock),
+      inkStock: parseInkStock(data.inkStock),
+      lowStockThreshold: toOptionalNumber(data.lowStockThreshold),
+      backorderLeadDays: toOptionalNumber(data.backorderLeadDays),
+      featured: data.featured,
+      variants: parseVariants(data.variants)
+    };
+
+    try {
+      await catalogRepository.saveProduct(savedProduct);
+      toast.success(`${savedProduct.name} saved`);
+      onClose();
+    } catch (error) {
+      console.error('Error saving product:', error);
+      toast.error('The product could not be saved');
+    }
+  };
+
+  const fieldError = (name: keyof ProductFormData) =>
+    errors[name] && <p className="text-destructive text-sm mt-1">{errors[name].message as string}</p>;
+
+  return (
+    <Dialog open={product !== undefined} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'New product' : `Edit ${product?.name}`}</DialogTitle>
+        </DialogHeader>
+        
+        <form id="productForm" onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="productId">Id</Label>
+            <Input id="productId" {...register('id')} disabled={!isNew} placeholder="trodat-printy-4912" />
+            {fieldError('id')}
+          </div>
+          <div>
+            <Label htmlFor="productName">Name</Label>
+            <Input id="productName" {...register('name')} />
+            {fieldError('name')}
+          </div>
+          <div>
+            <Label htmlFor="productBrand">Brand</Label>
+            <Input id="productBrand" {...register('brand')} />
+            {fieldError('brand')}
+          </div>
+          <div>
+            <Label htmlFor="productModel">Model</Label>
+            <Input id="productModel" {...register('model')} />
+            {fieldError('model')}
+          </div>
+          <div>
+            <Label htmlFor="productPrice">Price (DHS TTC)</Label>
+            <Input id="productPrice" type="number" step="0.01" min="0" {...register('price')} />
+            {fieldError('price')}
+          </div>
+          <div>
+            <Label htmlFor="productStock">Stock</Label>
+            <Input id="productStock" inputMode="numeric" {...register('stock')} placeholder="Not tracked" />
+            {fieldError('stock')}
+          </div>
+          <div>
+            <Label htmlFor="productSize">Size</Label>
+            <Input id="productSize" {...register('size')} placeholder="38x14mm" />
+            {fieldError('size')}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="productLines">Lines</Label>
+              <Input id="productLines" type="number" min="1" {...register('lines')} />
+              {fieldError('lines')}
+            </div>
+            <div>
+              <Label htmlFor="productShape">Shape</Label>
+              <Controller
+                control={control}
+                name="shape"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger id="productShape">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rectangle">Rectangle</SelectItem>
+                      <SelectItem value="square">Square</SelectItem>
+                      <SelectItem value="circle">Circle</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="productColors">Body colours</Label>
+            <Input id="productColors" {...register('colors')} placeholder="black, blue" />
+            {fieldError('colors')}
+          </div>
+          <div>
+            <Label htmlFor="productInkColors">Ink colours</Label>
+            <Input id="productInkColors" {...register('inkColors')} placeholder="blue, black, red" />
+            {fieldError('inkColors')}
+          </div>
+          <div>
+            <Label htmlFor="productInkStock">Stock per ink colour</Label>
+            <Input id="productInkStock" {...register('inkStock')} placeholder="blue: 10, black: 4" />
+            {fieldError('inkStock')}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="productLowStock">Low stock at</Label>
+              <Input id="productLowStock" inputMode="numeric" {...register('lowStockThreshold')} placeholder="5" />
+              {fieldError('lowStockThreshold')}
+            </div>
+            <div>
+              <Label htmlFor="productBackorder">Back-order days</Label>
+              <Input id="productBackorder" inputMode="numeric" {...register('backorderLeadDays')} placeholder="No back-order" />
+              {fieldError('backorderLeadDays')}
+            </div>
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="productImages">Images (one URL per line)</Label>
+            <Textarea id="productImages" rows={3} {...register('images')} />
+            {fieldError('images')}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="productDescription">Description</Label>
+            <Textarea id="productDescription" rows={3} {...register('description')} />
+            {fieldError('description')}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="productVariants">Variants (JSON)</Label>
+            <Textarea
+              id="productVariants"
+              rows={6}
+              className="font-mono text-xs"
+              {...register('variants')}
+              placeholder='[{ "sku": "TR-4912-RED-BLU", "options": { "bodyColor": "red", "inkColor": "blue" }, "priceDelta": 0, "stock": 10 }]'
+            />
+            {fieldError('variants')}
+          </div>
+          <div className="flex items-center gap-2">
+            <Controller
+              control={control}
+              name="featured"
+              render={({ field }) => (
+                <Switch id="productFeatured" checked={field.value} onCheckedChange={field.onChange} />
+              )}
+            />
+            <Label htmlFor="productFeatured">Featured on the home page</Label>
+          </div>
+        </form>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" form="productForm" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save product'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductEditor;
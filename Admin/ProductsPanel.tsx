@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Download, FileCode, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Product } from '@/types';
+import { useCatalog } from '@/hooks/useCatalog';
+import { catalogRepository } from '@/services/CatalogRepository';
+import { inventoryService } from '@/services/InventoryService';
+import { CsvColumn, downloadCsv, toCsv } from '@/utils/csv';
+import { downloadSitemap } from '@/utils/sitemap';
+import StockBadge from '../common/StockBadge';
+import ProductEditor from './ProductEditor';
+
+const productCsvColumns: CsvColumn<Product>[] = [
+  { header: 'Id', value: product => product.id },
+  { header: 'Name', value: product => product.name },
+  { header: 'Brand', value: product => product.brand },
+  { header: 'Model', value: product => product.model },
+  { header: 'Price TTC', value: product => product.price.toFixed(2) },
+  { header: 'Size', value: product => product.size },
+  { header: 'Lines', value: product => product.lines },
+  { header: 'Shape', value: product => product.shape },
+  { header: 'Body colours', value: product => product.colors.join(', ') },
+  { header: 'Ink colours', value: product => product.inkColors.join(', ') },
+  { header: 'Stock', value: product => inventoryService.getAvailableQuantity(product) },
+  { header: 'Stock per ink colour', value: product => Object.entries(product.inkStock || {}).map(([inkColor, quantity]) => `${inkColor}: ${quantity}`).join(', ') },
+  { header: 'Availability', value: product => inventoryService.getLabel(inventoryService.getProductAvailability(product)) },
+  { header: 'Variants', value: product => (product.variants || []).map(variant => variant.sku).join(', ') },
+  { header: 'Featured', value: product => (product.featured ? 'yes' : 'no') }
+];
+
+const ProductsPanel: React.FC = () => {
+  const { products } = useCatalog();
+  // undefined: editor closed, null: new product
+  const [editedProduct, setEditedProduct] = useState<Product | null | undefined>(undefined);
+
+  const handleFeaturedChange = async (product: Product, featured: boolean) => {
+    try {
+      await catalogRepository.saveProduct({ ...product, featured });
+    } catch (error) {
+      console.error('Error saving product:', error);
+      toast.error('The product could not be saved');
+    }
+  };
+
+  const handleDelete = async (product: Product) => {
+    if (!window.confirm(`Delete ${product.name} from the catalogue?`)) return;
+    try {
+      await catalogRepository.deleteProduct(product.id);
+      toast.success(`${product.name} deleted`);
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      toast.error('The product could not be deleted');
+    }
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadCsv(`products-${date}.csv`, toCsv(products, productCsvColumns));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">{products.length} products</p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExport} className="gap-2">
+            <Download size={16} />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => downloadSitemap(products)} className="gap-2">
+            <FileCode size={16} />
+            sitemap.xml
+          </Button>
+          <Button onClick={() => setEditedProduct(null)} className="gap-2">
+            <Plus size={16} />
+            New product
+          </Button>
+        </div>
+      </div>
+      
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>Ink colours</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Stock</TableHead>
+              <TableHead>Featured</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {products.map(product => (
+              <TableRow key={product.id}>
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    {product.images[0] && (
+                      <img src={product.images[0]} alt="" className="w-10 h-10 object-contain rounded border" />
+                    )}
+                    <div>
+                      <p className="font-medium">{product.name}</p>
+                      <p className="text-xs text-gray-500">{product.id}</p>
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell>{product.size}</TableCell>
+                <TableCell className="capitalize">{product.inkColors.join(', ')}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">{product.price.toFixed(2)} DHS</TableCell>
+                <TableCell className="text-right">
+                  <p>{inventoryService.getAvailableQuantity(product) ?? '—'}</p>
+                  <StockBadge availability={inventoryService.getProductAvailability(product)} />
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={!!product.featured}
+                    onCheckedChange={(checked) => handleFeaturedChange(product, checked)}
+                    aria-label={`Feature ${product.name}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1 justify-end">
+                    <Button size="icon" variant="ghost" onClick={() => setEditedProduct(product)} aria-label={`Edit ${product.name}`}>
+                      <Pencil size={16} />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => handleDelete(product)} aria-label={`Delete ${product.name}`}>
+                      <Trash2 size={16} className="text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      
+      <ProductEditor product={editedProduct} onClose={() => setEditedProduct(undefined)} />
+    </div>
+  );
+};
+
+export default ProductsPanel;
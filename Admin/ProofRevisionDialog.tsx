@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Order, ProofArtwork } from '@/types';
+import { proofApprovalService } from '@/services/ProofApprovalService';
+import ProofArtworkView from '../Orders/ProofArtworkView';
+
+interface ProofRevisionDialogProps {
+  order: Order | null;
+  onClose: () => void;
+  onUpdated: (order: Order) => void;
+}
+
+const readImage = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Workshop side of the proof: upload the corrected artwork as the next revision for the customer to approve
+const ProofRevisionDialog: React.FC<ProofRevisionDialogProps> = ({ order, onClose, onUpdated }) => {
+  // Corrected proof image per order line; lines left out keep their current artwork
+  const [images, setImages] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setImages({});
+    setNote('');
+  }, [order]);
+
+  const currentRevision = order ? proofApprovalService.getCurrentRevision(order) : undefined;
+
+  const handleFileChange = async (lineId: string, file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error('Upload the proof as an image, e.g. PNG or SVG.');
+      return;
+    }
+    try {
+      const image = await readImage(file);
+      setImages(current => ({ ...current, [lineId]: image }));
+    } catch (error) {
+      console.error('Error reading proof image:', error);
+      toast.error('The image could not be read.');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!order) return;
+
+    const artwork: ProofArtwork[] = order.items.map(item => {
+      const current = currentRevision?.artwork.find(entry => entry.lineId === item.id) || proofApprovalService.toArtwork(item);
+      // The uploaded image replaces the design, which no longer matches the corrected proof
+      return images[item.id]
+        ? { lineId: item.id, previewImage: images[item.id], customText: current.customText }
+        : current;
+    });
+
+    setIsSaving(true);
+    try {
+      const updatedOrder = await proofApprovalService.addRevision(order.id, artwork, note.trim() || undefined);
+      const revision = proofApprovalService.getCurrentRevision(updatedOrder);
+      toast.success(`Proof revision ${revision?.number} of ${order.id} sent for approval`);
+      onUpdated(updatedOrder);
+    } catch (error) {
+      console.error('Error sending proof revision:', error);
+      toast.error(error instanceof Error ? error.message : 'The proof could not be sent.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!order) return;
+    try {
+      await navigator.clipboard.writeText(proofApprovalService.getProofUrl(order));
+      toast.success('Proof link copied');
+    } catch (error) {
+      console.error('Error copying proof link:', error);
+      toast.error('The link could not be copied.');
+    }
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Proof of {order?.id}</DialogTitle>
+        </DialogHeader>
+
+        {currentRevision && (
+          <div className="text-sm rounded-md bg-gray-50 p-3">
+            <p className="font-medium">
+              Revision {currentRevision.number} • {currentRevision.status.replace('_', ' ')}
+            </p>
+            {currentRevision.comment && (
+              <p className="text-gray-700 mt-1 whitespace-pre-line">Customer: "{currentRevision.comment}"</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {order?.items.map(item => {
+            const current = currentRevision?.artwork.find(entry => entry.lineId === item.id);
+            return (
+              <div key={item.id} className="border rounded-md p-3">
+                <p className="font-medium text-sm mb-2">{item.quantity} x {item.product.name}</p>
+                <div className="grid grid-cols-2 gap-3 items-center">
+                  <div className="bg-white flex justify-center">
+                    {images[item.id] ? (
+                      <img src={images[item.id]} alt={`Corrected proof of ${item.product.name}`} className="max-w-full h-auto" />
+                    ) : current ? (
+                      <ProofArtworkView artwork={current} product={item.product} />
+                    ) : null}
+                  </div>
+                  <div>
+                    <Label htmlFor={`proofImage-${item.id}`}>Corrected proof</Label>
+                    <Input
+                      id={`proofImage-${item.id}`}
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handleFileChange(item.id, e.target.files?.[0])}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Leave empty to send this line unchanged.</p>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <div>
+            <Label htmlFor="proofNote">Message for the customer</Label>
+            <Textarea
+              id="proofNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What was changed in this revision"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleCopyLink}>Copy proof link</Button>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSend} disabled={isSaving || Object.keys(images).length === 0}>
+            {isSaving ? 'Sending...' : `Send revision ${(currentRevision?.number || 0) + 1}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProofRevisionDialog;
@@ -0,0 +1,230 @@
+import React, { useEffect } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { StampTemplate, TextZone } from '@/types/designTemplates';
+import { catalogRepository } from '@/services/CatalogRepository';
+
+const categories = ['business', 'circular', 'official', 'square', 'specialty'];
+const subcategories = [
+  'address', 'transaction', 'signature', 'financial', 'notary', 'government',
+  'legal', 'medical', 'educational', 'technical', 'personal'
+];
+const borderStyles = ['single', 'double', 'triple', 'none'] as const;
+
+const textZoneSchema = z.object({
+  name: z.string().min(1),
+  position: z.string().min(1),
+  fontSize: z.number().positive(),
+  bold: z.boolean(),
+  alignment: z.enum(['left', 'center', 'right']),
+  curved: z.boolean(),
+  curvature: z.enum(['top', 'bottom']).optional(),
+  maxLines: z.number().int().positive().optional(),
+  lineHeight: z.number().positive().optional(),
+  placeholder: z.string().optional()
+});
+
+const parseTextZones = (value: string): TextZone[] | null => {
+  try {
+    const result = z.array(textZoneSchema).min(1).safeParse(JSON.parse(value));
+    return result.success ? (result.data as TextZone[]) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const templateSchema = z.object({
+  id: z.string().trim().regex(/^[a-z0-9-]+$/, 'Use lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim().min(1, 'Description is required'),
+  category: z.string().min(1),
+  subcategory: z.string(),
+  shape: z.enum(['rectangle', 'circle', 'square']),
+  borderStyle: z.enum(borderStyles),
+  textZones: z.string().refine(value => parseTextZones(value) !== null, {
+    message: 'Enter a JSON array of text zones with name, position, fontSize, bold, alignment and curved'
+  }),
+  recommendedFonts: z.string().trim().min(1, 'Add at least one font'),
+  compatibility: z.string().trim().min(1, 'Add at least one compatible shape'),
+  purpose: z.string().trim().min(1, 'Purpose is required'),
+  popularity: z.coerce.number().min(0, 'Between 0 and 1').max(1, 'Between 0 and 1')
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+interface TemplateEditorProps {
+  // undefined when the dialog is closed, null to create a new template
+  template: StampTemplate | null | undefined;
+  onClose: () => void;
+}
+
+const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const toFormData = (template: StampTemplate | null): TemplateFormData => ({
+  id: template?.id || '',
+  name: template?.name || '',
+  description: template?.description || '',
+  category: template?.category || 'business',
+  subcategory: template?.subcategory || 'none',
+  shape: (template?.shape as TemplateFormData['shape']) || 'rectangle',
+  borderStyle: template?.borderStyle || 'single',
+  textZones: JSON.stringify(template?.textZones || [
+    { name: 'text', position: 'middle', fontSize: 14, bold: false, alignment: 'center', curved: false }
+  ], null, 2),
+  recommendedFonts: (template?.recommendedFonts || ['Arial']).join(', '),
+  compatibility: (template?.compatibility || ['rectangle']).join(', '),
+  purpose: template?.purpose || '',
+  popularity: template?.popularity ?? 0.5
+});
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onClose }) => {
+  const isNew = template === null;
+  const { register, control, handleSubmit, reset, setError, formState: { errors, isSubmitting } } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: toFormData(null)
+  });
+
+  useEffect(() => {
+    if (template !== undefined) reset(toFormData(template));
+  }, [template, reset]);
+
+  const onSubmit = async (data: TemplateFormData) => {
+    if (isNew && catalogRepository.getTemplateById(data.id)) {
+      setError('id', { message: 'A template with this id already exists' });
+      return;
+    }
+
+    const savedTemplate: StampTemplate = {
+      ...template,
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      category: data.category,
+      subcategory: data.subcategory === 'none' ? undefined : data.subcategory as StampTemplate['subcategory'],
+      shape: data.shape,
+      borderStyle: data.borderStyle,
+      textZones: parseTextZones(data.textZones),
+      recommendedFonts: splitList(data.recommendedFonts),
+      compatibility: splitList(data.compatibility),
+      purpose: data.purpose,
+      popularity: data.popularity
+    };
+
+    try {
+      await catalogRepository.saveTemplate(savedTemplate);
+      toast.success(`${savedTemplate.name} saved`);
+      onClose();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error('The template could not be saved');
+    }
+  };
+
+  const fieldError = (name: keyof TemplateFormData) =>
+    errors[name] && <p className="text-destructive text-sm mt-1">{errors[name].message as string}</p>;
+
+  const renderSelect = (name: 'category' | 'subcategory' | 'shape' | 'borderStyle', options: readonly string[]) => (
+    <Controller
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <Select value={field.value} onValueChange={field.onChange}>
+          <SelectTrigger id={`template-${name}`} className="capitalize">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={template !== undefined} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? 'New template' : `Edit ${template?.name}`}</DialogTitle>
+        </DialogHeader>
+        
+        <form id="templateForm" onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="templateId">Id</Label>
+            <Input id="templateId" {...register('id')} disabled={!isNew} placeholder="business-classic" />
+            {fieldError('id')}
+          </div>
+          <div>
+            <Label htmlFor="templateName">Name</Label>
+            <Input id="templateName" {...register('name')} />
+            {fieldError('name')}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Input id="templateDescription" {...register('description')} />
+            {fieldError('description')}
+          </div>
+          <div>
+            <Label htmlFor="template-category">Category</Label>
+            {renderSelect('category', categories)}
+          </div>
+          <div>
+            <Label htmlFor="template-subcategory">Subcategory</Label>
+            {renderSelect('subcategory', ['none', ...subcategories])}
+          </div>
+          <div>
+            <Label htmlFor="template-shape">Shape</Label>
+            {renderSelect('shape', ['rectangle', 'square', 'circle'])}
+          </div>
+          <div>
+            <Label htmlFor="template-borderStyle">Border</Label>
+            {renderSelect('borderStyle', borderStyles)}
+          </div>
+          <div>
+            <Label htmlFor="templatePurpose">Purpose</Label>
+            <Input id="templatePurpose" {...register('purpose')} placeholder="business" />
+            {fieldError('purpose')}
+          </div>
+          <div>
+            <Label htmlFor="templatePopularity">Popularity (0 to 1)</Label>
+            <Input id="templatePopularity" type="number" step="0.05" min="0" max="1" {...register('popularity')} />
+            {fieldError('popularity')}
+          </div>
+          <div>
+            <Label htmlFor="templateFonts">Recommended fonts</Label>
+            <Input id="templateFonts" {...register('recommendedFonts')} placeholder="Arial, Roboto" />
+            {fieldError('recommendedFonts')}
+          </div>
+          <div>
+            <Label htmlFor="templateCompatibility">Compatible shapes</Label>
+            <Input id="templateCompatibility" {...register('compatibility')} placeholder="rectangle, square" />
+            {fieldError('compatibility')}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="templateTextZones">Text zones (JSON)</Label>
+            <Textarea id="templateTextZones" rows={10} className="font-mono text-xs" {...register('textZones')} />
+            {fieldError('textZones')}
+          </div>
+        </form>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button type="submit" form="templateForm" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StampTemplate } from '@/types/designTemplates';
+import { useCatalog } from '@/hooks/useCatalog';
+import { catalogRepository } from '@/services/CatalogRepository';
+import TemplateEditor from './TemplateEditor';
+
+const TemplatesPanel: React.FC = () => {
+  const { templates } = useCatalog();
+  // undefined: editor closed, null: new template
+  const [editedTemplate, setEditedTemplate] = useState<StampTemplate | null | undefined>(undefined);
+
+  const handleDelete = async (template: StampTemplate) => {
+    if (!window.confirm(`Delete the ${template.name} template?`)) return;
+    try {
+      await catalogRepository.deleteTemplate(template.id);
+      toast.success(`${template.name} deleted`);
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error('The template could not be deleted');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">{templates.length} templates</p>
+        <Button onClick={() => setEditedTemplate(null)} className="gap-2">
+          <Plus size={16} />
+          New template
+        </Button>
+      </div>
+      
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Template</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Shape</TableHead>
+              <TableHead className="text-right">Text zones</TableHead>
+              <TableHead className="text-right">Popularity</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.map(template => (
+              <TableRow key={template.id}>
+                <TableCell>
+                  <p className="font-medium">{template.name}</p>
+                  <p className="text-xs text-gray-500">{template.description}</p>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className="capitalize">{template.category}</Badge>
+                  {template.subcategory && (
+                    <span className="ml-2 text-xs text-gray-500 capitalize">{template.subcategory}</span>
+                  )}
+                </TableCell>
+                <TableCell className="capitalize">{template.shape}</TableCell>
+                <TableCell className="text-right">{template.textZones.length}</TableCell>
+                <TableCell className="text-right">{Math.round(template.popularity * 100)}%</TableCell>
+                <TableCell>
+                  <div className="flex gap-1 justify-end">
+                    <Button size="icon" variant="ghost" onClick={() => setEditedTemplate(template)} aria-label={`Edit ${template.name}`}>
+                      <Pencil size={16} />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => handleDelete(template)} aria-label={`Delete ${template.name}`}>
+                      <Trash2 size={16} className="text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      
+      <TemplateEditor template={editedTemplate} onClose={() => setEditedTemplate(undefined)} />
+    </div>
+  );
+};
+
+export default TemplatesPanel;
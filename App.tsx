@@ -15,11 +15,19 @@ const LoadingFallback = () => (
 // Lazy loaded components
 const Index = lazy(() => import('./pages/Index'));
 const Products = lazy(() => import('./pages/Products'));
+const ProductDetail = lazy(() => import('./pages/ProductDetail'));
+const Compare = lazy(() => import('./pages/Compare'));
+const StampFinder = lazy(() => import('./pages/StampFinder'));
 const Contact = lazy(() => import('./pages/Contact'));
 const DesignStamp = lazy(() => import('./pages/DesignStamp'));
 const Cart = lazy(() => import('./pages/Cart'));
 const Checkout = lazy(() => import('./pages/Checkout'));
 const OrderConfirmation = lazy(() => import('./pages/OrderConfirmation'));
+const Orders = lazy(() => import('./pages/Orders'));
+const OrderDetail = lazy(() => import('./pages/OrderDetail'));
+const TrackOrder = lazy(() => import('./pages/TrackOrder'));
+const ProofApproval = lazy(() => import('./pages/ProofApproval'));
+const Admin = lazy(() => import('./pages/Admin'));
 const NotFound = lazy(() => import('./pages/NotFound'));
 
 function App() {
@@ -30,11 +38,19 @@ function App() {
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/products" element={<Products />} />
+            <Route path="/products/:id" element={<ProductDetail />} />
+            <Route path="/compare" element={<Compare />} />
+            <Route path="/stamp-finder" element={<StampFinder />} />
             <Route path="/contact" element={<Contact />} />
             <Route path="/design" element={<DesignStamp />} />
             <Route path="/cart" element={<Cart />} />
             <Route path="/checkout" element={<Checkout />} />
             <Route path="/order-confirmation" element={<OrderConfirmation />} />
+            <Route path="/orders" element={<Orders />} />
+            <Route path="/orders/:id" element={<OrderDetail />} />
+            <Route path="/track" element={<TrackOrder />} />
+            <Route path="/proof/:id" element={<ProofApproval />} />
+            <Route path="/admin" element={<Admin />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </Suspense>
@@ -1,53 +1,27 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { useFormContext } from 'react-hook-form';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Button } from '@/components/ui/button';
-import { CheckCircle2, CreditCard } from 'lucide-react';
+import { CheckCircle2 } from 'lucide-react';
+import { PaymentAmounts } from '@/services/PaymentMethodRegistry';
+import { paymentMethodRegistry } from './paymentMethods';
 
 interface BillingFormProps {
   onBack: () => void;
   onContinue: () => void;
+  paymentAmounts: PaymentAmounts;
 }
 
-const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue }) => {
-  const { register, formState: { errors }, watch, setValue, trigger } = useFormContext();
+const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue, paymentAmounts }) => {
+  const { register, formState: { errors }, watch, setValue, setError, trigger } = useFormContext();
   const sameAsShipping = watch('sameAsShipping');
+  const isCompany = watch('isCompany');
   const paymentMethod = watch('paymentMethod');
-  
-  // Credit card form state (in a real implementation, you'd use a secure payment processor)
-  const [cardNumber, setCardNumber] = useState('');
-  const [expiry, setExpiry] = useState('');
-  const [cvc, setCvc] = useState('');
-  
-  const formatCardNumber = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    const matches = v.match(/\d{4,16}/g);
-    const match = (matches && matches[0]) || '';
-    const parts = [];
-    
-    for (let i = 0, len = match.length; i < len; i += 4) {
-      parts.push(match.substring(i, i + 4));
-    }
-    
-    if (parts.length) {
-      return parts.join(' ');
-    } else {
-      return value;
-    }
-  };
-  
-  const formatExpiry = (value: string) => {
-    const v = value.replace(/\s+/g, '').replace(/[^0-9]/gi, '');
-    
-    if (v.length >= 3) {
-      return `${v.substring(0, 2)}/${v.substring(2, 4)}`;
-    }
-    return v;
-  };
+  const availableMethods = paymentMethodRegistry.getAvailable(paymentAmounts);
   
   const handleSameAsShippingChange = (checked: boolean) => {
     setValue('sameAsShipping', checked);
@@ -56,12 +30,22 @@ const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue }) => {
       setValue('billingFullName', '');
       setValue('billingAddress', '');
       setValue('billingCity', '');
-      setValue('billingState', '');
+      setValue('billingRegion', '');
       setValue('billingPostalCode', '');
       setValue('billingCountry', '');
     }
   };
   
+  const handleIsCompanyChange = (checked: boolean) => {
+    setValue('isCompany', checked);
+    if (!checked) {
+      setValue('companyName', '');
+      setValue('companyIce', '');
+      setValue('companyIf', '');
+      setValue('companyRc', '');
+    }
+  };
+  
   const handlePaymentMethodChange = (value: string) => {
     setValue('paymentMethod', value);
   };
@@ -70,13 +54,10 @@ const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue }) => {
     // Validate billing info if not same as shipping
     let fieldsToValidate = ['paymentMethod'];
     
-    if (paymentMethod === 'credit_card') {
-      fieldsToValidate = [...fieldsToValidate, 'cardNumber', 'cardExpiry', 'cardCVC', 'cardholderName'];
-      
-      // Set credit card details for validation
-      setValue('cardNumber', cardNumber);
-      setValue('cardExpiry', expiry);
-      setValue('cardCVC', cvc);
+    // The selected method contributes its own fields
+    const selectedMethod = paymentMethodRegistry.get(paymentMethod);
+    if (selectedMethod) {
+      fieldsToValidate = [...fieldsToValidate, ...selectedMethod.fields];
     }
     
     if (!sameAsShipping) {
@@ -85,14 +66,23 @@ const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue }) => {
         'billingFullName', 
         'billingAddress', 
         'billingCity', 
-        'billingState', 
+        'billingRegion', 
         'billingPostalCode', 
         'billingCountry'
       ];
     }
     
+    if (isCompany) {
+      fieldsToValidate = [...fieldsToValidate, 'companyName', 'companyIce', 'companyIf', 'companyRc'];
+    }
+    
     const isValid = await trigger(fieldsToValidate);
     
+    if (!availableMethods.some(method => method.id === paymentMethod)) {
+      setError('paymentMethod', { message: 'This payment method is not available for your order' });
+      return;
+    }
+    
     if (isValid) {
       onContinue();
     }
@@ -160,16 +150,16 @@ const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue }) => {
               </div>
               
               <div>
-                <Label htmlFor="billingState" className={errors.billingState ? "text-destructive" : ""}>
-                  State/Province*
+                <Label htmlFor="billingRegion" className={errors.billingRegion ? "text-destructive" : ""}>
+                  Region*
                 </Label>
                 <Input
-                  id="billingState"
-                  {...register('billingState')}
-                  className={errors.billingState ? "border-destructive" : ""}
+                  id="billingRegion"
+                  {...register('billingRegion')}
+                  className={errors.billingRegion ? "border-destructive" : ""}
                 />
-                {errors.billingState && (
-                  <p className="text-destructive text-sm mt-1">{errors.billingState.message as string}</p>
+                {errors.billingRegion && (
+                  <p className="text-destructive text-sm mt-1">{errors.billingRegion.message as string}</p>
                 )}
               </div>
               
@@ -206,111 +196,114 @@ const BillingForm: React.FC<BillingFormProps> = ({ onBack, onContinue }) => {
         )}
       </div>
       
-      <div className="mt-8">
-        <h3 className="text-lg font-medium mb-4">Payment Method</h3>
-        
-        <RadioGroup 
-          className="space-y-3" 
-          value={paymentMethod} 
-          onValueChange={handlePaymentMethodChange}
-          defaultValue="credit_card"
-        >
-          <div className={`flex items-start p-3 rounded-md border ${paymentMethod === 'credit_card' ? 'border-brand-blue bg-brand-blue/5' : 'border-gray-200'}`}>
-            <RadioGroupItem value="credit_card" id="payment-card" className="mt-1" />
-            <Label htmlFor="payment-card" className="flex flex-1 ml-3 cursor-pointer">
-              <div>
-                <p className="font-medium">Credit Card</p>
-                <p className="text-sm text-gray-500">Pay securely with your credit card</p>
-              </div>
-            </Label>
-            {paymentMethod === 'credit_card' && (
-              <CheckCircle2 className="h-5 w-5 text-brand-blue ml-2" />
-            )}
-          </div>
-          
-          <div className={`flex items-start p-3 rounded-md border ${paymentMethod === 'paypal' ? 'border-brand-blue bg-brand-blue/5' : 'border-gray-200'}`}>
-            <RadioGroupItem value="paypal" id="payment-paypal" className="mt-1" />
-            <Label htmlFor="payment-paypal" className="flex flex-1 ml-3 cursor-pointer">
-              <div>
-                <p className="font-medium">PayPal</p>
-                <p className="text-sm text-gray-500">Pay using your PayPal account</p>
-              </div>
-            </Label>
-            {paymentMethod === 'paypal' && (
-              <CheckCircle2 className="h-5 w-5 text-brand-blue ml-2" />
-            )}
-          </div>
-          
-          <div className={`flex items-start p-3 rounded-md border ${paymentMethod === 'bank_transfer' ? 'border-brand-blue bg-brand-blue/5' : 'border-gray-200'}`}>
-            <RadioGroupItem value="bank_transfer" id="payment-bank" className="mt-1" />
-            <Label htmlFor="payment-bank" className="flex flex-1 ml-3 cursor-pointer">
-              <div>
-                <p className="font-medium">Bank Transfer</p>
-                <p className="text-sm text-gray-500">Pay directly from your bank account</p>
-              </div>
-            </Label>
-            {paymentMethod === 'bank_transfer' && (
-              <CheckCircle2 className="h-5 w-5 text-brand-blue ml-2" />
-            )}
-          </div>
-        </RadioGroup>
+      <div className="mb-8">
+        <div className="flex items-center space-x-2">
+          <Checkbox 
+            id="isCompany" 
+            checked={isCompany} 
+            onCheckedChange={handleIsCompanyChange} 
+          />
+          <Label htmlFor="isCompany" className="cursor-pointer">
+            I'm ordering for a company (invoice with ICE)
+          </Label>
+        </div>
         
-        {paymentMethod === 'credit_card' && (
-          <div className="mt-6 p-5 border rounded-md">
-            <div className="flex items-center mb-4">
-              <CreditCard className="h-6 w-6 text-gray-500 mr-2" />
-              <h4 className="font-medium">Credit Card Details</h4>
+        {isCompany && (
+          <div className="mt-6 space-y-6">
+            <div>
+              <Label htmlFor="companyName" className={errors.companyName ? "text-destructive" : ""}>
+                Company Name*
+              </Label>
+              <Input
+                id="companyName"
+                {...register('companyName')}
+                className={errors.companyName ? "border-destructive" : ""}
+              />
+              {errors.companyName && (
+                <p className="text-destructive text-sm mt-1">{errors.companyName.message as string}</p>
+              )}
             </div>
             
-            <div className="space-y-4">
+            <div>
+              <Label htmlFor="companyIce" className={errors.companyIce ? "text-destructive" : ""}>
+                ICE*
+              </Label>
+              <Input
+                id="companyIce"
+                {...register('companyIce')}
+                placeholder="15 digits"
+                inputMode="numeric"
+                className={errors.companyIce ? "border-destructive" : ""}
+              />
+              {errors.companyIce && (
+                <p className="text-destructive text-sm mt-1">{errors.companyIce.message as string}</p>
+              )}
+            </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="cardholderName">Cardholder Name*</Label>
+                <Label htmlFor="companyIf" className={errors.companyIf ? "text-destructive" : ""}>
+                  IF (Identifiant Fiscal)
+                </Label>
                 <Input
-                  id="cardholderName"
-                  {...register('cardholderName')}
-                  placeholder="Name as it appears on card"
+                  id="companyIf"
+                  {...register('companyIf')}
+                  inputMode="numeric"
+                  className={errors.companyIf ? "border-destructive" : ""}
                 />
-                {errors.cardholderName && (
-                  <p className="text-destructive text-sm mt-1">{errors.cardholderName.message as string}</p>
+                {errors.companyIf && (
+                  <p className="text-destructive text-sm mt-1">{errors.companyIf.message as string}</p>
                 )}
               </div>
               
               <div>
-                <Label htmlFor="cardNumber">Card Number*</Label>
+                <Label htmlFor="companyRc">
+                  RC (Registre de Commerce)
+                </Label>
                 <Input
-                  id="cardNumber"
-                  value={cardNumber}
-                  onChange={(e) => setCardNumber(formatCardNumber(e.target.value))}
-                  placeholder="1234 5678 9012 3456"
-                  maxLength={19}
+                  id="companyRc"
+                  {...register('companyRc')}
+                  placeholder="e.g. 123456 Casablanca"
                 />
               </div>
+            </div>
+          </div>
+        )}
+      </div>
+      
+      <div className="mt-8">
+        <h3 className="text-lg font-medium mb-4">Payment Method</h3>
+        
+        <RadioGroup 
+          className="space-y-3" 
+          value={paymentMethod} 
+          onValueChange={handlePaymentMethodChange}
+        >
+          {availableMethods.map(method => (
+            <div key={method.id} className={`rounded-md border ${paymentMethod === method.id ? 'border-brand-blue bg-brand-blue/5' : 'border-gray-200'}`}>
+              <div className="flex items-start p-3">
+                <RadioGroupItem value={method.id} id={`payment-${method.id}`} className="mt-1" />
+                <Label htmlFor={`payment-${method.id}`} className="flex flex-1 ml-3 cursor-pointer">
+                  <div>
+                    <p className="font-medium">{method.label}</p>
+                    <p className="text-sm text-gray-500">{method.description}</p>
+                  </div>
+                </Label>
+                {paymentMethod === method.id && (
+                  <CheckCircle2 className="h-5 w-5 text-brand-blue ml-2" />
+                )}
+              </div>
               
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="expiry">Expiry Date*</Label>
-                  <Input
-                    id="expiry"
-                    value={expiry}
-                    onChange={(e) => setExpiry(formatExpiry(e.target.value))}
-                    placeholder="MM/YY"
-                    maxLength={5}
-                  />
+              {paymentMethod === method.id && method.Fields && (
+                <div className="mx-3 mb-3 p-5 border rounded-md bg-white">
+                  <method.Fields />
                 </div>
-                
-                <div>
-                  <Label htmlFor="cvc">Security Code*</Label>
-                  <Input
-                    id="cvc"
-                    value={cvc}
-                    onChange={(e) => setCvc(e.target.value.replace(/[^0-9]/g, '').slice(0, 3))}
-                    placeholder="CVC"
-                    maxLength={3}
-                  />
-                </div>
-              </div>
+              )}
             </div>
-          </div>
+          ))}
+        </RadioGroup>
+        {errors.paymentMethod && (
+          <p className="text-destructive text-sm mt-2">{errors.paymentMethod.message as string}</p>
         )}
       </div>
       
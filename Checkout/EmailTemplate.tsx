@@ -1,27 +1,16 @@
-
 import React from 'react';
-import { CartItem } from '../../types';
-
-interface OrderDetails {
-  id: string;
-  customerName: string;
-  email: string;
-  shippingAddress: string;
-  shippingMethod: {
-    name: string;
-    price: number;
-    days: string;
-  };
-  paymentMethod: string;
-  items: CartItem[];
-  subtotal: number;
-  shipping: number;
-  total: number;
-  date: string;
-}
+import { Order } from '../../types';
+import { pricingService } from '@/services/PricingService';
+import { taxService } from '@/services/TaxService';
+import { companyInfo } from '@/data/company';
+import { formatIce } from '@/utils/companyIdentifiers';
+import { shippingService } from '@/services/ShippingService';
+import { proofApprovalService } from '@/services/ProofApprovalService';
+import { paymentMethodRegistry } from './paymentMethods';
+import { productVariantService } from '@/services/ProductVariantService';
 
 interface EmailTemplateProps {
-  order: OrderDetails;
+  order: Order;
 }
 
 // This component is for demonstration purposes only
@@ -33,11 +22,13 @@ const EmailTemplate: React.FC<EmailTemplateProps> = ({ order }) => {
     day: 'numeric'
   });
   
-  const paymentMethodLabels: Record<string, string> = {
-    credit_card: 'Credit Card',
-    paypal: 'PayPal',
-    bank_transfer: 'Bank Transfer'
-  };
+  const pricing = pricingService.priceCart(order.items);
+  const taxBreakdown = taxService.computeOrderTax({
+    items: order.items,
+    discount: order.discount,
+    shipping: order.shipping,
+    paymentFee: order.paymentFee
+  });
   
   return (
     <div style={{ maxWidth: '600px', margin: '0 auto', fontFamily: 'Arial, sans-serif' }}>
@@ -54,7 +45,8 @@ const EmailTemplate: React.FC<EmailTemplateProps> = ({ order }) => {
           <h3 style={{ margin: '0 0 10px 0' }}>Order Summary</h3>
           <p><strong>Order Number:</strong> {order.id}</p>
           <p><strong>Order Date:</strong> {formattedDate}</p>
-          <p><strong>Payment Method:</strong> {paymentMethodLabels[order.paymentMethod]}</p>
+          <p><strong>Payment Method:</strong> {paymentMethodRegistry.getLabel(order.paymentMethod)}</p>
+          {order.paymentReference && <p><strong>Payment Reference:</strong> {order.paymentReference}</p>}
         </div>
         
         <table style={{ width: '100%', borderCollapse: 'collapse' }}>
@@ -73,6 +65,11 @@ const EmailTemplate: React.FC<EmailTemplateProps> = ({ order }) => {
                   <span style={{ color: '#777', fontSize: '14px' }}>
                     {item.product.size} • {item.inkColor} ink
                   </span>
+                  {item.variant && (
+                    <div style={{ fontSize: '14px', color: '#777' }}>
+                      {productVariantService.describe(item.variant)} • SKU {item.variant.sku}
+                    </div>
+                  )}
                   {item.customText && (
                     <div style={{ fontSize: '14px', color: '#777' }}>Custom text: {item.customText}</div>
                   )}
@@ -81,7 +78,10 @@ const EmailTemplate: React.FC<EmailTemplateProps> = ({ order }) => {
                   {item.quantity}
                 </td>
                 <td style={{ textAlign: 'right', padding: '10px', borderBottom: '1px solid #eee' }}>
-                  {(item.product.price * item.quantity).toFixed(2)} DHS
+                  {pricing.lines[index].lineTotal.toFixed(2)} DHS
+                  {pricing.lines[index].tier && (
+                    <div style={{ fontSize: '12px', color: '#16a34a' }}>{pricingService.describeTier(pricing.lines[index].tier)}</div>
+                  )}
                 </td>
               </tr>
             ))}
@@ -90,16 +90,79 @@ const EmailTemplate: React.FC<EmailTemplateProps> = ({ order }) => {
         
         <div style={{ marginTop: '20px', textAlign: 'right' }}>
           <p><strong>Subtotal:</strong> {order.subtotal.toFixed(2)} DHS</p>
+          {order.discount > 0 && (
+            <p style={{ color: '#16a34a' }}><strong>Promo code ({order.promoCode}):</strong> -{order.discount.toFixed(2)} DHS</p>
+          )}
           <p><strong>Shipping ({order.shippingMethod.name}):</strong> {order.shipping.toFixed(2)} DHS</p>
+          {order.paymentFee > 0 && (
+            <p><strong>{paymentMethodRegistry.getLabel(order.paymentMethod)} fee:</strong> {order.paymentFee.toFixed(2)} DHS</p>
+          )}
           <p style={{ fontSize: '18px' }}><strong>Total:</strong> {order.total.toFixed(2)} DHS</p>
         </div>
         
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '20px', fontSize: '14px' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f5f5f5' }}>
+              <th style={{ textAlign: 'left', padding: '8px' }}>Tax breakdown</th>
+              <th style={{ textAlign: 'right', padding: '8px' }}>HT</th>
+              <th style={{ textAlign: 'right', padding: '8px' }}>TVA {Math.round(taxBreakdown.rate * 100)}%</th>
+              <th style={{ textAlign: 'right', padding: '8px' }}>TTC</th>
+            </tr>
+          </thead>
+          <tbody>
+            {taxBreakdown.lines.map(line => (
+              <tr key={line.id}>
+                <td style={{ padding: '8px', borderBottom: '1px solid #eee' }}>
+                  {line.label}{line.quantity !== undefined ? ` × ${line.quantity}` : ''}
+                </td>
+                <td style={{ textAlign: 'right', padding: '8px', borderBottom: '1px solid #eee' }}>{line.ht.toFixed(2)}</td>
+                <td style={{ textAlign: 'right', padding: '8px', borderBottom: '1px solid #eee' }}>{line.tva.toFixed(2)}</td>
+                <td style={{ textAlign: 'right', padding: '8px', borderBottom: '1px solid #eee' }}>{line.ttc.toFixed(2)}</td>
+              </tr>
+            ))}
+            <tr style={{ fontWeight: 'bold' }}>
+              <td style={{ padding: '8px' }}>Total (DHS)</td>
+              <td style={{ textAlign: 'right', padding: '8px' }}>{taxBreakdown.totals.ht.toFixed(2)}</td>
+              <td style={{ textAlign: 'right', padding: '8px' }}>{taxBreakdown.totals.tva.toFixed(2)}</td>
+              <td style={{ textAlign: 'right', padding: '8px' }}>{taxBreakdown.totals.ttc.toFixed(2)}</td>
+            </tr>
+          </tbody>
+        </table>
+        
+        {order.company && (
+          <div style={{ margin: '20px 0', padding: '15px', border: '1px solid #ddd', borderRadius: '5px' }}>
+            <h3 style={{ margin: '0 0 10px 0' }}>Invoiced Company</h3>
+            <p style={{ margin: '0' }}><strong>{order.company.name}</strong></p>
+            <p style={{ margin: '0' }}>ICE: {formatIce(order.company.ice)}</p>
+            {order.company.if && <p style={{ margin: '0' }}>IF: {order.company.if}</p>}
+            {order.company.rc && <p style={{ margin: '0' }}>RC: {order.company.rc}</p>}
+          </div>
+        )}
+        
         <div style={{ margin: '30px 0', padding: '15px', backgroundColor: '#f0f7ff', borderRadius: '5px' }}>
           <h3 style={{ margin: '0 0 10px 0', color: '#0056b3' }}>Shipping Details</h3>
           <p><strong>Address:</strong> {order.shippingAddress}</p>
           <p><strong>Shipping Method:</strong> {order.shippingMethod.name} ({order.shippingMethod.days})</p>
+          {order.shippingMethod.estimatedDelivery && (
+            <p>
+              <strong>{order.shippingMethod.isPickup ? 'Ready from:' : 'Estimated delivery:'}</strong>{' '}
+              {shippingService.formatDeliveryEstimate(order.shippingMethod.estimatedDelivery)}
+            </p>
+          )}
         </div>
         
+        {order.proof?.status === 'pending' && (
+          <div style={{ margin: '30px 0', padding: '15px', backgroundColor: '#fff8e1', borderRadius: '5px' }}>
+            <h3 style={{ margin: '0 0 10px 0', color: '#b26a00' }}>Approve Your Proof</h3>
+            <p>We start engraving once you have checked and approved your stamp artwork.</p>
+            <p>
+              <a href={proofApprovalService.getProofUrl(order)} style={{ color: '#d32f2f', fontWeight: 'bold' }}>
+                Review my proof
+              </a>
+            </p>
+          </div>
+        )}
+        
         <p>
           If you have any questions or concerns about your order, please don't hesitate to 
           <a href="mailto:support@cachets-maroc.com" style={{ color: '#d32f2f' }}> contact our customer service team</a>.
@@ -108,6 +171,12 @@ const EmailTemplate: React.FC<EmailTemplateProps> = ({ order }) => {
       
       <div style={{ backgroundColor: '#333', color: '#fff', padding: '20px', textAlign: 'center' }}>
         <p>© 2025 Cachets Maroc. All rights reserved.</p>
+        <p style={{ fontSize: '12px', color: '#bbb' }}>
+          {companyInfo.name}
+          {companyInfo.ice && ` • ICE ${formatIce(companyInfo.ice)}`}
+          {companyInfo.if && ` • IF ${companyInfo.if}`}
+          {companyInfo.rc && ` • RC ${companyInfo.rc}`}
+        </p>
         <p style={{ fontSize: '14px' }}>
           <a href="#" style={{ color: '#fff', marginRight: '10px' }}>Privacy Policy</a>
           <a href="#" style={{ color: '#fff', marginRight: '10px' }}>Terms of Service</a>
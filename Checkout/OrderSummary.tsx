@@ -1,46 +1,62 @@
 
 import React from 'react';
-import { CartItem } from '../../types';
-
-interface ShippingMethod {
-  id: string;
-  name: string;
-  price: number;
-  days: string;
-}
+import { CartItem, ShippingRate } from '../../types';
+import { pricingService } from '@/services/PricingService';
+import { PromoCodeResult } from '@/services/PromoCodeService';
+import { taxService } from '@/services/TaxService';
+import { shippingService } from '@/services/ShippingService';
+import PromoCodeInput from './PromoCodeInput';
+import { productVariantService } from '@/services/ProductVariantService';
 
 interface OrderSummaryProps {
   items: CartItem[];
   subtotal: number;
-  shippingMethodId: string;
-  shippingMethods: ShippingMethod[];
+  shippingRate?: ShippingRate;
+  // Amount left before eligible carriers deliver for free
+  freeShippingRemaining?: number;
+  promoCode?: string | null;
+  promoResult?: PromoCodeResult | null;
+  onApplyPromoCode?: (code: string) => void;
+  onRemovePromoCode?: () => void;
+  paymentFee?: number;
+  paymentFeeLabel?: string;
 }
 
 const OrderSummary: React.FC<OrderSummaryProps> = ({
   items,
   subtotal,
-  shippingMethodId,
-  shippingMethods
+  shippingRate,
+  freeShippingRemaining = 0,
+  promoCode = null,
+  promoResult = null,
+  onApplyPromoCode,
+  onRemovePromoCode,
+  paymentFee = 0,
+  paymentFeeLabel = 'Payment fee'
 }) => {
-  // Get selected shipping method
-  const selectedShippingMethod = shippingMethods.find(method => method.id === shippingMethodId);
-  const shippingPrice = selectedShippingMethod?.price || 0;
+  const pricing = pricingService.priceCart(items);
+  
+  // Apply the promo code, if it is still valid for this cart
+  const promoDiscount = promoResult?.valid ? promoResult.discount : 0;
+  const freeShipping = !!promoResult?.valid && promoResult.freeShipping;
+  const shippingPrice = freeShipping ? 0 : shippingRate?.price || 0;
   
   // Calculate total
-  const total = subtotal + shippingPrice;
+  const total = subtotal - promoDiscount + shippingPrice + paymentFee;
+  const tax = taxService.computeOrderTax({ items, discount: promoDiscount, shipping: shippingPrice, paymentFee });
   
   return (
     <div className="bg-white rounded-lg shadow-md p-6 sticky top-6">
       <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
       
       <div className="max-h-80 overflow-y-auto mb-4">
-        {items.map((item) => (
-          <div key={`${item.productId}-${item.customText}`} className="flex items-start py-3 border-b">
+        {items.map((item, index) => (
+          <div key={item.id} className="flex items-start py-3 border-b">
             <div className="w-16 h-16 bg-gray-100 flex-shrink-0 rounded overflow-hidden">
               {item.previewImage ? (
                 <img src={item.previewImage} alt="Custom Stamp Preview" className="w-full h-full object-cover" />
               ) : (
-                <img src={item.product.images[0]} alt={item.product.name} className="w-full h-full object-contain" />
+                <img src={productVariantService.getImage(item.product, item.variant)} alt={item.product.name} className="w-full h-full object-contain" />
               )}
             </div>
             <div className="ml-3 flex-grow">
@@ -48,32 +64,101 @@ const OrderSummary: React.FC<OrderSummaryProps> = ({
               <p className="text-xs text-gray-500">
                 {item.product.size} • {item.inkColor} ink
               </p>
+              {item.variant && (
+                <p className="text-xs text-gray-500">{productVariantService.describe(item.variant)} • SKU {item.variant.sku}</p>
+              )}
+              {pricing.lines[index].tier && (
+                <p className="text-xs text-green-600">{pricingService.describeTier(pricing.lines[index].tier)}</p>
+              )}
+              {pricing.lines[index].bundle && (
+                <p className="text-xs text-gray-500">{pricing.lines[index].bundle.name}</p>
+              )}
               <div className="flex justify-between items-center mt-1">
                 <p className="text-xs text-gray-500">Qty: {item.quantity}</p>
-                <p className="text-sm font-medium">{(item.product.price * item.quantity).toFixed(2)} DHS</p>
+                <p className="text-sm font-medium">{pricing.lines[index].lineTotal.toFixed(2)} DHS</p>
               </div>
             </div>
           </div>
         ))}
       </div>
       
+      {onApplyPromoCode && onRemovePromoCode && (
+        <PromoCodeInput
+          appliedCode={promoCode}
+          result={promoResult}
+          onApply={onApplyPromoCode}
+          onRemove={onRemovePromoCode}
+        />
+      )}
+      
       <div className="space-y-2 py-4 border-b">
+        {pricing.listSubtotal > subtotal && (
+          <div className="flex justify-between text-sm text-gray-500">
+            <span>List price</span>
+            <span>{pricing.listSubtotal.toFixed(2)} DHS</span>
+          </div>
+        )}
+        {pricing.tierDiscount > 0 && (
+          <div className="flex justify-between text-sm text-green-600">
+            <span>Volume discount</span>
+            <span>-{pricing.tierDiscount.toFixed(2)} DHS</span>
+          </div>
+        )}
+        {pricing.bundleDiscount > 0 && (
+          <div className="flex justify-between text-sm text-green-600">
+            <span>Pack discount</span>
+            <span>-{pricing.bundleDiscount.toFixed(2)} DHS</span>
+          </div>
+        )}
         <div className="flex justify-between text-sm">
           <span>Subtotal</span>
           <span>{subtotal.toFixed(2)} DHS</span>
         </div>
+        {promoDiscount > 0 && (
+          <div className="flex justify-between text-sm text-green-600">
+            <span>Promo ({promoCode})</span>
+            <span>-{promoDiscount.toFixed(2)} DHS</span>
+          </div>
+        )}
         <div className="flex justify-between text-sm">
-          <span>Shipping</span>
+          <span>Shipping{shippingRate && ` (${shippingRate.name})`}</span>
           <span>
             {shippingPrice > 0 ? `${shippingPrice.toFixed(2)} DHS` : 'Free'}
           </span>
         </div>
+        {shippingRate && (
+          <p className="text-xs text-gray-500">
+            {shippingRate.isPickup ? 'Ready from' : 'Estimated delivery'}{' '}
+            {shippingService.formatDeliveryEstimate(shippingRate.estimatedDelivery)}
+          </p>
+        )}
+        {!freeShipping && freeShippingRemaining > 0 && (
+          <p className="text-xs text-brand-blue">
+            Add {freeShippingRemaining.toFixed(2)} DHS more to get free delivery with Amana or CTM
+          </p>
+        )}
+        {paymentFee > 0 && (
+          <div className="flex justify-between text-sm">
+            <span>{paymentFeeLabel}</span>
+            <span>{paymentFee.toFixed(2)} DHS</span>
+          </div>
+        )}
       </div>
       
-      <div className="flex justify-between py-4 font-bold text-lg">
-        <span>Total</span>
+      <div className="flex justify-between pt-4 font-bold text-lg">
+        <span>Total TTC</span>
         <span>{total.toFixed(2)} DHS</span>
       </div>
+      <div className="pb-4 pt-1 space-y-1 text-xs text-gray-500">
+        <div className="flex justify-between">
+          <span>Total HT</span>
+          <span>{tax.totals.ht.toFixed(2)} DHS</span>
+        </div>
+        <div className="flex justify-between">
+          <span>TVA ({Math.round(tax.rate * 100)}%)</span>
+          <span>{tax.totals.tva.toFixed(2)} DHS</span>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { PromoCodeResult } from '@/services/PromoCodeService';
+
+interface PromoCodeInputProps {
+  appliedCode: string | null;
+  result: PromoCodeResult | null;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
+const PromoCodeInput: React.FC<PromoCodeInputProps> = ({
+  appliedCode,
+  result,
+  onApply,
+  onRemove
+}) => {
+  const [code, setCode] = useState('');
+
+  const handleApply = () => {
+    if (!code.trim()) return;
+    onApply(code.trim().toUpperCase());
+    setCode('');
+  };
+
+  if (appliedCode) {
+    return (
+      <div className="py-4 border-b">
+        <div className="flex items-center justify-between text-sm">
+          <span className={`flex items-center gap-2 font-medium ${result?.valid ? 'text-green-600' : 'text-red-600'}`}>
+            <Tag size={14} />
+            {appliedCode}
+          </span>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Remove promo code"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        {result?.valid && result.promo && (
+          <p className="text-xs text-gray-500 mt-1">{result.promo.description}</p>
+        )}
+        {result && !result.valid && (
+          <p className="text-xs text-red-600 mt-1">{result.error}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-4 border-b">
+      <label htmlFor="promo-code" className="text-sm font-medium">Promo code</label>
+      <div className="flex gap-2 mt-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              // Keep Enter from submitting the checkout form
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Enter code"
+          className="uppercase"
+        />
+        <Button type="button" variant="outline" onClick={handleApply} disabled={!code.trim()}>
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PromoCodeInput;
@@ -3,20 +3,33 @@ import React from 'react';
 import { useFormContext } from 'react-hook-form';
 import { Button } from '@/components/ui/button';
 import { CheckCircle2 } from 'lucide-react';
-
-interface ShippingMethod {
-  id: string;
-  name: string;
-  price: number;
-  days: string;
-}
+import { CartItem, ShippingRate } from '@/types';
+import { pricingService } from '@/services/PricingService';
+import { taxService } from '@/services/TaxService';
+import { shippingService } from '@/services/ShippingService';
+import { formatIce } from '@/utils/companyIdentifiers';
+import { formatMoroccanPhone } from '@/utils/phoneNumber';
+import TaxBreakdown from './TaxBreakdown';
+import { paymentMethodRegistry } from './paymentMethods';
+import { productVariantService } from '@/services/ProductVariantService';
 
 interface ReviewOrderProps {
   onBack: () => void;
-  shippingMethods: ShippingMethod[];
+  items: CartItem[];
+  shippingRate?: ShippingRate;
+  promoDiscount?: number;
+  freeShipping?: boolean;
+  paymentFee?: number;
 }
 
-const ReviewOrder: React.FC<ReviewOrderProps> = ({ onBack, shippingMethods }) => {
+const ReviewOrder: React.FC<ReviewOrderProps> = ({
+  onBack,
+  items,
+  shippingRate,
+  promoDiscount = 0,
+  freeShipping = false,
+  paymentFee = 0
+}) => {
   const { watch, formState: { isSubmitting } } = useFormContext();
   
   // Get form data
@@ -27,29 +40,37 @@ const ReviewOrder: React.FC<ReviewOrderProps> = ({ onBack, shippingMethods }) =>
     phone,
     address,
     city,
-    state,
+    region,
     postalCode,
     country,
     sameAsShipping,
     billingFullName,
     billingAddress,
     billingCity,
-    billingState,
+    billingRegion,
     billingPostalCode,
     billingCountry,
-    shippingMethod,
     paymentMethod,
+    isCompany,
+    companyName,
+    companyIce,
+    companyIf,
+    companyRc,
   } = formData;
   
-  // Get shipping method details
-  const selectedShippingMethod = shippingMethods.find(method => method.id === shippingMethod);
+  const pricing = pricingService.priceCart(items);
   
-  // Format payment method for display
-  const paymentMethodLabels: Record<string, string> = {
-    credit_card: 'Credit Card',
-    paypal: 'PayPal',
-    bank_transfer: 'Bank Transfer'
-  };
+  const shippingPrice = freeShipping ? 0 : shippingRate?.price || 0;
+  const taxBreakdown = taxService.computeOrderTax({
+    items,
+    discount: promoDiscount,
+    shipping: shippingPrice,
+    paymentFee
+  });
+  
+  // The selected method describes how the order will be paid
+  const selectedPaymentMethod = paymentMethodRegistry.get(paymentMethod);
+  const amountDue = pricing.subtotal - promoDiscount + shippingPrice + paymentFee;
   
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
@@ -72,7 +93,8 @@ const ReviewOrder: React.FC<ReviewOrderProps> = ({ onBack, shippingMethods }) =>
             <div>
               <p className="font-medium">{fullName}</p>
               <p>{address}</p>
-              <p>{city}, {state} {postalCode}</p>
+              <p>{postalCode} {city}</p>
+              <p>{region}</p>
               <p>{country}</p>
             </div>
             
@@ -81,15 +103,23 @@ const ReviewOrder: React.FC<ReviewOrderProps> = ({ onBack, shippingMethods }) =>
                 <span className="font-medium">Email:</span> {email}
               </p>
               <p className="text-sm text-gray-600">
-                <span className="font-medium">Phone:</span> {phone}
+                <span className="font-medium">Phone:</span> {formatMoroccanPhone(phone || '')}
               </p>
               <div className="mt-2 flex items-center text-sm text-gray-600">
                 <span className="font-medium mr-2">Shipping Method:</span>
                 <span className="flex items-center">
-                  {selectedShippingMethod?.name} ({selectedShippingMethod?.days})
-                  <span className="text-brand-blue font-medium ml-2">{selectedShippingMethod?.price.toFixed(2)} DHS</span>
+                  {shippingRate?.name} ({shippingRate?.days})
+                  <span className="text-brand-blue font-medium ml-2">
+                    {shippingPrice > 0 ? `${shippingPrice.toFixed(2)} DHS` : 'Free'}
+                  </span>
                 </span>
               </div>
+              {shippingRate && (
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium">{shippingRate.isPickup ? 'Ready from:' : 'Estimated delivery:'}</span>{' '}
+                  {shippingService.formatDeliveryEstimate(shippingRate.estimatedDelivery)}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -116,25 +146,80 @@ const ReviewOrder: React.FC<ReviewOrderProps> = ({ onBack, shippingMethods }) =>
               <div>
                 <p className="font-medium">{billingFullName}</p>
                 <p>{billingAddress}</p>
-                <p>{billingCity}, {billingState} {billingPostalCode}</p>
+                <p>{billingPostalCode} {billingCity}</p>
+                <p>{billingRegion}</p>
                 <p>{billingCountry}</p>
               </div>
             </div>
           )}
           
-          <div className="mt-4 flex items-center text-sm text-gray-600">
-            <span className="font-medium mr-2">Payment Method:</span>
-            <span>{paymentMethodLabels[paymentMethod]}</span>
-            {paymentMethod === 'credit_card' && (
-              <span className="ml-2">•••• •••• •••• {formData.cardNumber?.split(' ').pop()}</span>
-            )}
+          {isCompany && (
+            <div className="mt-4 text-sm text-gray-600">
+              <p className="font-medium text-gray-800">{companyName}</p>
+              <p>ICE: {formatIce(companyIce || '')}</p>
+              {companyIf && <p>IF: {companyIf}</p>}
+              {companyRc && <p>RC: {companyRc}</p>}
+            </div>
+          )}
+          
+          <div className="mt-4 text-sm text-gray-600">
+            <p>
+              <span className="font-medium mr-2">Payment Method:</span>
+              {paymentMethodRegistry.getLabel(paymentMethod)}
+            </p>
+            {selectedPaymentMethod?.getReviewLines(formData, amountDue).map(line => (
+              <p key={line} className="mt-1">{line}</p>
+            ))}
           </div>
         </div>
         
+        <div className="border-b pb-6">
+          <h3 className="font-medium text-lg mb-4">Items</h3>
+          
+          <div className="space-y-3">
+            {items.map((item, index) => {
+              const linePricing = pricing.lines[index];
+              
+              return (
+                <div key={item.id} className="flex justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{item.product.name} × {item.quantity}</p>
+                    {item.variant && (
+                      <p className="text-gray-600">{productVariantService.describe(item.variant)} • SKU {item.variant.sku}</p>
+                    )}
+                    <p className="text-gray-600">
+                      {linePricing.unitPrice.toFixed(2)} DHS/unit
+                      {linePricing.tier && (
+                        <span className="text-green-600 ml-2">{pricingService.describeTier(linePricing.tier)}</span>
+                      )}
+                    </p>
+                    {linePricing.bundle && (
+                      <p className="text-gray-600">
+                        {linePricing.bundle.name} (-{linePricing.bundleDiscount.toFixed(2)} DHS)
+                      </p>
+                    )}
+                  </div>
+                  <span className="font-medium">{linePricing.lineTotal.toFixed(2)} DHS</span>
+                </div>
+              );
+            })}
+          </div>
+          
+          <div className="mt-6">
+            <h4 className="font-medium mb-2">Tax Breakdown</h4>
+            <TaxBreakdown breakdown={taxBreakdown} />
+          </div>
+          
+          {(pricing.tierDiscount > 0 || pricing.bundleDiscount > 0) && (
+            <p className="mt-4 text-sm text-green-600">
+              You save {(pricing.tierDiscount + pricing.bundleDiscount).toFixed(2)} DHS with volume and pack pricing.
+            </p>
+          )}
+        </div>
+        
         <div className="mt-8">
           <div className="text-sm text-gray-600 mb-4">
-            By placing your order, you agree to our Terms of Service and Privacy Policy. 
-            You will be redirected to complete your payment.
+            By placing your order, you agree to our Terms of Service and Privacy Policy.
           </div>
           
           <div className="flex justify-between">
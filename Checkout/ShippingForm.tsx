@@ -2,76 +2,75 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { useFormContext } from 'react-hook-form';
 import { CheckCircle2 } from 'lucide-react';
+import { ShippingRate } from '@/types';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Button } from '@/components/ui/button';
-
-interface ShippingMethod {
-  id: string;
-  name: string;
-  price: number;
-  days: string;
-}
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MoroccanCity, moroccanRegions } from '@/data/moroccoAddresses';
+import { findCity, getCityRegionName, searchCities } from '@/utils/moroccanAddress';
+import { formatMoroccanPhone } from '@/utils/phoneNumber';
+import { shippingService } from '@/services/ShippingService';
 
 interface ShippingFormProps {
-  shippingMethods: ShippingMethod[];
+  shippingRates: ShippingRate[];
   onContinue: () => void;
 }
 
-const ShippingForm: React.FC<ShippingFormProps> = ({ shippingMethods, onContinue }) => {
+const ShippingForm: React.FC<ShippingFormProps> = ({ shippingRates, onContinue }) => {
   const { register, formState: { errors }, setValue, trigger, watch } = useFormContext();
-  const [addressSuggestions, setAddressSuggestions] = useState<string[]>([]);
+  const [citySuggestions, setCitySuggestions] = useState<MoroccanCity[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const addressRef = useRef<HTMLDivElement>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const cityRef = useRef<HTMLDivElement>(null);
   
   // Watch the shipping method selection
   const selectedShippingMethod = watch('shippingMethod');
+  const region = watch('region');
+  const knownCity = findCity(watch('city') || '');
 
-  // Mock address autocomplete function (would be replaced with a real geocoding service)
-  const getAddressSuggestions = (input: string) => {
-    if (input.length < 3) {
-      setAddressSuggestions([]);
-      return;
-    }
-    
-    // Mock suggestions based on input
-    // In a real implementation, this would call a geocoding API
-    const mockSuggestions = [
-      `${input}, Main St, Anytown, NY, 10001`,
-      `${input}, Broadway, New York, NY, 10012`,
-      `${input}, Park Ave, Boston, MA, 02108`,
-    ];
-    
-    setAddressSuggestions(mockSuggestions);
-    setShowSuggestions(true);
+  // City autocomplete from the offline address dataset
+  const updateCitySuggestions = (input: string) => {
+    const suggestions = searchCities(input);
+    setCitySuggestions(suggestions);
+    setActiveSuggestion(-1);
+    setShowSuggestions(suggestions.length > 0);
   };
 
-  const selectAddress = (address: string) => {
-    setValue('address', address);
+  const selectCity = (city: MoroccanCity) => {
+    setValue('city', city.name, { shouldValidate: true });
     setShowSuggestions(false);
     
-    // Extract city, state, postal code from the selected address
-    const parts = address.split(', ');
-    if (parts.length >= 4) {
-      setValue('city', parts[2]);
-      const stateZip = parts[3].split(' ');
-      if (stateZip.length >= 1) {
-        setValue('state', stateZip[0]);
-      }
-      if (stateZip.length >= 2) {
-        setValue('postalCode', stateZip[1]);
-      }
+    // Fill in the region, and the main postal code unless the current one is in this city
+    setValue('region', getCityRegionName(city), { shouldValidate: true });
+    const postalCode = watch('postalCode') || '';
+    if (!city.postalPrefixes.some(prefix => postalCode.startsWith(prefix)) || postalCode.length !== 5) {
+      setValue('postalCode', city.postalCode, { shouldValidate: true });
     }
+  };
+
+  const handleCityKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
     
-    // Set a default country
-    setValue('country', 'Morocco');
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveSuggestion(index => Math.min(index + 1, citySuggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveSuggestion(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && activeSuggestion >= 0) {
+      e.preventDefault();
+      selectCity(citySuggestions[activeSuggestion]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
   };
 
   // Close suggestions when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (addressRef.current && !addressRef.current.contains(event.target as Node)) {
+      if (cityRef.current && !cityRef.current.contains(event.target as Node)) {
         setShowSuggestions(false);
       }
     };
@@ -84,7 +83,7 @@ const ShippingForm: React.FC<ShippingFormProps> = ({ shippingMethods, onContinue
 
   const handleContinue = async () => {
     const isValid = await trigger([
-      'fullName', 'email', 'phone', 'address', 'city', 'state', 'postalCode', 'country', 'shippingMethod'
+      'fullName', 'email', 'phone', 'address', 'city', 'region', 'postalCode', 'country', 'shippingMethod'
     ]);
     
     if (isValid) {
@@ -135,7 +134,10 @@ const ShippingForm: React.FC<ShippingFormProps> = ({ shippingMethods, onContinue
           <Input
             id="phone"
             type="tel"
-            {...register('phone')}
+            {...register('phone', {
+              onBlur: (e) => setValue('phone', formatMoroccanPhone(e.target.value, 'national'))
+            })}
+            placeholder="06 12 34 56 78"
             className={errors.phone ? "border-destructive" : ""}
           />
           {errors.phone && (
@@ -143,62 +145,89 @@ const ShippingForm: React.FC<ShippingFormProps> = ({ shippingMethods, onContinue
           )}
         </div>
         
-        <div ref={addressRef} className="relative">
+        <div>
           <Label htmlFor="address" className={errors.address ? "text-destructive" : ""}>
             Street Address*
           </Label>
           <Input
             id="address"
             {...register('address')}
+            placeholder="Street, number, building, apartment"
             className={errors.address ? "border-destructive" : ""}
-            onChange={(e) => getAddressSuggestions(e.target.value)}
-            autoComplete="off"
           />
           {errors.address && (
             <p className="text-destructive text-sm mt-1">{errors.address.message as string}</p>
           )}
-          
-          {showSuggestions && addressSuggestions.length > 0 && (
-            <div className="absolute z-10 w-full mt-1 bg-white border rounded-md shadow-lg max-h-60 overflow-auto">
-              {addressSuggestions.map((suggestion, index) => (
-                <div
-                  key={index}
-                  className="px-4 py-2 cursor-pointer hover:bg-gray-100"
-                  onClick={() => selectAddress(suggestion)}
-                >
-                  {suggestion}
-                </div>
-              ))}
-            </div>
-          )}
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div>
+          <div ref={cityRef} className="relative">
             <Label htmlFor="city" className={errors.city ? "text-destructive" : ""}>
               City*
             </Label>
             <Input
               id="city"
-              {...register('city')}
+              {...register('city', {
+                onChange: (e) => updateCitySuggestions(e.target.value)
+              })}
+              onKeyDown={handleCityKeyDown}
+              onFocus={(e) => updateCitySuggestions(e.target.value)}
+              autoComplete="off"
+              role="combobox"
+              aria-expanded={showSuggestions}
+              aria-controls="city-suggestions"
+              aria-autocomplete="list"
               className={errors.city ? "border-destructive" : ""}
             />
             {errors.city && (
               <p className="text-destructive text-sm mt-1">{errors.city.message as string}</p>
             )}
+            
+            {showSuggestions && citySuggestions.length > 0 && (
+              <ul
+                id="city-suggestions"
+                role="listbox"
+                className="absolute z-10 w-full mt-1 bg-white border rounded-md shadow-lg max-h-60 overflow-auto"
+              >
+                {citySuggestions.map((city, index) => (
+                  <li
+                    key={city.name}
+                    role="option"
+                    aria-selected={index === activeSuggestion}
+                    className={`px-4 py-2 cursor-pointer hover:bg-gray-100 ${index === activeSuggestion ? 'bg-gray-100' : ''}`}
+                    onMouseDown={(e) => {
+                      // Keep the input focused until the city is set
+                      e.preventDefault();
+                      selectCity(city);
+                    }}
+                  >
+                    <p className="text-sm font-medium">{city.name}</p>
+                    <p className="text-xs text-gray-500">{city.province} • {getCityRegionName(city)}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           
           <div>
-            <Label htmlFor="state" className={errors.state ? "text-destructive" : ""}>
-              State/Province*
+            <Label htmlFor="region" className={errors.region ? "text-destructive" : ""}>
+              Region*
             </Label>
-            <Input
-              id="state"
-              {...register('state')}
-              className={errors.state ? "border-destructive" : ""}
-            />
-            {errors.state && (
-              <p className="text-destructive text-sm mt-1">{errors.state.message as string}</p>
+            <Select
+              value={region || ''}
+              onValueChange={(value) => setValue('region', value, { shouldValidate: true })}
+            >
+              <SelectTrigger id="region" className={errors.region ? "border-destructive" : ""}>
+                <SelectValue placeholder="Select a region" />
+              </SelectTrigger>
+              <SelectContent>
+                {moroccanRegions.map(option => (
+                  <SelectItem key={option.id} value={option.name}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.region && (
+              <p className="text-destructive text-sm mt-1">{errors.region.message as string}</p>
             )}
           </div>
           
@@ -209,45 +238,66 @@ const ShippingForm: React.FC<ShippingFormProps> = ({ shippingMethods, onContinue
             <Input
               id="postalCode"
               {...register('postalCode')}
+              inputMode="numeric"
+              maxLength={5}
+              placeholder={knownCity ? knownCity.postalCode : '20000'}
               className={errors.postalCode ? "border-destructive" : ""}
             />
-            {errors.postalCode && (
+            {errors.postalCode ? (
               <p className="text-destructive text-sm mt-1">{errors.postalCode.message as string}</p>
+            ) : knownCity && (
+              <p className="text-xs text-gray-500 mt-1">
+                Postal codes in {knownCity.name} start with {knownCity.postalPrefixes.join(' or ')}
+              </p>
             )}
           </div>
         </div>
         
         <div>
-          <Label htmlFor="country" className={errors.country ? "text-destructive" : ""}>
-            Country*
+          <Label htmlFor="country">
+            Country
           </Label>
           <Input
             id="country"
             {...register('country')}
-            defaultValue="Morocco"
-            className={errors.country ? "border-destructive" : ""}
+            readOnly
+            className="bg-gray-50"
           />
-          {errors.country && (
-            <p className="text-destructive text-sm mt-1">{errors.country.message as string}</p>
-          )}
+          <p className="text-xs text-gray-500 mt-1">We currently deliver within Morocco only.</p>
         </div>
       </div>
       
       <div className="mt-8">
-        <h3 className="text-lg font-medium mb-4">Shipping Method</h3>
+        <h3 className="text-lg font-medium mb-1">Shipping Method</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {knownCity
+            ? `Delivery options for ${knownCity.name}`
+            : 'Enter your city to see the delivery options and prices for your area.'}
+        </p>
         
-        <RadioGroup defaultValue="standard" className="space-y-3" value={selectedShippingMethod} onValueChange={(value) => setValue('shippingMethod', value)}>
-          {shippingMethods.map((method) => (
-            <div key={method.id} className={`flex items-start p-3 rounded-md border ${selectedShippingMethod === method.id ? 'border-brand-blue bg-brand-blue/5' : 'border-gray-200'}`}>
-              <RadioGroupItem value={method.id} id={`shipping-${method.id}`} className="mt-1" />
-              <Label htmlFor={`shipping-${method.id}`} className="flex flex-1 justify-between ml-3 cursor-pointer">
+        <RadioGroup className="space-y-3" value={selectedShippingMethod} onValueChange={(value) => setValue('shippingMethod', value, { shouldValidate: true })}>
+          {shippingRates.map((rate) => (
+            <div key={rate.id} className={`flex items-start p-3 rounded-md border ${selectedShippingMethod === rate.id ? 'border-brand-blue bg-brand-blue/5' : 'border-gray-200'}`}>
+              <RadioGroupItem value={rate.id} id={`shipping-${rate.id}`} className="mt-1" />
+              <Label htmlFor={`shipping-${rate.id}`} className="flex flex-1 justify-between ml-3 cursor-pointer">
                 <div>
-                  <p className="font-medium">{method.name}</p>
-                  <p className="text-sm text-gray-500">{method.days}</p>
+                  <p className="font-medium">{rate.name}</p>
+                  {rate.description && (
+                    <p className="text-sm text-gray-500">{rate.description}</p>
+                  )}
+                  <p className="text-sm text-gray-500">
+                    {rate.days} • {rate.isPickup ? 'Ready from' : 'Estimated delivery'}{' '}
+                    <span className="text-gray-700">{shippingService.formatDeliveryEstimate(rate.estimatedDelivery)}</span>
+                  </p>
+                </div>
+                <div className="text-right">
+                  {rate.originalPrice !== undefined && (
+                    <p className="text-xs text-gray-400 line-through">{rate.originalPrice.toFixed(2)} DHS</p>
+                  )}
+                  <p className="font-medium">{rate.price > 0 ? `${rate.price.toFixed(2)} DHS` : 'Free'}</p>
                 </div>
-                <p className="font-medium">{method.price.toFixed(2)} DHS</p>
               </Label>
-              {selectedShippingMethod === method.id && (
+              {selectedShippingMethod === rate.id && (
                 <CheckCircle2 className="h-5 w-5 text-brand-blue ml-2" />
               )}
             </div>
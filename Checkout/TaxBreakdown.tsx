@@ -0,0 +1,47 @@
+import React from 'react';
+import { OrderTaxBreakdown } from '@/services/TaxService';
+
+interface TaxBreakdownProps {
+  breakdown: OrderTaxBreakdown;
+  showLines?: boolean;
+}
+
+const TaxBreakdown: React.FC<TaxBreakdownProps> = ({ breakdown, showLines = true }) => {
+  const ratePercent = Math.round(breakdown.rate * 100);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-500">
+            <th className="text-left py-2 font-medium">{showLines ? 'Item' : ''}</th>
+            <th className="text-right py-2 font-medium">HT</th>
+            <th className="text-right py-2 font-medium">TVA {ratePercent}%</th>
+            <th className="text-right py-2 font-medium">TTC</th>
+          </tr>
+        </thead>
+        <tbody>
+          {showLines && breakdown.lines.map(line => (
+            <tr key={line.id} className="border-b">
+              <td className="py-2">
+                {line.label}
+                {line.quantity !== undefined && <span className="text-gray-500"> × {line.quantity}</span>}
+              </td>
+              <td className="text-right py-2">{line.ht.toFixed(2)}</td>
+              <td className="text-right py-2">{line.tva.toFixed(2)}</td>
+              <td className="text-right py-2">{line.ttc.toFixed(2)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="py-2">Total (DHS)</td>
+            <td className="text-right py-2">{breakdown.totals.ht.toFixed(2)}</td>
+            <td className="text-right py-2">{breakdown.totals.tva.toFixed(2)}</td>
+            <td className="text-right py-2">{breakdown.totals.ttc.toFixed(2)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TaxBreakdown;
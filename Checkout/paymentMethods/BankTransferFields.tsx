@@ -0,0 +1,19 @@
+import React from 'react';
+import { companyInfo } from '@/data/company';
+
+const BankTransferFields: React.FC = () => (
+  <div className="text-sm text-gray-600 space-y-2">
+    <p>Transfer the order total to the following account:</p>
+    <div className="bg-gray-50 rounded-md p-3 font-mono text-gray-800">
+      <p>{companyInfo.name}</p>
+      <p>{companyInfo.bankName}</p>
+      <p>RIB: {companyInfo.rib}</p>
+    </div>
+    <p>
+      A payment reference is generated when you place the order. Please write it on your transfer
+      so we can match it with your order; production starts once the payment is received.
+    </p>
+  </div>
+);
+
+export default BankTransferFields;
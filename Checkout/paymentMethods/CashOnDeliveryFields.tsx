@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { COD_FEE } from '@/data/company';
+import { formatMoroccanPhone } from '@/utils/phoneNumber';
+
+const CashOnDeliveryFields: React.FC = () => {
+  const { register, formState: { errors }, watch, setValue, getValues } = useFormContext();
+  const confirmed = watch('codPhoneConfirmed');
+
+  // Suggest the shipping phone number as the confirmation number
+  useEffect(() => {
+    if (!getValues('codPhone')) {
+      setValue('codPhone', getValues('phone') || '');
+    }
+  }, [getValues, setValue]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Pay in cash when the courier delivers your order. A {COD_FEE} DHS cash-on-delivery fee applies.
+        We call you to confirm the order before it goes into production.
+      </p>
+      
+      <div>
+        <Label htmlFor="codPhone" className={errors.codPhone ? "text-destructive" : ""}>
+          Phone number for order confirmation*
+        </Label>
+        <Input
+          id="codPhone"
+          type="tel"
+          {...register('codPhone', {
+            onBlur: (e) => setValue('codPhone', formatMoroccanPhone(e.target.value, 'national'))
+          })}
+          placeholder="06 12 34 56 78"
+          className={errors.codPhone ? "border-destructive" : ""}
+        />
+        {errors.codPhone && (
+          <p className="text-destructive text-sm mt-1">{errors.codPhone.message as string}</p>
+        )}
+      </div>
+      
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="codPhoneConfirmed"
+          checked={!!confirmed}
+          onCheckedChange={(checked) => setValue('codPhoneConfirmed', checked === true)}
+        />
+        <Label htmlFor="codPhoneConfirmed" className={`cursor-pointer leading-snug ${errors.codPhoneConfirmed ? "text-destructive" : ""}`}>
+          I will answer the confirmation call. Unconfirmed orders are cancelled after 48 hours.
+        </Label>
+      </div>
+      {errors.codPhoneConfirmed && (
+        <p className="text-destructive text-sm">{errors.codPhoneConfirmed.message as string}</p>
+      )}
+    </div>
+  );
+};
+
+export default CashOnDeliveryFields;
@@ -0,0 +1,14 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+const CmiFields: React.FC = () => (
+  <div className="flex items-start gap-3 text-sm text-gray-600">
+    <ShieldCheck className="h-5 w-5 text-green-600 flex-shrink-0" />
+    <p>
+      After placing your order you will be redirected to the secure CMI payment page to pay with
+      your Moroccan or international bank card. Your card details are never shared with us.
+    </p>
+  </div>
+);
+
+export default CmiFields;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { CreditCard } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { detectCardBrand, formatCardNumber, formatExpiry } from '@/utils/cardValidation';
+
+// In a real implementation the card would be captured by a secure payment processor
+const CreditCardFields: React.FC = () => {
+  const { register, formState: { errors }, watch, setValue } = useFormContext();
+  const cardNumber = watch('cardNumber') || '';
+  const expiry = watch('cardExpiry') || '';
+  const cvc = watch('cardCVC') || '';
+  const brand = detectCardBrand(cardNumber);
+  const cvcLength = brand ? brand.cvcLength : 3;
+  
+  return (
+    <div>
+      <div className="flex items-center mb-2">
+        <CreditCard className="h-6 w-6 text-gray-500 mr-2" />
+        <h4 className="font-medium">Credit Card Details</h4>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Visa, Mastercard and American Express. Moroccan bank cards are paid on the secure CMI page:
+        choose Bank Card (CMI).
+      </p>
+      
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="cardholderName">Cardholder Name*</Label>
+          <Input
+            id="cardholderName"
+            {...register('cardholderName')}
+            placeholder="Name as it appears on card"
+          />
+          {errors.cardholderName && (
+            <p className="text-destructive text-sm mt-1">{errors.cardholderName.message as string}</p>
+          )}
+        </div>
+        
+        <div>
+          <Label htmlFor="cardNumber">Card Number*</Label>
+          <div className="relative">
+            <Input
+              id="cardNumber"
+              value={cardNumber}
+              onChange={(e) => setValue('cardNumber', formatCardNumber(e.target.value))}
+              placeholder="1234 5678 9012 3456"
+              inputMode="numeric"
+              autoComplete="cc-number"
+              maxLength={23}
+              className="pr-28"
+            />
+            {brand && (
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs font-semibold text-brand-blue">
+                {brand.name}
+              </span>
+            )}
+          </div>
+          {errors.cardNumber && (
+            <p className="text-destructive text-sm mt-1">{errors.cardNumber.message as string}</p>
+          )}
+        </div>
+        
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="expiry">Expiry Date*</Label>
+            <Input
+              id="expiry"
+              value={expiry}
+              onChange={(e) => setValue('cardExpiry', formatExpiry(e.target.value))}
+              placeholder="MM/YY"
+              inputMode="numeric"
+              autoComplete="cc-exp"
+              maxLength={5}
+            />
+            {errors.cardExpiry && (
+              <p className="text-destructive text-sm mt-1">{errors.cardExpiry.message as string}</p>
+            )}
+          </div>
+          
+          <div>
+            <Label htmlFor="cvc">Security Code*</Label>
+            <Input
+              id="cvc"
+              value={cvc}
+              onChange={(e) => setValue('cardCVC', e.target.value.replace(/[^0-9]/g, '').slice(0, cvcLength))}
+              placeholder={cvcLength === 4 ? '4 digits' : 'CVC'}
+              inputMode="numeric"
+              autoComplete="cc-csc"
+              maxLength={cvcLength}
+            />
+            {errors.cardCVC && (
+              <p className="text-destructive text-sm mt-1">{errors.cardCVC.message as string}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditCardFields;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useFormContext } from 'react-hook-form';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+type MockPaymentOutcome = 'success' | 'pending' | 'declined';
+
+const outcomes: { value: MockPaymentOutcome; label: string }[] = [
+  { value: 'success', label: 'Payment accepted' },
+  { value: 'pending', label: 'Payment pending' },
+  { value: 'declined', label: 'Payment declined' }
+];
+
+const MockGatewayFields: React.FC = () => {
+  const { watch, setValue } = useFormContext();
+  const outcome = watch('mockOutcome') || 'success';
+
+  return (
+    <div className="text-sm">
+      <p className="text-gray-600 mb-3">Test gateway, only available in development. Choose the result to simulate:</p>
+      <RadioGroup value={outcome} onValueChange={(value) => setValue('mockOutcome', value)}>
+        {outcomes.map(option => (
+          <div key={option.value} className="flex items-center space-x-2">
+            <RadioGroupItem value={option.value} id={`mock-${option.value}`} />
+            <Label htmlFor={`mock-${option.value}`} className="cursor-pointer">{option.label}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+};
+
+export default MockGatewayFields;
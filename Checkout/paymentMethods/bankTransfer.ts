@@ -0,0 +1,35 @@
+import { companyInfo } from '@/data/company';
+import { PaymentMethodDefinition } from '@/services/PaymentMethodRegistry';
+import BankTransferFields from './BankTransferFields';
+
+/**
+ * Build the reference the customer writes on the transfer, e.g. CM-01234567-42.
+ * The last two digits are a mod-97 check so typos can be spotted when reconciling.
+ */
+export const generateTransferReference = (orderId: string): string => {
+  const digits = orderId.replace(/\D/g, '').slice(-8).padStart(8, '0');
+  const check = 97 - ((Number(digits) * 100) % 97);
+  return `CM-${digits}-${String(check).padStart(2, '0')}`;
+};
+
+export const isValidTransferReference = (reference: string): boolean => {
+  const match = reference.trim().toUpperCase().match(/^CM-(\d{8})-(\d{2})$/);
+  return !!match && generateTransferReference(match[1]) === `CM-${match[1]}-${match[2]}`;
+};
+
+export const bankTransfer: PaymentMethodDefinition = {
+  id: 'bank_transfer',
+  label: 'Bank Transfer',
+  description: 'Pay by transfer to our bank account',
+  fields: [],
+  Fields: BankTransferFields,
+  isAvailable: () => !!companyInfo.rib,
+  getReviewLines: (_, amount) => [
+    `Transfer ${amount.toFixed(2)} DHS to ${companyInfo.bankName}, RIB ${companyInfo.rib}.`,
+    'Your payment reference will be shown on the confirmation page and on your invoice.'
+  ],
+  processPayment: async ({ orderId }) => ({
+    status: 'pending',
+    reference: generateTransferReference(orderId)
+  })
+};
@@ -0,0 +1,27 @@
+import { COD_FEE, COD_MAX_ORDER_TOTAL } from '@/data/company';
+import { PaymentMethodDefinition } from '@/services/PaymentMethodRegistry';
+import { formatMoroccanPhone, isValidMoroccanPhone } from '@/utils/phoneNumber';
+import CashOnDeliveryFields from './CashOnDeliveryFields';
+
+export const cashOnDelivery: PaymentMethodDefinition = {
+  id: 'cash_on_delivery',
+  label: 'Cash on Delivery',
+  description: `Pay the courier in cash on delivery (+${COD_FEE} DHS)`,
+  fields: ['codPhone', 'codPhoneConfirmed'],
+  Fields: CashOnDeliveryFields,
+  isAvailable: ({ total }) => total <= COD_MAX_ORDER_TOTAL,
+  getFee: () => COD_FEE,
+  validate: (values, report) => {
+    if (!isValidMoroccanPhone(String(values.codPhone || ''))) {
+      report('codPhone', 'Enter a Moroccan phone number, e.g. 06 12 34 56 78');
+    }
+    if (values.codPhoneConfirmed !== true) {
+      report('codPhoneConfirmed', 'Please confirm that you will answer the confirmation call');
+    }
+  },
+  getReviewLines: (values, amount) => [
+    `Pay ${amount.toFixed(2)} DHS in cash to the courier (includes the ${COD_FEE} DHS cash-on-delivery fee).`,
+    `We will call ${formatMoroccanPhone(String(values.codPhone || ''))} to confirm your order before production.`
+  ],
+  processPayment: async () => ({ status: 'pending' })
+};
@@ -0,0 +1,113 @@
+import { Order } from '@/types';
+import { PaymentMethodDefinition, PaymentRequest } from '@/services/PaymentMethodRegistry';
+import { normalizeMoroccanPhone } from '@/utils/phoneNumber';
+import CmiFields from './CmiFields';
+
+const CMI_GATEWAY_URL = import.meta.env.VITE_CMI_GATEWAY_URL || 'https://testpayment.cmi.co.ma/fim/est3Dgate';
+const CMI_CLIENT_ID = import.meta.env.VITE_CMI_CLIENT_ID || '';
+// Backend endpoint that signs the request with the store key, which must never reach the browser
+const CMI_SIGNING_ENDPOINT = import.meta.env.VITE_CMI_SIGNING_ENDPOINT || '';
+const CMI_CALLBACK_URL = import.meta.env.VITE_CMI_CALLBACK_URL || '';
+// ISO 4217 numeric code of the Moroccan dirham
+const MAD_CURRENCY_CODE = '504';
+
+const PENDING_ORDER_STORAGE_KEY = 'pendingCmiOrder';
+
+/**
+ * Keep the order as a draft while the customer is on the CMI payment page. It is only
+ * placed when CMI sends the customer back to the ok URL.
+ */
+export const storePendingCmiOrder = (order: Order): void => {
+  try {
+    sessionStorage.setItem(PENDING_ORDER_STORAGE_KEY, JSON.stringify(order));
+  } catch (error) {
+    console.error('Error saving pending order:', error);
+  }
+};
+
+/**
+ * Get back the order paid on the CMI page. The draft stays until it is discarded,
+ * once the order has been placed.
+ */
+export const getPendingCmiOrder = (orderId: string): Order | null => {
+  try {
+    const saved = sessionStorage.getItem(PENDING_ORDER_STORAGE_KEY);
+    const order: Order | null = saved ? JSON.parse(saved) : null;
+    return order && order.id === orderId ? order : null;
+  } catch (error) {
+    console.error('Error loading pending order:', error);
+    return null;
+  }
+};
+
+/**
+ * Drop the draft of an order once placed, or of a payment that failed or was abandoned
+ */
+export const discardPendingCmiOrder = (): void => {
+  try {
+    sessionStorage.removeItem(PENDING_ORDER_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error removing pending order:', error);
+  }
+};
+
+const buildCmiFields = ({ orderId, amount, values }: PaymentRequest): Record<string, string> => {
+  const origin = window.location.origin;
+
+  return {
+    clientid: CMI_CLIENT_ID,
+    storetype: '3D_PAY_HOSTING',
+    TranType: 'PreAuth',
+    amount: amount.toFixed(2),
+    currency: MAD_CURRENCY_CODE,
+    oid: orderId,
+    // CMI posts back to these pages; the host must serve index.html for POST requests too
+    okUrl: `${origin}/order-confirmation?order=${encodeURIComponent(orderId)}`,
+    failUrl: `${origin}/checkout?payment=failed`,
+    callbackUrl: CMI_CALLBACK_URL,
+    lang: 'fr',
+    email: String(values.email || ''),
+    BillToName: String(values.fullName || ''),
+    tel: normalizeMoroccanPhone(String(values.phone || '')) || String(values.phone || ''),
+    rnd: Date.now().toString(),
+    hashAlgorithm: 'ver3',
+    encoding: 'UTF-8',
+    AutoRedirect: 'true'
+  };
+};
+
+export const cmi: PaymentMethodDefinition = {
+  id: 'cmi',
+  label: 'Bank Card (CMI)',
+  description: 'Pay online with your bank card on the secure CMI page',
+  fields: [],
+  Fields: CmiFields,
+  isAvailable: () => !!CMI_CLIENT_ID && !!CMI_SIGNING_ENDPOINT,
+  getReviewLines: (_, amount) => [
+    `You will be redirected to CMI to pay ${amount.toFixed(2)} DHS by card.`
+  ],
+  processPayment: async (request) => {
+    const fields = buildCmiFields(request);
+
+    try {
+      const response = await fetch(CMI_SIGNING_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields)
+      });
+      if (!response.ok) {
+        throw new Error(`Signing endpoint responded with ${response.status}`);
+      }
+
+      const { hash } = await response.json();
+      return {
+        status: 'redirect',
+        reference: request.orderId,
+        redirect: { url: CMI_GATEWAY_URL, fields: { ...fields, HASH: hash } }
+      };
+    } catch (error) {
+      console.error('Error preparing CMI payment:', error);
+      return { status: 'failed', error: 'Online card payment is unavailable right now. Please choose another method.' };
+    }
+  }
+};
@@ -0,0 +1,37 @@
+import { PaymentMethodDefinition } from '@/services/PaymentMethodRegistry';
+import { detectCardBrand, normalizeCardNumber, validateCardNumber, validateCvc, validateExpiry } from '@/utils/cardValidation';
+import CreditCardFields from './CreditCardFields';
+
+export const creditCard: PaymentMethodDefinition = {
+  id: 'credit_card',
+  label: 'Credit Card',
+  description: 'Pay securely with your credit card',
+  fields: ['cardNumber', 'cardExpiry', 'cardCVC', 'cardholderName'],
+  Fields: CreditCardFields,
+  // No card processor is connected yet: card payments are simulated, so they are only
+  // offered in development and customers pay by card through CMI
+  isAvailable: () => import.meta.env.DEV,
+  validate: (values, report) => {
+    const cardNumber = String(values.cardNumber || '');
+    const brand = detectCardBrand(cardNumber);
+
+    if (String(values.cardholderName || '').trim().length < 2) {
+      report('cardholderName', 'Cardholder name is required');
+    }
+    const numberError = validateCardNumber(cardNumber);
+    if (numberError) report('cardNumber', numberError);
+
+    const expiryError = validateExpiry(String(values.cardExpiry || ''));
+    if (expiryError) report('cardExpiry', expiryError);
+
+    const cvcError = validateCvc(String(values.cardCVC || ''), brand);
+    if (cvcError) report('cardCVC', cvcError);
+  },
+  getReviewLines: (values) => {
+    const cardNumber = String(values.cardNumber || '');
+    const brand = detectCardBrand(cardNumber);
+    return [`${brand ? brand.name : 'Card'} ending in ${normalizeCardNumber(cardNumber).slice(-4)}`];
+  },
+  // Simulated capture, see isAvailable
+  processPayment: async ({ orderId }) => ({ status: 'paid', reference: orderId })
+};
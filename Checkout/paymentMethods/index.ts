@@ -0,0 +1,16 @@
+import { paymentMethodRegistry } from '@/services/PaymentMethodRegistry';
+import { cashOnDelivery } from './cashOnDelivery';
+import { cmi } from './cmi';
+import { creditCard } from './creditCard';
+import { bankTransfer } from './bankTransfer';
+import { paypal } from './paypal';
+import { mockGateway } from './mockGateway';
+
+// Built-in methods, in the order they are offered at checkout
+[cashOnDelivery, cmi, creditCard, bankTransfer, paypal, mockGateway].forEach(method =>
+  paymentMethodRegistry.register(method)
+);
+
+export { paymentMethodRegistry };
+export { discardPendingCmiOrder, getPendingCmiOrder, storePendingCmiOrder } from './cmi';
+export { generateTransferReference, isValidTransferReference } from './bankTransfer';
@@ -0,0 +1,30 @@
+import { PaymentMethodDefinition, PaymentResult } from '@/services/PaymentMethodRegistry';
+import MockGatewayFields from './MockGatewayFields';
+
+/**
+ * Gateway adapter that resolves locally, to test every checkout outcome without a payment provider
+ */
+export const mockGateway: PaymentMethodDefinition = {
+  id: 'mock_gateway',
+  label: 'Test Gateway',
+  description: 'Simulated online payment for local testing',
+  fields: [],
+  Fields: MockGatewayFields,
+  isAvailable: () => import.meta.env.DEV,
+  getReviewLines: (values, amount) => [
+    `Simulated payment of ${amount.toFixed(2)} DHS, expected outcome: ${values.mockOutcome || 'success'}.`
+  ],
+  processPayment: async ({ orderId, values }): Promise<PaymentResult> => {
+    await new Promise(resolve => setTimeout(resolve, 800));
+    const reference = `MOCK-${orderId.replace(/\D/g, '')}`;
+
+    switch (values.mockOutcome || 'success') {
+      case 'declined':
+        return { status: 'failed', error: 'The test gateway declined the payment' };
+      case 'pending':
+        return { status: 'pending', reference };
+      default:
+        return { status: 'paid', reference };
+    }
+  }
+};
@@ -0,0 +1,13 @@
+import { PaymentMethodDefinition } from '@/services/PaymentMethodRegistry';
+
+export const paypal: PaymentMethodDefinition = {
+  id: 'paypal',
+  label: 'PayPal',
+  description: 'Pay using your PayPal account',
+  fields: [],
+  // PayPal is simulated until its checkout is integrated, so it is only offered in development
+  isAvailable: () => import.meta.env.DEV,
+  getReviewLines: (values) => [`Paid with the PayPal account of ${values.email}`],
+  // Simulated capture, see isAvailable
+  processPayment: async ({ orderId }) => ({ status: 'paid', reference: orderId })
+};
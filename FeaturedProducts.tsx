@@ -2,10 +2,11 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import ProductCard from './ProductCard';
-import { getFeaturedProducts } from '../data/products';
+import { useCatalog } from '../hooks/useCatalog';
 
 const FeaturedProducts: React.FC = () => {
-  const featuredProducts = getFeaturedProducts();
+  const { products } = useCatalog();
+  const featuredProducts = products.filter(product => product.featured);
   
   return (
     <section className="py-16 bg-gray-50">
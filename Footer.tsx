@@ -53,6 +53,11 @@ const Footer: React.FC = () => {
                   Contact Us
                 </Link>
               </li>
+              <li>
+                <Link to="/track" className="text-gray-300 hover:text-white transition-colors">
+                  Track Your Order
+                </Link>
+              </li>
             </ul>
           </div>
           
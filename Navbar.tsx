@@ -14,8 +14,10 @@ const Navbar = () => {
   const navLinks = [
     { name: t('navigation.home'), path: '/' },
     { name: t('navigation.products'), path: '/products' },
+    { name: t('navigation.stampFinder'), path: '/stamp-finder' },
     { name: t('navigation.design'), path: '/design' },
     { name: t('navigation.contact'), path: '/contact' },
+    { name: t('navigation.orders'), path: '/orders' },
   ];
 
   const toggleMenu = () => {
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { Order } from '@/types';
+import { invoiceService } from '@/services/InvoiceService';
+
+interface DownloadInvoiceButtonProps {
+  order: Order;
+}
+
+const DownloadInvoiceButton: React.FC<DownloadInvoiceButtonProps> = ({ order }) => {
+  const [isGeneratingInvoice, setIsGeneratingInvoice] = useState(false);
+
+  // Without the orders API no invoice number can be issued, so customers get a pro-forma
+  const isProforma = !invoiceService.canIssueInvoices();
+  const documentName = isProforma ? 'Pro-forma invoice' : 'Invoice';
+
+  const handleDownloadInvoice = async () => {
+    setIsGeneratingInvoice(true);
+    try {
+      const invoice = isProforma
+        ? await invoiceService.downloadProforma(order)
+        : await invoiceService.downloadInvoice(order);
+      toast.success(`${documentName} ${invoice.number} downloaded`);
+    } catch (error) {
+      console.error('Error generating invoice:', error);
+      toast.error("We couldn't generate your invoice. Please try again.");
+    } finally {
+      setIsGeneratingInvoice(false);
+    }
+  };
+
+  if (!invoiceService.canIssueDocuments()) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={handleDownloadInvoice}
+      disabled={isGeneratingInvoice}
+      className="btn-outline inline-flex items-center justify-center gap-2"
+    >
+      <FileText size={16} />
+      {isGeneratingInvoice ? 'Generating invoice...' : `Download ${documentName} (PDF)`}
+    </button>
+  );
+};
+
+export default DownloadInvoiceButton;
@@ -0,0 +1,212 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Package, Truck } from 'lucide-react';
+import { Order } from '@/types';
+import { pricingService } from '@/services/PricingService';
+import { taxService } from '@/services/TaxService';
+import { shippingService } from '@/services/ShippingService';
+import { proofApprovalService } from '@/services/ProofApprovalService';
+import { formatIce } from '@/utils/companyIdentifiers';
+import { companyInfo } from '@/data/company';
+import TaxBreakdown from '../Checkout/TaxBreakdown';
+import { paymentMethodRegistry } from '../Checkout/paymentMethods';
+import { productVariantService } from '@/services/ProductVariantService';
+
+interface OrderDetailsProps {
+  order: Order;
+}
+
+// Items, totals, payment instructions and delivery of a placed order
+const OrderDetails: React.FC<OrderDetailsProps> = ({ order }) => {
+  const pricing = pricingService.priceCart(order.items);
+  const taxBreakdown = taxService.computeOrderTax({
+    items: order.items,
+    discount: order.discount,
+    shipping: order.shipping,
+    paymentFee: order.paymentFee
+  });
+  const formattedDate = new Date(order.date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  return (
+    <>
+      <div className="border-t border-b py-4 mb-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4">
+          <div>
+            <p className="text-sm text-gray-500">Order Number</p>
+            <p className="font-medium">{order.id}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Date</p>
+            <p className="font-medium">{formattedDate}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Total</p>
+            <p className="font-medium">{order.total.toFixed(2)} DHS</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Payment Method</p>
+            <p className="font-medium">{paymentMethodRegistry.getLabel(order.paymentMethod)}</p>
+            {order.paymentStatus === 'pending' && (
+              <p className="text-xs text-amber-600">Awaiting payment</p>
+            )}
+          </div>
+        </div>
+      </div>
+      
+      <div className="mb-8">
+        <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
+        {order.items.map((item, index) => (
+          <div key={item.id} className="flex items-start py-4 border-b">
+            <div className="w-16 h-16 bg-gray-100 flex-shrink-0 rounded overflow-hidden">
+              {item.previewImage ? (
+                <img src={item.previewImage} alt="Custom Stamp Preview" className="w-full h-full object-cover" />
+              ) : (
+                <img src={productVariantService.getImage(item.product, item.variant)} alt={item.product.name} className="w-full h-full object-contain" />
+              )}
+            </div>
+            <div className="ml-4 flex-grow">
+              <h3 className="font-medium">{item.product.name}</h3>
+              <p className="text-sm text-gray-600">
+                {item.product.size} • {item.inkColor} ink • Qty: {item.quantity}
+              </p>
+              {item.variant && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {productVariantService.describe(item.variant)} • SKU {item.variant.sku}
+                </p>
+              )}
+              {item.customText && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Custom text: {item.customText}
+                </p>
+              )}
+            </div>
+            <div className="text-right">
+              <p className="font-medium">{pricing.lines[index].lineTotal.toFixed(2)} DHS</p>
+              {pricing.lines[index].tier && (
+                <p className="text-xs text-green-600">{pricingService.describeTier(pricing.lines[index].tier)}</p>
+              )}
+            </div>
+          </div>
+        ))}
+        
+        <div className="mt-4 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>Subtotal</span>
+            <span>{order.subtotal.toFixed(2)} DHS</span>
+          </div>
+          {order.discount > 0 && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>Promo code ({order.promoCode})</span>
+              <span>-{order.discount.toFixed(2)} DHS</span>
+            </div>
+          )}
+          <div className="flex justify-between text-sm">
+            <span>Shipping ({order.shippingMethod.name})</span>
+            <span>{order.shipping.toFixed(2)} DHS</span>
+          </div>
+          {order.paymentFee > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>{paymentMethodRegistry.getLabel(order.paymentMethod)} fee</span>
+              <span>{order.paymentFee.toFixed(2)} DHS</span>
+            </div>
+          )}
+          <div className="flex justify-between font-medium text-lg pt-2 border-t">
+            <span>Total</span>
+            <span>{order.total.toFixed(2)} DHS</span>
+          </div>
+        </div>
+      </div>
+      
+      {order.proof && order.proof.status !== 'approved' && (
+        <div className="border border-brand-blue/30 bg-brand-blue/5 rounded-md p-4 mb-8 text-sm">
+          <h3 className="font-medium mb-2">
+            {order.proof.status === 'pending' ? 'Approve your proof' : 'Corrected proof on its way'}
+          </h3>
+          <p className="mb-3">
+            {order.proof.status === 'pending'
+              ? 'Check your stamp artwork at actual size. We start engraving as soon as you approve it.'
+              : 'We have received your comments and will send you a new proof to approve.'}
+          </p>
+          <Link to={proofApprovalService.getProofPath(order)} className="btn-primary inline-block">
+            {order.proof.status === 'pending' ? 'Review Proof' : 'View Proof History'}
+          </Link>
+        </div>
+      )}
+      
+      {order.paymentMethod === 'bank_transfer' && order.paymentStatus === 'pending' && (
+        <div className="border border-amber-200 bg-amber-50 rounded-md p-4 mb-8 text-sm">
+          <h3 className="font-medium mb-2">Complete your bank transfer</h3>
+          <p>Transfer {order.total.toFixed(2)} DHS to {companyInfo.name}, {companyInfo.bankName}</p>
+          <p className="font-mono">RIB: {companyInfo.rib}</p>
+          <p className="mt-2">
+            Reference to write on the transfer: <span className="font-mono font-semibold">{order.paymentReference}</span>
+          </p>
+        </div>
+      )}
+      
+      {order.paymentMethod === 'cash_on_delivery' && (
+        <div className="border border-amber-200 bg-amber-50 rounded-md p-4 mb-8 text-sm">
+          <h3 className="font-medium mb-2">Cash on delivery</h3>
+          <p>
+            We will call you shortly to confirm your order. Please have {order.total.toFixed(2)} DHS
+            ready in cash for the courier.
+          </p>
+        </div>
+      )}
+      
+      <div className="mb-8">
+        <h2 className="text-xl font-semibold mb-4">Tax Breakdown</h2>
+        <TaxBreakdown breakdown={taxBreakdown} showLines={false} />
+      </div>
+      
+      {order.company && (
+        <div className="border rounded-md p-4 mb-6">
+          <h3 className="font-medium mb-2">Invoiced Company</h3>
+          <p className="text-gray-700">{order.company.name}</p>
+          <p className="text-gray-600 text-sm">ICE: {formatIce(order.company.ice)}</p>
+          {order.company.if && <p className="text-gray-600 text-sm">IF: {order.company.if}</p>}
+          {order.company.rc && <p className="text-gray-600 text-sm">RC: {order.company.rc}</p>}
+        </div>
+      )}
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="border rounded-md p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Package className="w-5 h-5 text-gray-600" />
+            <h3 className="font-medium">Shipping Information</h3>
+          </div>
+          <p className="text-gray-700">{order.customerName}</p>
+          <p className="text-gray-600 text-sm whitespace-pre-line">
+            {order.shippingAddress.split(', ').join('\n')}
+          </p>
+        </div>
+        
+        <div className="border rounded-md p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <Truck className="w-5 h-5 text-gray-600" />
+            <h3 className="font-medium">Delivery Details</h3>
+          </div>
+          <p className="text-gray-700">{order.shippingMethod.name}</p>
+          <p className="text-gray-600 text-sm">{order.shippingMethod.days}</p>
+          {order.shippingMethod.estimatedDelivery && (
+            <p className="text-gray-600 text-sm">
+              {order.shippingMethod.isPickup ? 'Ready from' : 'Estimated delivery'}{' '}
+              {shippingService.formatDeliveryEstimate(order.shippingMethod.estimatedDelivery)}
+            </p>
+          )}
+          <p className="text-sm text-gray-500 mt-1">
+            {order.shippingMethod.isPickup
+              ? "We'll let you know when your order is ready to collect at our Casablanca workshop."
+              : "We'll send you shipping confirmation when your order ships."}
+          </p>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default OrderDetails;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Order } from '@/types';
+import { proofApprovalService } from '@/services/ProofApprovalService';
+import ProductionProof from '../StampDesigner/ProductionProof';
+
+interface ProductionProofDialogProps {
+  order: Order | null;
+  onClose: () => void;
+}
+
+// Production proof of every line of a placed order, labelled with its order number
+const ProductionProofDialog: React.FC<ProductionProofDialogProps> = ({ order, onClose }) => (
+  <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Production proof of {order?.id}</DialogTitle>
+      </DialogHeader>
+
+      <div className="space-y-6">
+        {order?.items.map(item => {
+          const design = proofApprovalService.getProductionDesign(order, item);
+          return (
+            <div key={item.id} className="border rounded-md p-3">
+              <p className="font-medium text-sm mb-2">{item.quantity} x {item.product.name}</p>
+              {design ? (
+                <ProductionProof design={design} product={item.product} orderId={order.id} />
+              ) : (
+                <p className="text-sm text-gray-500">
+                  {item.design
+                    ? 'The latest proof of this line is an uploaded image; engrave from that image.'
+                    : 'This line has no stamp design.'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ProductionProofDialog;
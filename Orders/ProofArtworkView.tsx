@@ -0,0 +1,53 @@
+import React from 'react';
+import { Product, ProofArtwork } from '@/types';
+import { vectorExportService } from '@/services/VectorExportService';
+import { getProductDimensions } from '@/utils/stampDimensions';
+import { useOutlineFonts } from '@/hooks/useOutlineFonts';
+import { useScreenCalibration } from '@/hooks/useScreenCalibration';
+
+interface ProofArtworkViewProps {
+  artwork: ProofArtwork;
+  product: Product;
+  // Show the impression at its physical size instead of fitting the container
+  actualSize?: boolean;
+}
+
+// Stamp impression of one order line, drawn from the design at the product's size in millimetres
+const ProofArtworkView: React.FC<ProofArtworkViewProps> = ({ artwork, product, actualSize = false }) => {
+  const { width, height } = getProductDimensions(product);
+  const { mm } = useScreenCalibration();
+  // Renders again once the fonts arrive, drawing the text as outlines
+  useOutlineFonts(artwork.design);
+
+  const svgUrl = artwork.design
+    ? `data:image/svg+xml;utf8,${encodeURIComponent(vectorExportService.generateSvg(artwork.design, product, { background: true }))}`
+    : null;
+
+  if (svgUrl) {
+    return (
+      <img
+        src={svgUrl}
+        alt={`Proof of ${product.name}`}
+        style={actualSize ? { width: mm(width), height: mm(height) } : undefined}
+        className={actualSize ? 'max-w-none' : 'max-w-full h-auto'}
+      />
+    );
+  }
+
+  if (artwork.previewImage) {
+    return (
+      <img
+        src={artwork.previewImage}
+        alt={`Preview of ${product.name}`}
+        style={actualSize ? { width: mm(width), height: mm(height) } : undefined}
+        className={actualSize ? 'max-w-none object-contain' : 'max-w-full h-auto'}
+      />
+    );
+  }
+
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-line">{artwork.customText || product.name}</p>
+  );
+};
+
+export default ProofArtworkView;
@@ -1,10 +1,14 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { Product } from '@/types';
-import { useNavigate } from 'react-router-dom';
+import { Product, ProductVariant } from '@/types';
+import { Link, useNavigate } from 'react-router-dom';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
+import StockBadge from './common/StockBadge';
+import VariantSelector from './VariantSelector';
+import { inventoryService } from '@/services/InventoryService';
+import { productVariantService } from '@/services/ProductVariantService';
 
 interface ProductCardProps {
   product: Product;
@@ -22,12 +26,21 @@ const ProductCard = ({
   maxSelectableProducts = 3 
 }: ProductCardProps) => {
   const navigate = useNavigate();
+  const [selectedVariant, setSelectedVariant] = useState<ProductVariant | undefined>(
+    () => productVariantService.getDefaultVariant(product)
+  );
+  const availability = selectedVariant
+    ? inventoryService.getVariantAvailability(product, selectedVariant)
+    : inventoryService.getProductAvailability(product);
+  const isOutOfStock = !inventoryService.isPurchasable(availability);
+  const image = productVariantService.getImage(product, selectedVariant);
+  const sizedProduct = productVariantService.applyVariant(product, selectedVariant);
 
   const handleCardClick = () => {
     if (isSelectionMode && onSelectForComparison) {
       onSelectForComparison();
     } else {
-      navigate(`/design?productId=${product.id}`);
+      navigate(`/design?productId=${product.id}${selectedVariant ? `&variant=${encodeURIComponent(selectedVariant.sku)}` : ''}`);
     }
   };
 
@@ -46,14 +59,16 @@ const ProductCard = ({
       onClick={handleCardClick}
     >
       <div className="relative pt-[100%]">
-        {product.images && product.images.length > 0 && (
+        {image && (
           <img
-            src={product.images[0]}
+            src={image}
             alt={product.name}
-            className="absolute inset-0 w-full h-full object-contain p-4"
+            className={`absolute inset-0 w-full h-full object-contain p-4 ${isOutOfStock ? 'opacity-50' : ''}`}
           />
         )}
         
+        <StockBadge availability={availability} className="absolute top-2 left-2" />
+        
         {isSelectionMode && (
           <div 
             className="absolute top-2 right-2 bg-white rounded-full shadow-sm"
@@ -72,15 +87,15 @@ const ProductCard = ({
         <div className="mb-2">
           <p className="text-sm text-gray-500">{product.brand}</p>
           <h3 className="font-semibold text-lg line-clamp-1">{product.name}</h3>
-          <p className="text-gray-700 text-xl font-medium">{product.price} MAD</p>
+          <p className="text-gray-700 text-xl font-medium">{productVariantService.getUnitPrice(product, selectedVariant)} MAD</p>
         </div>
         
         <div className="mt-2 flex flex-wrap gap-1">
           <span className="text-xs bg-gray-100 rounded-full px-2 py-1">
-            {product.size}
+            {sizedProduct.size}
           </span>
           <span className="text-xs bg-gray-100 rounded-full px-2 py-1">
-            {product.lines} lines
+            {sizedProduct.lines} lines
           </span>
           {product.shape && (
             <span className="text-xs bg-gray-100 rounded-full px-2 py-1">
@@ -88,6 +103,25 @@ const ProductCard = ({
             </span>
           )}
         </div>
+        
+        <Link
+          to={`/products/${product.id}`}
+          onClick={(e) => e.stopPropagation()}
+          className="inline-block mt-3 text-sm text-brand-blue hover:underline"
+        >
+          View details
+        </Link>
+        
+        {selectedVariant && (
+          <div className="mt-3">
+            <VariantSelector
+              product={product}
+              selectedVariant={selectedVariant}
+              onChange={setSelectedVariant}
+              compact
+            />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
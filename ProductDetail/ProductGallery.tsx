@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { ZoomIn } from 'lucide-react';
+
+interface ProductGalleryProps {
+  images: string[];
+  alt: string;
+}
+
+const ZOOM_SCALE = 2;
+
+// Main image with thumbnails; hovering (or tapping) the image zooms in where the pointer is
+const ProductGallery = ({ images, alt }: ProductGalleryProps) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isZoomed, setIsZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+
+  // A variant change can swap the images
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [images]);
+
+  const activeImage = images[activeIndex] || images[0];
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * 100;
+    const y = ((e.clientY - bounds.top) / bounds.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  if (!activeImage) {
+    return <div className="bg-white rounded-lg shadow-md aspect-square" />;
+  }
+
+  return (
+    <div>
+      <div
+        className={`relative bg-white rounded-lg shadow-md aspect-square overflow-hidden ${
+          isZoomed ? 'cursor-zoom-out' : 'cursor-zoom-in'
+        }`}
+        onMouseEnter={() => setIsZoomed(true)}
+        onMouseLeave={() => setIsZoomed(false)}
+        onMouseMove={handleMouseMove}
+        onClick={() => setIsZoomed(!isZoomed)}
+      >
+        <img
+          src={activeImage}
+          alt={alt}
+          className="w-full h-full object-contain p-6 transition-transform duration-150"
+          style={{ transform: isZoomed ? `scale(${ZOOM_SCALE})` : undefined, transformOrigin: zoomOrigin }}
+        />
+        {!isZoomed && (
+          <span className="absolute bottom-3 right-3 bg-white/80 rounded-full p-1.5 text-gray-600">
+            <ZoomIn className="h-4 w-4" />
+          </span>
+        )}
+      </div>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 mt-3 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={`${image}-${index}`}
+              type="button"
+              onClick={() => setActiveIndex(index)}
+              className={`w-16 h-16 flex-shrink-0 bg-white rounded-md border-2 p-1 ${
+                index === activeIndex ? 'border-brand-blue' : 'border-gray-200'
+              }`}
+              aria-label={`Show image ${index + 1} of ${images.length}`}
+              aria-pressed={index === activeIndex}
+            >
+              <img src={image} alt="" className="w-full h-full object-contain" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Product, ProductVariant } from '@/types';
+import { buildComparisonRows } from '@/utils/productComparison';
+import { shippingService } from '@/services/ShippingService';
+import { productVariantService } from '@/services/ProductVariantService';
+
+interface SpecTableProps {
+  product: Product;
+  variant?: ProductVariant;
+}
+
+// Prices are shown next to the variant selector instead
+const hiddenRows = ['price', 'pricePerLine'];
+
+// Specifications of a product, from the same attributes as the comparison matrix
+const SpecTable = ({ product, variant }: SpecTableProps) => {
+  const rows = [
+    ...buildComparisonRows([product])
+      .filter(row => !hiddenRows.includes(row.key))
+      .map(row => ({ label: row.label, value: row.values[0] })),
+    ...(variant ? [
+      { label: 'Options', value: productVariantService.describe(variant) },
+      { label: 'SKU', value: variant.sku }
+    ] : []),
+    { label: 'Shipping weight', value: `${shippingService.getProductWeight(product)} g` }
+  ];
+
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label} className="border-t first:border-t-0">
+            <th scope="row" className="text-left font-medium text-gray-600 py-2 pr-4 w-1/3">{row.label}</th>
+            <td className="py-2 text-gray-800">{row.value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default SpecTable;
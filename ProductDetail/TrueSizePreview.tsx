@@ -0,0 +1,68 @@
+import React from 'react';
+import { Product } from '@/types';
+import { getProductDimensions } from '@/utils/stampDimensions';
+import { useScreenCalibration } from '@/hooks/useScreenCalibration';
+import ScreenCalibration from '../common/ScreenCalibration';
+
+interface TrueSizePreviewProps {
+  product: Product;
+  inkColor?: string;
+}
+
+const RULER_LENGTH_MM = 50;
+
+// Blank impression of the stamp at its physical size, with one placeholder per text line
+const TrueSizePreview = ({ product, inkColor }: TrueSizePreviewProps) => {
+  const { width, height, isRound } = getProductDimensions(product);
+  const { mm } = useScreenCalibration();
+  const color = inkColor || product.inkColors[0] || 'blue';
+  // Placeholders share the height left inside the border
+  const lineHeight = Math.min(4, (height - 4) / Math.max(product.lines, 1));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-1">Actual size</h2>
+      <p className="text-sm text-gray-500 mb-1">{product.size} impression.</p>
+      <ScreenCalibration className="mb-4" />
+
+      <div className="overflow-x-auto">
+        <div className="flex items-center justify-center py-4" style={{ minHeight: mm(60) }}>
+          <div
+            className="flex flex-col items-center justify-center"
+            style={{
+              width: mm(width),
+              height: mm(height),
+              border: `${mm(0.6)} solid ${color}`,
+              borderRadius: isRound ? '50%' : mm(1),
+              gap: mm(lineHeight / 3)
+            }}
+            aria-label={`${product.size} ${isRound ? 'round' : 'rectangular'} stamp at actual size`}
+          >
+            {Array.from({ length: product.lines }).map((_, index) => (
+              <div
+                key={index}
+                className="rounded-sm opacity-30"
+                style={{
+                  backgroundColor: color,
+                  height: mm(lineHeight * 0.5),
+                  width: mm((isRound ? width * 0.55 : width * 0.75) - (index % 2) * width * 0.1)
+                }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="mt-2" style={{ width: mm(RULER_LENGTH_MM) }}>
+          <div className="flex items-end h-3 border-b border-r border-gray-600">
+            {Array.from({ length: RULER_LENGTH_MM / 10 }).map((_, index) => (
+              <div key={index} className="border-l border-gray-600 h-full" style={{ width: mm(10) }} />
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">{RULER_LENGTH_MM / 10} cm</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrueSizePreview;
@@ -25,6 +25,7 @@ const ActiveFilters = ({
     filters.selectedSizes.length > 0 ||
     filters.selectedShape !== null ||
     filters.selectedLines !== null ||
+    !!filters.selectedAvailability ||
     (filters.priceRange[0] > filters.minPrice || 
      filters.priceRange[1] < filters.maxPrice) ||
     filters.searchQuery !== '';
@@ -73,6 +74,13 @@ const ActiveFilters = ({
           />
         )}
         
+        {filters.selectedAvailability && (
+          <FilterTag
+            label={filters.selectedAvailability === 'in_stock' ? 'In stock' : 'In stock or back-order'}
+            onRemove={() => onRemove('availability')}
+          />
+        )}
+        
         {filters.selectedBrands.map((brand) => (
           <FilterTag
             key={`brand-${brand}`}
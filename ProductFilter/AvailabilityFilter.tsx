@@ -0,0 +1,54 @@
+import React from 'react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+interface AvailabilityFilterProps {
+  selectedAvailability: string | null;
+  onChange: (availability: string | null) => void;
+}
+
+const AvailabilityFilter = ({ selectedAvailability, onChange }: AvailabilityFilterProps) => {
+  const [open, setOpen] = React.useState(true);
+
+  const availabilityOptions = [
+    { value: 'in_stock', label: 'In stock' },
+    { value: 'orderable', label: 'In stock or back-order' },
+  ];
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm">Availability</h3>
+        <CollapsibleTrigger className="hover:bg-gray-100 rounded-full p-1">
+          {open ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent>
+        <RadioGroup 
+          value={selectedAvailability || ''} 
+          onValueChange={(value) => onChange(value || null)}
+          className="space-y-2"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="" id="availability-all" />
+            <Label htmlFor="availability-all" className="text-sm cursor-pointer">All</Label>
+          </div>
+          {availabilityOptions.map((option) => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.value} id={`availability-${option.value}`} />
+              <Label htmlFor={`availability-${option.value}`} className="text-sm cursor-pointer">{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default AvailabilityFilter;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Plus, X } from 'lucide-react';
+import { Product } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { buildComparisonRows } from '@/utils/productComparison';
+import { MAX_COMPARE_PRODUCTS } from '@/hooks/useProductComparison';
+
+interface ComparisonMatrixProps {
+  products: Product[];
+  onRemoveProduct: (productId: string) => void;
+}
+
+const ComparisonMatrix = ({ products, onRemoveProduct }: ComparisonMatrixProps) => {
+  const navigate = useNavigate();
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const rows = buildComparisonRows(products);
+  const visibleRows = differencesOnly ? rows.filter(row => row.differs) : rows;
+  const emptySlots = MAX_COMPARE_PRODUCTS - products.length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 md:p-6">
+      <div className="flex items-center justify-end space-x-2 mb-4">
+        <Switch
+          id="differencesOnly"
+          checked={differencesOnly}
+          onCheckedChange={setDifferencesOnly}
+          disabled={products.length < 2}
+        />
+        <Label htmlFor="differencesOnly">Show differences only</Label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left py-2 px-4 bg-gray-50 w-40">Feature</th>
+              {products.map(product => (
+                <th key={product.id} className="py-3 px-4 bg-gray-50 align-top min-w-[180px]">
+                  <div className="relative flex flex-col items-center space-y-2">
+                    <button
+                      onClick={() => onRemoveProduct(product.id)}
+                      className="absolute -top-1 right-0 bg-gray-200 hover:bg-gray-300 rounded-full p-0.5"
+                      aria-label={`Remove ${product.name} from comparison`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                    <img
+                      src={product.images[0]}
+                      alt={product.name}
+                      className="w-20 h-20 object-contain"
+                    />
+                    <span className="font-medium">{product.name}</span>
+                    <Button size="sm" onClick={() => navigate(`/design?productId=${product.id}`)}>
+                      Design with this one
+                    </Button>
+                  </div>
+                </th>
+              ))}
+              {emptySlots > 0 && (
+                <th className="py-3 px-4 bg-gray-50 align-middle min-w-[180px]">
+                  <Link
+                    to="/products"
+                    className="flex flex-col items-center text-gray-500 hover:text-brand-blue font-normal"
+                  >
+                    <Plus className="h-6 w-6 mb-1" />
+                    Add a product
+                  </Link>
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr key={row.key} className={row.differs ? 'bg-amber-50' : ''}>
+                <td className="py-2 px-4 border-t font-medium text-gray-700">{row.label}</td>
+                {row.values.map((value, index) => (
+                  <td
+                    key={products[index].id}
+                    className={`py-2 px-4 border-t text-center ${
+                      row.bestIndexes.includes(index) ? 'text-green-700 font-semibold' : ''
+                    }`}
+                  >
+                    {value}
+                    {row.bestIndexes.includes(index) && (
+                      <span className="ml-2 text-xs rounded-full bg-green-100 px-2 py-0.5">Best</span>
+                    )}
+                  </td>
+                ))}
+                {emptySlots > 0 && <td className="border-t" />}
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={products.length + (emptySlots > 0 ? 2 : 1)} className="py-6 text-center text-gray-500 border-t">
+                  These products have the same features.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Highlighted rows differ between the products. Prices include VAT.
+      </p>
+    </div>
+  );
+};
+
+export default ComparisonMatrix;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { productSearchService } from '@/services/ProductSearchService';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+// Text with the words matching the search marked, including typos and synonyms
+const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+  const segments = productSearchService.highlight(text, query);
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -5,20 +5,28 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Search, X } from 'lucide-react';
 import { Product } from '@/types';
+import { productSearchService } from '@/services/ProductSearchService';
+import HighlightedText from './HighlightedText';
 
 interface SearchBarProps {
   products: Product[];
   onSearch: (query: string) => void;
   onProductSelect: (productId: string) => void;
   placeholder?: string; // Added optional placeholder prop
+  // Current search, e.g. restored from a shared link
+  value?: string;
 }
 
-const SearchBar = ({ products, onSearch, onProductSelect, placeholder }: SearchBarProps) => {
-  const [query, setQuery] = useState('');
+const SearchBar = ({ products, onSearch, onProductSelect, placeholder, value }: SearchBarProps) => {
+  const [query, setQuery] = useState(value || '');
   const [open, setOpen] = useState(false);
   const isMobile = useIsMobile();
   const inputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    if (value !== undefined) setQuery(value);
+  }, [value]);
+
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
@@ -44,12 +52,9 @@ const SearchBar = ({ products, onSearch, onProductSelect, placeholder }: SearchB
     onSearch('');
   };
 
-  const filteredProducts = query
-    ? products.filter(product => 
-        product.name.toLowerCase().includes(query.toLowerCase()) ||
-        product.brand.toLowerCase().includes(query.toLowerCase()) ||
-        product.model.toLowerCase().includes(query.toLowerCase())
-      )
+  // Best matches first; typos, accents and synonyms are allowed
+  const filteredProducts = productSearchService.hasSearchTerms(query)
+    ? productSearchService.search(products, query).map(result => result.product)
     : [];
 
   // Default placeholder text if none provided
@@ -79,7 +84,7 @@ const SearchBar = ({ products, onSearch, onProductSelect, placeholder }: SearchB
       </div>
 
       {open && query && (
-        <Command className="absolute top-full mt-1 w-full z-50 rounded-md border shadow-md bg-white">
+        <Command shouldFilter={false} className="absolute top-full mt-1 w-full z-50 rounded-md border shadow-md bg-white">
           <CommandInput placeholder="Search products..." />
           <CommandList>
             <CommandEmpty>No results found.</CommandEmpty>
@@ -103,8 +108,10 @@ const SearchBar = ({ products, onSearch, onProductSelect, placeholder }: SearchB
                       />
                     )}
                     <div>
-                      <p className="font-medium">{product.name}</p>
-                      <p className="text-xs text-gray-500">{product.brand} - {product.price} MAD</p>
+                      <p className="font-medium"><HighlightedText text={product.name} query={query} /></p>
+                      <p className="text-xs text-gray-500">
+                        <HighlightedText text={`${product.brand} ${product.model}`} query={query} /> - {product.price} MAD
+                      </p>
                     </div>
                   </div>
                 </CommandItem>
@@ -5,13 +5,17 @@ import QrCodeGenerator from './QrCodeGenerator';
 import BarcodeGenerator from './BarcodeGenerator';
 import ExportDesign from './ExportDesign';
 import { useTranslation } from 'react-i18next';
+import { StampElementInput } from '@/types';
 
 interface AdvancedToolsProps {
   svgRef: string | null;
   previewImage: string | null;
   productName: string;
+  productSize?: string;
   downloadAsPng: () => void;
-  onAddElement: (element: { type: string, dataUrl: string, width: number, height: number }) => void;
+  downloadAsSvg?: () => void;
+  downloadAsPdf?: () => void;
+  onAddElement: (element: StampElementInput) => void;
   largeControls?: boolean;
 }
 
@@ -19,31 +23,16 @@ const AdvancedTools: React.FC<AdvancedToolsProps> = ({
   svgRef,
   previewImage,
   productName,
+  productSize,
   downloadAsPng,
+  downloadAsSvg,
+  downloadAsPdf,
   onAddElement,
   largeControls = false
 }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<string>('qr-code');
   
-  const handleQrCodeGenerated = (dataUrl: string) => {
-    onAddElement({
-      type: 'qrcode',
-      dataUrl,
-      width: 50,
-      height: 50
-    });
-  };
-  
-  const handleBarcodeGenerated = (dataUrl: string) => {
-    onAddElement({
-      type: 'barcode',
-      dataUrl,
-      width: 80,
-      height: 40
-    });
-  };
-  
   return (
     <div className="space-y-4">
       <h3 className={`font-medium text-gray-800 ${largeControls ? "text-lg" : ""}`}>
@@ -64,11 +53,11 @@ const AdvancedTools: React.FC<AdvancedToolsProps> = ({
         </TabsList>
         
         <TabsContent value="qr-code">
-          <QrCodeGenerator onGenerate={handleQrCodeGenerated} />
+          <QrCodeGenerator onGenerate={onAddElement} />
         </TabsContent>
         
         <TabsContent value="barcode">
-          <BarcodeGenerator onGenerate={handleBarcodeGenerated} />
+          <BarcodeGenerator productSize={productSize} onGenerate={onAddElement} />
         </TabsContent>
         
         <TabsContent value="export">
@@ -77,6 +66,8 @@ const AdvancedTools: React.FC<AdvancedToolsProps> = ({
             previewImage={previewImage} 
             productName={productName} 
             downloadAsPng={downloadAsPng}
+            downloadAsSvg={downloadAsSvg}
+            downloadAsPdf={downloadAsPdf}
             largeControls={largeControls}
           />
         </TabsContent>
@@ -1,40 +1,97 @@
-
 import React, { useState } from 'react';
 import { Barcode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { StampElementInput } from '@/types';
+import {
+  barcodeToDataUrl,
+  barcodeToSvg,
+  BarcodeFormat,
+  encodeBarcode,
+  getBarcodeSize
+} from '@/utils/barcodeEncoder';
+import { parseProductSize } from '@/utils/stampDimensions';
 
 interface BarcodeGeneratorProps {
-  onGenerate: (dataUrl: string) => void;
+  productSize?: string;
+  onGenerate: (element: StampElementInput) => void;
 }
 
-const BarcodeGenerator: React.FC<BarcodeGeneratorProps> = ({ onGenerate }) => {
+const PLACEHOLDERS: Record<BarcodeFormat, string> = {
+  code128: 'Enter text or numbers',
+  code39: 'A-Z, 0-9, space and - . $ / + %',
+  ean13: '12 digits (check digit added) or 13 digits',
+  ean8: '7 digits (check digit added) or 8 digits',
+  itf14: '13 digits (check digit added) or 14 digits'
+};
+
+const QUIET_ZONE = 10;
+
+const BarcodeGenerator: React.FC<BarcodeGeneratorProps> = ({ productSize, onGenerate }) => {
   const { toast } = useToast();
   const [barcodeValue, setBarcodeValue] = useState('');
-  const [barcodeType, setBarcodeType] = useState('code128');
+  const [barcodeType, setBarcodeType] = useState<BarcodeFormat>('code128');
+  const [moduleWidth, setModuleWidth] = useState(0.25);
+  const [barHeight, setBarHeight] = useState(8);
+  const [showText, setShowText] = useState(true);
   const [barcodeImage, setBarcodeImage] = useState<string | null>(null);
-  
-  const generateBarcode = async () => {
+  const [barcodeInfo, setBarcodeInfo] = useState<string | null>(null);
+
+  const stamp = parseProductSize(productSize || '');
+
+  const showError = (description: string) => {
+    toast({
+      title: "Cannot generate barcode",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  // Pick the module width that makes the barcode span 90% of the stamp width
+  const fitToStamp = () => {
+    try {
+      const barcode = encodeBarcode(barcodeValue, barcodeType);
+      const modules = barcode.pattern.length + QUIET_ZONE * 2;
+      setModuleWidth(Math.floor((stamp.width * 0.9 / modules) * 100) / 100);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Please enter a valid value");
+    }
+  };
+
+  const generateBarcode = () => {
     if (!barcodeValue) {
-      toast({
-        title: "Cannot generate barcode",
-        description: "Please enter a valid value",
-        variant: "destructive"
-      });
+      showError("Please enter a valid value");
       return;
     }
-    
+
     try {
-      // Create barcode using barcodeapi.org (simple approach)
-      // In production, you'd want to use a library like jsbarcode
-      const barcodeApiUrl = `https://barcodeapi.org/api/${barcodeType}/${encodeURIComponent(barcodeValue)}`;
-      
-      setBarcodeImage(barcodeApiUrl);
-      onGenerate(barcodeApiUrl);
-      
+      // Encoded locally: nothing leaves the browser
+      const barcode = encodeBarcode(barcodeValue, barcodeType);
+      const renderOptions = { moduleWidth, height: barHeight, showText, quietZone: QUIET_ZONE };
+      const { width, height } = getBarcodeSize(barcode, renderOptions);
+
+      if (width > stamp.width || height > stamp.height) {
+        showError(`The barcode (${width.toFixed(1)} × ${height.toFixed(1)} mm) does not fit on a ${stamp.width} × ${stamp.height} mm stamp. Reduce the bar width or height.`);
+        return;
+      }
+
+      const dataUrl = barcodeToDataUrl(barcode, renderOptions);
+      const svgContent = barcodeToSvg(barcode, renderOptions);
+
+      setBarcodeImage(dataUrl);
+      setBarcodeInfo(`${barcode.text} - ${width.toFixed(1)} × ${height.toFixed(1)} mm`);
+      onGenerate({
+        type: 'barcode',
+        dataUrl,
+        svgContent,
+        width,
+        height
+      });
+
       toast({
         title: "Barcode generated",
         description: "Add it to your stamp design",
@@ -43,16 +100,16 @@ const BarcodeGenerator: React.FC<BarcodeGeneratorProps> = ({ onGenerate }) => {
       console.error("Error generating barcode:", error);
       toast({
         title: "Failed to generate barcode",
-        description: "Please try again with different parameters",
+        description: error instanceof Error ? error.message : "Please try again with different parameters",
         variant: "destructive"
       });
     }
   };
-  
+
   return (
     <div className="space-y-4">
       <h3 className="font-medium text-gray-800">Barcode Generator</h3>
-      
+
       <div className="space-y-2">
         <div className="grid gap-2">
           <Label htmlFor="barcode-value">Barcode Value</Label>
@@ -60,14 +117,14 @@ const BarcodeGenerator: React.FC<BarcodeGeneratorProps> = ({ onGenerate }) => {
             id="barcode-value"
             value={barcodeValue}
             onChange={(e) => setBarcodeValue(e.target.value)}
-            placeholder="Enter text or numbers"
+            placeholder={PLACEHOLDERS[barcodeType]}
             className="w-full"
           />
         </div>
-        
+
         <div className="grid gap-2 mt-2">
           <Label htmlFor="barcode-type">Barcode Type</Label>
-          <Select value={barcodeType} onValueChange={setBarcodeType}>
+          <Select value={barcodeType} onValueChange={(value) => setBarcodeType(value as BarcodeFormat)}>
             <SelectTrigger id="barcode-type">
               <SelectValue placeholder="Select barcode type" />
             </SelectTrigger>
@@ -75,29 +132,69 @@ const BarcodeGenerator: React.FC<BarcodeGeneratorProps> = ({ onGenerate }) => {
               <SelectItem value="code128">Code 128</SelectItem>
               <SelectItem value="code39">Code 39</SelectItem>
               <SelectItem value="ean13">EAN-13</SelectItem>
-              <SelectItem value="upc">UPC</SelectItem>
+              <SelectItem value="ean8">EAN-8</SelectItem>
               <SelectItem value="itf14">ITF-14</SelectItem>
             </SelectContent>
           </Select>
         </div>
+
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <div>
+            <Label htmlFor="barcode-module-width">Bar Width (mm)</Label>
+            <Input
+              id="barcode-module-width"
+              type="number"
+              min={0.1}
+              max={1}
+              step={0.01}
+              value={moduleWidth}
+              onChange={(e) => setModuleWidth(Math.max(0.1, Math.min(1, Number(e.target.value) || 0.1)))}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="barcode-height">Bar Height (mm)</Label>
+            <Input
+              id="barcode-height"
+              type="number"
+              min={3}
+              max={stamp.height}
+              value={barHeight}
+              onChange={(e) => setBarHeight(Math.max(3, Math.min(stamp.height, Number(e.target.value) || 3)))}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-xs text-gray-500">Stamp area: {stamp.width} × {stamp.height} mm</p>
+          <Button variant="outline" size="sm" onClick={fitToStamp} disabled={!barcodeValue}>
+            Fit to stamp width
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2 mt-2">
+          <Switch id="barcode-show-text" checked={showText} onCheckedChange={setShowText} />
+          <Label htmlFor="barcode-show-text">Show human-readable text</Label>
+        </div>
       </div>
-      
-      <Button 
+
+      <Button
         onClick={generateBarcode}
         className="w-full flex items-center gap-2"
       >
         <Barcode size={16} />
         Generate Barcode
       </Button>
-      
+
       {barcodeImage && (
         <div className="mt-4 p-2 bg-gray-50 rounded-md flex flex-col items-center">
           <p className="text-sm text-gray-500 mb-2">Preview:</p>
-          <img 
-            src={barcodeImage} 
-            alt="Generated Barcode" 
-            className="border rounded-md max-w-full h-auto"
+          <img
+            src={barcodeImage}
+            alt="Generated Barcode"
+            className="border rounded-md max-w-full h-auto bg-white"
           />
+          {barcodeInfo && <p className="text-xs text-gray-500 mt-2">{barcodeInfo}</p>}
         </div>
       )}
     </div>
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Download, Share, Play } from 'lucide-react';
+import { Download, Share, Play, FileCode, FileText } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 
 interface ExportDesignProps {
@@ -9,6 +9,8 @@ interface ExportDesignProps {
   previewImage: string | null;
   productName: string;
   downloadAsPng: () => void;
+  downloadAsSvg?: () => void;
+  downloadAsPdf?: () => void;
   largeControls?: boolean;
 }
 
@@ -17,6 +19,8 @@ const ExportDesign: React.FC<ExportDesignProps> = ({
   previewImage, 
   productName, 
   downloadAsPng,
+  downloadAsSvg,
+  downloadAsPdf,
   largeControls = false 
 }) => {
   const { t } = useTranslation();
@@ -83,6 +87,30 @@ const ExportDesign: React.FC<ExportDesignProps> = ({
           <Download size={largeControls ? 24 : 18} />
           {t('export.downloadImage', 'Download as Image')}
         </Button>
+
+        {downloadAsSvg && (
+          <Button 
+            onClick={downloadAsSvg} 
+            disabled={!previewImage}
+            variant="outline"
+            className={`flex items-center gap-2 ${largeControls ? "text-lg py-6" : ""}`}
+          >
+            <FileCode size={largeControls ? 24 : 18} />
+            {t('export.downloadSvg', 'Download SVG (vector)')}
+          </Button>
+        )}
+
+        {downloadAsPdf && (
+          <Button 
+            onClick={downloadAsPdf} 
+            disabled={!previewImage}
+            variant="outline"
+            className={`flex items-center gap-2 ${largeControls ? "text-lg py-6" : ""}`}
+          >
+            <FileText size={largeControls ? 24 : 18} />
+            {t('export.downloadPdf', 'Print / Save as PDF')}
+          </Button>
+        )}
         
         {navigator.share && (
           <Button 
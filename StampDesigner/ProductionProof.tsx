@@ -0,0 +1,68 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, Printer } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Product, StampDesign } from '@/types';
+import { productionProofService } from '@/services/ProductionProofService';
+import { useOutlineFonts } from '@/hooks/useOutlineFonts';
+
+interface ProductionProofProps {
+  design: StampDesign;
+  product: Product;
+  orderId?: string;
+  largeControls?: boolean;
+}
+
+const ProductionProof: React.FC<ProductionProofProps> = ({
+  design,
+  product,
+  orderId,
+  largeControls = false
+}) => {
+  const { t } = useTranslation();
+  // Renders again once the fonts arrive, drawing the plate's text as outlines
+  useOutlineFonts(design);
+
+  const proofUrl = `data:image/svg+xml;utf8,${encodeURIComponent(productionProofService.generateProofSvg(design, product, { orderId }))}`;
+
+  return (
+    <div className="space-y-3">
+      <h3 className={`font-medium text-gray-800 ${largeControls ? "text-lg" : ""}`}>
+        {t('proof.title', 'Production Proof')}
+      </h3>
+
+      <p className={`text-sm text-gray-600 ${largeControls ? "text-base" : ""}`}>
+        {t('proof.description', 'Mirrored plate at 1:1 scale with crop marks, for the engraving workshop')}
+      </p>
+
+      <div className="border rounded-md p-2 bg-white">
+        <img
+          src={proofUrl}
+          alt={t('proof.imageAlt', 'Mirrored production proof')}
+          className="max-w-full h-auto mx-auto"
+        />
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Button
+          variant="outline"
+          onClick={() => productionProofService.printProof(design, product, { orderId })}
+          className={`flex items-center gap-2 ${largeControls ? "text-lg py-6" : ""}`}
+        >
+          <Printer size={largeControls ? 24 : 18} />
+          {t('proof.print', 'Print Proof')}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => productionProofService.downloadProof(design, product, { orderId })}
+          className={`flex items-center gap-2 ${largeControls ? "text-lg py-6" : ""}`}
+        >
+          <Download size={largeControls ? 24 : 18} />
+          {t('proof.download', 'Download Proof (SVG)')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProductionProof;
@@ -1,47 +1,114 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { QrCode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { StampElementInput } from '@/types';
+import {
+  encodeQrCode,
+  qrCodeToDataUrl,
+  qrCodeToSvg,
+  QrErrorCorrectionLevel
+} from '@/utils/qrCodeEncoder';
+import {
+  buildBusinessIdentifiers,
+  buildVCard,
+  buildWhatsAppLink,
+  buildWifiPayload,
+  QrPresetType,
+  WifiData
+} from '@/utils/qrPresets';
+import { isValidIce } from '@/utils/companyIdentifiers';
 
 interface QrCodeGeneratorProps {
-  onGenerate: (dataUrl: string) => void;
+  onGenerate: (element: StampElementInput) => void;
 }
 
 const QrCodeGenerator: React.FC<QrCodeGeneratorProps> = ({ onGenerate }) => {
   const { toast } = useToast();
+  const [preset, setPreset] = useState<QrPresetType>('text');
   const [qrValue, setQrValue] = useState('https://');
-  const [qrSize, setQrSize] = useState(200);
+  const [errorCorrection, setErrorCorrection] = useState<QrErrorCorrectionLevel>('M');
+  const [quietZone, setQuietZone] = useState(2);
+  const [sizeMm, setSizeMm] = useState(15);
   const [darkColor, setDarkColor] = useState('#000000');
   const [lightColor, setLightColor] = useState('#ffffff');
+  const [transparentBackground, setTransparentBackground] = useState(true);
   const [qrImage, setQrImage] = useState<string | null>(null);
-  const [withLogo, setWithLogo] = useState(false);
-  
-  const generateQrCode = async () => {
-    if (!qrValue || qrValue === 'https://') {
+  const [qrInfo, setQrInfo] = useState<string | null>(null);
+
+  // Preset fields
+  const [vcard, setVcard] = useState({ firstName: '', lastName: '', organization: '', phone: '', email: '', website: '', city: '' });
+  const [whatsapp, setWhatsapp] = useState({ phone: '', message: '' });
+  const [wifi, setWifi] = useState<WifiData>({ ssid: '', password: '', encryption: 'WPA', hidden: false });
+  const [business, setBusiness] = useState({ companyName: '', ice: '', rc: '', rcCity: '', if: '' });
+
+  const buildPayload = (): string | null => {
+    switch (preset) {
+      case 'vcard':
+        if (!vcard.firstName && !vcard.lastName && !vcard.organization) return null;
+        return buildVCard(vcard);
+      case 'whatsapp':
+        if (whatsapp.phone.replace(/\D/g, '').length < 9) return null;
+        return buildWhatsAppLink(whatsapp);
+      case 'wifi':
+        if (!wifi.ssid) return null;
+        return buildWifiPayload(wifi);
+      case 'business':
+        if (!business.ice && !business.rc && !business.if) return null;
+        return buildBusinessIdentifiers(business);
+      default:
+        if (!qrValue || qrValue === 'https://') return null;
+        return qrValue;
+    }
+  };
+
+  const generateQrCode = () => {
+    const payload = buildPayload();
+
+    if (!payload) {
       toast({
         title: "Cannot generate QR code",
-        description: "Please enter a valid URL or text",
+        description: "Please fill in the required fields",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (preset === 'business' && business.ice && !isValidIce(business.ice)) {
+      toast({
+        title: "Invalid ICE number",
+        description: "The ICE must contain exactly 15 digits",
         variant: "destructive"
       });
       return;
     }
-    
+
     try {
-      // Create QR code using Google Charts API (simple approach)
-      // In production, you'd want to use a library like qrcode.react
-      const googleChartsUrl = 'https://chart.googleapis.com/chart?cht=qr' + 
-        `&chs=${qrSize}x${qrSize}` +
-        `&chl=${encodeURIComponent(qrValue)}` +
-        `&chco=${darkColor.substring(1)}` +
-        `&chf=bg,s,${lightColor.substring(1)}`;
-      
-      setQrImage(googleChartsUrl);
-      onGenerate(googleChartsUrl);
-      
+      // Encoded locally: nothing leaves the browser
+      const qr = encodeQrCode(payload, { errorCorrection });
+      const renderOptions = {
+        quietZone,
+        darkColor,
+        lightColor: transparentBackground ? 'transparent' : lightColor
+      };
+      const dataUrl = qrCodeToDataUrl(qr, { ...renderOptions, scale: 10 });
+      const svgContent = qrCodeToSvg(qr, renderOptions);
+
+      setQrImage(dataUrl);
+      setQrInfo(`Version ${qr.version} (${qr.size}×${qr.size} modules), ${qr.mode} mode, level ${qr.errorCorrection}`);
+      onGenerate({
+        type: 'qrcode',
+        dataUrl,
+        svgContent,
+        width: sizeMm,
+        height: sizeMm
+      });
+
       toast({
         title: "QR code generated",
         description: "Add it to your stamp design",
@@ -50,28 +117,137 @@ const QrCodeGenerator: React.FC<QrCodeGeneratorProps> = ({ onGenerate }) => {
       console.error("Error generating QR code:", error);
       toast({
         title: "Failed to generate QR code",
-        description: "Please try again with different parameters",
+        description: error instanceof Error ? error.message : "Please try again with different parameters",
         variant: "destructive"
       });
     }
   };
-  
+
   return (
     <div className="space-y-4">
       <h3 className="font-medium text-gray-800">QR Code Generator</h3>
-      
+
       <div className="space-y-2">
         <div className="grid gap-2">
-          <Label htmlFor="qr-url">URL or Text</Label>
-          <Input
-            id="qr-url"
-            value={qrValue}
-            onChange={(e) => setQrValue(e.target.value)}
-            placeholder="https://example.com"
-            className="w-full"
-          />
+          <Label htmlFor="qr-preset">Content Type</Label>
+          <Select value={preset} onValueChange={(value) => setPreset(value as QrPresetType)}>
+            <SelectTrigger id="qr-preset">
+              <SelectValue placeholder="Select content type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="text">URL or Text</SelectItem>
+              <SelectItem value="vcard">Business Card (vCard)</SelectItem>
+              <SelectItem value="whatsapp">WhatsApp</SelectItem>
+              <SelectItem value="wifi">Wi-Fi Network</SelectItem>
+              <SelectItem value="business">ICE / RC / IF Numbers</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
-        
+
+        {preset === 'text' && (
+          <div className="grid gap-2">
+            <Label htmlFor="qr-url">URL or Text</Label>
+            <Input
+              id="qr-url"
+              value={qrValue}
+              onChange={(e) => setQrValue(e.target.value)}
+              placeholder="https://example.com"
+              className="w-full"
+            />
+          </div>
+        )}
+
+        {preset === 'vcard' && (
+          <div className="grid grid-cols-2 gap-2">
+            <Input placeholder="First name" value={vcard.firstName} onChange={(e) => setVcard({ ...vcard, firstName: e.target.value })} />
+            <Input placeholder="Last name" value={vcard.lastName} onChange={(e) => setVcard({ ...vcard, lastName: e.target.value })} />
+            <Input placeholder="Company" value={vcard.organization} onChange={(e) => setVcard({ ...vcard, organization: e.target.value })} className="col-span-2" />
+            <Input placeholder="Phone (06...)" value={vcard.phone} onChange={(e) => setVcard({ ...vcard, phone: e.target.value })} />
+            <Input placeholder="City" value={vcard.city} onChange={(e) => setVcard({ ...vcard, city: e.target.value })} />
+            <Input placeholder="Email" type="email" value={vcard.email} onChange={(e) => setVcard({ ...vcard, email: e.target.value })} />
+            <Input placeholder="Website" value={vcard.website} onChange={(e) => setVcard({ ...vcard, website: e.target.value })} />
+          </div>
+        )}
+
+        {preset === 'whatsapp' && (
+          <div className="grid gap-2">
+            <Input placeholder="Phone number (06... or +212...)" value={whatsapp.phone} onChange={(e) => setWhatsapp({ ...whatsapp, phone: e.target.value })} />
+            <Input placeholder="Pre-filled message (optional)" value={whatsapp.message} onChange={(e) => setWhatsapp({ ...whatsapp, message: e.target.value })} />
+          </div>
+        )}
+
+        {preset === 'wifi' && (
+          <div className="grid gap-2">
+            <Input placeholder="Network name (SSID)" value={wifi.ssid} onChange={(e) => setWifi({ ...wifi, ssid: e.target.value })} />
+            <Input placeholder="Password" value={wifi.password} onChange={(e) => setWifi({ ...wifi, password: e.target.value })} />
+            <Select value={wifi.encryption} onValueChange={(value) => setWifi({ ...wifi, encryption: value as WifiData['encryption'] })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Security" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="WPA">WPA/WPA2</SelectItem>
+                <SelectItem value="WEP">WEP</SelectItem>
+                <SelectItem value="nopass">No password</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2">
+              <Switch id="wifi-hidden" checked={wifi.hidden} onCheckedChange={(hidden) => setWifi({ ...wifi, hidden })} />
+              <Label htmlFor="wifi-hidden">Hidden network</Label>
+            </div>
+          </div>
+        )}
+
+        {preset === 'business' && (
+          <div className="grid grid-cols-2 gap-2">
+            <Input placeholder="Company name" value={business.companyName} onChange={(e) => setBusiness({ ...business, companyName: e.target.value })} className="col-span-2" />
+            <Input placeholder="ICE (15 digits)" value={business.ice} onChange={(e) => setBusiness({ ...business, ice: e.target.value })} className="col-span-2" />
+            <Input placeholder="RC" value={business.rc} onChange={(e) => setBusiness({ ...business, rc: e.target.value })} />
+            <Input placeholder="RC city" value={business.rcCity} onChange={(e) => setBusiness({ ...business, rcCity: e.target.value })} />
+            <Input placeholder="IF" value={business.if} onChange={(e) => setBusiness({ ...business, if: e.target.value })} className="col-span-2" />
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 mt-2">
+          <div>
+            <Label htmlFor="qr-ecl">Error Correction</Label>
+            <Select value={errorCorrection} onValueChange={(value) => setErrorCorrection(value as QrErrorCorrectionLevel)}>
+              <SelectTrigger id="qr-ecl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="L">L (7%)</SelectItem>
+                <SelectItem value="M">M (15%)</SelectItem>
+                <SelectItem value="Q">Q (25%)</SelectItem>
+                <SelectItem value="H">H (30%)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="qr-quiet-zone">Quiet Zone</Label>
+            <Input
+              id="qr-quiet-zone"
+              type="number"
+              min={0}
+              max={8}
+              value={quietZone}
+              onChange={(e) => setQuietZone(Math.max(0, Math.min(8, Number(e.target.value) || 0)))}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="qr-size">Size (mm)</Label>
+            <Input
+              id="qr-size"
+              type="number"
+              min={8}
+              max={40}
+              value={sizeMm}
+              onChange={(e) => setSizeMm(Math.max(8, Math.min(40, Number(e.target.value) || 8)))}
+            />
+          </div>
+        </div>
+
         <div className="grid grid-cols-2 gap-2 mt-2">
           <div>
             <Label htmlFor="qr-foreground">Foreground Color</Label>
@@ -86,7 +262,7 @@ const QrCodeGenerator: React.FC<QrCodeGeneratorProps> = ({ onGenerate }) => {
               <span className="text-xs">{darkColor}</span>
             </div>
           </div>
-          
+
           <div>
             <Label htmlFor="qr-background">Background Color</Label>
             <div className="flex gap-2 items-center">
@@ -95,35 +271,37 @@ const QrCodeGenerator: React.FC<QrCodeGeneratorProps> = ({ onGenerate }) => {
                 type="color"
                 value={lightColor}
                 onChange={(e) => setLightColor(e.target.value)}
+                disabled={transparentBackground}
                 className="w-16 h-8"
               />
-              <span className="text-xs">{lightColor}</span>
+              <span className="text-xs">{transparentBackground ? 'transparent' : lightColor}</span>
             </div>
           </div>
         </div>
-        
+
         <div className="flex items-center space-x-2 mt-2">
-          <Switch id="with-logo" checked={withLogo} onCheckedChange={setWithLogo} />
-          <Label htmlFor="with-logo">Add logo to center (coming soon)</Label>
+          <Switch id="qr-transparent" checked={transparentBackground} onCheckedChange={setTransparentBackground} />
+          <Label htmlFor="qr-transparent">Transparent background (recommended for stamps)</Label>
         </div>
       </div>
-      
-      <Button 
+
+      <Button
         onClick={generateQrCode}
         className="w-full flex items-center gap-2"
       >
         <QrCode size={16} />
         Generate QR Code
       </Button>
-      
+
       {qrImage && (
         <div className="mt-4 p-2 bg-gray-50 rounded-md flex flex-col items-center">
           <p className="text-sm text-gray-500 mb-2">Preview:</p>
-          <img 
-            src={qrImage} 
-            alt="Generated QR Code" 
-            className="border rounded-md max-w-full h-auto"
+          <img
+            src={qrImage}
+            alt="Generated QR Code"
+            className="border rounded-md max-w-[200px] h-auto bg-white"
           />
+          {qrInfo && <p className="text-xs text-gray-500 mt-2">{qrInfo}</p>}
         </div>
       )}
     </div>
@@ -64,7 +64,7 @@ const StampDesignerMain: React.FC<StampDesignerMainProps> = ({
     
     // Add the product to cart with the custom text and preview
     const customText = design.lines.map(line => line.text).filter(Boolean).join(' | ');
-    addToCart(product, 1, customText, design.inkColor, previewImage || undefined);
+    addToCart(product, 1, customText, design.inkColor, previewImage || undefined, design);
     
     // Call the optional callback
     if (onAddToCart) onAddToCart();
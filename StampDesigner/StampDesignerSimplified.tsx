@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { CheckCircle2, ChevronLeft, ChevronRight, Save, ZoomIn, ZoomOut } from 'lucide-react';
+import { CheckCircle2, ChevronLeft, ChevronRight, FileCode, FileText, Save, ZoomIn, ZoomOut } from 'lucide-react';
 import useStampDesignerEnhanced from '@/hooks/useStampDesignerEnhanced';
-import { Product } from '@/types';
+import { Product, ProductVariant, StampDesign } from '@/types';
+import { productVariantService } from '@/services/ProductVariantService';
 import { useCart } from '@/contexts/CartContext';
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
@@ -21,6 +22,11 @@ type WizardStepType = 'structure' | 'text' | 'logo' | 'color' | 'preview';
 
 interface StampDesignerSimplifiedProps {
   product: Product | null;
+  // Chosen variant; its ink colour, when it has one, is the only one offered
+  variant?: ProductVariant;
+  // When set, the designer edits this cart line instead of adding a new one
+  cartLineId?: string;
+  initialDesign?: StampDesign;
   onAddToCart?: () => void;
   highContrast?: boolean;
   largeControls?: boolean;
@@ -28,6 +34,9 @@ interface StampDesignerSimplifiedProps {
 
 const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
   product,
+  variant,
+  cartLineId,
+  initialDesign,
   onAddToCart,
   highContrast = false,
   largeControls = false
@@ -63,12 +72,14 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
     zoomLevel,
     svgRef,
     downloadAsPng,
+    downloadAsSvg,
+    downloadAsPdf,
     distributeTextLines,
     enforceTextBoundaries,
     detectTextCollisions
-  } = useStampDesigner(product);
+  } = useStampDesigner(product, initialDesign);
   
-  const { addToCart } = useCart();
+  const { addToCart, updateCartItem } = useCart();
   const [uploadedLogo, setUploadedLogo] = useState<string | null>(null);
   const [activeLineIndex, setActiveLineIndex] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -138,6 +149,14 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
     setUploadedLogo(logoUrl);
   };
 
+  // Follow the ink colour of the chosen variant
+  const variantInkColor = variant?.options.inkColor;
+  useEffect(() => {
+    if (variantInkColor && design.inkColor !== variantInkColor) {
+      setInkColor(variantInkColor);
+    }
+  }, [variantInkColor, design.inkColor, setInkColor]);
+
   // Watch for logo changes to update the design
   useEffect(() => {
     if (uploadedLogo) {
@@ -260,12 +279,27 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
     
     if (errors.length === 0) {
       const customText = design.lines.map(line => line.text).filter(Boolean).join(' | ');
-      addToCart(product, 1, customText, design.inkColor, previewImage || undefined);
-      
-      toast({
-        title: t('cart.added', "Added to cart"),
-        description: t('cart.addedDescription', "Your custom stamp has been added to your cart"),
-      });
+      if (cartLineId) {
+        updateCartItem(cartLineId, {
+          customText,
+          inkColor: design.inkColor,
+          previewImage: previewImage || undefined,
+          design,
+          variant
+        });
+        
+        toast({
+          title: t('cart.updated', "Cart updated"),
+          description: t('cart.updatedDescription', "Your changes have been saved to this cart item"),
+        });
+      } else {
+        addToCart(product, 1, customText, design.inkColor, previewImage || undefined, design, variant);
+        
+        toast({
+          title: t('cart.added', "Added to cart"),
+          description: t('cart.addedDescription', "Your custom stamp has been added to your cart"),
+        });
+      }
       
       if (onAddToCart) onAddToCart();
     }
@@ -476,7 +510,7 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
           
           {currentStep === 'color' && (
             <ColorSelector 
-              inkColors={product.inkColors} 
+              inkColors={variantInkColor ? [variantInkColor] : product.inkColors} 
               selectedColor={design.inkColor} 
               onColorSelect={setInkColor}
               largeControls={largeControls}
@@ -488,7 +522,7 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
               <div className={`${highContrast ? 'bg-gray-100' : 'bg-gray-50'} p-4 rounded-md`}>
                 <div className="flex justify-between items-center mb-3">
                   <h3 className="font-medium">{product.name}</h3>
-                  <span className={`font-bold ${highContrast ? 'text-black' : 'text-brand-red'}`}>{product.price} DHS TTC</span>
+                  <span className={`font-bold ${highContrast ? 'text-black' : 'text-brand-red'}`}>{productVariantService.getUnitPrice(product, variant)} DHS TTC</span>
                 </div>
                 <Button
                   onClick={handleAddToCart}
@@ -496,7 +530,7 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
                     largeControls ? 'text-lg py-4' : ''
                   }`}
                 >
-                  {t('cart.addToCart', "Add to Cart")}
+                  {cartLineId ? t('cart.updateCartItem', "Update Cart Item") : t('cart.addToCart', "Add to Cart")}
                 </Button>
               </div>
               
@@ -522,6 +556,24 @@ const StampDesignerSimplified: React.FC<StampDesignerSimplifiedProps> = ({
                   <CheckCircle2 className="mr-2" size={largeControls ? 20 : 16} />
                   {t('preview.download', "Download PNG")}
                 </Button>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <Button
+                    variant="outline"
+                    onClick={downloadAsSvg}
+                    size={largeControls ? "lg" : "default"}
+                  >
+                    <FileCode className="mr-2" size={largeControls ? 20 : 16} />
+                    {t('preview.downloadSvg', "Download SVG")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={downloadAsPdf}
+                    size={largeControls ? "lg" : "default"}
+                  >
+                    <FileText className="mr-2" size={largeControls ? 20 : 16} />
+                    {t('preview.downloadPdf', "Save as PDF")}
+                  </Button>
+                </div>
               </div>
             </div>
           )}
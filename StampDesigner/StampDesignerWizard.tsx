@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Check, AlertCircle, ChevronLeft, ChevronRight, Undo, Redo, Save, ZoomIn, ZoomOut, Wand } from 'lucide-react';
 import useStampDesignerEnhanced from '@/hooks/useStampDesignerEnhanced';
-import { Product, StampDesign } from '@/types';
+import { Product, StampDesign, StampElementInput } from '@/types';
 import { useCart } from '@/contexts/CartContext';
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
@@ -17,6 +17,7 @@ import DesignTemplates from './DesignTemplates';
 import EnhancedAiHelper from './EnhancedAiHelper';
 import AdvancedTools from './AdvancedTools';
 import ExportDesign from './ExportDesign';
+import ProductionProof from './ProductionProof';
 import TextEffects from './TextEffects';
 import PreviewBackgrounds from './PreviewBackgrounds';
 import PreviewOnPaper from './PreviewOnPaper';
@@ -83,6 +84,8 @@ const StampDesignerWizard: React.FC<StampDesignerWizardProps> = ({
     addElement,
     applyTextEffect,
     downloadAsPng,
+    downloadAsSvg,
+    downloadAsPdf,
     updateMultipleLines
   } = useStampDesignerEnhanced(product);
   
@@ -287,7 +290,7 @@ const StampDesignerWizard: React.FC<StampDesignerWizardProps> = ({
     if (errors.length === 0) {
       // Add the product to cart with the custom text and preview
       const customText = design.lines.map(line => line.text).filter(Boolean).join(' | ');
-      addToCart(product, 1, customText, design.inkColor, previewImage || undefined);
+      addToCart(product, 1, customText, design.inkColor, previewImage || undefined, design);
       
       toast({
         title: t('cart.added', "Added to cart"),
@@ -310,7 +313,7 @@ const StampDesignerWizard: React.FC<StampDesignerWizardProps> = ({
   };
   
   // Handle adding elements like QR codes or barcodes
-  const handleAddElement = (element: { type: string, dataUrl: string, width: number, height: number }) => {
+  const handleAddElement = (element: StampElementInput) => {
     addElement(element);
     toast({
       title: t('design.elementAdded', `${element.type === 'qrcode' ? 'QR Code' : 'Barcode'} added`),
@@ -671,7 +674,10 @@ const StampDesignerWizard: React.FC<StampDesignerWizardProps> = ({
               svgRef={svgRef.current}
               previewImage={previewImage}
               productName={product.name}
+              productSize={product.size}
               downloadAsPng={downloadAsPng}
+              downloadAsSvg={downloadAsSvg}
+              downloadAsPdf={downloadAsPdf}
               onAddElement={handleAddElement}
               largeControls={largeControls}
             />
@@ -709,6 +715,14 @@ const StampDesignerWizard: React.FC<StampDesignerWizardProps> = ({
                 previewImage={previewImage}
                 productName={product.name}
                 downloadAsPng={downloadAsPng}
+                downloadAsSvg={downloadAsSvg}
+                downloadAsPdf={downloadAsPdf}
+                largeControls={largeControls}
+              />
+              
+              <ProductionProof
+                design={design}
+                product={product}
                 largeControls={largeControls}
               />
               
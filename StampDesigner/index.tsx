@@ -1,6 +1,6 @@
 
 import React, { useEffect } from 'react';
-import { Product } from '@/types';
+import { Product, ProductVariant, StampDesign } from '@/types';
 import StampDesignerSimplified from './StampDesignerSimplified';
 import { toast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
@@ -8,6 +8,9 @@ import { trackEvent } from '@/utils/analytics';
 
 interface StampDesignerProps {
   product: Product | null;
+  variant?: ProductVariant;
+  cartLineId?: string;
+  initialDesign?: StampDesign;
   onAddToCart?: () => void;
   highContrast?: boolean;
   largeControls?: boolean;
@@ -16,6 +19,9 @@ interface StampDesignerProps {
 // This is a wrapper component that maintains the same API but uses the new simplified implementation
 const StampDesigner: React.FC<StampDesignerProps> = ({ 
   product, 
+  variant,
+  cartLineId,
+  initialDesign,
   onAddToCart,
   highContrast = false,
   largeControls = false
@@ -48,6 +54,9 @@ const StampDesigner: React.FC<StampDesignerProps> = ({
   return (
     <StampDesignerSimplified 
       product={product} 
+      variant={variant}
+      cartLineId={cartLineId}
+      initialDesign={initialDesign}
       onAddToCart={onAddToCart} 
       highContrast={highContrast}
       largeControls={largeControls}
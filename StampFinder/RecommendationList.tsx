@@ -0,0 +1,84 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { StampRecommendation, StampRequirements } from '@/services/StampRecommenderService';
+
+interface RecommendationListProps {
+  requirements: StampRequirements;
+  recommendations: StampRecommendation[];
+  warnings?: string[];
+}
+
+const RecommendationList = ({ requirements, recommendations, warnings = [] }: RecommendationListProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-2">What your text needs</h2>
+        <ul className="text-sm text-gray-700 space-y-1">
+          <li>
+            {requirements.lines} {requirements.lines === 1 ? 'line' : 'lines'} of text, the longest about {requirements.longestLine} characters
+          </li>
+          <li>
+            An impression of at least {requirements.minWidth} × {requirements.minHeight} mm, or {requirements.minDiameter} mm across for a round stamp
+          </li>
+          {requirements.needsDater && <li>A dater with a changeable date band</li>}
+          {requirements.needsLogo && <li>Room for a logo</li>}
+        </ul>
+        {warnings.map(warning => (
+          <p key={warning} className="text-sm text-amber-700 mt-2">{warning}</p>
+        ))}
+      </div>
+
+      {recommendations.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <p className="text-gray-700 mb-2">None of our stamps fits this text at a legible size.</p>
+          <p className="text-sm text-gray-500 mb-6">
+            Try leaving out a line or shortening the longest one, or ask us for a custom size.
+          </p>
+          <Link to="/contact" className="btn-primary">
+            Contact us
+          </Link>
+        </div>
+      ) : (
+        recommendations.map(({ product, variant, price, reasons }, index) => (
+          <div key={product.id} className="bg-white rounded-lg shadow-md p-4 flex flex-col sm:flex-row gap-4">
+            <img
+              src={product.images[0]}
+              alt={product.name}
+              className="w-24 h-24 object-contain self-center"
+            />
+            <div className="flex-grow">
+              {index === 0 && (
+                <span className="inline-block text-xs font-medium rounded-full px-2 py-1 bg-green-100 text-green-800 mb-1">
+                  Best match
+                </span>
+              )}
+              <h3 className="font-semibold text-gray-800">
+                <Link to={`/products/${product.id}${variant ? `?variant=${encodeURIComponent(variant.sku)}` : ''}`} className="hover:text-brand-blue">{product.name}</Link>
+              </h3>
+              <p className="text-sm text-gray-500 mb-2">{product.size} • {price.toFixed(2)} DHS</p>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {reasons.map(reason => (
+                  <li key={reason} className="flex items-start gap-2">
+                    <Check className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="self-center">
+              <Button onClick={() => navigate(`/design?productId=${product.id}${variant ? `&variant=${encodeURIComponent(variant.sku)}` : ''}`)}>
+                Design with this one
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default RecommendationList;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { Product, ProductVariant, VariantOptionType } from '@/types';
+import { getVariantOptionDefinition } from '@/data/variantOptions';
+import { productVariantService } from '@/services/ProductVariantService';
+
+interface VariantSelectorProps {
+  product: Product;
+  selectedVariant?: ProductVariant;
+  onChange: (variant: ProductVariant) => void;
+  compact?: boolean;
+}
+
+// Options shown as colour swatches rather than labelled buttons
+const colorOptionTypes: VariantOptionType[] = ['bodyColor', 'inkColor'];
+
+const VariantSelector = ({ product, selectedVariant, onChange, compact = false }: VariantSelectorProps) => {
+  const optionTypes = productVariantService.getOptionTypes(product);
+  if (optionTypes.length === 0) return null;
+
+  const handleSelect = (e: React.MouseEvent, type: VariantOptionType, value: string) => {
+    // The selector sits on clickable product cards
+    e.stopPropagation();
+    const variant = productVariantService.selectOption(product, selectedVariant, type, value);
+    if (variant) onChange(variant);
+  };
+
+  return (
+    <div className={compact ? 'space-y-2' : 'space-y-3'}>
+      {optionTypes.map(type => {
+        const selectedValue = selectedVariant?.options[type];
+        const label = getVariantOptionDefinition(type)?.label;
+        
+        return (
+          <div key={type}>
+            <p className={`text-gray-600 mb-1 ${compact ? 'text-xs' : 'text-sm font-medium'}`}>
+              {label}{selectedValue && `: ${productVariantService.getOptionLabel(type, selectedValue)}`}
+            </p>
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={label}>
+              {productVariantService.getOptionValues(product, type).map(value => {
+                const isSelected = selectedValue === value;
+                // Whether this value exists with the other options currently selected
+                const isCombinable = !!productVariantService.findVariant(product, { ...selectedVariant?.options, [type]: value });
+                const valueLabel = productVariantService.getOptionLabel(type, value);
+                
+                return colorOptionTypes.includes(type) ? (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={isSelected}
+                    aria-label={valueLabel}
+                    title={valueLabel}
+                    onClick={(e) => handleSelect(e, type, value)}
+                    className={`${compact ? 'w-6 h-6' : 'w-8 h-8'} rounded-full border-2 flex items-center justify-center ${
+                      isSelected ? 'border-gray-900' : 'border-gray-300'
+                    } ${isCombinable ? '' : 'opacity-40'}`}
+                    style={{ backgroundColor: value }}
+                  >
+                    {isSelected && <Check size={compact ? 12 : 16} className="text-white" />}
+                  </button>
+                ) : (
+                  <button
+                    key={value}
+                    type="button"
+                    role="radio"
+                    aria-checked={isSelected}
+                    onClick={(e) => handleSelect(e, type, value)}
+                    className={`rounded-full border px-3 ${compact ? 'py-0.5 text-xs' : 'py-1 text-sm'} ${
+                      isSelected ? 'border-brand-blue bg-blue-50 text-brand-blue' : 'border-gray-300 text-gray-700'
+                    } ${isCombinable ? '' : 'opacity-40'}`}
+                  >
+                    {valueLabel}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default VariantSelector;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { CARD_HEIGHT_MM, CARD_WIDTH_MM, CSS_PIXELS_PER_MM, screenCalibrationService } from '@/services/ScreenCalibrationService';
+import { useScreenCalibration } from '@/hooks/useScreenCalibration';
+
+interface ScreenCalibrationProps {
+  className?: string;
+}
+
+// Screens draw a millimetre at very different sizes; allow from half to twice the CSS default
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2;
+
+// Note under actual-size previews, with a dialog to calibrate the screen against a bank card
+const ScreenCalibration: React.FC<ScreenCalibrationProps> = ({ className = "" }) => {
+  const { pixelsPerMm, isCalibrated } = useScreenCalibration();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(pixelsPerMm);
+
+  const handleOpen = () => {
+    setDraft(pixelsPerMm);
+    setIsOpen(true);
+  };
+
+  const handleSave = () => {
+    screenCalibrationService.setPixelsPerMm(draft);
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    screenCalibrationService.reset();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={`text-xs text-gray-500 ${className}`}>
+      <p>
+        {isCalibrated
+          ? 'Sizes are drawn to the calibration of this screen.'
+          : 'Sizes on screen are approximate until you calibrate it with a bank card.'}{' '}
+        <button type="button" onClick={handleOpen} className="inline-flex items-center gap-1 text-brand-blue hover:underline">
+          <Ruler size={12} />
+          {isCalibrated ? 'Recalibrate' : 'Calibrate screen'}
+        </button>
+      </p>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Calibrate your screen</DialogTitle>
+            <DialogDescription>
+              Hold a bank card against the screen and move the slider until the outline is exactly as wide as the card.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-x-auto py-4">
+            <div
+              className="mx-auto rounded-lg border-2 border-brand-blue bg-blue-50"
+              style={{ width: `${CARD_WIDTH_MM * draft}px`, height: `${CARD_HEIGHT_MM * draft}px` }}
+            />
+          </div>
+
+          <Slider
+            value={[draft]}
+            min={CSS_PIXELS_PER_MM * MIN_SCALE}
+            max={CSS_PIXELS_PER_MM * MAX_SCALE}
+            step={0.01}
+            onValueChange={([value]) => setDraft(value)}
+            aria-label="Card outline size"
+          />
+
+          <DialogFooter className="gap-2">
+            {isCalibrated && <Button variant="outline" onClick={handleReset}>Reset</Button>}
+            <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScreenCalibration;
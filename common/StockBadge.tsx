@@ -0,0 +1,29 @@
+import React from 'react';
+import { StockAvailability } from '@/types';
+import { inventoryService } from '@/services/InventoryService';
+
+interface StockBadgeProps {
+  availability: StockAvailability;
+  // Also show a badge for products in stock
+  showInStock?: boolean;
+  className?: string;
+}
+
+const statusStyles: Record<StockAvailability['status'], string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  low_stock: 'bg-amber-100 text-amber-800',
+  backorder: 'bg-blue-100 text-blue-800',
+  out_of_stock: 'bg-red-100 text-red-800'
+};
+
+const StockBadge: React.FC<StockBadgeProps> = ({ availability, showInStock = false, className = "" }) => {
+  if (availability.status === 'in_stock' && !showInStock) return null;
+
+  return (
+    <span className={`inline-block text-xs font-medium rounded-full px-2 py-1 ${statusStyles[availability.status]} ${className}`}>
+      {inventoryService.getLabel(availability)}
+    </span>
+  );
+};
+
+export default StockBadge;
@@ -1,63 +1,148 @@
 
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { CartItem, Product } from '../types';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { CartItem, Product, ProductVariant, StampDesign } from '../types';
 import { toast } from "sonner";
+import { cartStorageService } from '@/services/CartStorageService';
+import { CartPricing, pricingService } from '@/services/PricingService';
+import { catalogRepository } from '@/services/CatalogRepository';
+import { productVariantService } from '@/services/ProductVariantService';
 
 interface CartContextType {
   cartItems: CartItem[];
-  addToCart: (product: Product, quantity?: number, customText?: string, inkColor?: string, previewImage?: string) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: Product, quantity?: number, customText?: string, inkColor?: string, previewImage?: string, design?: StampDesign, variant?: ProductVariant) => void;
+  updateCartItem: (lineId: string, updates: CartItemUpdate) => void;
+  duplicateCartItem: (lineId: string) => void;
+  getCartItem: (lineId: string) => CartItem | undefined;
+  removeFromCart: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
+  cartPricing: CartPricing;
   cartTotal: number;
   itemCount: number;
+  isCartLoaded: boolean;
 }
 
+export type CartItemUpdate = Partial<Pick<CartItem, 'customText' | 'inkColor' | 'previewImage' | 'design' | 'bundleId' | 'variant'>>;
+
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [isCartLoaded, setIsCartLoaded] = useState(false);
+  // Set when the cart comes from another tab, so it isn't written straight back
+  const skipNextSave = useRef(false);
+
+  // Restore the saved cart and follow changes made in other tabs
+  useEffect(() => {
+    let cancelled = false;
+
+    cartStorageService.loadCart().then(savedItems => {
+      if (cancelled) return;
+      // Keep anything added while the saved cart was loading. Lines are matched by id,
+      // as a change from another tab may already have brought in the saved ones.
+      setCartItems(current => [
+        ...savedItems.filter(saved => !current.some(item => item.id === saved.id)),
+        ...current
+      ]);
+      setIsCartLoaded(true);
+    });
+
+    const unsubscribe = cartStorageService.subscribe(items => {
+      if (cancelled) return;
+      skipNextSave.current = true;
+      setCartItems(items);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isCartLoaded) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    cartStorageService.saveCart(cartItems);
+  }, [cartItems, isCartLoaded]);
 
-  const addToCart = (product: Product, quantity = 1, customText?: string, inkColor?: string, previewImage?: string) => {
+  const addToCart = (product: Product, quantity = 1, customText?: string, inkColor?: string, previewImage?: string, design?: StampDesign, variant?: ProductVariant) => {
+    const designSnapshot = design ? JSON.stringify(design) : undefined;
+    // Lines are stored with the product's first ink colour when none is chosen
+    const lineInkColor = inkColor || product.inkColors[0];
     const existingItem = cartItems.find(item => 
       item.productId === product.id && 
       item.customText === customText &&
-      item.inkColor === inkColor
+      item.inkColor === lineInkColor &&
+      item.variant?.sku === variant?.sku &&
+      (item.design ? JSON.stringify(item.design) : undefined) === designSnapshot
     );
 
     if (existingItem) {
-      updateQuantity(product.id, existingItem.quantity + quantity);
+      updateQuantity(existingItem.id, existingItem.quantity + quantity);
       toast.success("Updated quantity in cart");
     } else {
-      setCartItems([
-        ...cartItems,
+      setCartItems(items => [
+        ...items,
         {
+          id: cartStorageService.createLineId(),
           productId: product.id,
-          product: product,
+          product: productVariantService.applyVariant(product, variant),
           quantity,
           customText,
-          inkColor: inkColor || product.inkColors[0],
-          previewImage
+          inkColor: lineInkColor,
+          previewImage,
+          design,
+          variant
         },
       ]);
       toast.success("Added to cart");
     }
   };
 
-  const removeFromCart = (productId: string) => {
-    setCartItems(cartItems.filter(item => item.productId !== productId));
+  const updateCartItem = (lineId: string, updates: CartItemUpdate) => {
+    setCartItems(items =>
+      items.map(item => {
+        if (item.id !== lineId) return item;
+        if (!('variant' in updates)) return { ...item, ...updates };
+        // Another size changes the impression the line is made at
+        const product = catalogRepository.getProductById(item.productId) || item.product;
+        return { ...item, ...updates, product: productVariantService.applyVariant(product, updates.variant) };
+      })
+    );
+    toast.success("Cart item updated");
+  };
+
+  const duplicateCartItem = (lineId: string) => {
+    setCartItems(items => {
+      const index = items.findIndex(item => item.id === lineId);
+      if (index === -1) return items;
+
+      // Insert the copy right after the original line
+      const copy = { ...items[index], id: cartStorageService.createLineId(), quantity: 1 };
+      return [...items.slice(0, index + 1), copy, ...items.slice(index + 1)];
+    });
+    toast.success("Item duplicated");
+  };
+
+  const getCartItem = (lineId: string) => cartItems.find(item => item.id === lineId);
+
+  const removeFromCart = (lineId: string) => {
+    setCartItems(items => items.filter(item => item.id !== lineId));
     toast.success("Item removed from cart");
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (lineId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineId);
       return;
     }
 
-    setCartItems(
-      cartItems.map(item =>
-        item.productId === productId ? { ...item, quantity } : item
+    setCartItems(items =>
+      items.map(item =>
+        item.id === lineId ? { ...item, quantity } : item
       )
     );
     toast.success("Quantity updated");
@@ -68,10 +153,9 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     toast.success("Cart cleared");
   };
 
-  const cartTotal = cartItems.reduce(
-    (total, item) => total + item.product.price * item.quantity,
-    0
-  );
+  // Volume tiers and bundle discounts
+  const cartPricing = pricingService.priceCart(cartItems);
+  const cartTotal = cartPricing.subtotal;
 
   const itemCount = cartItems.reduce(
     (count, item) => count + item.quantity,
@@ -83,11 +167,16 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       value={{
         cartItems,
         addToCart,
+        updateCartItem,
+        duplicateCartItem,
+        getCartItem,
         removeFromCart,
         updateQuantity,
         clearCart,
+        cartPricing,
         cartTotal,
         itemCount,
+        isCartLoaded,
       }}
     >
       {children}
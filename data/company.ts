@@ -0,0 +1,34 @@
+const env = import.meta.env;
+
+// Legal identity printed on quotes and invoices. The registration identifiers and the bank
+// account come from the build environment and stay empty until the deployment sets them.
+export const companyInfo = {
+  name: "Cachets Maroc",
+  address: "Casablanca, Morocco",
+  email: "zyad.sobhi@gmail.com",
+  ice: env.VITE_COMPANY_ICE || "",
+  if: env.VITE_COMPANY_IF || "",
+  rc: env.VITE_COMPANY_RC || "",
+  patente: env.VITE_COMPANY_PATENTE || "",
+  // Account credited by bank transfers
+  bankName: env.VITE_COMPANY_BANK_NAME || "",
+  rib: env.VITE_COMPANY_RIB || ""
+};
+
+/**
+ * Identifiers every invoice must carry that are not configured, e.g. ["ICE", "Patente"]
+ */
+export const getMissingCompanyIdentifiers = (): string[] => [
+  { label: "ICE", value: companyInfo.ice },
+  { label: "IF", value: companyInfo.if },
+  { label: "RC", value: companyInfo.rc },
+  { label: "Patente", value: companyInfo.patente }
+].filter(identifier => !identifier.value.trim()).map(identifier => identifier.label);
+
+// Standard Moroccan VAT rate; catalogue prices are TTC (VAT included)
+export const TVA_RATE = 0.2;
+
+// Charged by the courier for collecting cash on delivery, TTC
+export const COD_FEE = 20;
+// Couriers refuse to carry more cash than this per parcel
+export const COD_MAX_ORDER_TOTAL = 5000;
@@ -0,0 +1,92 @@
+export interface PublicHoliday {
+  // YYYY-MM-DD, or MM-DD for holidays on the same date every year
+  date: string;
+  name: string;
+}
+
+// Civil holidays, on the same date every year
+export const fixedPublicHolidays: PublicHoliday[] = [
+  { date: '01-01', name: "New Year's Day" },
+  { date: '01-11', name: 'Proclamation of Independence' },
+  { date: '01-14', name: 'Amazigh New Year' },
+  { date: '05-01', name: 'Labour Day' },
+  { date: '07-30', name: 'Throne Day' },
+  { date: '08-14', name: 'Oued Ed-Dahab Day' },
+  { date: '08-20', name: 'Revolution of the King and the People' },
+  { date: '08-21', name: 'Youth Day' },
+  { date: '10-31', name: 'Unity Day' },
+  { date: '11-06', name: 'Green March' },
+  { date: '11-18', name: 'Independence Day' }
+];
+
+// Religious holidays follow the lunar calendar. Dates listed here win over the computed
+// ones for their year: add them when the Ministry of Habous announces the moon sighting.
+export const islamicPublicHolidays: PublicHoliday[] = [
+  { date: '2025-03-31', name: 'Eid al-Fitr' },
+  { date: '2025-04-01', name: 'Eid al-Fitr' },
+  { date: '2025-06-07', name: 'Eid al-Adha' },
+  { date: '2025-06-08', name: 'Eid al-Adha' },
+  { date: '2025-06-27', name: 'Islamic New Year' },
+  { date: '2025-09-05', name: 'Mawlid' },
+  { date: '2025-09-06', name: 'Mawlid' },
+  { date: '2026-03-20', name: 'Eid al-Fitr' },
+  { date: '2026-03-21', name: 'Eid al-Fitr' },
+  { date: '2026-05-27', name: 'Eid al-Adha' },
+  { date: '2026-05-28', name: 'Eid al-Adha' },
+  { date: '2026-06-16', name: 'Islamic New Year' },
+  { date: '2026-08-25', name: 'Mawlid' },
+  { date: '2026-08-26', name: 'Mawlid' },
+  { date: '2027-03-10', name: 'Eid al-Fitr' },
+  { date: '2027-03-11', name: 'Eid al-Fitr' },
+  { date: '2027-05-17', name: 'Eid al-Adha' },
+  { date: '2027-05-18', name: 'Eid al-Adha' },
+  { date: '2027-06-06', name: 'Islamic New Year' },
+  { date: '2027-08-15', name: 'Mawlid' },
+  { date: '2027-08-16', name: 'Mawlid' }
+];
+
+// Religious holidays by day of the Hijri year, for the years not listed above
+export const islamicHolidayDays: { month: number; day: number; name: string }[] = [
+  { month: 10, day: 1, name: 'Eid al-Fitr' },
+  { month: 10, day: 2, name: 'Eid al-Fitr' },
+  { month: 12, day: 10, name: 'Eid al-Adha' },
+  { month: 12, day: 11, name: 'Eid al-Adha' },
+  { month: 1, day: 1, name: 'Islamic New Year' },
+  { month: 3, day: 12, name: 'Mawlid' },
+  { month: 3, day: 13, name: 'Mawlid' }
+];
+
+// The moon is usually sighted in Morocco a day after the Umm al-Qura calendar starts the month
+const MOROCCAN_SIGHTING_DELAY_DAYS = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hijriFormat = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', { month: 'numeric', day: 'numeric', timeZone: 'UTC' });
+const hasHijriCalendar = hijriFormat.resolvedOptions().calendar === 'islamic-umalqura';
+if (!hasHijriCalendar) {
+  console.warn('No Hijri calendar in this browser: religious holidays are only known for the years listed');
+}
+const listedIslamicYears = new Set(islamicPublicHolidays.map(holiday => holiday.date.slice(0, 4)));
+
+/**
+ * Estimate the religious holiday on a YYYY-MM-DD date from the Umm al-Qura calendar
+ */
+const getComputedIslamicHoliday = (date: string): PublicHoliday | undefined => {
+  if (!hasHijriCalendar) return undefined;
+
+  const parts = hijriFormat.formatToParts(new Date(Date.parse(date) - MOROCCAN_SIGHTING_DELAY_DAYS * DAY_MS));
+  const month = Number(parts.find(part => part.type === 'month')?.value);
+  const day = Number(parts.find(part => part.type === 'day')?.value);
+  const holiday = islamicHolidayDays.find(entry => entry.month === month && entry.day === day);
+  return holiday && { date, name: holiday.name };
+};
+
+/**
+ * Get the public holiday on a YYYY-MM-DD date, if any
+ */
+export const getPublicHoliday = (date: string) => {
+  const islamicHoliday = listedIslamicYears.has(date.slice(0, 4))
+    ? islamicPublicHolidays.find(holiday => holiday.date === date)
+    : getComputedIslamicHoliday(date);
+
+  return islamicHoliday || fixedPublicHolidays.find(holiday => holiday.date === date.slice(5));
+};
@@ -0,0 +1,160 @@
+import { CartItem, Order } from '../types';
+import { getProductById } from './products';
+
+const mockItem = (id: string, productId: string, quantity: number, customText: string, inkColor: string): CartItem => ({
+  id,
+  productId,
+  product: getProductById(productId),
+  quantity,
+  customText,
+  inkColor
+});
+
+// Sample orders at different production steps, used by the tracking and proof pages in development.
+// Track them with the order number and demo@cachets-maroc.com or 06 12 34 56 78.
+export const mockOrders: Order[] = [
+  {
+    id: 'ORD-1000001',
+    customerName: 'Salma Bennani',
+    email: 'demo@cachets-maroc.com',
+    phone: '+212612345678',
+    shippingAddress: '12 Rue Ibnou Mounir, 20100 Casablanca, Casablanca-Settat, Morocco',
+    shippingMethod: {
+      id: 'courier',
+      name: 'Casablanca Express Courier',
+      price: 30,
+      days: 'Same-day delivery',
+      estimatedDelivery: { from: '2026-10-20', to: '2026-10-20' }
+    },
+    paymentMethod: 'cash_on_delivery',
+    paymentStatus: 'pending',
+    items: [mockItem('mock-line-1', 'shiny-s842', 1, 'CABINET BENNANI\nAvocats\nCasablanca', 'blue')],
+    subtotal: 230,
+    shipping: 30,
+    paymentFee: 20,
+    total: 280,
+    date: '2026-10-19T09:12:00+01:00',
+    status: 'engraving',
+    statusHistory: [
+      { status: 'received', date: '2026-10-19T09:12:00+01:00' },
+      { status: 'proof_approved', date: '2026-10-19T10:05:00+01:00' },
+      { status: 'engraving', date: '2026-10-19T10:40:00+01:00' }
+    ]
+  },
+  {
+    id: 'ORD-1000002',
+    customerName: 'Youssef El Amrani',
+    email: 'demo@cachets-maroc.com',
+    phone: '+212612345678',
+    shippingAddress: '45 Avenue Mohammed V, 10000 Rabat, Rabat-Salé-Kénitra, Morocco',
+    shippingMethod: {
+      id: 'amana',
+      name: 'Amana',
+      price: 0,
+      originalPrice: 45,
+      days: '1-3 business days',
+      estimatedDelivery: { from: '2026-10-19', to: '2026-10-21' }
+    },
+    paymentMethod: 'bank_transfer',
+    paymentStatus: 'paid',
+    paymentReference: 'CM-7K2P9QXA-44',
+    items: [mockItem('mock-line-2', 'kasem-2002', 20, 'SOCIETE ATLAS SARL\nICE 001234567000089', 'black')],
+    company: { name: 'Atlas SARL', ice: '001234567000089' },
+    subtotal: 2600,
+    shipping: 0,
+    total: 2600,
+    date: '2026-10-14T15:30:00+01:00',
+    status: 'shipped',
+    trackingNumber: 'CP123456789MA',
+    statusHistory: [
+      { status: 'received', date: '2026-10-14T15:30:00+01:00' },
+      { status: 'proof_approved', date: '2026-10-15T11:00:00+01:00' },
+      { status: 'engraving', date: '2026-10-16T09:20:00+01:00' },
+      { status: 'quality_check', date: '2026-10-16T14:45:00+01:00' },
+      { status: 'shipped', date: '2026-10-17T10:00:00+01:00', note: 'Handed to Amana, tracking number CP123456789MA' }
+    ]
+  },
+  {
+    id: 'ORD-1000003',
+    customerName: 'Salma Bennani',
+    email: 'demo@cachets-maroc.com',
+    phone: '+212612345678',
+    shippingAddress: '12 Rue Ibnou Mounir, 20100 Casablanca, Casablanca-Settat, Morocco',
+    shippingMethod: {
+      id: 'pickup',
+      name: 'Store pickup',
+      price: 0,
+      days: 'Ready for pickup',
+      estimatedDelivery: { from: '2026-09-29', to: '2026-09-29' },
+      isPickup: true
+    },
+    paymentMethod: 'credit_card',
+    paymentStatus: 'paid',
+    items: [mockItem('mock-line-3', 'wood-round', 2, 'APPROUVÉ', 'red')],
+    subtotal: 170,
+    shipping: 0,
+    total: 170,
+    date: '2026-09-28T17:05:00+01:00',
+    status: 'delivered',
+    statusHistory: [
+      { status: 'received', date: '2026-09-28T17:05:00+01:00' },
+      { status: 'proof_approved', date: '2026-09-29T09:30:00+01:00' },
+      { status: 'engraving', date: '2026-09-29T10:15:00+01:00' },
+      { status: 'quality_check', date: '2026-09-29T12:00:00+01:00' },
+      { status: 'shipped', date: '2026-09-29T15:00:00+01:00' },
+      { status: 'delivered', date: '2026-09-30T16:20:00+01:00', note: 'Collected at the workshop' }
+    ]
+  },
+  {
+    id: 'ORD-1000004',
+    customerName: 'Youssef El Amrani',
+    email: 'demo@cachets-maroc.com',
+    phone: '+212612345678',
+    shippingAddress: '45 Avenue Mohammed V, 10000 Rabat, Rabat-Salé-Kénitra, Morocco',
+    shippingMethod: {
+      id: 'ctm',
+      name: 'CTM Messagerie',
+      price: 35,
+      days: '1-2 business days',
+      estimatedDelivery: { from: '2026-10-21', to: '2026-10-22' }
+    },
+    paymentMethod: 'cash_on_delivery',
+    paymentStatus: 'pending',
+    items: [mockItem('mock-line-4', 'sirdas-470', 1, 'ATLAS SARL\nService Comptabilité\nTél : 05 37 00 00 00', 'blue')],
+    subtotal: 300,
+    shipping: 35,
+    paymentFee: 20,
+    total: 355,
+    date: '2026-10-19T11:45:00+01:00',
+    status: 'received',
+    statusHistory: [
+      { status: 'received', date: '2026-10-19T11:45:00+01:00' }
+    ],
+    // Open /proof/ORD-1000004?token=demo-proof-token to try the approval workflow
+    proof: {
+      token: 'demo-proof-token',
+      status: 'pending',
+      revisions: [
+        {
+          number: 1,
+          createdAt: '2026-10-19T11:45:00+01:00',
+          artwork: [{ lineId: 'mock-line-4', customText: 'ATLAS SARL\nService Comptabilite\nTél : 05 37 00 00 00' }],
+          status: 'changes_requested',
+          respondedAt: '2026-10-19T12:10:00+01:00',
+          comment: 'Please add the accent: Comptabilité'
+        },
+        {
+          number: 2,
+          createdAt: '2026-10-19T14:00:00+01:00',
+          artwork: [{ lineId: 'mock-line-4', customText: 'ATLAS SARL\nService Comptabilité\nTél : 05 37 00 00 00' }],
+          note: 'Accent added on Comptabilité',
+          status: 'pending'
+        }
+      ]
+    }
+  }
+];
+
+export const getMockOrderById = (id: string) => {
+  return mockOrders.find(order => order.id === id);
+};
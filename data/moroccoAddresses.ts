@@ -0,0 +1,140 @@
+export interface MoroccanRegion {
+  id: string;
+  name: string;
+}
+
+export interface MoroccanCity {
+  name: string;
+  // Other spellings customers type, e.g. "Casa" or "Tangier"
+  aliases?: string[];
+  province: string;
+  regionId: string;
+  // Main post office code of the city
+  postalCode: string;
+  // Every postal code of the city starts with one of these
+  postalPrefixes: string[];
+}
+
+// The 12 regions of the 2015 territorial division
+export const moroccanRegions: MoroccanRegion[] = [
+  { id: 'tanger-tetouan-al-hoceima', name: 'Tanger-Tétouan-Al Hoceïma' },
+  { id: 'oriental', name: "L'Oriental" },
+  { id: 'fes-meknes', name: 'Fès-Meknès' },
+  { id: 'rabat-sale-kenitra', name: 'Rabat-Salé-Kénitra' },
+  { id: 'beni-mellal-khenifra', name: 'Béni Mellal-Khénifra' },
+  { id: 'casablanca-settat', name: 'Casablanca-Settat' },
+  { id: 'marrakech-safi', name: 'Marrakech-Safi' },
+  { id: 'draa-tafilalet', name: 'Drâa-Tafilalet' },
+  { id: 'souss-massa', name: 'Souss-Massa' },
+  { id: 'guelmim-oued-noun', name: 'Guelmim-Oued Noun' },
+  { id: 'laayoune-sakia-el-hamra', name: 'Laâyoune-Sakia El Hamra' },
+  { id: 'dakhla-oued-ed-dahab', name: 'Dakhla-Oued Ed-Dahab' }
+];
+
+export const moroccanCities: MoroccanCity[] = [
+  // Tanger-Tétouan-Al Hoceïma
+  { name: 'Tanger', aliases: ['Tangier', 'Tangiers', 'Tanja'], province: 'Tanger-Assilah', regionId: 'tanger-tetouan-al-hoceima', postalCode: '90000', postalPrefixes: ['90'] },
+  { name: 'Tétouan', aliases: ['Tetouan', 'Tetuan', 'Titwan'], province: 'Tétouan', regionId: 'tanger-tetouan-al-hoceima', postalCode: '93000', postalPrefixes: ['930'] },
+  { name: 'Fnideq', aliases: ['Castillejos'], province: "M'diq-Fnideq", regionId: 'tanger-tetouan-al-hoceima', postalCode: '93100', postalPrefixes: ['931'] },
+  { name: "M'diq", aliases: ['Mdiq', 'Rincon'], province: "M'diq-Fnideq", regionId: 'tanger-tetouan-al-hoceima', postalCode: '93200', postalPrefixes: ['932'] },
+  { name: 'Larache', aliases: ['Laraache'], province: 'Larache', regionId: 'tanger-tetouan-al-hoceima', postalCode: '92000', postalPrefixes: ['920'] },
+  { name: 'Ksar El Kébir', aliases: ['Ksar El Kebir', 'Ksar Kbir'], province: 'Larache', regionId: 'tanger-tetouan-al-hoceima', postalCode: '92150', postalPrefixes: ['921'] },
+  { name: 'Asilah', aliases: ['Assilah', 'Arzila'], province: 'Tanger-Assilah', regionId: 'tanger-tetouan-al-hoceima', postalCode: '90050', postalPrefixes: ['900'] },
+  { name: 'Chefchaouen', aliases: ['Chaouen', 'Xauen'], province: 'Chefchaouen', regionId: 'tanger-tetouan-al-hoceima', postalCode: '91000', postalPrefixes: ['910'] },
+  { name: 'Al Hoceïma', aliases: ['Al Hoceima', 'Alhucemas', 'Hoceima'], province: 'Al Hoceïma', regionId: 'tanger-tetouan-al-hoceima', postalCode: '32000', postalPrefixes: ['320'] },
+  { name: 'Ouazzane', aliases: ['Ouezzane', 'Wazzan'], province: 'Ouezzane', regionId: 'tanger-tetouan-al-hoceima', postalCode: '16200', postalPrefixes: ['162'] },
+
+  // L'Oriental
+  { name: 'Oujda', aliases: ['Oujda Angad'], province: 'Oujda-Angad', regionId: 'oriental', postalCode: '60000', postalPrefixes: ['60'] },
+  { name: 'Nador', province: 'Nador', regionId: 'oriental', postalCode: '62000', postalPrefixes: ['620'] },
+  { name: 'Berkane', province: 'Berkane', regionId: 'oriental', postalCode: '63300', postalPrefixes: ['633'] },
+  { name: 'Saïdia', aliases: ['Saidia'], province: 'Berkane', regionId: 'oriental', postalCode: '63600', postalPrefixes: ['636'] },
+  { name: 'Taourirt', province: 'Taourirt', regionId: 'oriental', postalCode: '65800', postalPrefixes: ['658'] },
+  { name: 'Guercif', province: 'Guercif', regionId: 'oriental', postalCode: '35100', postalPrefixes: ['351'] },
+  { name: 'Jerada', province: 'Jerada', regionId: 'oriental', postalCode: '60600', postalPrefixes: ['606'] },
+  { name: 'Figuig', province: 'Figuig', regionId: 'oriental', postalCode: '61000', postalPrefixes: ['610'] },
+  { name: 'Driouch', province: 'Driouch', regionId: 'oriental', postalCode: '62200', postalPrefixes: ['622'] },
+
+  // Fès-Meknès
+  { name: 'Fès', aliases: ['Fes', 'Fez'], province: 'Fès', regionId: 'fes-meknes', postalCode: '30000', postalPrefixes: ['30'] },
+  { name: 'Meknès', aliases: ['Meknes', 'Miknas'], province: 'Meknès', regionId: 'fes-meknes', postalCode: '50000', postalPrefixes: ['50'] },
+  { name: 'Taza', province: 'Taza', regionId: 'fes-meknes', postalCode: '35000', postalPrefixes: ['350'] },
+  { name: 'Sefrou', province: 'Sefrou', regionId: 'fes-meknes', postalCode: '31000', postalPrefixes: ['310'] },
+  { name: 'Ifrane', province: 'Ifrane', regionId: 'fes-meknes', postalCode: '53000', postalPrefixes: ['530'] },
+  { name: 'Azrou', province: 'Ifrane', regionId: 'fes-meknes', postalCode: '53100', postalPrefixes: ['531'] },
+  { name: 'El Hajeb', province: 'El Hajeb', regionId: 'fes-meknes', postalCode: '51000', postalPrefixes: ['510'] },
+  { name: 'Taounate', province: 'Taounate', regionId: 'fes-meknes', postalCode: '34000', postalPrefixes: ['340'] },
+  { name: 'Boulemane', province: 'Boulemane', regionId: 'fes-meknes', postalCode: '33000', postalPrefixes: ['330'] },
+
+  // Rabat-Salé-Kénitra
+  { name: 'Rabat', province: 'Rabat', regionId: 'rabat-sale-kenitra', postalCode: '10000', postalPrefixes: ['10'] },
+  { name: 'Salé', aliases: ['Sale', 'Sla'], province: 'Salé', regionId: 'rabat-sale-kenitra', postalCode: '11000', postalPrefixes: ['11'] },
+  { name: 'Témara', aliases: ['Temara'], province: 'Skhirate-Témara', regionId: 'rabat-sale-kenitra', postalCode: '12000', postalPrefixes: ['120'] },
+  { name: 'Skhirat', aliases: ['Skhirate'], province: 'Skhirate-Témara', regionId: 'rabat-sale-kenitra', postalCode: '12050', postalPrefixes: ['120'] },
+  { name: 'Kénitra', aliases: ['Kenitra'], province: 'Kénitra', regionId: 'rabat-sale-kenitra', postalCode: '14000', postalPrefixes: ['140'] },
+  { name: 'Sidi Slimane', province: 'Sidi Slimane', regionId: 'rabat-sale-kenitra', postalCode: '14200', postalPrefixes: ['142'] },
+  { name: 'Sidi Kacem', province: 'Sidi Kacem', regionId: 'rabat-sale-kenitra', postalCode: '16000', postalPrefixes: ['160'] },
+  { name: 'Khémisset', aliases: ['Khemisset'], province: 'Khémisset', regionId: 'rabat-sale-kenitra', postalCode: '15000', postalPrefixes: ['150'] },
+
+  // Béni Mellal-Khénifra
+  { name: 'Béni Mellal', aliases: ['Beni Mellal'], province: 'Béni Mellal', regionId: 'beni-mellal-khenifra', postalCode: '23000', postalPrefixes: ['230'] },
+  { name: 'Fquih Ben Salah', aliases: ['Fkih Ben Salah'], province: 'Fquih Ben Salah', regionId: 'beni-mellal-khenifra', postalCode: '23200', postalPrefixes: ['232'] },
+  { name: 'Khouribga', province: 'Khouribga', regionId: 'beni-mellal-khenifra', postalCode: '25000', postalPrefixes: ['250'] },
+  { name: 'Khénifra', aliases: ['Khenifra'], province: 'Khénifra', regionId: 'beni-mellal-khenifra', postalCode: '54000', postalPrefixes: ['540'] },
+  { name: 'Azilal', province: 'Azilal', regionId: 'beni-mellal-khenifra', postalCode: '22000', postalPrefixes: ['220'] },
+
+  // Casablanca-Settat
+  { name: 'Casablanca', aliases: ['Casa', 'Dar El Beida', 'Dar Beida'], province: 'Casablanca', regionId: 'casablanca-settat', postalCode: '20000', postalPrefixes: ['20'] },
+  { name: 'Mohammedia', aliases: ['Fedala'], province: 'Mohammedia', regionId: 'casablanca-settat', postalCode: '28800', postalPrefixes: ['288'] },
+  { name: 'Bouskoura', province: 'Nouaceur', regionId: 'casablanca-settat', postalCode: '27182', postalPrefixes: ['271'] },
+  { name: 'Dar Bouazza', province: 'Nouaceur', regionId: 'casablanca-settat', postalCode: '27223', postalPrefixes: ['272'] },
+  { name: 'Médiouna', aliases: ['Mediouna'], province: 'Médiouna', regionId: 'casablanca-settat', postalCode: '29000', postalPrefixes: ['290'] },
+  { name: 'Berrechid', province: 'Berrechid', regionId: 'casablanca-settat', postalCode: '26100', postalPrefixes: ['261'] },
+  { name: 'Settat', province: 'Settat', regionId: 'casablanca-settat', postalCode: '26000', postalPrefixes: ['260'] },
+  { name: 'El Jadida', aliases: ['Jadida', 'Mazagan'], province: 'El Jadida', regionId: 'casablanca-settat', postalCode: '24000', postalPrefixes: ['240'] },
+  { name: 'Azemmour', province: 'El Jadida', regionId: 'casablanca-settat', postalCode: '24100', postalPrefixes: ['241'] },
+  { name: 'Benslimane', aliases: ['Ben Slimane'], province: 'Benslimane', regionId: 'casablanca-settat', postalCode: '13000', postalPrefixes: ['130'] },
+  { name: 'Sidi Bennour', province: 'Sidi Bennour', regionId: 'casablanca-settat', postalCode: '24350', postalPrefixes: ['243'] },
+
+  // Marrakech-Safi
+  { name: 'Marrakech', aliases: ['Marrakesh', 'Marrakch'], province: 'Marrakech', regionId: 'marrakech-safi', postalCode: '40000', postalPrefixes: ['40'] },
+  { name: 'Safi', province: 'Safi', regionId: 'marrakech-safi', postalCode: '46000', postalPrefixes: ['460'] },
+  { name: 'Essaouira', aliases: ['Mogador'], province: 'Essaouira', regionId: 'marrakech-safi', postalCode: '44000', postalPrefixes: ['440'] },
+  { name: 'El Kelâa des Sraghna', aliases: ['Kelaa des Sraghna', 'Kalaat Sraghna'], province: 'El Kelâa des Sraghna', regionId: 'marrakech-safi', postalCode: '43000', postalPrefixes: ['430'] },
+  { name: 'Ben Guerir', aliases: ['Benguerir'], province: 'Rehamna', regionId: 'marrakech-safi', postalCode: '43150', postalPrefixes: ['431'] },
+  { name: 'Youssoufia', province: 'Youssoufia', regionId: 'marrakech-safi', postalCode: '46300', postalPrefixes: ['463'] },
+
+  // Drâa-Tafilalet
+  { name: 'Errachidia', aliases: ['Er-Rachidia', 'Rachidia'], province: 'Errachidia', regionId: 'draa-tafilalet', postalCode: '52000', postalPrefixes: ['520'] },
+  { name: 'Ouarzazate', province: 'Ouarzazate', regionId: 'draa-tafilalet', postalCode: '45000', postalPrefixes: ['450'] },
+  { name: 'Tinghir', aliases: ['Tinerhir'], province: 'Tinghir', regionId: 'draa-tafilalet', postalCode: '45800', postalPrefixes: ['458'] },
+  { name: 'Zagora', province: 'Zagora', regionId: 'draa-tafilalet', postalCode: '47900', postalPrefixes: ['479'] },
+  { name: 'Midelt', province: 'Midelt', regionId: 'draa-tafilalet', postalCode: '54350', postalPrefixes: ['543'] },
+
+  // Souss-Massa
+  { name: 'Agadir', province: "Agadir Ida-Outanane", regionId: 'souss-massa', postalCode: '80000', postalPrefixes: ['80'] },
+  { name: 'Inezgane', province: 'Inezgane-Aït Melloul', regionId: 'souss-massa', postalCode: '86350', postalPrefixes: ['863'] },
+  { name: 'Aït Melloul', aliases: ['Ait Melloul'], province: 'Inezgane-Aït Melloul', regionId: 'souss-massa', postalCode: '86150', postalPrefixes: ['861'] },
+  { name: 'Taroudant', province: 'Taroudant', regionId: 'souss-massa', postalCode: '83000', postalPrefixes: ['830'] },
+  { name: 'Tiznit', province: 'Tiznit', regionId: 'souss-massa', postalCode: '85000', postalPrefixes: ['850'] },
+  { name: 'Biougra', province: 'Chtouka-Aït Baha', regionId: 'souss-massa', postalCode: '87100', postalPrefixes: ['871'] },
+
+  // Guelmim-Oued Noun
+  { name: 'Guelmim', aliases: ['Goulimine'], province: 'Guelmim', regionId: 'guelmim-oued-noun', postalCode: '81000', postalPrefixes: ['810'] },
+  { name: 'Tan-Tan', aliases: ['Tantan'], province: 'Tan-Tan', regionId: 'guelmim-oued-noun', postalCode: '82000', postalPrefixes: ['820'] },
+  { name: 'Sidi Ifni', aliases: ['Ifni'], province: 'Sidi Ifni', regionId: 'guelmim-oued-noun', postalCode: '85200', postalPrefixes: ['852'] },
+
+  // Laâyoune-Sakia El Hamra
+  { name: 'Laâyoune', aliases: ['Laayoune', 'El Aaiun'], province: 'Laâyoune', regionId: 'laayoune-sakia-el-hamra', postalCode: '70000', postalPrefixes: ['700'] },
+  { name: 'Es-Semara', aliases: ['Smara', 'Semara'], province: 'Es-Semara', regionId: 'laayoune-sakia-el-hamra', postalCode: '72000', postalPrefixes: ['720'] },
+  { name: 'Boujdour', province: 'Boujdour', regionId: 'laayoune-sakia-el-hamra', postalCode: '71000', postalPrefixes: ['710'] },
+
+  // Dakhla-Oued Ed-Dahab
+  { name: 'Dakhla', aliases: ['Ad Dakhla', 'Villa Cisneros'], province: 'Oued Ed-Dahab', regionId: 'dakhla-oued-ed-dahab', postalCode: '73000', postalPrefixes: ['730'] }
+];
+
+export const getRegionById = (id: string): MoroccanRegion | undefined =>
+  moroccanRegions.find(region => region.id === id);
+
+export const getCitiesByRegion = (regionId: string): MoroccanCity[] =>
+  moroccanCities.filter(city => city.regionId === regionId);
@@ -0,0 +1,52 @@
+import { OrderStatus } from '../types';
+
+export interface OrderStatusStep {
+  status: OrderStatus;
+  label: string;
+  description: string;
+  // Wording for orders collected at the workshop
+  pickupLabel?: string;
+  pickupDescription?: string;
+}
+
+// Timeline shown on the tracking page, in production order
+export const orderStatusSteps: OrderStatusStep[] = [
+  {
+    status: 'received',
+    label: 'Order received',
+    description: 'We have received your order and are preparing your proof.'
+  },
+  {
+    status: 'proof_approved',
+    label: 'Proof approved',
+    description: 'Your stamp design is approved and scheduled for production.'
+  },
+  {
+    status: 'engraving',
+    label: 'Engraving',
+    description: 'Your text plate is being laser engraved and mounted.'
+  },
+  {
+    status: 'quality_check',
+    label: 'Quality check',
+    description: 'We test print your stamp to check every line is sharp.'
+  },
+  {
+    status: 'shipped',
+    label: 'Shipped',
+    description: 'Your stamp has left our workshop.',
+    pickupLabel: 'Ready for pickup',
+    pickupDescription: 'Your stamp is waiting for you at our Casablanca workshop.'
+  },
+  {
+    status: 'delivered',
+    label: 'Delivered',
+    description: 'Your stamp has been delivered. Happy stamping!',
+    pickupLabel: 'Collected',
+    pickupDescription: 'You have collected your stamp. Happy stamping!'
+  }
+];
+
+export const getOrderStatusStep = (status: OrderStatus) => {
+  return orderStatusSteps.find(step => step.status === status);
+};
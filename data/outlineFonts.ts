@@ -0,0 +1,47 @@
+import arimoRegular from '@fontsource/arimo/files/arimo-latin-400-normal.woff?url';
+import arimoBold from '@fontsource/arimo/files/arimo-latin-700-normal.woff?url';
+import arimoItalic from '@fontsource/arimo/files/arimo-latin-400-italic.woff?url';
+import arimoBoldItalic from '@fontsource/arimo/files/arimo-latin-700-italic.woff?url';
+import tinosRegular from '@fontsource/tinos/files/tinos-latin-400-normal.woff?url';
+import tinosBold from '@fontsource/tinos/files/tinos-latin-700-normal.woff?url';
+import tinosItalic from '@fontsource/tinos/files/tinos-latin-400-italic.woff?url';
+import tinosBoldItalic from '@fontsource/tinos/files/tinos-latin-700-italic.woff?url';
+import dejavuSansRegular from '@fontsource/dejavu-sans/files/dejavu-sans-latin-400-normal.woff?url';
+import dejavuSansBold from '@fontsource/dejavu-sans/files/dejavu-sans-latin-700-normal.woff?url';
+import dejavuSansItalic from '@fontsource/dejavu-sans/files/dejavu-sans-latin-400-italic.woff?url';
+import dejavuSansBoldItalic from '@fontsource/dejavu-sans/files/dejavu-sans-latin-700-italic.woff?url';
+import gelasioRegular from '@fontsource/gelasio/files/gelasio-latin-400-normal.woff?url';
+import gelasioBold from '@fontsource/gelasio/files/gelasio-latin-700-normal.woff?url';
+import gelasioItalic from '@fontsource/gelasio/files/gelasio-latin-400-italic.woff?url';
+import gelasioBoldItalic from '@fontsource/gelasio/files/gelasio-latin-700-italic.woff?url';
+import cousineRegular from '@fontsource/cousine/files/cousine-latin-400-normal.woff?url';
+import cousineBold from '@fontsource/cousine/files/cousine-latin-700-normal.woff?url';
+import cousineItalic from '@fontsource/cousine/files/cousine-latin-400-italic.woff?url';
+import cousineBoldItalic from '@fontsource/cousine/files/cousine-latin-700-italic.woff?url';
+import ibmPlexSansArabicRegular from '@fontsource/ibm-plex-sans-arabic/files/ibm-plex-sans-arabic-arabic-400-normal.woff?url';
+import ibmPlexSansArabicBold from '@fontsource/ibm-plex-sans-arabic/files/ibm-plex-sans-arabic-arabic-700-normal.woff?url';
+
+export type OutlineFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+export type OutlineFontFaces = Record<OutlineFontStyle, string>;
+
+// Open fonts drawn to the metrics of the fonts offered in the designer, used to turn the text
+// of production files into outlines. Verdana has no such font; DejaVu Sans is the closest.
+export const outlineFonts: Record<string, OutlineFontFaces> = {
+  'Arial': { regular: arimoRegular, bold: arimoBold, italic: arimoItalic, boldItalic: arimoBoldItalic },
+  'Times New Roman': { regular: tinosRegular, bold: tinosBold, italic: tinosItalic, boldItalic: tinosBoldItalic },
+  'Verdana': { regular: dejavuSansRegular, bold: dejavuSansBold, italic: dejavuSansItalic, boldItalic: dejavuSansBoldItalic },
+  'Georgia': { regular: gelasioRegular, bold: gelasioBold, italic: gelasioItalic, boldItalic: gelasioBoldItalic },
+  'Courier New': { regular: cousineRegular, bold: cousineBold, italic: cousineItalic, boldItalic: cousineBoldItalic }
+};
+
+// Used for the characters the font of the line does not have, e.g. Arabic text
+export const fallbackOutlineFont: OutlineFontFaces = {
+  regular: ibmPlexSansArabicRegular,
+  bold: ibmPlexSansArabicBold,
+  italic: ibmPlexSansArabicRegular,
+  boldItalic: ibmPlexSansArabicBold
+};
+
+export const getOutlineFontFaces = (fontFamily?: string): OutlineFontFaces =>
+  outlineFonts[fontFamily || 'Arial'] || outlineFonts['Arial'];
@@ -0,0 +1,100 @@
+import { Accessory, BundleOffer, QuantityTier } from '../types';
+import { products } from './products';
+
+// Volume discounts applied to every model without its own tiers
+export const defaultQuantityTiers: QuantityTier[] = [
+  { minQuantity: 10, discountPercent: 5 },
+  { minQuantity: 20, discountPercent: 10 },
+  { minQuantity: 50, discountPercent: 15 },
+  { minQuantity: 100, discountPercent: 20 }
+];
+
+// Fixed unit prices (DHS) for the models companies order by the dozen for their branches
+export const productQuantityTiers: Record<string, QuantityTier[]> = {
+  "trodat-4912": [
+    { minQuantity: 10, unitPrice: 140 },
+    { minQuantity: 20, unitPrice: 130 },
+    { minQuantity: 50, unitPrice: 120 },
+    { minQuantity: 100, unitPrice: 110 },
+    { minQuantity: 200, unitPrice: 100 }
+  ],
+  "trodat-4913": [
+    { minQuantity: 10, unitPrice: 165 },
+    { minQuantity: 20, unitPrice: 155 },
+    { minQuantity: 50, unitPrice: 145 },
+    { minQuantity: 100, unitPrice: 135 },
+    { minQuantity: 200, unitPrice: 125 }
+  ],
+  "kasem-2002": [
+    { minQuantity: 10, unitPrice: 140 },
+    { minQuantity: 20, unitPrice: 130 },
+    { minQuantity: 50, unitPrice: 120 },
+    { minQuantity: 100, unitPrice: 110 }
+  ],
+  "wood-round": [
+    { minQuantity: 10, unitPrice: 75 },
+    { minQuantity: 50, unitPrice: 65 },
+    { minQuantity: 100, unitPrice: 60 }
+  ],
+  "wood-2x5": [
+    { minQuantity: 10, unitPrice: 75 },
+    { minQuantity: 50, unitPrice: 65 },
+    { minQuantity: 100, unitPrice: 60 }
+  ]
+};
+
+export const accessories: Accessory[] = [
+  {
+    id: "spare-ink-pad",
+    name: "Spare ink pad",
+    price: 40,
+    description: "Replacement ink pad for self-inking stamps.",
+    weight: 30
+  },
+  {
+    id: "stamp-pad",
+    name: "Stamp pad",
+    price: 35,
+    description: "Inked stamp pad for wooden hand stamps.",
+    weight: 120
+  }
+];
+
+const woodenProductIds = products.filter(product => product.id.startsWith('wood-')).map(product => product.id);
+
+export const bundleOffers: BundleOffer[] = [
+  {
+    id: "self-inking-spare-pad",
+    name: "Stamp + spare ink pad",
+    description: "Add a spare ink pad to each stamp and save 10% on the pack.",
+    productIds: products.filter(product => !woodenProductIds.includes(product.id)).map(product => product.id),
+    accessoryIds: ["spare-ink-pad"],
+    discountType: "percent",
+    discountValue: 10
+  },
+  {
+    id: "wooden-stamp-pad",
+    name: "Wooden stamp + stamp pad",
+    description: "Add a stamp pad to each wooden stamp and save 15 DHS on the pack.",
+    productIds: woodenProductIds,
+    accessoryIds: ["stamp-pad"],
+    discountType: "fixed",
+    discountValue: 15
+  }
+];
+
+export const getQuantityTiers = (productId: string): QuantityTier[] => {
+  return productQuantityTiers[productId] || defaultQuantityTiers;
+};
+
+export const getAccessoryById = (id: string) => {
+  return accessories.find(accessory => accessory.id === id);
+};
+
+export const getBundleOfferById = (id: string) => {
+  return bundleOffers.find(offer => offer.id === id);
+};
+
+export const getBundleOffersForProduct = (productId: string) => {
+  return bundleOffers.filter(offer => offer.productIds.includes(productId));
+};
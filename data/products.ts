@@ -12,7 +12,13 @@ export const products: Product[] = [
     lines: 8,
     colors: ["black", "green", "red", "blue"],
     inkColors: ["blue"],
+    stock: 4,
     images: ["/lovable-uploads/a91604fd-99b9-4812-922f-91e34cf59242.png"],
+    variants: [
+      { sku: "SD-470-FR", options: { daterLanguage: "fr" } },
+      { sku: "SD-470-AR", options: { daterLanguage: "ar" }, priceDelta: 20, stock: 2 },
+      { sku: "SD-470-EN", options: { daterLanguage: "en" } }
+    ],
     description: "Professional self-inking dater stamp with 8 lines of text capacity.",
     featured: true,
     shape: "rectangle"
@@ -77,17 +83,27 @@ export const products: Product[] = [
     shape: "circle"
   },
   {
-    id: "wood-round-30",
-    name: "Wooden Round Stamp 30mm",
+    id: "wood-round",
+    name: "Wooden Round Stamp",
     brand: "Cachets Maroc",
-    model: "Round 30",
+    model: "Round",
     price: 85,
     size: "30mm",
     lines: 2,
     colors: ["wood"],
     inkColors: ["black", "blue", "red"],
     images: ["/lovable-uploads/c8a9d444-ab04-44f5-80dd-b196c3b48725.png"],
-    description: "Classic wooden round stamp with 2 lines of text and logo capability.",
+    variants: [
+      { sku: "CM-ROUND-30", options: { size: "30mm" }, lines: 2 },
+      {
+        sku: "CM-ROUND-40",
+        options: { size: "40mm" },
+        lines: 4,
+        priceDelta: 15,
+        image: "/lovable-uploads/945f9bb6-607b-48c9-bd12-0e5c7898510b.png"
+      }
+    ],
+    description: "Classic wooden round stamp with logo capability, in 30mm for 2 lines of text or 40mm for 4 lines.",
     shape: "circle"
   },
   {
@@ -104,20 +120,6 @@ export const products: Product[] = [
     description: "Classic wooden rectangular stamp with 5 lines of text capacity.",
     shape: "rectangle"
   },
-  {
-    id: "wood-round-40",
-    name: "Wooden Round Stamp 40mm",
-    brand: "Cachets Maroc",
-    model: "Round 40",
-    price: 100,
-    size: "40mm",
-    lines: 4,
-    colors: ["wood"],
-    inkColors: ["black", "blue", "red"],
-    images: ["/lovable-uploads/945f9bb6-607b-48c9-bd12-0e5c7898510b.png"],
-    description: "Classic wooden round stamp with 4 lines of text and logo capability.",
-    shape: "circle"
-  },
   {
     id: "shiny-s842",
     name: "Shiny S-842",
@@ -170,6 +172,7 @@ export const products: Product[] = [
     lines: 7,
     colors: ["red", "green"],
     inkColors: ["blue", "red"],
+    inkStock: { blue: 18, red: 2 },
     images: ["/lovable-uploads/ea0b1c21-c188-4d30-ab58-2b411be021c8.png"],
     description: "Professional self-inking stamp with 7 lines of text capacity.",
     shape: "rectangle"
@@ -185,6 +188,8 @@ export const products: Product[] = [
     lines: 6,
     colors: ["red", "black"],
     inkColors: ["blue", "red"],
+    inkStock: { blue: 12, red: 0 },
+    backorderLeadDays: 10,
     images: ["/lovable-uploads/4eff8e92-349b-46d7-9942-dea57796ac6b.png"],
     description: "Compact self-inking stamp with 6 lines of text capacity. CO₂ neutral as standard.",
     shape: "rectangle"
@@ -228,6 +233,13 @@ export const products: Product[] = [
     colors: ["red", "green"],
     inkColors: ["blue", "red"],
     images: ["/lovable-uploads/5513cb2c-4dde-4aa7-a63a-3ddad3b9c617.png"],
+    variants: [
+      { sku: "TR-4912-RED-BLU", options: { bodyColor: "red", inkColor: "blue", padSize: "standard" } },
+      { sku: "TR-4912-RED-RED", options: { bodyColor: "red", inkColor: "red", padSize: "standard" } },
+      { sku: "TR-4912-GRN-BLU", options: { bodyColor: "green", inkColor: "blue", padSize: "standard" } },
+      { sku: "TR-4912-GRN-RED", options: { bodyColor: "green", inkColor: "red", padSize: "standard" }, stock: 0 },
+      { sku: "TR-4912-RED-BLU-XL", options: { bodyColor: "red", inkColor: "blue", padSize: "large" }, priceDelta: 25 }
+    ],
     description: "Popular self-inking stamp with 5 lines of text capacity. CO₂ neutral as standard.",
     shape: "rectangle"
   },
@@ -255,6 +267,7 @@ export const products: Product[] = [
     lines: 6,
     colors: ["blue", "black"],
     inkColors: ["blue"],
+    stock: 0,
     images: ["/lovable-uploads/59785cf0-47f3-46fc-897c-1abbe1942622.png"],
     description: "Large self-inking stamp for business use with 6 lines of text capacity. CO₂ neutral as standard.",
     shape: "rectangle"
@@ -317,6 +330,12 @@ export const products: Product[] = [
   }
 ];
 
+// Products merged into another one as a size variant, so their old links still work
+export const mergedProductIds: Record<string, { productId: string; sku: string }> = {
+  "wood-round-30": { productId: "wood-round", sku: "CM-ROUND-30" },
+  "wood-round-40": { productId: "wood-round", sku: "CM-ROUND-40" }
+};
+
 export const getBrandProducts = (brand: string) => {
   return products.filter(product => product.brand.toLowerCase() === brand.toLowerCase());
 };
@@ -0,0 +1,48 @@
+import { PromoCode } from '../types';
+
+// Codes are matched case-insensitively; dates are ISO 8601 in Morocco time
+export const promoCodes: PromoCode[] = [
+  {
+    code: "BIENVENUE10",
+    type: "percent",
+    value: 10,
+    description: "10% off your first order",
+    oneUsePerEmail: true
+  },
+  {
+    code: "CACHET50",
+    type: "fixed",
+    value: 50,
+    description: "50 DHS off orders over 500 DHS",
+    minOrderValue: 500
+  },
+  {
+    code: "LIVRAISON",
+    type: "free_shipping",
+    value: 0,
+    description: "Free shipping on orders over 300 DHS",
+    minOrderValue: 300
+  },
+  {
+    code: "TRODAT15",
+    type: "percent",
+    value: 15,
+    description: "15% off Trodat Printy stamps",
+    productIds: ["trodat-4912", "trodat-4913", "trodat-4914", "trodat-4927", "trodat-44055"],
+    expiresAt: "2026-12-31T23:59:59+01:00"
+  },
+  {
+    code: "RENTREE2025",
+    type: "fixed",
+    value: 30,
+    description: "30 DHS off for the 2025 back-to-school season",
+    startsAt: "2025-09-01T00:00:00+01:00",
+    expiresAt: "2025-10-15T23:59:59+01:00",
+    oneUsePerEmail: true
+  }
+];
+
+export const getPromoCode = (code: string) => {
+  const normalizedCode = code.trim().toUpperCase();
+  return promoCodes.find(promo => promo.code.toUpperCase() === normalizedCode);
+};
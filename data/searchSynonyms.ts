@@ -0,0 +1,26 @@
+// Words customers use for the same thing, in French, English and Arabic. A search for
+// any word of a group also finds the others; accents are ignored when comparing.
+export const searchSynonymGroups: string[][] = [
+  ['stamp', 'stamps', 'cachet', 'cachets', 'tampon', 'tampons', 'ختم', 'أختام', 'طابع'],
+  ['round', 'circle', 'circular', 'rond', 'ronde', 'circulaire', 'دائري', 'دائرية'],
+  ['rectangle', 'rectangular', 'rectangulaire', 'مستطيل'],
+  ['square', 'carré', 'carrée', 'مربع'],
+  ['dater', 'date', 'dateur', 'datier', 'تاريخ', 'مؤرخ'],
+  ['self', 'automatic', 'automatique', 'auto-encreur', 'encreur', 'أوتوماتيكي'],
+  ['wooden', 'wood', 'bois', 'خشب', 'خشبي'],
+  ['ink', 'encre', 'حبر'],
+  ['logo', 'شعار'],
+  ['compact', 'pocket', 'poche', 'small', 'petit', 'صغير'],
+  ['professional', 'professionnel', 'pro', 'مهني'],
+  ['line', 'lines', 'ligne', 'lignes', 'سطر', 'أسطر'],
+  ['blue', 'bleu', 'أزرق'],
+  ['red', 'rouge', 'أحمر'],
+  ['black', 'noir', 'أسود']
+];
+
+// Words left out of queries such as "cachet rond pour la société"
+export const searchStopWords: string[] = [
+  'a', 'an', 'and', 'the', 'for', 'with', 'of', 'in',
+  'de', 'du', 'des', 'la', 'le', 'les', 'l', 'd', 'un', 'une', 'et', 'pour', 'avec', 'en', 'au', 'aux',
+  'من', 'في', 'مع', 'على'
+];
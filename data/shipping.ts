@@ -0,0 +1,106 @@
+import { ShippingZone } from '../types';
+
+export interface ZoneRate {
+  // Price in DHS TTC, covering the first includedWeight kilograms
+  basePrice: number;
+  includedWeight: number;
+  // Price of each started kilogram above includedWeight
+  pricePerExtraKg: number;
+  // Business days between dispatch and delivery
+  minDays: number;
+  maxDays: number;
+}
+
+export interface ShippingCarrier {
+  id: string;
+  name: string;
+  description: string;
+  // Zones the carrier does not serve are left out
+  rates: Partial<Record<ShippingZone, ZoneRate>>;
+  // Heaviest parcel accepted, in kilograms
+  maxWeight: number;
+  // Becomes free once the order reaches the zone's free shipping threshold
+  freeShippingEligible?: boolean;
+  isPickup?: boolean;
+}
+
+// Cities with same-day courier delivery from the Casablanca workshop
+export const casablancaZoneCities = ['Casablanca', 'Mohammedia', 'Bouskoura', 'Dar Bouazza', 'Médiouna'];
+
+// Cities served daily by every carrier
+export const majorCities = [
+  'Rabat', 'Salé', 'Témara', 'Kénitra', 'Berrechid', 'Settat', 'El Jadida',
+  'Marrakech', 'Safi', 'Fès', 'Meknès', 'Tanger', 'Tétouan', 'Agadir',
+  'Oujda', 'Nador', 'Béni Mellal'
+];
+
+// Regions of the south and east with longer transit times
+export const remoteRegionIds = [
+  'draa-tafilalet', 'guelmim-oued-noun', 'laayoune-sakia-el-hamra', 'dakhla-oued-ed-dahab'
+];
+
+export const shippingCarriers: ShippingCarrier[] = [
+  {
+    id: 'courier',
+    name: 'Casablanca Express Courier',
+    description: 'Delivered by motorbike courier, same day for orders placed before noon',
+    rates: {
+      casablanca: { basePrice: 30, includedWeight: 3, pricePerExtraKg: 5, minDays: 0, maxDays: 0 }
+    },
+    maxWeight: 10
+  },
+  {
+    id: 'amana',
+    name: 'Amana',
+    description: 'Barid Al-Maghrib parcel service, delivered to your door',
+    rates: {
+      casablanca: { basePrice: 35, includedWeight: 2, pricePerExtraKg: 5, minDays: 1, maxDays: 2 },
+      major_city: { basePrice: 45, includedWeight: 2, pricePerExtraKg: 8, minDays: 1, maxDays: 3 },
+      standard: { basePrice: 55, includedWeight: 2, pricePerExtraKg: 10, minDays: 2, maxDays: 4 },
+      remote: { basePrice: 75, includedWeight: 2, pricePerExtraKg: 15, minDays: 3, maxDays: 6 }
+    },
+    maxWeight: 30,
+    freeShippingEligible: true
+  },
+  {
+    id: 'ctm',
+    name: 'CTM Messagerie',
+    description: 'Collect your parcel at the CTM agency of your city',
+    rates: {
+      casablanca: { basePrice: 30, includedWeight: 5, pricePerExtraKg: 3, minDays: 1, maxDays: 1 },
+      major_city: { basePrice: 35, includedWeight: 5, pricePerExtraKg: 4, minDays: 1, maxDays: 2 },
+      standard: { basePrice: 40, includedWeight: 5, pricePerExtraKg: 5, minDays: 2, maxDays: 3 },
+      remote: { basePrice: 60, includedWeight: 5, pricePerExtraKg: 8, minDays: 2, maxDays: 5 }
+    },
+    maxWeight: 50,
+    freeShippingEligible: true
+  },
+  {
+    id: 'pickup',
+    name: 'Store pickup',
+    description: 'Collect your order at our Casablanca workshop',
+    rates: {
+      casablanca: { basePrice: 0, includedWeight: 0, pricePerExtraKg: 0, minDays: 0, maxDays: 0 },
+      major_city: { basePrice: 0, includedWeight: 0, pricePerExtraKg: 0, minDays: 0, maxDays: 0 },
+      standard: { basePrice: 0, includedWeight: 0, pricePerExtraKg: 0, minDays: 0, maxDays: 0 },
+      remote: { basePrice: 0, includedWeight: 0, pricePerExtraKg: 0, minDays: 0, maxDays: 0 }
+    },
+    maxWeight: Infinity,
+    isPickup: true
+  }
+];
+
+// Order subtotal (DHS TTC, after discounts) from which eligible carriers are free
+export const freeShippingThresholds: Record<ShippingZone, number> = {
+  casablanca: 300,
+  major_city: 500,
+  standard: 500,
+  remote: 1000
+};
+
+// Orders placed before this hour (Morocco time) on a working day are made and dispatched the same day
+export const ORDER_CUTOFF_HOUR = 12;
+
+export const getCarrierById = (id: string) => {
+  return shippingCarriers.find(carrier => carrier.id === id);
+};
@@ -0,0 +1,97 @@
+export type StampTextFieldId =
+  | 'companyName'
+  | 'activity'
+  | 'personName'
+  | 'jobTitle'
+  | 'address'
+  | 'city'
+  | 'phone'
+  | 'email'
+  | 'ice'
+  | 'legalIds'
+  | 'logo'
+  | 'date';
+
+// Something the customer needs on the stamp and the room it usually takes
+export interface StampTextField {
+  id: StampTextFieldId;
+  label: string;
+  example: string;
+  lines: number;
+  // Length of the longest line in characters, from typical customer texts
+  characters: number;
+}
+
+export interface StampPurpose {
+  id: string;
+  label: string;
+  description: string;
+  defaultFields: StampTextFieldId[];
+  preferredShape?: 'rectangle' | 'circle' | 'square';
+}
+
+export const stampTextFields: StampTextField[] = [
+  { id: 'companyName', label: 'Company or organisation name', example: 'SARL Atlas Négoce', lines: 1, characters: 24 },
+  { id: 'activity', label: 'Activity or slogan', example: 'Import - Export - Distribution', lines: 1, characters: 30 },
+  { id: 'personName', label: 'Person name', example: 'Dr. Karim El Amrani', lines: 1, characters: 22 },
+  { id: 'jobTitle', label: 'Job title or speciality', example: 'Médecin généraliste', lines: 1, characters: 26 },
+  { id: 'address', label: 'Street address', example: '45, Bd Zerktouni, 3e étage', lines: 1, characters: 32 },
+  { id: 'city', label: 'Postcode and city', example: '20000 Casablanca', lines: 1, characters: 20 },
+  { id: 'phone', label: 'Phone number', example: 'Tél : 05 22 12 34 56', lines: 1, characters: 20 },
+  { id: 'email', label: 'Email or website', example: 'contact@atlas-negoce.ma', lines: 1, characters: 26 },
+  { id: 'ice', label: 'ICE number', example: 'ICE : 001234567000089', lines: 1, characters: 21 },
+  { id: 'legalIds', label: 'RC, IF, Patente, CNSS', example: 'RC 123456 - IF 1234567 - TP 12345678', lines: 2, characters: 30 },
+  { id: 'logo', label: 'Logo', example: 'Your logo next to the text', lines: 0, characters: 0 },
+  { id: 'date', label: 'Changeable date', example: 'REÇU LE 19 OCT. 2026', lines: 1, characters: 20 }
+];
+
+export const stampPurposes: StampPurpose[] = [
+  {
+    id: 'company',
+    label: 'Company stamp',
+    description: 'Invoices, quotes and delivery notes: name, address and legal numbers',
+    defaultFields: ['companyName', 'address', 'city', 'phone', 'ice'],
+    preferredShape: 'rectangle'
+  },
+  {
+    id: 'professional',
+    label: 'Doctor, lawyer or consultant',
+    description: 'Prescriptions and letters: your name, speciality and practice',
+    defaultFields: ['personName', 'jobTitle', 'address', 'phone']
+  },
+  {
+    id: 'received',
+    label: 'Received / paid stamp',
+    description: 'Mark documents with a date you change every day',
+    defaultFields: ['companyName', 'date'],
+    preferredShape: 'rectangle'
+  },
+  {
+    id: 'seal',
+    label: 'Association or administration seal',
+    description: 'An official round seal with the name around the edge',
+    defaultFields: ['companyName', 'city', 'logo'],
+    preferredShape: 'circle'
+  },
+  {
+    id: 'address',
+    label: 'Return address',
+    description: 'Envelopes and parcels',
+    defaultFields: ['personName', 'address', 'city'],
+    preferredShape: 'rectangle'
+  },
+  {
+    id: 'personal',
+    label: 'Personal or gift',
+    description: 'A name, a short message or a logo',
+    defaultFields: ['personName', 'logo']
+  }
+];
+
+export const getStampPurposeById = (id: string) => {
+  return stampPurposes.find(purpose => purpose.id === id);
+};
+
+export const getStampTextFieldById = (id: StampTextFieldId) => {
+  return stampTextFields.find(field => field.id === id);
+};
@@ -0,0 +1,29 @@
+import { VariantOptionType } from '../types';
+
+export interface VariantOptionDefinition {
+  type: VariantOptionType;
+  label: string;
+  // Labels of known values; other values are shown as they are
+  valueLabels?: Record<string, string>;
+}
+
+// In the order the options are offered to the customer
+export const variantOptionDefinitions: VariantOptionDefinition[] = [
+  { type: 'size', label: 'Size' },
+  { type: 'bodyColor', label: 'Body colour' },
+  { type: 'inkColor', label: 'Ink colour' },
+  {
+    type: 'padSize',
+    label: 'Ink pad',
+    valueLabels: { standard: 'Standard', large: 'Large' }
+  },
+  {
+    type: 'daterLanguage',
+    label: 'Dater language',
+    valueLabels: { fr: 'French', ar: 'Arabic', en: 'English' }
+  }
+];
+
+export const getVariantOptionDefinition = (type: VariantOptionType) => {
+  return variantOptionDefinitions.find(definition => definition.type === type);
+};
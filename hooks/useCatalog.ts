@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { Product } from '@/types';
+import { StampTemplate } from '@/types/designTemplates';
+import { catalogRepository } from '@/services/CatalogRepository';
+
+interface CatalogState {
+  products: Product[];
+  templates: StampTemplate[];
+}
+
+const readCatalog = (): CatalogState => ({
+  products: catalogRepository.getProducts(),
+  templates: catalogRepository.getTemplates()
+});
+
+/**
+ * Products and templates as edited in the back-office, updated whenever they change
+ */
+export const useCatalog = () => {
+  const [catalog, setCatalog] = useState<CatalogState>(readCatalog);
+
+  useEffect(() => {
+    const unsubscribe = catalogRepository.subscribe(() => setCatalog(readCatalog()));
+    catalogRepository.load();
+    // The catalogue may have loaded before this component subscribed
+    setCatalog(readCatalog());
+    return unsubscribe;
+  }, []);
+
+  return catalog;
+};
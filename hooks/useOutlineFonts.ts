@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { StampDesign } from '@/types';
+import { vectorExportService } from '@/services/VectorExportService';
+
+/**
+ * Load the fonts that outline a design's text, rendering again once they are ready
+ * so SVG previews show the same letters as the export. Returns whether they are loaded.
+ */
+export const useOutlineFonts = (design?: StampDesign): boolean => {
+  const [isLoaded, setIsLoaded] = useState(() => !design || vectorExportService.areFontsLoaded(design));
+
+  useEffect(() => {
+    if (!design) return;
+
+    let cancelled = false;
+    setIsLoaded(vectorExportService.areFontsLoaded(design));
+    vectorExportService.loadFonts(design).then(() => {
+      if (!cancelled) setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [design]);
+
+  return isLoaded;
+};
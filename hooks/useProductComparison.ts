@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Product } from '@/types';
+
+export const MAX_COMPARE_PRODUCTS = 3;
+
+const COMPARE_STORAGE_KEY = 'stampShopCompare';
+
+const readCompareIds = (): string[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(COMPARE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error reading compared products:', error);
+    return [];
+  }
+};
+
+/**
+ * Products picked for comparison, kept in localStorage so the selection survives
+ * going from the listing to the comparison page and back
+ */
+export const useProductComparison = (products: Product[]) => {
+  const [compareIds, setCompareIds] = useState<string[]>(readCompareIds);
+
+  useEffect(() => {
+    localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(compareIds));
+  }, [compareIds]);
+
+  // Follow selections made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === COMPARE_STORAGE_KEY) setCompareIds(readCompareIds());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Products removed from the catalogue drop out of the comparison
+  const compareProducts = useMemo(() =>
+    compareIds
+      .map(id => products.find(product => product.id === id))
+      .filter((product): product is Product => Boolean(product)),
+  [compareIds, products]);
+
+  const isInComparison = (productId: string) => compareIds.includes(productId);
+
+  const canAddToComparison = compareProducts.length < MAX_COMPARE_PRODUCTS;
+
+  // Add the product, or take it out when it is already compared
+  const toggleProductComparison = (product: Product) => {
+    setCompareIds(prev => {
+      if (prev.includes(product.id)) {
+        return prev.filter(id => id !== product.id);
+      }
+      const known = prev.filter(id => products.some(item => item.id === id));
+      return known.length < MAX_COMPARE_PRODUCTS ? [...known, product.id] : prev;
+    });
+  };
+
+  const removeProductFromComparison = (productId: string) => {
+    setCompareIds(prev => prev.filter(id => id !== productId));
+  };
+
+  const clearProductComparison = () => {
+    setCompareIds([]);
+  };
+
+  return {
+    compareProducts,
+    isInComparison,
+    canAddToComparison,
+    toggleProductComparison,
+    removeProductFromComparison,
+    clearProductComparison
+  };
+};
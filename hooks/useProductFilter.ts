@@ -1,6 +1,18 @@
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Product } from '@/types';
+import { inventoryService } from '@/services/InventoryService';
+import { productSearchService } from '@/services/ProductSearchService';
+import { productVariantService } from '@/services/ProductVariantService';
+import { useProductComparison } from '@/hooks/useProductComparison';
+import {
+  filtersToSearchParams,
+  FILTER_PARAMS,
+  getFilterParamsKey,
+  hasFilterParams,
+  searchParamsToFilters
+} from '@/utils/productFilterParams';
 
 export interface FilterState {
   searchQuery: string;
@@ -10,6 +22,8 @@ export interface FilterState {
   selectedSizes: string[];
   selectedLines: number | null;
   selectedColors: string[];
+  // 'in_stock' or 'orderable' (in stock or back-order)
+  selectedAvailability: string | null;
   sortOption: string;
   minPrice: number;
   maxPrice: number;
@@ -40,8 +54,32 @@ export const useProductFilter = ({
     };
   }, [products]);
 
-  // Initialize filters with defaults or localStorage values
+  const defaultFilters = useMemo<FilterState>(() => ({
+    searchQuery: '',
+    priceRange: [minPrice, maxPrice],
+    selectedBrands: [],
+    selectedShape: null,
+    selectedSizes: [],
+    selectedLines: null,
+    selectedColors: [],
+    selectedAvailability: null,
+    sortOption: 'featured',
+    minPrice,
+    maxPrice,
+  }), [minPrice, maxPrice]);
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Filter part of the URL the filters were last read from or written to
+  const syncedParamsKey = useRef(getFilterParamsKey(searchParams));
+  // Whether the next URL update replaces the current history entry instead of adding one
+  const replaceHistoryEntry = useRef(true);
+
+  // Initialize filters from the URL, then localStorage, then the defaults
   const [filters, setFilters] = useState<FilterState>(() => {
+    if (hasFilterParams(searchParams)) {
+      return searchParamsToFilters(searchParams, defaultFilters);
+    }
+
     // Try to get saved filters from localStorage
     if (typeof window !== 'undefined') {
       const savedFilters = localStorage.getItem(storageKey);
@@ -49,12 +87,15 @@ export const useProductFilter = ({
         try {
           const parsed = JSON.parse(savedFilters);
           return {
+            ...defaultFilters,
             ...parsed,
             // Ensure price range is within current min/max
             priceRange: [
               Math.max(parsed.priceRange[0], minPrice),
               Math.min(parsed.priceRange[1], maxPrice),
             ],
+            minPrice,
+            maxPrice,
           };
         } catch (e) {
           console.error('Error parsing saved filters', e);
@@ -62,22 +103,34 @@ export const useProductFilter = ({
       }
     }
 
-    // Default filters
-    return {
-      searchQuery: '',
-      priceRange: [minPrice, maxPrice],
-      selectedBrands: [],
-      selectedShape: null,
-      selectedSizes: [],
-      selectedLines: null,
-      selectedColors: [],
-      sortOption: 'featured',
-      minPrice,
-      maxPrice,
-      ...initialFilters,
-    };
+    return { ...defaultFilters, ...initialFilters };
   });
 
+  // Follow the URL when it changes outside the filters, e.g. back/forward or a shared link
+  useEffect(() => {
+    const paramsKey = getFilterParamsKey(searchParams);
+    if (paramsKey === syncedParamsKey.current) return;
+    syncedParamsKey.current = paramsKey;
+    setFilters(searchParamsToFilters(searchParams, defaultFilters));
+  }, [searchParams, defaultFilters]);
+
+  // Write the filters to the URL. Typing a search or dragging the price slider
+  // replaces the current history entry instead of adding one per keystroke.
+  useEffect(() => {
+    const filterParams = filtersToSearchParams(filters);
+    const paramsKey = getFilterParamsKey(filterParams);
+    if (paramsKey === syncedParamsKey.current) return;
+    
+    syncedParamsKey.current = paramsKey;
+    
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      Object.values(FILTER_PARAMS).forEach(name => next.delete(name));
+      filterParams.forEach((value, name) => next.set(name, value));
+      return next;
+    }, { replace: replaceHistoryEntry.current });
+  }, [filters, setSearchParams]);
+
   // Filter active count (for mobile indicator)
   const activeFilterCount = useMemo(() => {
     let count = 0;
@@ -87,6 +140,7 @@ export const useProductFilter = ({
     if (filters.selectedSizes.length) count++;
     if (filters.selectedLines) count++;
     if (filters.selectedColors.length) count++;
+    if (filters.selectedAvailability) count++;
     if (filters.priceRange[0] > minPrice || filters.priceRange[1] < maxPrice) count++;
     return count;
   }, [filters, minPrice, maxPrice]);
@@ -97,7 +151,7 @@ export const useProductFilter = ({
   [products]);
   
   const sizeGroups = useMemo<SizeGroup[]>(() => {
-    const sizes = products.map(p => p.size);
+    const sizes = products.flatMap(p => productVariantService.getSizes(p));
     
     // Group sizes by type (round vs rectangular)
     const roundSizes = sizes
@@ -137,14 +191,20 @@ export const useProductFilter = ({
     }
   }, [filters, storageKey]);
 
-  // List of products for comparison
-  const [compareProducts, setCompareProducts] = useState<Product[]>([]);
+  // Products picked for comparison
+  const {
+    compareProducts,
+    toggleProductComparison,
+    removeProductFromComparison,
+    clearProductComparison
+  } = useProductComparison(products);
 
   // Update filters
   const updateFilter = <K extends keyof FilterState>(
     filterKey: K,
     value: FilterState[K]
   ) => {
+    replaceHistoryEntry.current = filterKey === 'searchQuery' || filterKey === 'priceRange';
     setFilters(prev => ({
       ...prev,
       [filterKey]: value,
@@ -153,6 +213,7 @@ export const useProductFilter = ({
 
   // Remove specific filter
   const removeFilter = (filterType: string, value?: string | number) => {
+    replaceHistoryEntry.current = false;
     setFilters(prev => {
       const updated = { ...prev };
       
@@ -169,6 +230,9 @@ export const useProductFilter = ({
         case 'lines':
           updated.selectedLines = null;
           break;
+        case 'availability':
+          updated.selectedAvailability = null;
+          break;
         case 'brand':
           if (value) {
             updated.selectedBrands = prev.selectedBrands.filter(b => b !== value);
@@ -194,53 +258,20 @@ export const useProductFilter = ({
 
   // Clear all filters
   const clearAllFilters = () => {
-    setFilters({
-      searchQuery: '',
-      priceRange: [minPrice, maxPrice],
-      selectedBrands: [],
-      selectedShape: null,
-      selectedSizes: [],
-      selectedLines: null,
-      selectedColors: [],
-      sortOption: 'featured',
-      minPrice,
-      maxPrice,
-    });
-  };
-
-  // Toggle product comparison
-  const toggleProductComparison = (product: Product) => {
-    setCompareProducts(prev => {
-      const isSelected = prev.some(p => p.id === product.id);
-      
-      if (isSelected) {
-        return prev.filter(p => p.id === product.id);
-      } else if (prev.length < 3) {
-        return [...prev, product];
-      }
-      
-      return prev;
-    });
-  };
-
-  // Remove product from comparison
-  const removeProductFromComparison = (productId: string) => {
-    setCompareProducts(prev => prev.filter(p => p.id !== productId));
-  };
-
-  // Clear all products from comparison
-  const clearProductComparison = () => {
-    setCompareProducts([]);
+    replaceHistoryEntry.current = false;
+    setFilters(defaultFilters);
   };
 
   // Apply filters and sort to products
   const filteredProducts = useMemo(() => {
+    // Relevance of each product matching the search
+    const searchScores = productSearchService.hasSearchTerms(filters.searchQuery)
+      ? new Map(productSearchService.search(products, filters.searchQuery).map(result => [result.product.id, result.score]))
+      : null;
+
     return products.filter(product => {
       // Filter by search query
-      if (filters.searchQuery && 
-          !product.name.toLowerCase().includes(filters.searchQuery.toLowerCase()) &&
-          !product.brand.toLowerCase().includes(filters.searchQuery.toLowerCase()) &&
-          !product.model.toLowerCase().includes(filters.searchQuery.toLowerCase())) {
+      if (searchScores && !searchScores.has(product.id)) {
         return false;
       }
       
@@ -259,16 +290,18 @@ export const useProductFilter = ({
         return false;
       }
       
-      // Filter by size
-      if (filters.selectedSizes.length > 0 && !filters.selectedSizes.includes(product.size)) {
+      // Filter by size, any of the sizes the product is sold in
+      const sizedProducts = productVariantService.getSizeVariants(product).map(entry => entry.product);
+      if (filters.selectedSizes.length > 0 && !sizedProducts.some(sized => filters.selectedSizes.includes(sized.size))) {
         return false;
       }
       
       // Filter by text lines
       if (filters.selectedLines) {
-        if (filters.selectedLines === 2 && product.lines > 2) return false;
-        if (filters.selectedLines === 4 && (product.lines < 3 || product.lines > 4)) return false;
-        if (filters.selectedLines === 5 && product.lines < 5) return false;
+        const lineCounts = sizedProducts.map(sized => sized.lines);
+        if (filters.selectedLines === 2 && !lineCounts.some(lines => lines <= 2)) return false;
+        if (filters.selectedLines === 4 && !lineCounts.some(lines => lines >= 3 && lines <= 4)) return false;
+        if (filters.selectedLines === 5 && !lineCounts.some(lines => lines >= 5)) return false;
       }
       
       // Filter by ink colors
@@ -279,6 +312,22 @@ export const useProductFilter = ({
         if (!hasSelectedColor) return false;
       }
       
+      // Filter by availability, in one of the selected ink colors when stock is tracked per ink
+      if (filters.selectedAvailability) {
+        const inkColors = filters.selectedColors.length > 0 && product.inkStock
+          ? filters.selectedColors.filter(color => product.inkColors.includes(color))
+          : [undefined];
+        const isAvailable = inkColors.some(inkColor => {
+          const availability = inkColor
+            ? inventoryService.getAvailability(product, inkColor)
+            : inventoryService.getProductAvailability(product);
+          return filters.selectedAvailability === 'in_stock'
+            ? availability.status === 'in_stock' || availability.status === 'low_stock'
+            : inventoryService.isPurchasable(availability);
+        });
+        if (!isAvailable) return false;
+      }
+      
       return true;
     }).sort((a, b) => {
       // Sort products
@@ -292,7 +341,10 @@ export const useProductFilter = ({
         case 'name-desc':
           return b.name.localeCompare(a.name);
         default:
-          // Featured sort - prioritize featured products
+          // Featured sort - best search matches first, then featured products
+          if (searchScores && searchScores.get(a.id) !== searchScores.get(b.id)) {
+            return searchScores.get(b.id) - searchScores.get(a.id);
+          }
           if (a.featured && !b.featured) return -1;
           if (!a.featured && b.featured) return 1;
           return 0;
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { screenCalibrationService } from '@/services/ScreenCalibrationService';
+
+interface CalibrationState {
+  pixelsPerMm: number;
+  isCalibrated: boolean;
+}
+
+const readCalibration = (): CalibrationState => ({
+  pixelsPerMm: screenCalibrationService.getPixelsPerMm(),
+  isCalibrated: screenCalibrationService.isCalibrated()
+});
+
+/**
+ * Screen calibration, updated whenever it changes. mm() turns real millimetres
+ * into a CSS length for actual-size previews.
+ */
+export const useScreenCalibration = () => {
+  const [calibration, setCalibration] = useState<CalibrationState>(readCalibration);
+
+  useEffect(() => screenCalibrationService.subscribe(() => setCalibration(readCalibration())), []);
+
+  return {
+    ...calibration,
+    mm: (millimetres: number) => `${millimetres * calibration.pixelsPerMm}px`
+  };
+};
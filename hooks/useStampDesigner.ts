@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef, MutableRefObject } from 'react';
 import { Product, StampDesign, StampTextLine } from '@/types';
+import { vectorExportService } from '@/services/VectorExportService';
 
 export interface UseStampDesignerReturn {
   design: StampDesign;
@@ -20,6 +21,8 @@ export interface UseStampDesignerReturn {
   previewImage: string | null;
   previewError: string | null;
   downloadAsPng: () => void;
+  downloadAsSvg: () => void;
+  downloadAsPdf: () => void;
   zoomIn: () => void;
   zoomOut: () => void;
   zoomLevel: number;
@@ -53,7 +56,7 @@ const defaultLine: StampTextLine = {
   yPosition: 0
 };
 
-export const useStampDesigner = (product: Product | null): UseStampDesignerReturn => {
+export const useStampDesigner = (product: Product | null, initialDesign?: StampDesign): UseStampDesignerReturn => {
   // Initialize design state
   const [design, setDesign] = useState<StampDesign>({
     lines: [],
@@ -82,9 +85,18 @@ export const useStampDesigner = (product: Product | null): UseStampDesignerRetur
   });
   const [zoomLevel, setZoomLevel] = useState(1);
   const svgRef = useRef<string | null>(null);
+  // Only the first product load restores the initial design (e.g. a design reopened from the cart)
+  const initialDesignRef = useRef<StampDesign | undefined>(initialDesign);
 
   // Initialize design when product changes
   useEffect(() => {
+    if (product && initialDesignRef.current) {
+      const restoredDesign = initialDesignRef.current;
+      initialDesignRef.current = undefined;
+      setDesign({ ...restoredDesign, logoDragging: false });
+      return;
+    }
+
     if (product) {
       const initialLines = [];
       
@@ -718,6 +730,18 @@ export const useStampDesigner = (product: Product | null): UseStampDesignerRetur
     link.click();
   }, [previewImage]);
 
+  // Download as a vector SVG at the physical product size
+  const downloadAsSvg = useCallback(() => {
+    if (!product) return;
+    vectorExportService.downloadSvg(design, product);
+  }, [design, product]);
+
+  // Open the vector design in a print window for saving as PDF
+  const downloadAsPdf = useCallback(() => {
+    if (!product) return;
+    vectorExportService.printAsPdf(design, product);
+  }, [design, product]);
+
   return {
     design,
     updateLine,
@@ -737,6 +761,8 @@ export const useStampDesigner = (product: Product | null): UseStampDesignerRetur
     previewImage,
     previewError,
     downloadAsPng,
+    downloadAsSvg,
+    downloadAsPdf,
     zoomIn,
     zoomOut,
     zoomLevel,
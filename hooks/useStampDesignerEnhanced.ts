@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
-import { StampDesign, StampTextLine, Product, TextEffect, StampElement } from '../types';
+import { StampDesign, StampTextLine, Product, TextEffect, StampElement, StampElementInput } from '../types';
+import { vectorExportService } from '../services/VectorExportService';
 
 interface DesignHistoryState {
   past: StampDesign[];
@@ -437,7 +438,7 @@ const useStampDesignerEnhanced = (product: Product | null) => {
   };
 
   // Add or update custom element (like QR code or barcode)
-  const addElement = (element: { type: string, dataUrl: string, width: number, height: number }) => {
+  const addElement = (element: StampElementInput) => {
     // Parse dimensions from product size
     const sizeDimensions = product?.size ? product.size.split('x').map(dim => parseInt(dim.trim(), 10)) : [60, 40];
     
@@ -910,6 +911,18 @@ const useStampDesignerEnhanced = (product: Product | null) => {
     img.src = url;
   };
 
+  // Download as a vector SVG at the physical product size
+  const downloadAsSvg = () => {
+    if (!product) return;
+    vectorExportService.downloadSvg(design, product);
+  };
+
+  // Open the vector design in a print window for saving as PDF
+  const downloadAsPdf = () => {
+    if (!product) return;
+    vectorExportService.printAsPdf(design, product);
+  };
+
   return {
     design,
     updateLine,
@@ -945,6 +958,8 @@ const useStampDesignerEnhanced = (product: Product | null) => {
     addElement,
     applyTextEffect,
     downloadAsPng,
+    downloadAsSvg,
+    downloadAsPdf,
     updateMultipleLines
   };
 };
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { LogOut } from 'lucide-react';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import AdminLogin from '../components/Admin/AdminLogin';
+import OrdersPanel from '../components/Admin/OrdersPanel';
+import ProductsPanel from '../components/Admin/ProductsPanel';
+import TemplatesPanel from '../components/Admin/TemplatesPanel';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { adminAuthService } from '@/services/AdminAuthService';
+
+const Admin = () => {
+  const [isSignedIn, setIsSignedIn] = useState(() => adminAuthService.isSignedIn());
+
+  const handleSignOut = () => {
+    adminAuthService.signOut();
+    setIsSignedIn(false);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      
+      <main className="flex-grow py-8 bg-gray-50">
+        <div className="container-custom">
+          <div className="flex justify-between items-center mb-6">
+            <h1 className="text-3xl font-bold text-gray-800">Back-office</h1>
+            {isSignedIn && (
+              <Button variant="outline" onClick={handleSignOut} className="gap-2">
+                <LogOut size={16} />
+                Sign out
+              </Button>
+            )}
+          </div>
+          
+          {!isSignedIn ? (
+            <AdminLogin onSignIn={() => setIsSignedIn(true)} />
+          ) : (
+            <Tabs defaultValue="orders">
+              <TabsList className="mb-4">
+                <TabsTrigger value="orders">Orders</TabsTrigger>
+                <TabsTrigger value="products">Products</TabsTrigger>
+                <TabsTrigger value="templates">Templates</TabsTrigger>
+              </TabsList>
+              <TabsContent value="orders">
+                <OrdersPanel />
+              </TabsContent>
+              <TabsContent value="products">
+                <ProductsPanel />
+              </TabsContent>
+              <TabsContent value="templates">
+                <TemplatesPanel />
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+};
+
+export default Admin;
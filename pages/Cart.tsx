@@ -4,19 +4,48 @@ import { Link, useNavigate } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
 import { useCart } from '../contexts/CartContext';
-import { Trash2, Plus, Minus, ShoppingCart } from 'lucide-react';
+import { Trash2, Plus, Minus, ShoppingCart, Pencil, Copy, FileText, AlertCircle } from 'lucide-react';
 import { toast } from "sonner";
 import { Button } from '@/components/ui/button';
+import { pricingService } from '@/services/PricingService';
+import { getBundleOffersForProduct } from '@/data/pricing';
+import { invoiceService } from '@/services/InvoiceService';
+import { inventoryService } from '@/services/InventoryService';
+import { productVariantService } from '@/services/ProductVariantService';
+import { useCatalog } from '@/hooks/useCatalog';
+import StockBadge from '../components/common/StockBadge';
 
 const Cart = () => {
-  const { cartItems, removeFromCart, updateQuantity, cartTotal, clearCart } = useCart();
+  const { cartItems, removeFromCart, updateQuantity, updateCartItem, duplicateCartItem, cartPricing, cartTotal, clearCart, isCartLoaded } = useCart();
   const navigate = useNavigate();
+  const [isGeneratingQuote, setIsGeneratingQuote] = useState(false);
+  // Stock is read from the catalogue, so render again when it changes
+  useCatalog();
+  const stockAvailability = inventoryService.getCartAvailability(cartItems);
+  const stockIssues = inventoryService.getCartIssues(cartItems);
+  
+  const handleDownloadQuote = async () => {
+    setIsGeneratingQuote(true);
+    try {
+      const quote = await invoiceService.downloadQuote({ items: cartItems });
+      toast.success(`Quote ${quote.number} downloaded`);
+    } catch (error) {
+      console.error('Error generating quote:', error);
+      toast.error("We couldn't generate your quote. Please try again.");
+    } finally {
+      setIsGeneratingQuote(false);
+    }
+  };
   
   const handleProceedToCheckout = () => {
     if (cartItems.length === 0) {
       toast.error("Your cart is empty. Add some items first.");
       return;
     }
+    if (stockIssues.length > 0) {
+      toast.error("Some items in your cart are out of stock. Update them before checking out.");
+      return;
+    }
     navigate('/checkout');
   };
 
@@ -28,7 +57,11 @@ const Cart = () => {
         <div className="container-custom">
           <h1 className="text-3xl font-bold text-gray-800 mb-6">Your Cart</h1>
           
-          {cartItems.length === 0 ? (
+          {!isCartLoaded ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              Loading your cart...
+            </div>
+          ) : cartItems.length === 0 ? (
             <div className="bg-white rounded-lg shadow-md p-8 text-center">
               <div className="flex justify-center mb-4">
                 <ShoppingCart size={64} className="text-gray-300" />
@@ -56,63 +89,126 @@ const Cart = () => {
                       </tr>
                     </thead>
                     <tbody>
-                      {cartItems.map((item) => (
-                        <tr key={`${item.productId}-${item.customText}`} className="border-b">
-                          <td className="p-4">
-                            <div className="flex items-start gap-4">
-                              <div className="w-16 h-16 bg-gray-100 flex-shrink-0 rounded overflow-hidden">
-                                {item.previewImage ? (
-                                  <img src={item.previewImage} alt="Custom Stamp Preview" className="w-full h-full object-cover" />
-                                ) : (
-                                  <img src={item.product.images[0]} alt={item.product.name} className="w-full h-full object-contain" />
-                                )}
-                              </div>
-                              <div>
-                                <h3 className="font-medium">{item.product.name}</h3>
-                                <p className="text-sm text-gray-600">
-                                  {item.product.size} • {item.inkColor} ink
-                                </p>
-                                {item.customText && (
-                                  <p className="text-xs text-gray-500 mt-1 max-w-xs truncate">
-                                    Custom text: {item.customText}
+                      {cartItems.map((item, index) => {
+                        const linePricing = cartPricing.lines[index];
+                        const bundleOffers = getBundleOffersForProduct(item.productId);
+                        const availability = stockAvailability.get(item.id);
+
+                        return (
+                          <tr key={item.id} className="border-b">
+                            <td className="p-4">
+                              <div className="flex items-start gap-4">
+                                <div className="w-16 h-16 bg-gray-100 flex-shrink-0 rounded overflow-hidden">
+                                  {item.previewImage ? (
+                                    <img src={item.previewImage} alt="Custom Stamp Preview" className="w-full h-full object-cover" />
+                                  ) : (
+                                    <img src={productVariantService.getImage(item.product, item.variant)} alt={item.product.name} className="w-full h-full object-contain" />
+                                  )}
+                                </div>
+                                <div>
+                                  <h3 className="font-medium">{item.product.name}</h3>
+                                  <p className="text-sm text-gray-600">
+                                    {item.product.size} • {item.inkColor} ink
                                   </p>
-                                )}
+                                  {item.variant && (
+                                    <p className="text-xs text-gray-500">
+                                      {productVariantService.describe(item.variant)} • SKU {item.variant.sku}
+                                    </p>
+                                  )}
+                                  {availability && <StockBadge availability={availability} className="mt-1" />}
+                                  {item.customText && (
+                                    <p className="text-xs text-gray-500 mt-1 max-w-xs truncate">
+                                      Custom text: {item.customText}
+                                    </p>
+                                  )}
+                                  {bundleOffers.map(offer => (
+                                    <label key={offer.id} className="flex items-center gap-2 text-xs text-gray-600 mt-2 cursor-pointer">
+                                      <input
+                                        type="checkbox"
+                                        checked={item.bundleId === offer.id}
+                                        onChange={(e) => updateCartItem(item.id, { bundleId: e.target.checked ? offer.id : undefined })}
+                                      />
+                                      <span title={offer.description}>{offer.name}</span>
+                                    </label>
+                                  ))}
+                                  {linePricing.nextTier && (
+                                    <p className="text-xs text-brand-blue mt-1">
+                                      Add {linePricing.nextTier.minQuantity - linePricing.tierQuantity} more for {pricingService.describeTier(linePricing.nextTier)}
+                                    </p>
+                                  )}
+                                </div>
+                              </div>
+                            </td>
+                            <td className="p-4">
+                              <div className="flex items-center justify-center">
+                                <button
+                                  onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                                  className="p-1 border rounded-l-md hover:bg-gray-100"
+                                >
+                                  <Minus size={16} />
+                                </button>
+                                <span className="w-10 text-center border-t border-b py-1">{item.quantity}</span>
+                                <button
+                                  onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                                  className="p-1 border rounded-r-md hover:bg-gray-100"
+                                >
+                                  <Plus size={16} />
+                                </button>
                               </div>
-                            </div>
-                          </td>
-                          <td className="p-4">
-                            <div className="flex items-center justify-center">
-                              <button
-                                onClick={() => updateQuantity(item.productId, item.quantity - 1)}
-                                className="p-1 border rounded-l-md hover:bg-gray-100"
-                              >
-                                <Minus size={16} />
-                              </button>
-                              <span className="w-10 text-center border-t border-b py-1">{item.quantity}</span>
-                              <button
-                                onClick={() => updateQuantity(item.productId, item.quantity + 1)}
-                                className="p-1 border rounded-r-md hover:bg-gray-100"
-                              >
-                                <Plus size={16} />
-                              </button>
-                            </div>
-                          </td>
-                          <td className="p-4 text-right">
-                            {item.product.price} DHS
-                          </td>
-                          <td className="p-4 text-right font-medium">
-                            {item.product.price * item.quantity} DHS
-                          </td>
-                          <td className="p-4 text-right">
-                            <button
-                              onClick={() => removeFromCart(item.productId)}
-                              className="text-red-500 hover:text-red-700"
-                            >
-                              <Trash2 size={18} />
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
+                            </td>
+                            <td className="p-4 text-right">
+                              {linePricing.tier && (
+                                <span className="block text-xs text-gray-400 line-through">{linePricing.listUnitPrice} DHS</span>
+                              )}
+                              {linePricing.unitPrice} DHS
+                              {linePricing.tier && (
+                                <span className="block text-xs text-green-600">{pricingService.describeTier(linePricing.tier)}</span>
+                              )}
+                              {linePricing.bundle && (
+                                <span className="block text-xs text-gray-500">
+                                  + {linePricing.accessoriesUnitPrice} DHS ({linePricing.bundleAccessories.map(accessory => accessory.name).join(', ')})
+                                </span>
+                              )}
+                            </td>
+                            <td className="p-4 text-right font-medium">
+                              {linePricing.lineTotal.toFixed(2)} DHS
+                              {linePricing.bundleDiscount > 0 && (
+                                <span className="block text-xs text-green-600">
+                                  Pack: -{linePricing.bundleDiscount.toFixed(2)} DHS
+                                </span>
+                              )}
+                            </td>
+                            <td className="p-4 text-right">
+                              <div className="flex items-center justify-end gap-3">
+                                <Link
+                                  to={`/design?productId=${item.productId}&cartLine=${item.id}${item.variant ? `&variant=${encodeURIComponent(item.variant.sku)}` : ''}`}
+                                  className="text-gray-500 hover:text-brand-blue"
+                                  title="Edit design"
+                                  aria-label="Edit design"
+                                >
+                                  <Pencil size={18} />
+                                </Link>
+                                <button
+                                  onClick={() => duplicateCartItem(item.id)}
+                                  className="text-gray-500 hover:text-brand-blue"
+                                  title="Duplicate"
+                                  aria-label="Duplicate"
+                                >
+                                  <Copy size={18} />
+                                </button>
+                                <button
+                                  onClick={() => removeFromCart(item.id)}
+                                  className="text-red-500 hover:text-red-700"
+                                  title="Remove"
+                                  aria-label="Remove"
+                                >
+                                  <Trash2 size={18} />
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
@@ -136,8 +232,20 @@ const Cart = () => {
                   <div className="space-y-2 mb-4">
                     <div className="flex justify-between">
                       <span>Subtotal</span>
-                      <span>{cartTotal} DHS</span>
+                      <span>{cartPricing.listSubtotal.toFixed(2)} DHS</span>
                     </div>
+                    {cartPricing.tierDiscount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Volume discount</span>
+                        <span>-{cartPricing.tierDiscount.toFixed(2)} DHS</span>
+                      </div>
+                    )}
+                    {cartPricing.bundleDiscount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Pack discount</span>
+                        <span>-{cartPricing.bundleDiscount.toFixed(2)} DHS</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span>Shipping</span>
                       <span className="text-green-600">Calculated at checkout</span>
@@ -145,16 +253,42 @@ const Cart = () => {
                   </div>
                   <div className="border-t pt-2 flex justify-between font-semibold">
                     <span>Estimated Total</span>
-                    <span>{cartTotal} DHS</span>
+                    <span>{cartTotal.toFixed(2)} DHS</span>
                   </div>
                   
+                  {stockIssues.length > 0 && (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700" role="alert">
+                      <p className="flex items-center gap-2 font-medium mb-1">
+                        <AlertCircle size={16} />
+                        Update your cart to continue
+                      </p>
+                      <ul className="list-disc pl-5 space-y-1">
+                        {stockIssues.map(issue => (
+                          <li key={issue.lineId}>{issue.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  
                   <div className="mt-6">
                     <Button 
                       className="w-full py-6 text-base font-medium"
                       onClick={handleProceedToCheckout}
+                      disabled={stockIssues.length > 0}
                     >
                       Proceed to Checkout
                     </Button>
+                    {invoiceService.canIssueDocuments() && (
+                      <Button 
+                        variant="outline"
+                        className="w-full mt-3"
+                        onClick={handleDownloadQuote}
+                        disabled={isGeneratingQuote}
+                      >
+                        <FileText size={16} className="mr-2" />
+                        {isGeneratingQuote ? 'Generating quote...' : 'Download Quote (PDF)'}
+                      </Button>
+                    )}
                     <p className="text-center text-sm text-gray-500 mt-4">
                       Secure checkout powered by our payment partner
                     </p>
@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm, FormProvider } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -13,67 +13,186 @@ import BillingForm from '../components/Checkout/BillingForm';
 import ReviewOrder from '../components/Checkout/ReviewOrder';
 import OrderSummary from '../components/Checkout/OrderSummary';
 import { toast } from "sonner";
+import { promoCodeService } from '@/services/PromoCodeService';
+import { shippingService } from '@/services/ShippingService';
+import { orderPlacementService } from '@/services/OrderPlacementService';
+import { proofApprovalService } from '@/services/ProofApprovalService';
+import { inventoryService } from '@/services/InventoryService';
+import { catalogRepository } from '@/services/CatalogRepository';
+import { isValidIce, isValidIf } from '@/utils/companyIdentifiers';
+import { isValidPostalCodeFormat, validateCityRegion, validatePostalCode } from '@/utils/moroccanAddress';
+import { isValidMoroccanPhone, normalizeMoroccanPhone } from '@/utils/phoneNumber';
+import { submitPaymentRedirect } from '@/services/PaymentMethodRegistry';
+import { discardPendingCmiOrder, paymentMethodRegistry, storePendingCmiOrder } from '../components/Checkout/paymentMethods';
+import { Order } from '../types';
 
 // Define the schema for our form
 const checkoutSchema = z.object({
   // Shipping info
   fullName: z.string().min(2, 'Full name is required'),
   email: z.string().email('Valid email is required'),
-  phone: z.string().min(8, 'Valid phone number is required'),
+  phone: z.string().refine(isValidMoroccanPhone, 'Enter a valid Moroccan phone number, e.g. 06 12 34 56 78'),
   address: z.string().min(5, 'Address is required'),
   city: z.string().min(2, 'City is required'),
-  state: z.string().min(2, 'State is required'),
-  postalCode: z.string().min(5, 'Valid postal code is required'),
+  region: z.string().min(2, 'Region is required'),
+  postalCode: z.string().regex(/^\d{5}$/, 'Moroccan postal codes have 5 digits'),
   country: z.string().min(2, 'Country is required'),
   // Billing info (can be same as shipping)
   sameAsShipping: z.boolean().optional(),
   billingFullName: z.string().optional(),
   billingAddress: z.string().optional(),
   billingCity: z.string().optional(),
-  billingState: z.string().optional(),
+  billingRegion: z.string().optional(),
   billingPostalCode: z.string().optional(),
   billingCountry: z.string().optional(),
+  // Company details for B2B invoices
+  isCompany: z.boolean().optional(),
+  companyName: z.string().optional(),
+  companyIce: z.string().optional(),
+  companyIf: z.string().optional(),
+  companyRc: z.string().optional(),
   // Shipping method
-  shippingMethod: z.enum(['standard', 'express', 'overnight']),
-  // Payment method
-  paymentMethod: z.enum(['credit_card', 'paypal', 'bank_transfer']),
+  // Carrier id, one of the rates offered for the cart and destination
+  shippingMethod: z.string().min(1, 'Please select a shipping method'),
+  // Payment method, validated by the method registered under this id
+  paymentMethod: z.string(),
+  // Card fields are only required and checked when paying by card, see the credit_card method
   cardNumber: z.string().optional(),
   cardExpiry: z.string().optional(),
   cardCVC: z.string().optional(),
   cardholderName: z.string().optional(),
+  codPhone: z.string().optional(),
+  codPhoneConfirmed: z.boolean().optional(),
+  mockOutcome: z.string().optional(),
+}).superRefine((data, ctx) => {
+  // Postal code and region must match the city when it is in our address dataset
+  const postalCodeError = validatePostalCode(data.postalCode, data.city);
+  if (postalCodeError && isValidPostalCodeFormat(data.postalCode)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['postalCode'], message: postalCodeError });
+  }
+  const regionError = validateCityRegion(data.city, data.region);
+  if (regionError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['region'], message: regionError });
+  }
+  if (!data.sameAsShipping && data.billingPostalCode) {
+    const billingPostalCodeError = validatePostalCode(data.billingPostalCode, data.billingCity);
+    if (billingPostalCodeError) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['billingPostalCode'], message: billingPostalCodeError });
+    }
+  }
+  
+  paymentMethodRegistry.validate(data, null, (field, message) => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  });
+  
+  if (!data.isCompany) return;
+  
+  if (!data.companyName || data.companyName.trim().length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['companyName'], message: 'Company name is required' });
+  }
+  if (!data.companyIce || !isValidIce(data.companyIce)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['companyIce'], message: 'ICE must contain exactly 15 digits' });
+  }
+  if (data.companyIf && !isValidIf(data.companyIf)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['companyIf'], message: 'IF must contain 6 to 8 digits' });
+  }
 });
 
 type CheckoutData = z.infer<typeof checkoutSchema>;
 
-const shippingMethods = [
-  { id: 'standard', name: 'Standard Shipping', price: 5.99, days: '5-7 business days' },
-  { id: 'express', name: 'Express Shipping', price: 12.99, days: '2-3 business days' },
-  { id: 'overnight', name: 'Overnight Shipping', price: 19.99, days: '1 business day' }
-];
-
 const Checkout = () => {
   const [step, setStep] = useState(1);
   const [orderConfirmed, setOrderConfirmed] = useState(false);
   const [orderId, setOrderId] = useState('');
-  const { cartItems, cartTotal, clearCart } = useCart();
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  const { cartItems, cartTotal, clearCart, isCartLoaded } = useCart();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   
   // Initialize form with React Hook Form and zod validation
   const methods = useForm<CheckoutData>({
     resolver: zodResolver(checkoutSchema),
     defaultValues: {
-      shippingMethod: 'standard',
-      paymentMethod: 'credit_card',
+      shippingMethod: '',
+      paymentMethod: 'cash_on_delivery',
+      country: 'Morocco',
       sameAsShipping: true,
+      isCompany: false,
     },
   });
 
+  const email = methods.watch('email');
+  
+  // Re-validate the promo code whenever the cart or the email changes
+  const promoResult = useMemo(
+    () => (promoCode ? promoCodeService.applyPromoCode(promoCode, { items: cartItems, email }) : null),
+    [promoCode, cartItems, email]
+  );
+  
+  // Delivery options depend on the destination, the parcel weight and the discounted subtotal
+  const promoDiscount = promoResult?.valid ? promoResult.discount : 0;
+  const city = methods.watch('city') || '';
+  const region = methods.watch('region') || '';
+  const shippingRates = useMemo(
+    () => shippingService.getRates({ items: cartItems, city, region, subtotal: cartTotal - promoDiscount }),
+    [cartItems, city, region, cartTotal, promoDiscount]
+  );
+  const shippingMethod = methods.watch('shippingMethod');
+  const selectedShippingRate = shippingRates.find(rate => rate.id === shippingMethod);
+  const freeShippingRemaining = shippingService.getFreeShippingRemaining(city, region, cartTotal - promoDiscount);
+  
+  // Fall back to the cheapest delivery when the selected carrier does not serve the new address
+  useEffect(() => {
+    if (!selectedShippingRate) {
+      const defaultRate = shippingService.getDefaultRate(shippingRates);
+      if (defaultRate) methods.setValue('shippingMethod', defaultRate.id);
+    }
+  }, [selectedShippingRate, shippingRates, methods]);
+  
+  // Amounts payment methods use for their fees and availability
+  const selectedShippingPrice = promoResult?.valid && promoResult.freeShipping
+    ? 0
+    : selectedShippingRate?.price || 0;
+  const paymentAmounts = { subtotal: cartTotal, total: cartTotal - promoDiscount + selectedShippingPrice };
+  const paymentMethod = methods.watch('paymentMethod');
+  const paymentFee = paymentMethodRegistry.getFee(paymentMethod, paymentAmounts);
+  
+  // Customers sent back by the payment page after a failed payment
+  useEffect(() => {
+    if (searchParams.get('payment') === 'failed') {
+      discardPendingCmiOrder();
+      toast.error("Your payment was not completed. Please try again or choose another payment method.");
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+  
+  const handleApplyPromoCode = (code: string) => {
+    const result = promoCodeService.applyPromoCode(code, { items: cartItems, email });
+    if (result.valid) {
+      setPromoCode(code);
+      toast.success(`Promo code ${code} applied`);
+    } else {
+      toast.error(result.error);
+    }
+  };
+
   // Check if cart is empty and redirect to cart page if it is
   useEffect(() => {
-    if (cartItems.length === 0 && !orderConfirmed) {
+    if (isCartLoaded && cartItems.length === 0 && !orderConfirmed) {
       navigate('/cart');
     }
-  }, [cartItems, navigate, orderConfirmed]);
+  }, [cartItems, isCartLoaded, navigate, orderConfirmed]);
+
+  // Items that went out of stock since they were added have to be changed in the cart
+  useEffect(() => {
+    if (!isCartLoaded || orderConfirmed) return;
+    catalogRepository.load().then(() => {
+      if (inventoryService.getCartIssues(cartItems).length > 0) {
+        toast.error("Some items in your cart are out of stock. Update them before checking out.");
+        navigate('/cart');
+      }
+    });
+  }, [cartItems, isCartLoaded, navigate, orderConfirmed]);
 
   const nextStep = () => {
     if (step < 3) {
@@ -91,6 +210,41 @@ const Checkout = () => {
 
   const handleFormSubmit = async (data: CheckoutData) => {
     console.log('Form submitted:', data);
+    
+    // The email is final now, so one-use-per-email codes can be checked for sure
+    const finalPromoResult = promoCode
+      ? promoCodeService.applyPromoCode(promoCode, { items: cartItems, email: data.email })
+      : null;
+    if (finalPromoResult && !finalPromoResult.valid) {
+      toast.error(finalPromoResult.error);
+      return;
+    }
+    
+    await catalogRepository.load();
+    const stockIssues = inventoryService.getCartIssues(cartItems);
+    if (stockIssues.length > 0) {
+      toast.error(stockIssues[0].message);
+      navigate('/cart');
+      return;
+    }
+    
+    const discount = finalPromoResult?.discount || 0;
+    const shippingRate = shippingService
+      .getRates({ items: cartItems, city: data.city, region: data.region, subtotal: cartTotal - discount })
+      .find(rate => rate.id === data.shippingMethod);
+    if (!shippingRate) {
+      toast.error("This shipping method is not available for your address.");
+      return;
+    }
+    const shipping = finalPromoResult?.freeShipping ? 0 : shippingRate.price;
+    const amounts = { subtotal: cartTotal, total: cartTotal - discount + shipping };
+    const method = paymentMethodRegistry.get(data.paymentMethod);
+    if (!method || (method.isAvailable && !method.isAvailable(amounts))) {
+      toast.error("This payment method is not available for your order.");
+      return;
+    }
+    const fee = paymentMethodRegistry.getFee(data.paymentMethod, amounts);
+    
     try {
       // Generate a random order ID (in a real app, this would come from the backend)
       const newOrderId = `ORD-${Math.floor(Math.random() * 10000000)}`;
@@ -99,6 +253,58 @@ const Checkout = () => {
       // Simulate API call for order processing
       await new Promise(resolve => setTimeout(resolve, 1500));
       
+      const payment = await method.processPayment({
+        orderId: newOrderId,
+        amount: amounts.total + fee,
+        values: data
+      });
+      if (payment.status === 'failed') {
+        toast.error(payment.error || "Your payment could not be processed. Please try again.");
+        return;
+      }
+      
+      const orderDate = new Date().toISOString();
+      const order: Order = {
+        id: newOrderId,
+        customerName: data.fullName,
+        email: data.email,
+        phone: normalizeMoroccanPhone(data.phone) || data.phone,
+        shippingAddress: `${data.address}, ${data.postalCode} ${data.city}, ${data.region}, ${data.country}`,
+        shippingMethod: shippingRate,
+        paymentMethod: data.paymentMethod,
+        paymentStatus: payment.status === 'paid' ? 'paid' : 'pending',
+        paymentReference: payment.reference,
+        items: cartItems,
+        subtotal: cartTotal,
+        company: data.isCompany ? {
+          name: data.companyName,
+          ice: data.companyIce,
+          if: data.companyIf,
+          rc: data.companyRc,
+        } : undefined,
+        promoCode: finalPromoResult ? promoCode : undefined,
+        discount,
+        shipping,
+        paymentFee: fee,
+        total: amounts.total + fee,
+        date: orderDate,
+        status: 'received',
+        statusHistory: [{ status: 'received', date: orderDate }],
+        // Engraving waits for the customer to approve this proof
+        proof: proofApprovalService.createProof(cartItems, orderDate),
+      };
+      
+      // Hosted payment pages send the customer back to the confirmation page, which places
+      // the order; until then it is only a draft in this tab
+      if (payment.status === 'redirect' && payment.redirect) {
+        storePendingCmiOrder(order);
+        submitPaymentRedirect(payment.redirect);
+        return;
+      }
+      
+      // Keep the order so the confirmation page can be reloaded and it shows up in the order history
+      await orderPlacementService.placeOrder(order);
+      
       // Send confirmation email (this would be handled by a backend service)
       console.log('Sending confirmation email to:', data.email);
       
@@ -108,23 +314,7 @@ const Checkout = () => {
       toast.success("Order placed successfully!");
       
       // Redirect to the confirmation page
-      navigate('/order-confirmation', { 
-        state: { 
-          order: {
-            id: newOrderId,
-            customerName: data.fullName,
-            email: data.email,
-            shippingAddress: `${data.address}, ${data.city}, ${data.state} ${data.postalCode}, ${data.country}`,
-            shippingMethod: shippingMethods.find(m => m.id === data.shippingMethod),
-            paymentMethod: data.paymentMethod,
-            items: cartItems,
-            subtotal: cartTotal,
-            shipping: shippingMethods.find(m => m.id === data.shippingMethod)?.price || 0,
-            total: cartTotal + (shippingMethods.find(m => m.id === data.shippingMethod)?.price || 0),
-            date: new Date().toISOString(),
-          } 
-        } 
-      });
+      navigate(`/order-confirmation?order=${encodeURIComponent(order.id)}`, { state: { order } });
     } catch (error) {
       console.error('Error placing order:', error);
       toast.error("There was a problem placing your order. Please try again.");
@@ -146,20 +336,25 @@ const Checkout = () => {
               <FormProvider {...methods}>
                 <form onSubmit={methods.handleSubmit(handleFormSubmit)}>
                   {step === 1 && (
-                    <ShippingForm shippingMethods={shippingMethods} onContinue={nextStep} />
+                    <ShippingForm shippingRates={shippingRates} onContinue={nextStep} />
                   )}
                   
                   {step === 2 && (
                     <BillingForm 
                       onBack={prevStep} 
                       onContinue={nextStep}
+                      paymentAmounts={paymentAmounts}
                     />
                   )}
                   
                   {step === 3 && (
                     <ReviewOrder 
                       onBack={prevStep}
-                      shippingMethods={shippingMethods}
+                      items={cartItems}
+                      shippingRate={selectedShippingRate}
+                      promoDiscount={promoResult?.valid ? promoResult.discount : 0}
+                      freeShipping={!!promoResult?.valid && promoResult.freeShipping}
+                      paymentFee={paymentFee}
                     />
                   )}
                 </form>
@@ -170,8 +365,14 @@ const Checkout = () => {
               <OrderSummary 
                 items={cartItems}
                 subtotal={cartTotal}
-                shippingMethodId={methods.watch('shippingMethod')}
-                shippingMethods={shippingMethods}
+                shippingRate={selectedShippingRate}
+                freeShippingRemaining={freeShippingRemaining}
+                promoCode={promoCode}
+                promoResult={promoResult}
+                onApplyPromoCode={handleApplyPromoCode}
+                onRemovePromoCode={() => setPromoCode(null)}
+                paymentFee={paymentFee}
+                paymentFeeLabel={`${paymentMethodRegistry.getLabel(paymentMethod)} fee`}
               />
             </div>
           </div>
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import { Scale } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ComparisonMatrix from '../components/ProductFilter/ComparisonMatrix';
+import { useCatalog } from '../hooks/useCatalog';
+import { useProductComparison } from '../hooks/useProductComparison';
+import { useMetaTags } from '../utils/seo';
+
+const Compare = () => {
+  const { products } = useCatalog();
+  const { compareProducts, removeProductFromComparison, clearProductComparison } = useProductComparison(products);
+
+  useMetaTags({
+    title: 'Compare Stamps',
+    description: 'Compare the size, impression area, text lines and price of our stamps side by side.',
+    canonicalUrl: 'https://cachets-maroc.com/compare'
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow py-8 bg-gray-50">
+        <div className="container-custom">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-3xl font-bold text-gray-800">Compare Stamps</h1>
+            {compareProducts.length > 0 && (
+              <Button variant="outline" size="sm" onClick={clearProductComparison}>
+                Clear comparison
+              </Button>
+            )}
+          </div>
+
+          {compareProducts.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <div className="flex justify-center mb-4">
+                <Scale size={64} className="text-gray-300" />
+              </div>
+              <h2 className="text-2xl font-semibold text-gray-700 mb-4">No products to compare</h2>
+              <p className="text-gray-600 mb-6">
+                Choose "Compare products" on the products page and pick up to three stamps.
+              </p>
+              <Link to="/products" className="btn-primary">
+                Browse Products
+              </Link>
+            </div>
+          ) : (
+            <ComparisonMatrix
+              products={compareProducts}
+              onRemoveProduct={removeProductFromComparison}
+            />
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Compare;
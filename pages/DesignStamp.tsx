@@ -1,14 +1,20 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
 import StampDesigner from '../components/StampDesigner';
-import { getProductById, products } from '../data/products';
-import { Product } from '../types';
+import { useCatalog } from '../hooks/useCatalog';
+import { catalogRepository } from '@/services/CatalogRepository';
+import { inventoryService } from '@/services/InventoryService';
+import { productVariantService } from '@/services/ProductVariantService';
+import { Product, ProductVariant } from '../types';
 import LanguageSwitcher from '../components/LanguageSwitcher';
+import StockBadge from '../components/common/StockBadge';
+import VariantSelector from '../components/VariantSelector';
 import AccessibilitySettings from '../components/StampDesigner/AccessibilitySettings';
+import { useCart } from '../contexts/CartContext';
 
 const DesignStamp: React.FC = () => {
   const location = useLocation();
@@ -19,10 +25,27 @@ const DesignStamp: React.FC = () => {
   const [largeControls, setLargeControls] = useState(false);
   const queryParams = new URLSearchParams(location.search);
   const productId = queryParams.get('productId');
+  // Cart line being edited, when the design was reopened from the cart
+  const cartLineId = queryParams.get('cartLine');
+  const { getCartItem, isCartLoaded } = useCart();
+  const { products } = useCatalog();
+  const cartItem = cartLineId ? getCartItem(cartLineId) : undefined;
+  const isEditingCartItem = !!cartItem && cartItem.productId === selectedProduct?.id;
+  // Variant from the link, then the one of the cart line being edited, then the first one
+  const selectedVariant = selectedProduct
+    ? productVariantService.getVariantBySku(selectedProduct, queryParams.get('variant'))
+      || (isEditingCartItem ? productVariantService.getVariantBySku(selectedProduct, cartItem.variant?.sku) : undefined)
+      || productVariantService.getDefaultVariant(selectedProduct)
+    : undefined;
+  // The designer works on the size of the selected variant
+  const designedProduct = useMemo(
+    () => (selectedProduct ? productVariantService.applyVariant(selectedProduct, selectedVariant) : null),
+    [selectedProduct, selectedVariant]
+  );
   
   useEffect(() => {
     if (productId) {
-      const product = getProductById(productId);
+      const product = catalogRepository.getProductById(productId);
       if (product) {
         setSelectedProduct(product);
       }
@@ -34,11 +57,11 @@ const DesignStamp: React.FC = () => {
     
     if (savedHighContrast) setHighContrast(savedHighContrast === 'true');
     if (savedLargeControls) setLargeControls(savedLargeControls === 'true');
-  }, [productId]);
+  }, [productId, products]);
   
   const handleProductSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const id = e.target.value;
-    const product = getProductById(id);
+    const product = catalogRepository.getProductById(id);
     
     if (product) {
       setSelectedProduct(product);
@@ -48,6 +71,12 @@ const DesignStamp: React.FC = () => {
     }
   };
   
+  const handleVariantChange = (variant: ProductVariant) => {
+    const params = new URLSearchParams(location.search);
+    params.set('variant', variant.sku);
+    navigate(`/design?${params.toString()}`, { replace: true });
+  };
+  
   const handleAddToCart = () => {
     navigate('/cart');
   };
@@ -98,18 +127,50 @@ const DesignStamp: React.FC = () => {
                   {products.map(product => (
                     <option key={product.id} value={product.id}>
                       {product.name} - {product.size} - {product.price} DHS
+                      {!inventoryService.isPurchasable(inventoryService.getProductAvailability(product)) && ' (out of stock)'}
                     </option>
                   ))}
                 </select>
+                {selectedProduct && selectedVariant && (
+                  <div className="mt-4">
+                    <VariantSelector
+                      product={selectedProduct}
+                      selectedVariant={selectedVariant}
+                      onChange={handleVariantChange}
+                    />
+                    <p className="text-xs text-gray-500 mt-2">
+                      SKU {selectedVariant.sku} • {productVariantService.getUnitPrice(selectedProduct, selectedVariant)} DHS
+                    </p>
+                  </div>
+                )}
+                {selectedProduct && (
+                  <StockBadge
+                    availability={selectedVariant
+                      ? inventoryService.getVariantAvailability(selectedProduct, selectedVariant)
+                      : inventoryService.getProductAvailability(selectedProduct)}
+                    showInStock
+                    className="mt-3"
+                  />
+                )}
               </div>
               
               <div className={`bg-white rounded-lg shadow-md mb-8 ${highContrast ? 'border border-gray-800' : ''}`}>
-                <StampDesigner 
-                  product={selectedProduct} 
-                  onAddToCart={handleAddToCart} 
-                  highContrast={highContrast}
-                  largeControls={largeControls}
-                />
+                {cartLineId && !isCartLoaded ? (
+                  <div className="p-8 text-center text-gray-500">
+                    {t('designStamp.loadingCartDesign', 'Loading your design...')}
+                  </div>
+                ) : (
+                  <StampDesigner 
+                    key={isEditingCartItem ? cartLineId : selectedProduct?.id}
+                    product={designedProduct} 
+                    variant={selectedVariant}
+                    cartLineId={isEditingCartItem ? cartItem.id : undefined}
+                    initialDesign={isEditingCartItem ? cartItem.design : undefined}
+                    onAddToCart={handleAddToCart} 
+                    highContrast={highContrast}
+                    largeControls={largeControls}
+                  />
+                )}
               </div>
             </div>
             
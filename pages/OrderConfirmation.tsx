@@ -1,56 +1,81 @@
 
-import React from 'react';
-import { Link, useLocation, Navigate } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useLocation, useSearchParams, Navigate } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
-import { Check, Package, Mail, Truck, ArrowDown } from 'lucide-react';
-import { CartItem } from '../types';
-
-interface OrderData {
-  id: string;
-  customerName: string;
-  email: string;
-  shippingAddress: string;
-  shippingMethod: {
-    id: string;
-    name: string;
-    price: number;
-    days: string;
-  };
-  paymentMethod: string;
-  items: CartItem[];
-  subtotal: number;
-  shipping: number;
-  total: number;
-  date: string;
-}
+import { Check, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import { Order } from '../types';
+import { orderRepository } from '@/services/OrderRepository';
+import { orderPlacementService } from '@/services/OrderPlacementService';
+import { useCart } from '../contexts/CartContext';
+import { discardPendingCmiOrder, getPendingCmiOrder } from '../components/Checkout/paymentMethods';
+import OrderDetails from '../components/Orders/OrderDetails';
+import DownloadInvoiceButton from '../components/Orders/DownloadInvoiceButton';
 
 interface LocationState {
-  order: OrderData;
+  order: Order;
 }
 
 const OrderConfirmation = () => {
   const location = useLocation();
   const state = location.state as LocationState;
+  const [searchParams] = useSearchParams();
+  const { clearCart, isCartLoaded } = useCart();
+  const orderPlacedRef = useRef(false);
+  
+  // Orders paid on a hosted payment page come back with their id in the URL
+  const [returnedOrder] = useState<Order | null>(() => {
+    const orderId = searchParams.get('order');
+    return !state?.order && orderId ? getPendingCmiOrder(orderId) : null;
+  });
+  
+  // The payment went through: place the order and empty the cart, kept while paying,
+  // once it has loaded. The draft is kept until the order is saved, so a reload can retry.
+  useEffect(() => {
+    if (returnedOrder && isCartLoaded && !orderPlacedRef.current) {
+      orderPlacedRef.current = true;
+      orderPlacementService.placeOrder(returnedOrder)
+        .then(() => {
+          discardPendingCmiOrder();
+          clearCart();
+        })
+        .catch(error => {
+          console.error('Error placing order:', error);
+          toast.error("Your payment went through but we couldn't record your order. Please reload this page.");
+        });
+    }
+  }, [returnedOrder, isCartLoaded, clearCart]);
+  
+  // After a refresh the navigation state is gone: reload the order from the repository
+  const orderId = searchParams.get('order');
+  const [savedOrder, setSavedOrder] = useState<Order | null>(null);
+  const [isLoadingOrder, setIsLoadingOrder] = useState(!state?.order && !returnedOrder && !!orderId);
   
-  if (!state || !state.order) {
+  useEffect(() => {
+    if (state?.order || returnedOrder || !orderId) return;
+    
+    orderRepository.getOrder(orderId)
+      .then(setSavedOrder)
+      .catch(error => console.error('Error loading order:', error))
+      .finally(() => setIsLoadingOrder(false));
+  }, [state, returnedOrder, orderId]);
+  
+  const order = state?.order || returnedOrder || savedOrder;
+  
+  if (isLoadingOrder) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-blue"></div>
+      </div>
+    );
+  }
+  
+  if (!order) {
     // Redirect to home if no order data is available
     return <Navigate to="/" />;
   }
-  
-  const { order } = state;
-  const formattedDate = new Date(order.date).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
 
-  const paymentMethodLabels: Record<string, string> = {
-    credit_card: 'Credit Card',
-    paypal: 'PayPal',
-    bank_transfer: 'Bank Transfer'
-  };
-  
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
       <Navbar />
@@ -68,95 +93,7 @@ const OrderConfirmation = () => {
               </p>
             </div>
             
-            <div className="border-t border-b py-4 mb-6">
-              <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4">
-                <div>
-                  <p className="text-sm text-gray-500">Order Number</p>
-                  <p className="font-medium">{order.id}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-gray-500">Date</p>
-                  <p className="font-medium">{formattedDate}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-gray-500">Total</p>
-                  <p className="font-medium">{order.total.toFixed(2)} DHS</p>
-                </div>
-                <div>
-                  <p className="text-sm text-gray-500">Payment Method</p>
-                  <p className="font-medium">{paymentMethodLabels[order.paymentMethod]}</p>
-                </div>
-              </div>
-            </div>
-            
-            <div className="mb-8">
-              <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
-              {order.items.map((item) => (
-                <div key={`${item.productId}-${item.customText}`} className="flex items-start py-4 border-b">
-                  <div className="w-16 h-16 bg-gray-100 flex-shrink-0 rounded overflow-hidden">
-                    {item.previewImage ? (
-                      <img src={item.previewImage} alt="Custom Stamp Preview" className="w-full h-full object-cover" />
-                    ) : (
-                      <img src={item.product.images[0]} alt={item.product.name} className="w-full h-full object-contain" />
-                    )}
-                  </div>
-                  <div className="ml-4 flex-grow">
-                    <h3 className="font-medium">{item.product.name}</h3>
-                    <p className="text-sm text-gray-600">
-                      {item.product.size} • {item.inkColor} ink • Qty: {item.quantity}
-                    </p>
-                    {item.customText && (
-                      <p className="text-xs text-gray-500 mt-1">
-                        Custom text: {item.customText}
-                      </p>
-                    )}
-                  </div>
-                  <div className="text-right">
-                    <p className="font-medium">{(item.product.price * item.quantity).toFixed(2)} DHS</p>
-                  </div>
-                </div>
-              ))}
-              
-              <div className="mt-4 space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>Subtotal</span>
-                  <span>{order.subtotal.toFixed(2)} DHS</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span>Shipping ({order.shippingMethod.name})</span>
-                  <span>{order.shipping.toFixed(2)} DHS</span>
-                </div>
-                <div className="flex justify-between font-medium text-lg pt-2 border-t">
-                  <span>Total</span>
-                  <span>{order.total.toFixed(2)} DHS</span>
-                </div>
-              </div>
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-              <div className="border rounded-md p-4">
-                <div className="flex items-center gap-2 mb-2">
-                  <Package className="w-5 h-5 text-gray-600" />
-                  <h3 className="font-medium">Shipping Information</h3>
-                </div>
-                <p className="text-gray-700">{order.customerName}</p>
-                <p className="text-gray-600 text-sm whitespace-pre-line">
-                  {order.shippingAddress.split(', ').join('\n')}
-                </p>
-              </div>
-              
-              <div className="border rounded-md p-4">
-                <div className="flex items-center gap-2 mb-2">
-                  <Truck className="w-5 h-5 text-gray-600" />
-                  <h3 className="font-medium">Delivery Details</h3>
-                </div>
-                <p className="text-gray-700">{order.shippingMethod.name}</p>
-                <p className="text-gray-600 text-sm">{order.shippingMethod.days}</p>
-                <p className="text-sm text-gray-500 mt-1">
-                  We'll send you shipping confirmation when your order ships.
-                </p>
-              </div>
-            </div>
+            <OrderDetails order={order} />
             
             <div className="text-center">
               <p className="text-gray-600 mb-4">
@@ -166,6 +103,13 @@ const OrderConfirmation = () => {
                 <Link to="/" className="btn-primary">
                   Continue Shopping
                 </Link>
+                <DownloadInvoiceButton order={order} />
+                <Link to={`/track?order=${encodeURIComponent(order.id)}`} className="btn-outline">
+                  Track Order
+                </Link>
+                <Link to="/orders" className="btn-outline">
+                  My Orders
+                </Link>
                 <Link to="/contact" className="btn-outline">
                   Contact Us
                 </Link>
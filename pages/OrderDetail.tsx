@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { Order } from '../types';
+import { orderRepository } from '@/services/OrderRepository';
+import OrderDetails from '../components/Orders/OrderDetails';
+import DownloadInvoiceButton from '../components/Orders/DownloadInvoiceButton';
+import ProductionProofDialog from '../components/Orders/ProductionProofDialog';
+
+const OrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showProductionProof, setShowProductionProof] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    
+    setIsLoading(true);
+    orderRepository.getOrder(id)
+      .then(setOrder)
+      .catch(error => console.error('Error loading order:', error))
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      
+      <main className="flex-grow py-8">
+        <div className="container-custom max-w-4xl">
+          <Link to="/orders" className="inline-flex items-center gap-1 text-sm text-brand-blue hover:underline mb-4">
+            <ArrowLeft size={16} />
+            All orders
+          </Link>
+          
+          {isLoading ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              Loading your order...
+            </div>
+          ) : !order ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <h1 className="text-2xl font-semibold text-gray-700 mb-4">Order not found</h1>
+              <p className="text-gray-600 mb-6">
+                We couldn't find order {id} on this device. Please check the order number in your confirmation email.
+              </p>
+              <Link to="/contact" className="btn-primary">
+                Contact Us
+              </Link>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-md p-8">
+              <h1 className="text-3xl font-bold text-gray-800 mb-6">Order {order.id}</h1>
+              
+              <OrderDetails order={order} />
+              
+              <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                <Link to={`/track?order=${encodeURIComponent(order.id)}`} className="btn-primary">
+                  Track Order
+                </Link>
+                <DownloadInvoiceButton order={order} />
+                {order.items.some(item => item.design) && (
+                  <button
+                    type="button"
+                    onClick={() => setShowProductionProof(true)}
+                    className="btn-outline inline-flex items-center justify-center gap-2"
+                  >
+                    <Printer size={16} />
+                    Production Proof
+                  </button>
+                )}
+                <Link to="/contact" className="btn-outline">
+                  Contact Us
+                </Link>
+              </div>
+              
+              <ProductionProofDialog
+                order={showProductionProof ? order : null}
+                onClose={() => setShowProductionProof(false)}
+              />
+            </div>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderDetail;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import { Package, ChevronRight } from 'lucide-react';
+import { Order } from '../types';
+import { orderRepository } from '@/services/OrderRepository';
+import { paymentMethodRegistry } from '../components/Checkout/paymentMethods';
+
+// Stamp previews shown for each order in the list
+const MAX_PREVIEWS = 4;
+
+const Orders = () => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    orderRepository.listOrders()
+      .then(setOrders)
+      .catch(error => console.error('Error loading orders:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      
+      <main className="flex-grow py-8 bg-gray-50">
+        <div className="container-custom max-w-4xl">
+          <h1 className="text-3xl font-bold text-gray-800 mb-6">My Orders</h1>
+          
+          {isLoading ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              Loading your orders...
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <div className="flex justify-center mb-4">
+                <Package size={64} className="text-gray-300" />
+              </div>
+              <h2 className="text-2xl font-semibold text-gray-700 mb-4">No orders yet</h2>
+              <p className="text-gray-600 mb-6">
+                Orders you place on this device will appear here.
+              </p>
+              <Link to="/products" className="btn-primary">
+                Browse Products
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {orders.map(order => {
+                const itemCount = order.items.reduce((count, item) => count + item.quantity, 0);
+                
+                return (
+                  <Link
+                    key={order.id}
+                    to={`/orders/${encodeURIComponent(order.id)}`}
+                    className="block bg-white rounded-lg shadow-md p-4 hover:shadow-lg transition-shadow"
+                  >
+                    <div className="flex flex-col md:flex-row md:items-center gap-4">
+                      <div className="flex -space-x-3">
+                        {order.items.slice(0, MAX_PREVIEWS).map(item => (
+                          <div key={item.id} className="w-16 h-16 bg-gray-100 rounded border-2 border-white overflow-hidden">
+                            {item.previewImage ? (
+                              <img src={item.previewImage} alt="Custom Stamp Preview" className="w-full h-full object-cover" />
+                            ) : (
+                              <img src={item.product.images[0]} alt={item.product.name} className="w-full h-full object-contain" />
+                            )}
+                          </div>
+                        ))}
+                        {order.items.length > MAX_PREVIEWS && (
+                          <div className="w-16 h-16 bg-gray-100 rounded border-2 border-white flex items-center justify-center text-sm text-gray-600">
+                            +{order.items.length - MAX_PREVIEWS}
+                          </div>
+                        )}
+                      </div>
+                      
+                      <div className="flex-grow">
+                        <p className="font-medium">{order.id}</p>
+                        <p className="text-sm text-gray-600">
+                          {new Date(order.date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+                          {' • '}{itemCount} {itemCount === 1 ? 'stamp' : 'stamps'}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {paymentMethodRegistry.getLabel(order.paymentMethod)}
+                          {order.paymentStatus === 'pending' && (
+                            <span className="text-amber-600"> • Awaiting payment</span>
+                          )}
+                        </p>
+                      </div>
+                      
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold">{order.total.toFixed(2)} DHS</p>
+                        <ChevronRight className="w-5 h-5 text-gray-400" />
+                      </div>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+};
+
+export default Orders;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo } from 'react';
+import { Link, Navigate, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import ProductCard from '../components/ProductCard';
+import VariantSelector from '../components/VariantSelector';
+import StockBadge from '../components/common/StockBadge';
+import ProductGallery from '../components/ProductDetail/ProductGallery';
+import SpecTable from '../components/ProductDetail/SpecTable';
+import TrueSizePreview from '../components/ProductDetail/TrueSizePreview';
+import { Button } from '@/components/ui/button';
+import { ChevronRight, Package, Scale } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProductVariant } from '../types';
+import { useCatalog } from '../hooks/useCatalog';
+import { mergedProductIds } from '../data/products';
+import { MAX_COMPARE_PRODUCTS, useProductComparison } from '../hooks/useProductComparison';
+import { inventoryService } from '@/services/InventoryService';
+import { productVariantService } from '@/services/ProductVariantService';
+import { generateProductSchema, getProductUrl, useMetaTags } from '../utils/seo';
+import { getRelatedProducts } from '../utils/relatedProducts';
+import { trackPageView } from '../utils/analytics';
+
+const ProductDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { products } = useCatalog();
+  const { isInComparison, canAddToComparison, toggleProductComparison } = useProductComparison(products);
+
+  const product = products.find(item => item.id === id);
+  const selectedVariant = product
+    ? productVariantService.getVariantBySku(product, searchParams.get('variant'))
+      || productVariantService.getDefaultVariant(product)
+    : undefined;
+  // Specifications, preview and meta tags describe the selected size
+  const sizedProduct = product ? productVariantService.applyVariant(product, selectedVariant) : undefined;
+
+  useEffect(() => {
+    trackPageView(window.location.pathname, 'Product Detail Page');
+  }, [id]);
+
+  // The variant image comes first when it has one
+  const images = useMemo(() => {
+    if (!product) return [];
+    const variantImage = selectedVariant?.image;
+    return variantImage ? [variantImage, ...product.images.filter(image => image !== variantImage)] : product.images;
+  }, [product, selectedVariant?.image]);
+
+  const structuredData = useMemo(() => (product ? generateProductSchema(product) : undefined), [product]);
+
+  useMetaTags({
+    title: product ? `${product.name} - ${productVariantService.getSizes(product).join(' / ')} ${product.brand} Stamp` : 'Product not found',
+    description: product
+      ? `${product.description} ${sizedProduct.size}, up to ${sizedProduct.lines} lines of text. Design it online and get it delivered across Morocco.`
+      : 'This product is not available.',
+    keywords: product
+      ? `${product.name}, ${product.brand} ${product.model}, ${product.brand} stamp, custom stamp, cachet, Morocco`
+      : undefined,
+    ogType: 'product',
+    ogImage: product?.images[0] ? new URL(product.images[0], 'https://cachets-maroc.com').href : undefined,
+    ogUrl: product ? getProductUrl(product) : undefined,
+    canonicalUrl: product ? getProductUrl(product) : undefined,
+    structuredData
+  });
+
+  if (!product && mergedProductIds[id]) {
+    const { productId, sku } = mergedProductIds[id];
+    return <Navigate to={`/products/${productId}?variant=${encodeURIComponent(sku)}`} replace />;
+  }
+
+  if (!product) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow py-8 bg-gray-50">
+          <div className="container-custom max-w-3xl">
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <div className="flex justify-center mb-4">
+                <Package size={64} className="text-gray-300" />
+              </div>
+              <h1 className="text-2xl font-semibold text-gray-700 mb-4">Product not found</h1>
+              <p className="text-gray-600 mb-6">
+                This stamp is no longer in our catalogue.
+              </p>
+              <Link to="/products" className="btn-primary">
+                Browse Products
+              </Link>
+            </div>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const availability = selectedVariant
+    ? inventoryService.getVariantAvailability(product, selectedVariant)
+    : inventoryService.getProductAvailability(product);
+  const isCompared = isInComparison(product.id);
+  const relatedProducts = getRelatedProducts(product, products);
+
+  const handleVariantChange = (variant: ProductVariant) => {
+    setSearchParams({ variant: variant.sku }, { replace: true });
+  };
+
+  const handleDesign = () => {
+    navigate(`/design?productId=${product.id}${selectedVariant ? `&variant=${encodeURIComponent(selectedVariant.sku)}` : ''}`);
+  };
+
+  const handleCompare = () => {
+    if (!isCompared && !canAddToComparison) {
+      toast.error(`You can compare up to ${MAX_COMPARE_PRODUCTS} products`);
+      return;
+    }
+    toggleProductComparison(product);
+    toast.success(isCompared ? 'Removed from comparison' : 'Added to comparison');
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow py-8 bg-gray-50">
+        <div className="container-custom">
+          <nav className="flex items-center text-sm text-gray-500 mb-6" aria-label="Breadcrumb">
+            <Link to="/products" className="hover:text-brand-blue">Products</Link>
+            <ChevronRight className="h-4 w-4 mx-1" />
+            <Link to={`/products?brand=${encodeURIComponent(product.brand)}`} className="hover:text-brand-blue">
+              {product.brand}
+            </Link>
+            <ChevronRight className="h-4 w-4 mx-1" />
+            <span className="text-gray-800">{product.name}</span>
+          </nav>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            <ProductGallery images={images} alt={product.name} />
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <p className="text-sm text-gray-500">{product.brand}</p>
+              <h1 className="text-3xl font-bold text-gray-800 mb-2">{product.name}</h1>
+              <div className="flex items-center gap-3 mb-4">
+                <span className="text-2xl font-semibold text-gray-800">
+                  {productVariantService.getUnitPrice(product, selectedVariant).toFixed(2)} DHS
+                </span>
+                <StockBadge availability={availability} showInStock />
+              </div>
+              <p className="text-gray-600 mb-6">{product.description}</p>
+
+              {selectedVariant && (
+                <div className="mb-6">
+                  <VariantSelector
+                    product={product}
+                    selectedVariant={selectedVariant}
+                    onChange={handleVariantChange}
+                  />
+                  <p className="text-xs text-gray-500 mt-2">SKU: {selectedVariant.sku}</p>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-3 mb-6">
+                <Button onClick={handleDesign} disabled={!inventoryService.isPurchasable(availability)}>
+                  Design this stamp
+                </Button>
+                <Button variant="outline" onClick={handleCompare}>
+                  <Scale className="h-4 w-4 mr-2" />
+                  {isCompared ? 'Remove from comparison' : 'Add to comparison'}
+                </Button>
+              </div>
+
+              <h2 className="text-lg font-semibold text-gray-800 mb-2">Specifications</h2>
+              <SpecTable product={sizedProduct} variant={selectedVariant} />
+            </div>
+          </div>
+
+          <div className="mb-8">
+            <TrueSizePreview product={sizedProduct} inkColor={selectedVariant?.options.inkColor} />
+          </div>
+
+          {relatedProducts.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-bold text-gray-800 mb-4">Related products</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                {relatedProducts.map(related => (
+                  <ProductCard key={related.id} product={related} />
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ProductDetail;
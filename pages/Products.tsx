@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
 import ProductCard from '../components/ProductCard';
-import { products } from '../data/products';
+import { useCatalog } from '../hooks/useCatalog';
 import { useProductFilter } from '../hooks/useProductFilter';
+import { MAX_COMPARE_PRODUCTS } from '../hooks/useProductComparison';
+import { Product } from '../types';
 import PriceRangeSlider from '../components/ProductFilter/PriceRangeSlider';
 import BrandFilter from '../components/ProductFilter/BrandFilter';
 import ShapeFilter from '../components/ProductFilter/ShapeFilter';
@@ -16,28 +19,19 @@ import ActiveFilters from '../components/ProductFilter/ActiveFilters';
 import CompareProducts from '../components/ProductFilter/CompareProducts';
 import MobileFilterDrawer from '../components/ProductFilter/MobileFilterDrawer';
 import SizeFilter from '../components/ProductFilter/SizeFilter';
+import AvailabilityFilter from '../components/ProductFilter/AvailabilityFilter';
 import { useIsMobile } from '../hooks/use-mobile';
-import { SlidersHorizontal } from 'lucide-react';
+import { Link2, SlidersHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
 import { useMetaTags } from '../utils/seo';
+import { getCanonicalProductsUrl } from '../utils/productFilterParams';
 import { trackPageView } from '../utils/analytics';
 import TranslatedText from '../components/common/TranslatedText';
 
 const Products = () => {
   const { t, i18n } = useTranslation();
+  const { products } = useCatalog();
   
-  // Apply SEO meta tags
-  useMetaTags({
-    title: t('products.metaTitle', 'Shop Self-Inking Stamps'),
-    description: t('products.metaDescription', 'Browse our extensive collection of self-inking stamps from top brands like Trodat, Shiny, and more. Filter by size, shape, and price.'),
-    keywords: t('products.metaKeywords', 'self-inking stamps, custom stamps, Trodat stamps, Shiny stamps, MobiStamps, business stamps'),
-    ogType: 'product',
-    ogUrl: 'https://cachets-maroc.com/products',
-    hrefLangTags: [
-      { lang: 'en', url: 'https://cachets-maroc.com/en/products' },
-      { lang: 'fr', url: 'https://cachets-maroc.com/fr/products' }
-    ]
-  });
-
   // Analytics tracking
   useEffect(() => {
     // Track page view using our analytics utility
@@ -53,16 +47,59 @@ const Products = () => {
     colorOptions,
     sortOptions,
     compareProducts,
+    toggleProductComparison,
     removeProductFromComparison,
     clearProductComparison,
     removeFilter,
     clearAllFilters,
     activeFilterCount,
   } = useProductFilter({ products });
+  
+  // Filtered listings share the canonical URL of their brand or shape page
+  const canonicalUrl = getCanonicalProductsUrl(filters);
+
+  // Apply SEO meta tags
+  useMetaTags({
+    title: t('products.metaTitle', 'Shop Self-Inking Stamps'),
+    description: t('products.metaDescription', 'Browse our extensive collection of self-inking stamps from top brands like Trodat, Shiny, and more. Filter by size, shape, and price.'),
+    keywords: t('products.metaKeywords', 'self-inking stamps, custom stamps, Trodat stamps, Shiny stamps, MobiStamps, business stamps'),
+    ogType: 'product',
+    ogUrl: canonicalUrl,
+    canonicalUrl,
+    hrefLangTags: [
+      { lang: 'en', url: 'https://cachets-maroc.com/en/products' },
+      { lang: 'fr', url: 'https://cachets-maroc.com/fr/products' }
+    ]
+  });
 
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const isMobile = useIsMobile();
 
+  // The URL carries the filters, so it can be sent to a customer as it is
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link to these results copied');
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast.error('The link could not be copied');
+    }
+  };
+
+  // Add a product to the comparison or take it out; selection mode ends once the comparison is full
+  const handleCompareToggle = (product: Product) => {
+    const isSelected = compareProducts.some(p => p.id === product.id);
+    if (!isSelected && compareProducts.length >= MAX_COMPARE_PRODUCTS) {
+      toast.error(`You can compare up to ${MAX_COMPARE_PRODUCTS} products`);
+      return;
+    }
+
+    toggleProductComparison(product);
+    if (!isSelected && compareProducts.length + 1 === MAX_COMPARE_PRODUCTS) {
+      setIsSelectionMode(false);
+    }
+  };
+
   // Toggle product selection for comparison
   const handleProductSelection = (productId: string) => {
     const product = products.find(p => p.id === productId);
@@ -72,7 +109,7 @@ const Products = () => {
     
     if (isAlreadySelected) {
       removeProductFromComparison(productId);
-    } else if (compareProducts.length < 3) {
+    } else if (compareProducts.length < MAX_COMPARE_PRODUCTS) {
       updateFilter('searchQuery', '');
       window.scrollTo({
         top: document.getElementById(productId)?.offsetTop || 0,
@@ -121,6 +158,11 @@ const Products = () => {
           selectedColors={filters.selectedColors}
           onChange={(colors) => updateFilter('selectedColors', colors)}
         />
+        
+        <AvailabilityFilter
+          selectedAvailability={filters.selectedAvailability}
+          onChange={(availability) => updateFilter('selectedAvailability', availability)}
+        />
       </div>
     </>
   );
@@ -137,6 +179,7 @@ const Products = () => {
               <div className="w-full md:max-w-md">
                 <SearchBar
                   products={products}
+                  value={filters.searchQuery}
                   onSearch={(query) => updateFilter('searchQuery', query)}
                   onProductSelect={handleProductSelection}
                   placeholder={t('products.searchPlaceholder')}
@@ -189,6 +232,9 @@ const Products = () => {
                     Browse our extensive collection of high-quality stamps from top brands like Trodat, Shiny, MobiStamps and more.
                   </TranslatedText>
                 </p>
+                <Link to="/stamp-finder" className="inline-block mt-2 text-sm text-brand-blue hover:underline">
+                  Not sure which stamp fits your text? Let us recommend one
+                </Link>
               </div>
               
               <div className="flex justify-between items-center mb-6">
@@ -200,6 +246,14 @@ const Products = () => {
                     {filteredProducts.length} products found
                   </TranslatedText>
                 </p>
+                <div className="flex items-center gap-4">
+                <button
+                  onClick={handleCopyLink}
+                  className="text-sm text-gray-600 hover:text-brand-blue flex items-center gap-1"
+                >
+                  <Link2 className="h-4 w-4" />
+                  Copy link
+                </button>
                 <button
                   onClick={() => setIsSelectionMode(!isSelectionMode)}
                   className={`text-sm ${isSelectionMode ? 'text-blue-600 font-medium' : 'text-gray-600'}`}
@@ -210,6 +264,7 @@ const Products = () => {
                     <TranslatedText i18nKey="products.compareProducts">Compare products</TranslatedText>
                   }
                 </button>
+                </div>
               </div>
               
               {filteredProducts.length > 0 ? (
@@ -220,19 +275,8 @@ const Products = () => {
                         product={product} 
                         isSelectionMode={isSelectionMode}
                         isSelected={compareProducts.some(p => p.id === product.id)}
-                        onSelectForComparison={() => {
-                          const isSelected = compareProducts.some(p => p.id === product.id);
-                          if (isSelected) {
-                            removeProductFromComparison(product.id);
-                          } else if (compareProducts.length < 3) {
-                            const updatedCompare = [...compareProducts, product];
-                            // Clear selection mode if 3 products are selected
-                            if (updatedCompare.length === 3) {
-                              setIsSelectionMode(false);
-                            }
-                          }
-                        }}
-                        maxSelectableProducts={3}
+                        onSelectForComparison={() => handleCompareToggle(product)}
+                        maxSelectableProducts={MAX_COMPARE_PRODUCTS}
                       />
                     </div>
                   ))}
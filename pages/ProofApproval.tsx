@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import { CheckCircle2, MessageSquare, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Order, ProofStatus } from '../types';
+import { proofApprovalService } from '@/services/ProofApprovalService';
+import { getProductDimensions } from '@/utils/stampDimensions';
+import ProofArtworkView from '../components/Orders/ProofArtworkView';
+import ScreenCalibration from '../components/common/ScreenCalibration';
+
+const statusLabels: Record<ProofStatus, string> = {
+  pending: 'Awaiting your approval',
+  approved: 'Approved',
+  changes_requested: 'Changes requested'
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ProofApproval = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [order, setOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasChecked, setHasChecked] = useState(false);
+  const [comment, setComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    
+    proofApprovalService.getOrderForProof(id, token)
+      .then(setOrder)
+      .catch(error => console.error('Error loading proof:', error))
+      .finally(() => setIsLoading(false));
+  }, [id, token]);
+
+  const respond = async (action: () => Promise<Order>, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      setOrder(await action());
+      setComment('');
+      toast.success(successMessage);
+    } catch (error) {
+      console.error('Error answering proof:', error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => {
+    respond(() => proofApprovalService.approve(order.id, token), 'Thank you! Your stamp is going into production.');
+  };
+
+  const handleRequestChanges = () => {
+    if (!comment.trim()) {
+      toast.error('Please describe the changes you need.');
+      return;
+    }
+    respond(
+      () => proofApprovalService.requestChanges(order.id, token, comment),
+      "Thanks, we'll send you a corrected proof shortly."
+    );
+  };
+
+  const revision = order ? proofApprovalService.getCurrentRevision(order) : undefined;
+  const getLine = (lineId: string) => order?.items.find(item => item.id === lineId);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Navbar />
+      
+      <main className="flex-grow py-8">
+        <div className="container-custom max-w-4xl">
+          {isLoading ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              Loading your proof...
+            </div>
+          ) : !order || !revision ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <h1 className="text-2xl font-semibold text-gray-700 mb-4">Proof not found</h1>
+              <p className="text-gray-600 mb-6">
+                This proof link is not valid. Please use the link from your order confirmation email.
+              </p>
+              <Link to="/contact" className="btn-primary">
+                Contact Us
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+                  <div>
+                    <h1 className="text-3xl font-bold text-gray-800">Your Stamp Proof</h1>
+                    <p className="text-gray-600">Order {order.id} • Revision {revision.number}</p>
+                  </div>
+                  <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium ${
+                    order.proof.status === 'approved'
+                      ? 'bg-green-100 text-green-700'
+                      : order.proof.status === 'changes_requested'
+                        ? 'bg-amber-100 text-amber-700'
+                        : 'bg-brand-blue/10 text-brand-blue'
+                  }`}>
+                    {order.proof.status === 'approved' ? <CheckCircle2 size={16} /> : <Clock size={16} />}
+                    {statusLabels[order.proof.status]}
+                  </span>
+                </div>
+                
+                {order.proof.status === 'pending' && (
+                  <p className="text-gray-600">
+                    Please check every line of text, phone number and logo below. We engrave exactly what you
+                    approve and only start production once you have signed off the proof.
+                  </p>
+                )}
+                {order.proof.status === 'approved' && (
+                  <p className="text-green-700">
+                    You approved this proof on {formatDate(revision.respondedAt)}. Your stamp is now in production.
+                  </p>
+                )}
+                {order.proof.status === 'changes_requested' && (
+                  <p className="text-amber-700">
+                    We have received your comments and will send you a corrected proof shortly.
+                  </p>
+                )}
+                
+                {revision.note && (
+                  <div className="mt-4 border-l-4 border-brand-blue bg-brand-blue/5 p-3 text-sm">
+                    <p className="font-medium">Note from our workshop</p>
+                    <p className="text-gray-700">{revision.note}</p>
+                  </div>
+                )}
+              </div>
+              
+              {revision.artwork.map(artwork => {
+                const line = getLine(artwork.lineId);
+                if (!line) return null;
+                const { width, height } = getProductDimensions(line.product);
+                
+                return (
+                  <div key={artwork.lineId} className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-lg font-semibold">{line.product.name}</h2>
+                    <p className="text-sm text-gray-600 mb-4">
+                      {line.product.size} • {line.inkColor} ink • Qty: {line.quantity}
+                    </p>
+                    <div className="overflow-auto border rounded-md bg-gray-50 p-6 flex justify-center">
+                      <ProofArtworkView artwork={artwork} product={line.product} actualSize />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">Drawn at actual size ({width} × {height} mm).</p>
+                    <ScreenCalibration />
+                  </div>
+                );
+              })}
+              
+              {order.proof.status === 'pending' && (
+                <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+                  <div className="flex items-start gap-3">
+                    <Checkbox
+                      id="proofChecked"
+                      checked={hasChecked}
+                      onCheckedChange={(checked) => setHasChecked(checked === true)}
+                    />
+                    <Label htmlFor="proofChecked" className="text-sm leading-snug cursor-pointer">
+                      I have checked the spelling, numbers and layout, and I understand my stamp will be
+                      engraved exactly as shown.
+                    </Label>
+                  </div>
+                  <Button onClick={handleApprove} disabled={!hasChecked || isSubmitting} className="gap-2">
+                    <CheckCircle2 size={18} />
+                    Approve and Start Production
+                  </Button>
+                  
+                  <div className="border-t pt-6">
+                    <Label htmlFor="proofComment">Something to change?</Label>
+                    <Textarea
+                      id="proofComment"
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder="e.g. Please write the phone number as 05 22 00 00 00 and make the company name bigger"
+                      className="mt-1"
+                      rows={4}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleRequestChanges}
+                      disabled={isSubmitting}
+                      className="mt-3 gap-2"
+                    >
+                      <MessageSquare size={18} />
+                      Request Changes
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold mb-4">Revision History</h2>
+                <ol className="space-y-4">
+                  {[...order.proof.revisions].reverse().map(item => (
+                    <li key={item.number} className="border rounded-md p-4">
+                      <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                        <p className="font-medium">Revision {item.number}</p>
+                        <p className="text-sm text-gray-500">Sent {formatDate(item.createdAt)}</p>
+                      </div>
+                      {item.note && <p className="text-sm text-gray-700 mt-1">Workshop: {item.note}</p>}
+                      <div className="flex flex-wrap gap-3 mt-3">
+                        {item.artwork.map(artwork => {
+                          const line = getLine(artwork.lineId);
+                          return line && (
+                            <div key={artwork.lineId} className="w-28 border rounded bg-gray-50 p-1">
+                              <ProofArtworkView artwork={artwork} product={line.product} />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <p className="text-sm mt-3">
+                        <span className="font-medium">{statusLabels[item.status]}</span>
+                        {item.respondedAt && <span className="text-gray-500"> • {formatDate(item.respondedAt)}</span>}
+                      </p>
+                      {item.comment && <p className="text-sm text-gray-700 mt-1">Your comments: {item.comment}</p>}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+};
+
+export default ProofApproval;
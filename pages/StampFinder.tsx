@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import RecommendationList from '../components/StampFinder/RecommendationList';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useCatalog } from '../hooks/useCatalog';
+import { stampPurposes, stampTextFields, StampTextFieldId, getStampPurposeById } from '../data/stampPurposes';
+import { stampRecommenderService, TextRequirements } from '@/services/StampRecommenderService';
+import { useMetaTags } from '../utils/seo';
+
+type ShapeChoice = 'any' | 'rectangle' | 'circle' | 'square';
+
+const shapeOptions: { value: ShapeChoice; label: string }[] = [
+  { value: 'any', label: 'No preference' },
+  { value: 'rectangle', label: 'Rectangular' },
+  { value: 'circle', label: 'Round' },
+  { value: 'square', label: 'Square' }
+];
+
+const StampFinder = () => {
+  const { products } = useCatalog();
+  const [purposeId, setPurposeId] = useState(stampPurposes[0].id);
+  const [fieldIds, setFieldIds] = useState<StampTextFieldId[]>(stampPurposes[0].defaultFields);
+  const [shape, setShape] = useState<ShapeChoice>(stampPurposes[0].preferredShape || 'any');
+  const [mode, setMode] = useState<'fields' | 'text'>('fields');
+  const [pastedText, setPastedText] = useState('');
+  const [textResult, setTextResult] = useState<TextRequirements | null>(null);
+
+  useMetaTags({
+    title: 'Which Stamp Do I Need?',
+    description: 'Tell us what your stamp is for and what it must say: we work out the size you need and recommend the right stamp.',
+    canonicalUrl: 'https://cachets-maroc.com/stamp-finder'
+  });
+
+  const preferredShape = shape === 'any' ? undefined : shape;
+
+  // Pasted text is analysed asynchronously; only the latest text counts
+  useEffect(() => {
+    if (mode !== 'text' || !pastedText.trim()) {
+      setTextResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    stampRecommenderService.getRequirementsFromText(pastedText, preferredShape)
+      .then(result => {
+        if (!cancelled) setTextResult(result);
+      })
+      .catch(error => console.error('Error analysing stamp text:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, pastedText, preferredShape]);
+
+  const handlePurposeChange = (id: string) => {
+    const purpose = getStampPurposeById(id);
+    if (!purpose) return;
+    setPurposeId(id);
+    setFieldIds(purpose.defaultFields);
+    setShape(purpose.preferredShape || 'any');
+  };
+
+  const toggleField = (id: StampTextFieldId, checked: boolean) => {
+    setFieldIds(prev => (checked ? [...prev, id] : prev.filter(fieldId => fieldId !== id)));
+  };
+
+  const fieldRequirements = mode === 'fields' && fieldIds.some(id => id !== 'logo')
+    ? stampRecommenderService.getRequirementsFromFields(fieldIds, preferredShape)
+    : null;
+  const requirements = mode === 'fields' ? fieldRequirements : textResult?.requirements;
+  const recommendations = requirements ? stampRecommenderService.recommend(products, requirements) : [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow py-8 bg-gray-50">
+        <div className="container-custom">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-800 mb-3">Which stamp do I need?</h1>
+            <p className="text-gray-600 max-w-2xl">
+              Tell us what the stamp is for and what it must say. We work out how many lines and how much
+              room your text needs to stay legible, and pick the stamps that fit.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-6">
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">1. What is the stamp for?</h2>
+                <RadioGroup value={purposeId} onValueChange={handlePurposeChange} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {stampPurposes.map(purpose => (
+                    <Label
+                      key={purpose.id}
+                      htmlFor={`purpose-${purpose.id}`}
+                      className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer ${
+                        purposeId === purpose.id ? 'border-brand-blue bg-blue-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <RadioGroupItem value={purpose.id} id={`purpose-${purpose.id}`} className="mt-1" />
+                      <span>
+                        <span className="block font-medium text-gray-800">{purpose.label}</span>
+                        <span className="block text-xs font-normal text-gray-500 mt-1">{purpose.description}</span>
+                      </span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </section>
+
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">2. What must appear on it?</h2>
+                <Tabs value={mode} onValueChange={(value) => setMode(value as 'fields' | 'text')}>
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="fields">Tick the lines</TabsTrigger>
+                    <TabsTrigger value="text">Paste my text</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="fields">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {stampTextFields.map(field => (
+                        <div key={field.id} className="flex items-start gap-2">
+                          <Checkbox
+                            id={`field-${field.id}`}
+                            checked={fieldIds.includes(field.id)}
+                            onCheckedChange={(checked) => toggleField(field.id, checked === true)}
+                            className="mt-0.5"
+                          />
+                          <Label htmlFor={`field-${field.id}`} className="cursor-pointer">
+                            <span className="block">{field.label}</span>
+                            <span className="block text-xs font-normal text-gray-500">{field.example}</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="text">
+                    <Label htmlFor="stampText">Your text, one line per stamp line</Label>
+                    <Textarea
+                      id="stampText"
+                      value={pastedText}
+                      onChange={(e) => setPastedText(e.target.value)}
+                      rows={7}
+                      placeholder={'SARL Atlas Négoce\n45, Bd Zerktouni, 3e étage\n20000 Casablanca\nICE : 001234567000089'}
+                      className="mt-1"
+                    />
+                  </TabsContent>
+                </Tabs>
+              </section>
+
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">3. Any preferred shape?</h2>
+                <RadioGroup value={shape} onValueChange={(value) => setShape(value as ShapeChoice)} className="flex flex-wrap gap-4">
+                  {shapeOptions.map(option => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <RadioGroupItem value={option.value} id={`shape-${option.value}`} />
+                      <Label htmlFor={`shape-${option.value}`} className="cursor-pointer">{option.label}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </section>
+            </div>
+
+            <div aria-live="polite">
+              {requirements ? (
+                <RecommendationList
+                  requirements={requirements}
+                  recommendations={recommendations}
+                  warnings={mode === 'text' ? textResult?.warnings : undefined}
+                />
+              ) : (
+                <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+                  {mode === 'text'
+                    ? 'Paste the text of your stamp to see which stamps fit it.'
+                    : 'Tick at least one line of text to see which stamps fit it.'}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default StampFinder;
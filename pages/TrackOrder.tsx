@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import Navbar from '../components/Navbar';
+import Footer from '../components/Footer';
+import { Check, Circle, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Order } from '../types';
+import { orderTrackingService } from '@/services/OrderTrackingService';
+import { shippingService } from '@/services/ShippingService';
+
+const formatTimestamp = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const TrackOrder = () => {
+  const [searchParams] = useSearchParams();
+  const [orderId, setOrderId] = useState(searchParams.get('order') || '');
+  const [contact, setContact] = useState('');
+  const [order, setOrder] = useState<Order | null>(null);
+  const [error, setError] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderId.trim() || !contact.trim()) {
+      setError('Please enter your order number and the email or phone number used to order.');
+      return;
+    }
+    
+    setIsSearching(true);
+    setError('');
+    try {
+      const found = await orderTrackingService.findOrder(orderId, contact);
+      setOrder(found);
+      if (!found) {
+        setError("We couldn't find an order with these details. Please check your order number and contact details.");
+      }
+    } catch (searchError) {
+      console.error('Error tracking order:', searchError);
+      setError('Something went wrong while looking up your order. Please try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const timeline = order ? orderTrackingService.getTimeline(order) : [];
+  const currentStep = timeline.find(entry => entry.state === 'current');
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+      
+      <main className="flex-grow py-8 bg-gray-50">
+        <div className="container-custom max-w-3xl">
+          <h1 className="text-3xl font-bold text-gray-800 mb-3">Track Your Order</h1>
+          <p className="text-gray-600 mb-6">
+            Enter your order number and the email address or phone number you used at checkout.
+          </p>
+          
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="orderId">Order Number</Label>
+                <Input
+                  id="orderId"
+                  value={orderId}
+                  onChange={(e) => setOrderId(e.target.value)}
+                  placeholder="ORD-1234567"
+                />
+              </div>
+              <div>
+                <Label htmlFor="contact">Email or Phone</Label>
+                <Input
+                  id="contact"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  placeholder="you@example.com or 06 12 34 56 78"
+                />
+              </div>
+            </div>
+            {error && (
+              <p className="text-destructive text-sm mt-3">{error}</p>
+            )}
+            <div className="mt-4 flex justify-end">
+              <Button type="submit" disabled={isSearching} className="gap-2">
+                <Search size={16} />
+                {isSearching ? 'Searching...' : 'Track Order'}
+              </Button>
+            </div>
+          </form>
+          
+          {order && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex flex-col md:flex-row justify-between gap-4 border-b pb-4 mb-6">
+                <div>
+                  <p className="text-sm text-gray-500">Order Number</p>
+                  <p className="font-medium">{order.id}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Status</p>
+                  <p className="font-medium text-brand-blue">{currentStep?.label}</p>
+                </div>
+                {order.shippingMethod?.estimatedDelivery && (
+                  <div>
+                    <p className="text-sm text-gray-500">
+                      {order.shippingMethod.isPickup ? 'Ready from' : 'Estimated delivery'}
+                    </p>
+                    <p className="font-medium">
+                      {shippingService.formatDeliveryEstimate(order.shippingMethod.estimatedDelivery)}
+                    </p>
+                  </div>
+                )}
+                {order.trackingNumber && (
+                  <div>
+                    <p className="text-sm text-gray-500">{order.shippingMethod?.name} tracking number</p>
+                    <p className="font-medium font-mono">{order.trackingNumber}</p>
+                  </div>
+                )}
+              </div>
+              
+              <ol className="relative border-l-2 border-gray-200 ml-3">
+                {timeline.map((entry, index) => {
+                  const isDone = entry.state === 'complete' || (entry.state === 'current' && index === timeline.length - 1);
+                  
+                  return (
+                    <li key={entry.status} className="mb-6 ml-6 last:mb-0">
+                      <span
+                        className={`absolute -left-[13px] flex items-center justify-center w-6 h-6 rounded-full ${
+                          isDone
+                            ? 'bg-green-600 text-white'
+                            : entry.state === 'current'
+                              ? 'bg-brand-blue text-white'
+                              : 'bg-gray-200 text-gray-400'
+                        }`}
+                      >
+                        {isDone ? <Check size={14} /> : <Circle size={8} fill="currentColor" />}
+                      </span>
+                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-baseline gap-1">
+                        <h3 className={`font-medium ${entry.state === 'upcoming' ? 'text-gray-400' : 'text-gray-800'}`}>
+                          {entry.label}
+                        </h3>
+                        {entry.date && (
+                          <time dateTime={entry.date} className="text-sm text-gray-500">
+                            {formatTimestamp(entry.date)}
+                          </time>
+                        )}
+                      </div>
+                      {entry.state !== 'upcoming' && (
+                        <p className="text-sm text-gray-600">{entry.note || entry.description}</p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+              
+              <div className="mt-6 pt-4 border-t text-sm text-gray-600">
+                Questions about your order? <Link to="/contact" className="text-brand-blue hover:underline">Contact us</Link>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+};
+
+export default TrackOrder;
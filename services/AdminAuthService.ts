@@ -0,0 +1,45 @@
+const SESSION_STORAGE_KEY = 'cachet-admin-session';
+// Passcode used in development when VITE_ADMIN_PASSCODE is not set
+const DEV_PASSCODE = 'admin';
+
+/**
+ * Passcode gate of the back-office. VITE_ADMIN_PASSCODE is compiled into the public
+ * bundle, so anyone can read it: the gate only keeps the admin pages out of sight,
+ * and an orders or catalogue API must check staff credentials on its side.
+ */
+export class AdminAuthService {
+  private getPasscode(): string | undefined {
+    return import.meta.env.VITE_ADMIN_PASSCODE || (import.meta.env.DEV ? DEV_PASSCODE : undefined);
+  }
+
+  /**
+   * The back-office is disabled in production builds without a passcode
+   */
+  public isEnabled(): boolean {
+    return !!this.getPasscode();
+  }
+
+  public isSignedIn(): boolean {
+    try {
+      return this.isEnabled() && sessionStorage.getItem(SESSION_STORAGE_KEY) === 'true';
+    } catch (error) {
+      console.error('Error reading admin session:', error);
+      return false;
+    }
+  }
+
+  public signIn(passcode: string): boolean {
+    const expected = this.getPasscode();
+    if (!expected || passcode !== expected) return false;
+
+    sessionStorage.setItem(SESSION_STORAGE_KEY, 'true');
+    return true;
+  }
+
+  public signOut(): void {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+// Export a singleton instance
+export const adminAuthService = new AdminAuthService();
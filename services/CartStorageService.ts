@@ -0,0 +1,341 @@
+import { CartItem, Product, ProductVariant, StampDesign } from '@/types';
+import { catalogRepository } from './CatalogRepository';
+import { productVariantService } from './ProductVariantService';
+
+const CART_STORAGE_KEY = 'cachet-cart';
+const CART_SCHEMA_VERSION = 2;
+const DB_NAME = 'cachet-maroc';
+const DB_VERSION = 2;
+const IMAGE_STORE = 'cart-preview-images';
+const DESIGN_STORE = 'cart-designs';
+// Assets younger than this are kept even when no saved cart uses them, as another tab
+// may have written them for a cart it has not saved yet
+const ASSET_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+type AssetStore = typeof IMAGE_STORE | typeof DESIGN_STORE;
+
+/**
+ * Cart line as persisted in localStorage: preview images and design snapshots
+ * are stored in IndexedDB and referenced by id to stay clear of the localStorage quota
+ */
+interface StoredCartItem {
+  id: string;
+  productId: string;
+  product: Product;
+  quantity: number;
+  customText?: string;
+  inkColor?: string;
+  bundleId?: string;
+  variant?: ProductVariant;
+  previewImageId?: string;
+  designId?: string;
+  // Only used when IndexedDB is not available
+  previewImage?: string;
+  design?: StampDesign;
+}
+
+interface StoredCart {
+  version: number;
+  updatedAt: string;
+  items: StoredCartItem[];
+}
+
+// Upgrade a persisted cart from the given version to the next one
+type CartMigration = (data: unknown) => Promise<unknown>;
+
+export class CartStorageService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Stored values by store and id, and ids by store and value, to avoid rewriting unchanged assets
+  private assetCache: Record<AssetStore, Map<string, string>> = { [IMAGE_STORE]: new Map(), [DESIGN_STORE]: new Map() };
+  private assetIds: Record<AssetStore, Map<string, string>> = { [IMAGE_STORE]: new Map(), [DESIGN_STORE]: new Map() };
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  private migrations: Record<number, CartMigration> = {
+    // Unversioned carts were a plain array of cart items with inline preview images
+    0: async (items) => ({
+      version: 1,
+      updatedAt: new Date().toISOString(),
+      items: Array.isArray(items) ? items : []
+    }),
+    // Version 2 gives every cart line its own id
+    1: async (data) => {
+      const cart = data as StoredCart;
+      return {
+        ...cart,
+        version: 2,
+        items: (cart.items || []).map(item => ({ ...item, id: item.id || this.createLineId() }))
+      };
+    }
+  };
+
+  /**
+   * Create a unique cart line id
+   */
+  public createLineId(): string {
+    return `line-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+  }
+
+  /**
+   * Load the persisted cart, running schema migrations when needed
+   */
+  public async loadCart(): Promise<CartItem[]> {
+    let raw: string | null = null;
+    try {
+      raw = localStorage.getItem(CART_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error reading saved cart:', error);
+    }
+    if (!raw) return [];
+
+    try {
+      let data: unknown = JSON.parse(raw);
+      let version = Array.isArray(data) ? 0 : Number((data as Partial<StoredCart>)?.version) || 0;
+
+      if (version > CART_SCHEMA_VERSION) {
+        console.warn(`Saved cart uses unknown schema version ${version}, ignoring it`);
+        return [];
+      }
+
+      const needsMigration = version < CART_SCHEMA_VERSION;
+      while (version < CART_SCHEMA_VERSION) {
+        const migrate = this.migrations[version];
+        if (!migrate) throw new Error(`No cart migration from version ${version}`);
+        data = await migrate(data);
+        version++;
+      }
+      if (needsMigration) {
+        this.writeCart(data as StoredCart);
+      }
+
+      return this.toCartItems((data as StoredCart).items || []);
+    } catch (error) {
+      console.error('Error loading saved cart:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Persist the cart; saves are serialised so a slow IndexedDB write never lands after a newer cart
+   */
+  public saveCart(items: CartItem[]): Promise<void> {
+    this.saveQueue = this.saveQueue
+      .then(async () => {
+        // Assets are written first so other tabs can resolve them once the cart changes
+        const storedItems = await this.toStoredItems(items);
+        this.writeCart({
+          version: CART_SCHEMA_VERSION,
+          updatedAt: new Date().toISOString(),
+          items: storedItems
+        });
+        await this.removeUnusedAssets(storedItems);
+      })
+      .catch(error => console.error('Error saving cart:', error));
+
+    return this.saveQueue;
+  }
+
+  /**
+   * Listen for cart changes made in other tabs; returns an unsubscribe function
+   */
+  public subscribe(listener: (items: CartItem[]) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== CART_STORAGE_KEY) return;
+      this.loadCart().then(listener);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  private writeCart(cart: StoredCart): void {
+    try {
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart));
+    } catch (error) {
+      // Most likely the quota: keep the cart lines and drop inline images and designs
+      console.error('Error writing cart, retrying without inline assets:', error);
+      const items = cart.items.map(({ previewImage: _previewImage, design: _design, ...item }) => item);
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify({ ...cart, items }));
+    }
+  }
+
+  private async toStoredItems(items: CartItem[]): Promise<StoredCartItem[]> {
+    const db = await this.openDatabase();
+
+    return Promise.all(items.map(async ({ previewImage, design, ...item }) => {
+      const stored: StoredCartItem = { ...item };
+
+      if (previewImage) {
+        const previewImageId = db ? await this.storeAsset(db, IMAGE_STORE, previewImage) : null;
+        if (previewImageId) stored.previewImageId = previewImageId;
+        else stored.previewImage = previewImage;
+      }
+
+      if (design) {
+        const designId = db ? await this.storeAsset(db, DESIGN_STORE, JSON.stringify(design)) : null;
+        if (designId) stored.designId = designId;
+        else stored.design = design;
+      }
+
+      return stored;
+    }));
+  }
+
+  private async toCartItems(items: StoredCartItem[]): Promise<CartItem[]> {
+    const db = await this.openDatabase();
+
+    return Promise.all(items.map(async ({ previewImageId, designId, previewImage, design, ...item }) => {
+      // Refresh the product so prices and stock follow the catalogue
+      const product = catalogRepository.getProductById(item.productId) || item.product;
+      const variant = item.variant ? productVariantService.getVariantBySku(product, item.variant.sku) || item.variant : undefined;
+      const image = previewImageId && db ? await this.loadAsset(db, IMAGE_STORE, previewImageId) : previewImage;
+      const designJson = designId && db ? await this.loadAsset(db, DESIGN_STORE, designId) : undefined;
+
+      return {
+        ...item,
+        product: productVariantService.applyVariant(product, variant),
+        variant,
+        previewImage: image,
+        design: designJson ? JSON.parse(designJson) as StampDesign : design
+      };
+    }));
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+            [IMAGE_STORE, DESIGN_STORE].forEach(storeName => {
+              if (!request.result.objectStoreNames.contains(storeName)) {
+                request.result.createObjectStore(storeName);
+              }
+            });
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.error('Error opening cart database:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.error('IndexedDB unavailable:', error);
+          resolve(null);
+        }
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private runRequest<T>(
+    db: IDBDatabase,
+    storeName: AssetStore,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async storeAsset(db: IDBDatabase, storeName: AssetStore, value: string): Promise<string | null> {
+    // The asset may have been cleaned up by another tab since it was cached
+    const existingId = this.assetIds[storeName].get(value);
+    if (existingId && await this.hasAsset(db, storeName, existingId)) return existingId;
+
+    const id = `${storeName}-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+    try {
+      await this.runRequest(db, storeName, 'readwrite', store => store.put(value, id));
+      this.rememberAsset(storeName, id, value);
+      return id;
+    } catch (error) {
+      console.error(`Error writing to ${storeName}:`, error);
+      return null;
+    }
+  }
+
+  private async loadAsset(db: IDBDatabase, storeName: AssetStore, id: string): Promise<string | undefined> {
+    const cached = this.assetCache[storeName].get(id);
+    if (cached) return cached;
+
+    try {
+      const value = await this.runRequest<string | undefined>(db, storeName, 'readonly', store => store.get(id));
+      if (value) this.rememberAsset(storeName, id, value);
+      return value;
+    } catch (error) {
+      console.error(`Error reading from ${storeName}:`, error);
+      return undefined;
+    }
+  }
+
+  private async hasAsset(db: IDBDatabase, storeName: AssetStore, id: string): Promise<boolean> {
+    try {
+      return (await this.runRequest(db, storeName, 'readonly', store => store.getKey(id))) !== undefined;
+    } catch (error) {
+      console.error(`Error reading from ${storeName}:`, error);
+      return false;
+    }
+  }
+
+  private rememberAsset(storeName: AssetStore, id: string, value: string): void {
+    this.assetCache[storeName].set(id, value);
+    this.assetIds[storeName].set(value, id);
+  }
+
+  /**
+   * Delete the assets no saved cart refers to, once they are past the grace period
+   */
+  private async removeUnusedAssets(items: StoredCartItem[]): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    // Another tab may have saved its cart since this one was written
+    const usedIds = new Set([...items, ...this.readStoredItems()]
+      .flatMap(item => [item.previewImageId, item.designId])
+      .filter(Boolean));
+    const cutoff = Date.now() - ASSET_GRACE_PERIOD_MS;
+
+    for (const storeName of [IMAGE_STORE, DESIGN_STORE] as AssetStore[]) {
+      const keys = await this.runRequest(db, storeName, 'readonly', store => store.getAllKeys());
+
+      await Promise.all(keys
+        .filter(key => !usedIds.has(String(key)) && this.getAssetCreatedAt(storeName, String(key)) < cutoff)
+        .map(key => {
+          const value = this.assetCache[storeName].get(String(key));
+          this.assetCache[storeName].delete(String(key));
+          if (value) this.assetIds[storeName].delete(value);
+          return this.runRequest(db, storeName, 'readwrite', store => store.delete(key));
+        }));
+    }
+  }
+
+  /**
+   * Creation time encoded in an asset id by storeAsset; 0 for ids it cannot read
+   */
+  private getAssetCreatedAt(storeName: AssetStore, id: string): number {
+    return Number(id.slice(storeName.length + 1).split('-')[0]) || 0;
+  }
+
+  /**
+   * Lines of the cart currently in localStorage, without migrating or resolving them
+   */
+  private readStoredItems(): StoredCartItem[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || '{}') as Partial<StoredCart>;
+      return Array.isArray(saved.items) ? saved.items : [];
+    } catch (error) {
+      console.error('Error reading saved cart:', error);
+      return [];
+    }
+  }
+}
+
+// Export a singleton instance
+export const cartStorageService = new CartStorageService();
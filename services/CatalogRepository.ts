@@ -0,0 +1,168 @@
+import { Product } from '@/types';
+import { StampTemplate } from '@/types/designTemplates';
+import { products as defaultProducts } from '@/data/products';
+import { getAllTemplates } from '@/data/stampTemplates';
+
+/**
+ * Where the back-office keeps the edited catalogue. Loading returns null while
+ * nothing has been saved, so the catalogue shipped in data/ is used.
+ */
+export interface CatalogStorageAdapter {
+  loadProducts(): Promise<Product[] | null>;
+  saveProducts(products: Product[]): Promise<void>;
+  loadTemplates(): Promise<StampTemplate[] | null>;
+  saveTemplates(templates: StampTemplate[]): Promise<void>;
+}
+
+const PRODUCTS_STORAGE_KEY = 'cachet-catalog-products';
+const TEMPLATES_STORAGE_KEY = 'cachet-catalog-templates';
+
+/**
+ * Keeps the catalogue in localStorage, for running the back-office without a server
+ */
+export class LocalCatalogStorageAdapter implements CatalogStorageAdapter {
+  public async loadProducts(): Promise<Product[] | null> {
+    return this.read<Product[]>(PRODUCTS_STORAGE_KEY);
+  }
+
+  public async saveProducts(products: Product[]): Promise<void> {
+    localStorage.setItem(PRODUCTS_STORAGE_KEY, JSON.stringify(products));
+  }
+
+  public async loadTemplates(): Promise<StampTemplate[] | null> {
+    return this.read<StampTemplate[]>(TEMPLATES_STORAGE_KEY);
+  }
+
+  public async saveTemplates(templates: StampTemplate[]): Promise<void> {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  }
+
+  private read<T>(key: string): T | null {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error(`Error reading ${key}:`, error);
+      return null;
+    }
+  }
+}
+
+type CatalogListener = () => void;
+
+/**
+ * Products and design templates, as edited in the back-office. Reads are synchronous
+ * from memory so the storefront can keep looking products up by id.
+ */
+export class CatalogRepository {
+  private products: Product[] = defaultProducts;
+  private templates: StampTemplate[] = getAllTemplates();
+  private loadPromise: Promise<void> | null = null;
+  private listeners: Set<CatalogListener> = new Set();
+
+  constructor(private adapter: CatalogStorageAdapter) {}
+
+  /**
+   * Switch to another storage backend; the catalogue is loaded again on next use
+   */
+  public setAdapter(adapter: CatalogStorageAdapter): void {
+    this.adapter = adapter;
+    this.loadPromise = null;
+  }
+
+  /**
+   * Load the saved catalogue once
+   */
+  public load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = Promise.all([this.adapter.loadProducts(), this.adapter.loadTemplates()])
+        .then(([products, templates]) => {
+          if (products) this.products = products;
+          if (templates) this.templates = templates;
+          this.notify();
+        })
+        .catch(error => console.error('Error loading catalogue:', error));
+    }
+    return this.loadPromise;
+  }
+
+  public getProducts(): Product[] {
+    return this.products;
+  }
+
+  public getProductById(id: string): Product | undefined {
+    return this.products.find(product => product.id === id);
+  }
+
+  public getTemplates(): StampTemplate[] {
+    return this.templates;
+  }
+
+  public getTemplateById(id: string): StampTemplate | undefined {
+    return this.templates.find(template => template.id === id);
+  }
+
+  /**
+   * Create or update a product
+   */
+  public async saveProduct(product: Product): Promise<void> {
+    const exists = this.products.some(item => item.id === product.id);
+    this.products = exists
+      ? this.products.map(item => (item.id === product.id ? product : item))
+      : [...this.products, product];
+    await this.adapter.saveProducts(this.products);
+    this.notify();
+  }
+
+  /**
+   * Stock left after a storefront order. Kept in memory only: saving it would store a
+   * copy of the whole catalogue in the customer's browser, which later loads would
+   * prefer over the catalogue shipped with the site.
+   */
+  public updateStock(products: Product[]): void {
+    const updated = new Map(products.map(product => [product.id, product]));
+    this.products = this.products.map(product => updated.get(product.id) || product);
+    this.notify();
+  }
+
+  public async deleteProduct(id: string): Promise<void> {
+    this.products = this.products.filter(product => product.id !== id);
+    await this.adapter.saveProducts(this.products);
+    this.notify();
+  }
+
+  /**
+   * Create or update a template
+   */
+  public async saveTemplate(template: StampTemplate): Promise<void> {
+    const exists = this.templates.some(item => item.id === template.id);
+    this.templates = exists
+      ? this.templates.map(item => (item.id === template.id ? template : item))
+      : [...this.templates, template];
+    await this.adapter.saveTemplates(this.templates);
+    this.notify();
+  }
+
+  public async deleteTemplate(id: string): Promise<void> {
+    this.templates = this.templates.filter(template => template.id !== id);
+    await this.adapter.saveTemplates(this.templates);
+    this.notify();
+  }
+
+  /**
+   * Listen for catalogue changes; returns an unsubscribe function
+   */
+  public subscribe(listener: CatalogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export a singleton instance
+export const catalogRepository = new CatalogRepository(new LocalCatalogStorageAdapter());
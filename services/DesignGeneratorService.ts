@@ -8,7 +8,7 @@ import {
   ContentPattern
 } from '@/types/designTemplates';
 import { StampDesign, StampTextLine } from '@/types';
-import { getAllTemplates, getTemplateById, getTemplatesByShape, getTemplatesByPurpose } from '@/data/stampTemplates';
+import { catalogRepository } from './CatalogRepository';
 
 /**
  * Service for generating stamp design suggestions based on templates
@@ -114,7 +114,7 @@ class DesignGeneratorService {
     const suggestions: GeneratedDesign[] = [];
     
     // Get templates suitable for this design
-    let templates = getAllTemplates();
+    let templates = catalogRepository.getTemplates();
     
     // Apply shape filter if provided
     if (shapeFilter) {
@@ -299,7 +299,7 @@ class DesignGeneratorService {
    * Generate design variations based on a specific design
    */
   generateDesignVariations(baseDesign: StampDesign, templateId: string, count: number = 3): GeneratedDesign[] {
-    const template = getTemplateById(templateId);
+    const template = catalogRepository.getTemplateById(templateId);
     const variations: GeneratedDesign[] = [];
     
     if (!template) {
@@ -0,0 +1,192 @@
+import { CartItem, Product, ProductVariant, StockAvailability } from '@/types';
+import { catalogRepository } from './CatalogRepository';
+import { productVariantService } from './ProductVariantService';
+
+export interface CartStockIssue {
+  lineId: string;
+  message: string;
+}
+
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+const SCHEMA_AVAILABILITY: Record<StockAvailability['status'], string> = {
+  in_stock: 'https://schema.org/InStock',
+  low_stock: 'https://schema.org/LimitedAvailability',
+  backorder: 'https://schema.org/BackOrder',
+  out_of_stock: 'https://schema.org/OutOfStock'
+};
+
+/**
+ * Stock levels of the catalogue, per product or per ink colour. Products without
+ * stock figures are made to order and always available.
+ */
+export class InventoryService {
+  /**
+   * Units on hand of a variant, or for one ink colour when the product tracks stock
+   * per ink; undefined when stock is not tracked
+   */
+  public getAvailableQuantity(product: Product, inkColor?: string, variant?: ProductVariant): number | undefined {
+    if (variant?.stock !== undefined) return variant.stock;
+    if (product.inkStock) {
+      if (inkColor) return product.inkStock[inkColor] ?? 0;
+      return Object.values(product.inkStock).reduce((total, quantity) => total + quantity, 0);
+    }
+    return product.stock;
+  }
+
+  /**
+   * Whether the quantity can be ordered now, only with a lead time, or not at all
+   */
+  public getAvailability(product: Product, inkColor?: string, quantity: number = 1, variant?: ProductVariant): StockAvailability {
+    const available = this.getAvailableQuantity(product, inkColor, variant);
+    if (available === undefined) return { status: 'in_stock' };
+
+    if (available >= quantity) {
+      const threshold = product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD;
+      return { status: available <= threshold ? 'low_stock' : 'in_stock', available };
+    }
+
+    if (product.backorderLeadDays !== undefined) {
+      return { status: 'backorder', available, leadDays: product.backorderLeadDays };
+    }
+    return { status: 'out_of_stock', available };
+  }
+
+  /**
+   * Availability of a variant, taking its ink colour into account
+   */
+  public getVariantAvailability(product: Product, variant?: ProductVariant): StockAvailability {
+    return this.getAvailability(product, variant?.options.inkColor, 1, variant);
+  }
+
+  /**
+   * Best availability over the product's variants or ink colours, for listings
+   */
+  public getProductAvailability(product: Product): StockAvailability {
+    let availabilities: StockAvailability[] = [];
+    if (productVariantService.hasVariants(product)) {
+      availabilities = product.variants.map(variant => this.getVariantAvailability(product, variant));
+    } else if (product.inkStock) {
+      availabilities = product.inkColors.map(inkColor => this.getAvailability(product, inkColor));
+    }
+
+    const order: StockAvailability['status'][] = ['in_stock', 'low_stock', 'backorder', 'out_of_stock'];
+    return availabilities.sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))[0]
+      || this.getAvailability(product);
+  }
+
+  public isPurchasable(availability: StockAvailability): boolean {
+    return availability.status !== 'out_of_stock';
+  }
+
+  /**
+   * Short label, e.g. "Only 3 left" or "Back-order, ships in 10 days"
+   */
+  public getLabel(availability: StockAvailability): string {
+    switch (availability.status) {
+      case 'low_stock':
+        return `Only ${availability.available} left`;
+      case 'backorder':
+        return `Back-order, ships in ${availability.leadDays} business days`;
+      case 'out_of_stock':
+        return 'Out of stock';
+      default:
+        return 'In stock';
+    }
+  }
+
+  public getSchemaAvailability(product: Product): string {
+    return SCHEMA_AVAILABILITY[this.getProductAvailability(product).status];
+  }
+
+  /**
+   * Availability of each cart line against the current catalogue. Lines of the
+   * same product and ink colour share its stock.
+   */
+  public getCartAvailability(items: CartItem[]): Map<string, StockAvailability> {
+    const quantities = new Map<string, number>();
+    items.forEach(item => {
+      const key = this.getStockKey(item);
+      quantities.set(key, (quantities.get(key) || 0) + item.quantity);
+    });
+
+    return new Map(items.map(item => [
+      item.id,
+      this.getAvailability(
+        this.getCurrentProduct(item),
+        item.inkColor,
+        quantities.get(this.getStockKey(item)),
+        productVariantService.getCurrentVariant(item)
+      )
+    ]));
+  }
+
+  /**
+   * Lines that cannot be ordered, which block the checkout
+   */
+  public getCartIssues(items: CartItem[]): CartStockIssue[] {
+    const availability = this.getCartAvailability(items);
+
+    return items
+      .filter(item => !this.isPurchasable(availability.get(item.id)))
+      .map(item => {
+        const available = availability.get(item.id).available || 0;
+        const name = item.variant
+          ? `${item.product.name} (${item.variant.sku})`
+          : item.inkColor ? `${item.product.name} (${item.inkColor} ink)` : item.product.name;
+        return {
+          lineId: item.id,
+          message: available > 0
+            ? `Only ${available} ${name} left in stock`
+            : `${name} is out of stock`
+        };
+      });
+  }
+
+  /**
+   * Longest back-order lead time in the cart, in business days
+   */
+  public getCartLeadDays(items: CartItem[]): number {
+    return Array.from(this.getCartAvailability(items).values())
+      .reduce((leadDays, availability) => Math.max(leadDays, availability.leadDays || 0), 0);
+  }
+
+  /**
+   * Take the ordered units out of the stock shown in this browser; back-ordered units
+   * bring it down to zero
+   */
+  public commitOrder(items: CartItem[]): void {
+    const updatedProducts = new Map<string, Product>();
+
+    items.forEach(item => {
+      const product = updatedProducts.get(item.productId) || catalogRepository.getProductById(item.productId);
+      if (!product) return;
+      const variant = productVariantService.getVariantBySku(product, item.variant?.sku);
+      if (variant?.stock !== undefined) {
+        const variants = product.variants.map(entry =>
+          entry.sku === variant.sku ? { ...entry, stock: Math.max(0, variant.stock - item.quantity) } : entry
+        );
+        updatedProducts.set(product.id, { ...product, variants });
+      } else if (product.inkStock && item.inkColor) {
+        const remaining = Math.max(0, (product.inkStock[item.inkColor] ?? 0) - item.quantity);
+        updatedProducts.set(product.id, { ...product, inkStock: { ...product.inkStock, [item.inkColor]: remaining } });
+      } else if (product.stock !== undefined) {
+        updatedProducts.set(product.id, { ...product, stock: Math.max(0, product.stock - item.quantity) });
+      }
+    });
+
+    catalogRepository.updateStock(Array.from(updatedProducts.values()));
+  }
+
+  private getCurrentProduct(item: CartItem): Product {
+    return catalogRepository.getProductById(item.productId) || item.product;
+  }
+
+  private getStockKey(item: CartItem): string {
+    if (productVariantService.getCurrentVariant(item)?.stock !== undefined) return `${item.productId}:${item.variant.sku}`;
+    return this.getCurrentProduct(item).inkStock ? `${item.productId}:${item.inkColor}` : item.productId;
+  }
+}
+
+// Export a singleton instance
+export const inventoryService = new InventoryService();
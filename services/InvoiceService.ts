@@ -0,0 +1,493 @@
+import { CartItem, CompanyDetails, Order } from '@/types';
+import { companyInfo, getMissingCompanyIdentifiers } from '@/data/company';
+import { orderRepository } from '@/services/OrderRepository';
+import { pricingService } from '@/services/PricingService';
+import { taxService } from '@/services/TaxService';
+import { formatIce } from '@/utils/companyIdentifiers';
+import { PdfDocument, PdfImage, PdfPage, loadImageAsJpeg } from '@/utils/pdfWriter';
+
+const QUOTE_NUMBERING_STORAGE_KEY = 'invoiceNumbering';
+const QUOTE_VALIDITY_DAYS = 30;
+
+export type SalesDocumentType = 'invoice' | 'proforma' | 'quote';
+
+export interface QuoteRequest {
+  items: CartItem[];
+  customerName?: string;
+  email?: string;
+  company?: CompanyDetails;
+  promoCode?: string;
+  discount?: number;
+  shipping?: number;
+}
+
+export interface SalesDocument {
+  type: SalesDocumentType;
+  number: string;
+  fileName: string;
+  blob: Blob;
+}
+
+interface NumberingState {
+  // Last quote number used per year, e.g. { "DV-2026": 12 }
+  counters: Record<string, number>;
+}
+
+interface DocumentData {
+  type: SalesDocumentType;
+  number: string;
+  date: Date;
+  customerName?: string;
+  email?: string;
+  shippingAddress?: string;
+  company?: CompanyDetails;
+  items: CartItem[];
+  promoCode?: string;
+  discount: number;
+  shipping: number;
+  shippingLabel?: string;
+  paymentFee: number;
+  paymentMethod?: string;
+  paymentStatus?: 'paid' | 'pending';
+  paymentReference?: string;
+  orderId?: string;
+}
+
+// Page layout, in millimetres
+const MARGIN = 15;
+const CONTENT_RIGHT = 195;
+const PAGE_BOTTOM = 265;
+const BRAND_BLUE = '#004AAD';
+const TEXT_GRAY = '#555555';
+const BORDER_GRAY = '#DDDDDD';
+
+const COLUMNS = {
+  preview: MARGIN,
+  designation: 35,
+  quantity: 122,
+  unitPrice: 146,
+  totalHt: 170,
+  totalTtc: CONTENT_RIGHT
+};
+
+const documentTitles: Record<SalesDocumentType, string> = {
+  invoice: 'FACTURE',
+  proforma: 'FACTURE PRO FORMA',
+  quote: 'DEVIS'
+};
+
+const documentFileNames: Record<SalesDocumentType, string> = {
+  invoice: 'facture',
+  proforma: 'proforma',
+  quote: 'devis'
+};
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString('fr-FR', { year: 'numeric', month: '2-digit', day: '2-digit' });
+
+const paymentMethodLabels: Record<string, string> = {
+  cash_on_delivery: 'Paiement à la livraison',
+  cmi: 'Carte bancaire (CMI)',
+  credit_card: 'Carte bancaire',
+  paypal: 'PayPal',
+  bank_transfer: 'Virement bancaire',
+  mock_gateway: 'Paiement test'
+};
+
+export class InvoiceService {
+  /**
+   * Build the numbered invoice of a placed order. The number is kept on the order,
+   * so downloading it again reuses the number issued the first time.
+   */
+  public async generateInvoice(order: Order): Promise<SalesDocument> {
+    this.assertCompanyIdentifiers();
+    this.assertInvoiceNumbering();
+    const { invoiceNumber } = await orderRepository.assignInvoiceNumber(order);
+    return this.renderOrder(order, 'invoice', invoiceNumber);
+  }
+
+  /**
+   * Build a pro-forma invoice of a placed order, numbered after the order. It has no
+   * legal value and is offered where invoice numbers cannot be issued.
+   */
+  public async generateProforma(order: Order): Promise<SalesDocument> {
+    this.assertCompanyIdentifiers();
+    return this.renderOrder(order, 'proforma', `PF-${order.id}`);
+  }
+
+  /**
+   * Build a quote from the cart, before any payment
+   */
+  public async generateQuote(request: QuoteRequest): Promise<SalesDocument> {
+    this.assertCompanyIdentifiers();
+    const date = new Date();
+
+    return this.render({
+      type: 'quote',
+      number: this.nextNumber('DV', date),
+      date,
+      customerName: request.customerName,
+      email: request.email,
+      company: request.company,
+      items: request.items,
+      promoCode: request.promoCode,
+      discount: request.discount || 0,
+      shipping: request.shipping || 0,
+      paymentFee: 0
+    });
+  }
+
+  public async downloadInvoice(order: Order): Promise<SalesDocument> {
+    const salesDocument = await this.generateInvoice(order);
+    this.download(salesDocument);
+    return salesDocument;
+  }
+
+  public async downloadProforma(order: Order): Promise<SalesDocument> {
+    const salesDocument = await this.generateProforma(order);
+    this.download(salesDocument);
+    return salesDocument;
+  }
+
+  public async downloadQuote(request: QuoteRequest): Promise<SalesDocument> {
+    const salesDocument = await this.generateQuote(request);
+    this.download(salesDocument);
+    return salesDocument;
+  }
+
+  /**
+   * Trigger a download of a generated document
+   */
+  public download(salesDocument: SalesDocument): void {
+    const url = URL.createObjectURL(salesDocument.blob);
+
+    const link = document.createElement('a');
+    link.download = salesDocument.fileName;
+    link.href = url;
+    link.click();
+
+    // Give the browser time to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Whether the company's legal identifiers are configured, without which
+   * invoices and quotes are not valid documents
+   */
+  public canIssueDocuments(): boolean {
+    return getMissingCompanyIdentifiers().length === 0;
+  }
+
+  /**
+   * Whether numbered invoices can be issued: the numbers of a single sequence shared by
+   * every customer come from the orders API, so without it only pro-formas are offered
+   */
+  public canIssueInvoices(): boolean {
+    return orderRepository.canIssueInvoiceNumbers();
+  }
+
+  private assertInvoiceNumbering(): void {
+    if (!this.canIssueInvoices()) {
+      throw new Error('Invoice numbers are issued by the orders API; set VITE_ORDERS_API_URL');
+    }
+  }
+
+  private assertCompanyIdentifiers(): void {
+    const missing = getMissingCompanyIdentifiers();
+    if (missing.length > 0) {
+      throw new Error(`Company identifiers not configured: ${missing.join(', ')}`);
+    }
+  }
+
+  private nextNumber(prefix: string, date: Date): string {
+    const state = this.loadNumbering();
+    const key = `${prefix}-${date.getFullYear()}`;
+    const next = (state.counters[key] || 0) + 1;
+
+    state.counters[key] = next;
+    this.saveNumbering(state);
+
+    return `${key}-${String(next).padStart(5, '0')}`;
+  }
+
+  private loadNumbering(): NumberingState {
+    try {
+      const saved = localStorage.getItem(QUOTE_NUMBERING_STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : {};
+      return { counters: parsed.counters || {} };
+    } catch (error) {
+      console.error('Error loading quote numbering:', error);
+      return { counters: {} };
+    }
+  }
+
+  private saveNumbering(state: NumberingState): void {
+    try {
+      localStorage.setItem(QUOTE_NUMBERING_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving quote numbering:', error);
+    }
+  }
+
+  private renderOrder(order: Order, type: SalesDocumentType, number: string): Promise<SalesDocument> {
+    return this.render({
+      type,
+      number,
+      date: new Date(order.date),
+      customerName: order.customerName,
+      email: order.email,
+      shippingAddress: order.shippingAddress,
+      company: order.company,
+      items: order.items,
+      promoCode: order.promoCode,
+      discount: order.discount || 0,
+      shipping: order.shipping,
+      shippingLabel: order.shippingMethod?.name,
+      paymentFee: order.paymentFee || 0,
+      paymentMethod: order.paymentMethod,
+      paymentStatus: order.paymentStatus,
+      paymentReference: order.paymentReference,
+      orderId: order.id
+    });
+  }
+
+  private async render(data: DocumentData): Promise<SalesDocument> {
+    const title = documentTitles[data.type];
+    const pdf = new PdfDocument(`${title} ${data.number}`);
+    const previews = await this.loadPreviews(pdf, data.items);
+
+    const pricing = pricingService.priceCart(data.items);
+    const tax = taxService.computeOrderTax({
+      items: data.items,
+      discount: data.discount,
+      shipping: data.shipping,
+      paymentFee: data.paymentFee
+    });
+
+    let page = pdf.addPage();
+    let y = this.drawLetterhead(page, data, title);
+    y = this.drawParties(page, data, y);
+    y = this.drawTableHeader(page, y);
+
+    data.items.forEach((item, index) => {
+      const line = pricing.lines[index];
+      const taxLine = tax.lines[index];
+      const details = [
+        item.product.size,
+        item.inkColor ? `Encre ${item.inkColor}` : '',
+        item.variant ? `Réf. ${item.variant.sku}` : '',
+        item.customText ? `Texte : ${item.customText.replace(/\s*\n\s*/g, ' / ')}` : ''
+      ].filter(Boolean).join(' • ');
+      const detailLines = PdfPage.wrapText(details, COLUMNS.quantity - COLUMNS.designation - 14, 8);
+      const nameLines = PdfPage.wrapText(taxLine.label, COLUMNS.quantity - COLUMNS.designation - 14, 9.5, 'bold');
+      const rowHeight = Math.max(20, (nameLines.length + detailLines.length + (line.tier ? 1 : 0)) * 4.2 + 6);
+
+      if (y + rowHeight > PAGE_BOTTOM) {
+        page = pdf.addPage();
+        y = this.drawTableHeader(page, MARGIN + 5);
+      }
+
+      const preview = previews[index];
+      if (preview) {
+        const scale = Math.min(16 / preview.width, 16 / preview.height);
+        const width = preview.width * scale;
+        const height = preview.height * scale;
+        page.image(preview, COLUMNS.preview + (16 - width) / 2, y + 2 + (16 - height) / 2, width, height);
+      }
+      page.rect(COLUMNS.preview, y + 2, 16, 16, { stroke: BORDER_GRAY });
+
+      let textY = y + 6;
+      nameLines.forEach(text => {
+        page.text(COLUMNS.designation, textY, text, { size: 9.5, font: 'bold' });
+        textY += 4.2;
+      });
+      detailLines.forEach(text => {
+        page.text(COLUMNS.designation, textY, text, { size: 8, color: TEXT_GRAY });
+        textY += 4.2;
+      });
+      if (line.tier) {
+        page.text(COLUMNS.designation, textY, `Remise quantité : ${pricingService.describeTier(line.tier)}`, { size: 8, color: '#15803D' });
+      }
+
+      page.text(COLUMNS.quantity, y + 6, String(item.quantity), { size: 9.5, align: 'right' });
+      page.text(COLUMNS.unitPrice, y + 6, formatAmount(line.lineTotal / item.quantity), { size: 9.5, align: 'right' });
+      page.text(COLUMNS.totalHt, y + 6, formatAmount(taxLine.ht), { size: 9.5, align: 'right' });
+      page.text(COLUMNS.totalTtc, y + 6, formatAmount(taxLine.ttc), { size: 9.5, align: 'right' });
+
+      y += rowHeight;
+      page.line(MARGIN, y, CONTENT_RIGHT, y, { stroke: BORDER_GRAY });
+    });
+
+    // Discount and shipping lines follow the products
+    tax.lines.slice(data.items.length).forEach(taxLine => {
+      if (y + 10 > PAGE_BOTTOM) {
+        page = pdf.addPage();
+        y = this.drawTableHeader(page, MARGIN + 5);
+      }
+
+      const labels: Record<string, string> = {
+        discount: `Remise${data.promoCode ? ` (code ${data.promoCode})` : ''}`,
+        shipping: `Livraison${data.shippingLabel ? ` - ${data.shippingLabel}` : ''}`,
+        payment_fee: `Frais - ${paymentMethodLabels[data.paymentMethod || ''] || 'paiement'}`
+      };
+      const label = labels[taxLine.id] || taxLine.label;
+
+      page.text(COLUMNS.designation, y + 6, label, { size: 9.5 });
+      page.text(COLUMNS.totalHt, y + 6, formatAmount(taxLine.ht), { size: 9.5, align: 'right' });
+      page.text(COLUMNS.totalTtc, y + 6, formatAmount(taxLine.ttc), { size: 9.5, align: 'right' });
+      y += 10;
+      page.line(MARGIN, y, CONTENT_RIGHT, y, { stroke: BORDER_GRAY });
+    });
+
+    if (y + 75 > PAGE_BOTTOM) {
+      page = pdf.addPage();
+      y = MARGIN;
+    }
+
+    // Totals
+    y += 6;
+    const labelX = 130;
+    const ratePercent = Math.round(tax.rate * 100);
+    page.text(labelX, y + 4, 'Total HT', { size: 10 });
+    page.text(CONTENT_RIGHT, y + 4, `${formatAmount(tax.totals.ht)} DHS`, { size: 10, align: 'right' });
+    page.text(labelX, y + 10, `TVA ${ratePercent}%`, { size: 10 });
+    page.text(CONTENT_RIGHT, y + 10, `${formatAmount(tax.totals.tva)} DHS`, { size: 10, align: 'right' });
+    page.rect(labelX - 3, y + 13, CONTENT_RIGHT - labelX + 3, 9, { fill: BRAND_BLUE });
+    page.text(labelX, y + 19, 'Total TTC', { size: 11, font: 'bold', color: '#FFFFFF' });
+    page.text(CONTENT_RIGHT - 2, y + 19, `${formatAmount(tax.totals.ttc)} DHS`, { size: 11, font: 'bold', color: '#FFFFFF', align: 'right' });
+
+    y += 32;
+    this.drawPaymentInstructions(page, data, y, tax.totals.ttc);
+
+    const pageCount = pdf.getPageCount();
+    for (let index = 0; index < pageCount; index++) {
+      this.drawFooter(pdf.getPage(index), index + 1, pageCount);
+    }
+
+    return {
+      type: data.type,
+      number: data.number,
+      fileName: `${documentFileNames[data.type]}-${data.number}.pdf`,
+      blob: pdf.toBlob()
+    };
+  }
+
+  private async loadPreviews(pdf: PdfDocument, items: CartItem[]): Promise<(PdfImage | null)[]> {
+    return Promise.all(items.map(async item => {
+      const source = item.previewImage || item.product.images[0];
+      if (!source) return null;
+
+      const jpeg = await loadImageAsJpeg(source, 240);
+      return jpeg ? pdf.addJpegImage(jpeg.data, jpeg.width, jpeg.height) : null;
+    }));
+  }
+
+  private drawLetterhead(page: PdfPage, data: DocumentData, title: string): number {
+    page.rect(0, 0, 210, 4, { fill: BRAND_BLUE });
+
+    page.text(MARGIN, 20, companyInfo.name, { size: 20, font: 'bold', color: BRAND_BLUE });
+    page.text(MARGIN, 27, companyInfo.address, { size: 9, color: TEXT_GRAY });
+    page.text(MARGIN, 31.5, companyInfo.email, { size: 9, color: TEXT_GRAY });
+    page.text(MARGIN, 36, `ICE : ${formatIce(companyInfo.ice)}  •  IF : ${companyInfo.if}  •  RC : ${companyInfo.rc}`, { size: 8, color: TEXT_GRAY });
+
+    page.text(CONTENT_RIGHT, 20, title, { size: 20, font: 'bold', align: 'right' });
+    page.text(CONTENT_RIGHT, 27, `N° ${data.number}`, { size: 10, font: 'bold', align: 'right' });
+    page.text(CONTENT_RIGHT, 31.5, `Date : ${formatDate(data.date)}`, { size: 9, align: 'right' });
+
+    if (data.type === 'quote') {
+      const validUntil = new Date(data.date.getTime() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+      page.text(CONTENT_RIGHT, 36, `Valable jusqu'au ${formatDate(validUntil)}`, { size: 9, align: 'right' });
+    } else if (data.orderId) {
+      page.text(CONTENT_RIGHT, 36, `Commande ${data.orderId}`, { size: 9, align: 'right' });
+    }
+
+    page.line(MARGIN, 42, CONTENT_RIGHT, 42, { stroke: BORDER_GRAY });
+    return 50;
+  }
+
+  private drawParties(page: PdfPage, data: DocumentData, y: number): number {
+    const x = 110;
+    page.rect(x - 4, y - 5, CONTENT_RIGHT - x + 4, 34, { fill: '#F5F5F5' });
+    page.text(x, y, data.type === 'quote' ? 'DEVIS ÉTABLI POUR' : 'FACTURÉ À', { size: 8, font: 'bold', color: TEXT_GRAY });
+
+    const lines: string[] = [];
+    if (data.company) {
+      lines.push(data.company.name);
+      lines.push(`ICE : ${formatIce(data.company.ice)}`);
+      const registration = [data.company.if && `IF : ${data.company.if}`, data.company.rc && `RC : ${data.company.rc}`].filter(Boolean);
+      if (registration.length > 0) lines.push(registration.join('  •  '));
+      if (data.customerName) lines.push(`À l'attention de ${data.customerName}`);
+    } else if (data.customerName) {
+      lines.push(data.customerName);
+    }
+    if (data.shippingAddress) {
+      lines.push(...PdfPage.wrapText(data.shippingAddress, CONTENT_RIGHT - x - 2, 9));
+    }
+    if (data.email) lines.push(data.email);
+    if (lines.length === 0) lines.push('Client');
+
+    lines.slice(0, 6).forEach((text, index) => {
+      page.text(x, y + 5 + index * 4.2, text, { size: 9, font: index === 0 ? 'bold' : 'regular' });
+    });
+
+    return y + 40;
+  }
+
+  private drawTableHeader(page: PdfPage, y: number): number {
+    page.rect(MARGIN, y, CONTENT_RIGHT - MARGIN, 8, { fill: BRAND_BLUE });
+    const options = { size: 8.5, font: 'bold' as const, color: '#FFFFFF' };
+    page.text(COLUMNS.preview + 1, y + 5.5, 'Aperçu', options);
+    page.text(COLUMNS.designation, y + 5.5, 'Désignation', options);
+    page.text(COLUMNS.quantity, y + 5.5, 'Qté', { ...options, align: 'right' });
+    page.text(COLUMNS.unitPrice, y + 5.5, 'P.U. TTC', { ...options, align: 'right' });
+    page.text(COLUMNS.totalHt, y + 5.5, 'Total HT', { ...options, align: 'right' });
+    page.text(COLUMNS.totalTtc - 1, y + 5.5, 'Total TTC', { ...options, align: 'right' });
+    return y + 8;
+  }
+
+  private drawPaymentInstructions(page: PdfPage, data: DocumentData, y: number, total: number): void {
+    const lines: string[] = [];
+
+    if (data.type === 'quote') {
+      lines.push(`Ce devis est valable ${QUOTE_VALIDITY_DAYS} jours. Les prix sont indiqués en dirhams, TVA comprise.`);
+      lines.push('Pour commander, validez votre panier sur notre site ou réglez par virement bancaire :');
+      lines.push(`${companyInfo.bankName} - RIB ${companyInfo.rib}, en indiquant la référence ${data.number}.`);
+    } else if (data.paymentStatus === 'pending' && data.paymentMethod === 'bank_transfer') {
+      lines.push(`Merci de régler ${formatAmount(total)} DHS par virement bancaire à l'ordre de ${companyInfo.name} :`);
+      lines.push(`${companyInfo.bankName} - RIB ${companyInfo.rib}`);
+      lines.push(`Référence à indiquer : ${data.paymentReference || data.number}. La production démarre à réception du paiement.`);
+    } else if (data.paymentStatus === 'pending' && data.paymentMethod === 'cash_on_delivery') {
+      lines.push(`Montant de ${formatAmount(total)} DHS à régler en espèces au livreur à la réception de la commande.`);
+    } else if (data.paymentStatus === 'pending') {
+      lines.push(`Paiement de ${formatAmount(total)} DHS par ${paymentMethodLabels[data.paymentMethod || ''] || data.paymentMethod} en attente de confirmation.`);
+    } else {
+      lines.push(`Réglée par ${paymentMethodLabels[data.paymentMethod || ''] || data.paymentMethod} le ${formatDate(data.date)}${data.paymentReference ? ` (transaction ${data.paymentReference})` : ''}.`);
+      lines.push('Aucun montant ne reste dû sur cette facture.');
+    }
+    if (data.type === 'proforma') {
+      lines.push('Facture pro forma sans valeur fiscale. La facture définitive est émise par nos services sur demande.');
+    }
+
+    page.text(MARGIN, y, data.type === 'quote' ? 'Conditions' : 'Modalités de paiement', { size: 10, font: 'bold', color: BRAND_BLUE });
+    let textY = y + 6;
+    lines.forEach(line => {
+      textY += page.wrappedText(MARGIN, textY, line, CONTENT_RIGHT - MARGIN, 4.5, { size: 9 }) * 4.5;
+    });
+  }
+
+  private drawFooter(page: PdfPage, pageNumber: number, pageCount: number): void {
+    page.line(MARGIN, 280, CONTENT_RIGHT, 280, { stroke: BORDER_GRAY });
+    page.text(
+      105,
+      285,
+      `${companyInfo.name} - ${companyInfo.address} - ICE ${formatIce(companyInfo.ice)} - IF ${companyInfo.if} - RC ${companyInfo.rc} - Patente ${companyInfo.patente}`,
+      { size: 7, color: TEXT_GRAY, align: 'center' }
+    );
+    page.text(CONTENT_RIGHT, 290, `Page ${pageNumber} / ${pageCount}`, { size: 7, color: TEXT_GRAY, align: 'right' });
+  }
+}
+
+export const invoiceService = new InvoiceService();
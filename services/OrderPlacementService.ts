@@ -0,0 +1,27 @@
+import { Order } from '@/types';
+import { orderRepository } from './OrderRepository';
+import { inventoryService } from './InventoryService';
+import { promoCodeService } from './PromoCodeService';
+
+/**
+ * Turns a checkout into a placed order. Orders paid on a hosted payment page are only
+ * placed once the customer comes back from it, so an abandoned payment keeps no order,
+ * stock or promo code.
+ */
+export class OrderPlacementService {
+  /**
+   * Keep the order, take its items out of stock and use up its promo code.
+   * Rejects when the order could not be saved, leaving stock and promo code untouched.
+   */
+  public async placeOrder(order: Order): Promise<void> {
+    await orderRepository.saveOrder(order);
+    inventoryService.commitOrder(order.items);
+
+    if (order.promoCode) {
+      promoCodeService.recordRedemption(order.promoCode, order.email);
+    }
+  }
+}
+
+// Export a singleton instance
+export const orderPlacementService = new OrderPlacementService();
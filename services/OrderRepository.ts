@@ -0,0 +1,217 @@
+import { Order } from '@/types';
+
+/**
+ * Where orders are kept. The local adapter stores the orders placed on this device;
+ * a backend adapter can replace it without changing the pages.
+ */
+export interface OrderStorageAdapter {
+  saveOrder(order: Order): Promise<void>;
+  getOrder(id: string): Promise<Order | null>;
+  listOrders(): Promise<Order[]>;
+  // Give the order the next invoice number of its year, unless it already has one. Only a
+  // backend shared by every customer can keep one unbroken sequence, so the local adapter has none.
+  assignInvoiceNumber?(orderId: string): Promise<Order>;
+}
+
+const ORDERS_STORAGE_KEY = 'cachet-orders';
+const DB_NAME = 'cachet-maroc-orders';
+const DB_VERSION = 1;
+const ORDER_STORE = 'orders';
+
+/**
+ * Keeps orders in IndexedDB so stamp previews fit, falling back to localStorage
+ */
+export class LocalOrderStorageAdapter implements OrderStorageAdapter {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  public async saveOrder(order: Order): Promise<void> {
+    const db = await this.openDatabase();
+    if (db) {
+      await this.runRequest(db, 'readwrite', store => store.put(order));
+      return;
+    }
+
+    const orders = this.readStoredOrders().filter(saved => saved.id !== order.id);
+    this.writeStoredOrders([...orders, order]);
+  }
+
+  public async getOrder(id: string): Promise<Order | null> {
+    const db = await this.openDatabase();
+    if (db) {
+      return (await this.runRequest<Order | undefined>(db, 'readonly', store => store.get(id))) || null;
+    }
+    return this.readStoredOrders().find(order => order.id === id) || null;
+  }
+
+  public async listOrders(): Promise<Order[]> {
+    const db = await this.openDatabase();
+    if (db) {
+      return this.runRequest<Order[]>(db, 'readonly', store => store.getAll());
+    }
+    return this.readStoredOrders();
+  }
+
+  private readStoredOrders(): Order[] {
+    try {
+      const saved = localStorage.getItem(ORDERS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Error reading saved orders:', error);
+      return [];
+    }
+  }
+
+  private writeStoredOrders(orders: Order[]): void {
+    try {
+      localStorage.setItem(ORDERS_STORAGE_KEY, JSON.stringify(orders));
+    } catch (error) {
+      // Most likely the quota: keep the orders and drop their preview images and designs
+      console.error('Error writing orders, retrying without previews:', error);
+      const lightOrders = orders.map(order => ({
+        ...order,
+        items: order.items.map(({ previewImage: _previewImage, design: _design, ...item }) => item)
+      }));
+      localStorage.setItem(ORDERS_STORAGE_KEY, JSON.stringify(lightOrders));
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(ORDER_STORE)) {
+              request.result.createObjectStore(ORDER_STORE, { keyPath: 'id' });
+            }
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.error('Error opening order database:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.error('IndexedDB unavailable:', error);
+          resolve(null);
+        }
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private runRequest<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(ORDER_STORE, mode).objectStore(ORDER_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Reads and writes orders through a REST API: GET /orders, GET /orders/:id and PUT /orders/:id.
+ * The API is expected to scope the list to the signed-in customer, and to issue invoice numbers
+ * from POST /orders/:id/invoice-number, returning the order.
+ */
+export class ApiOrderStorageAdapter implements OrderStorageAdapter {
+  constructor(private baseUrl: string) {}
+
+  public async saveOrder(order: Order): Promise<void> {
+    const response = await fetch(this.getUrl(`/orders/${encodeURIComponent(order.id)}`), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(order)
+    });
+    if (!response.ok) throw new Error(`Saving order failed with status ${response.status}`);
+  }
+
+  public async getOrder(id: string): Promise<Order | null> {
+    const response = await fetch(this.getUrl(`/orders/${encodeURIComponent(id)}`), { credentials: 'include' });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Loading order failed with status ${response.status}`);
+    return response.json();
+  }
+
+  public async listOrders(): Promise<Order[]> {
+    const response = await fetch(this.getUrl('/orders'), { credentials: 'include' });
+    if (!response.ok) throw new Error(`Loading orders failed with status ${response.status}`);
+    return response.json();
+  }
+
+  public async assignInvoiceNumber(orderId: string): Promise<Order> {
+    const response = await fetch(this.getUrl(`/orders/${encodeURIComponent(orderId)}/invoice-number`), {
+      method: 'POST',
+      credentials: 'include'
+    });
+    if (!response.ok) throw new Error(`Assigning invoice number failed with status ${response.status}`);
+    return response.json();
+  }
+
+  private getUrl(path: string): string {
+    return `${this.baseUrl.replace(/\/$/, '')}${path}`;
+  }
+}
+
+export class OrderRepository {
+  constructor(private adapter: OrderStorageAdapter) {}
+
+  /**
+   * Switch to another storage backend
+   */
+  public setAdapter(adapter: OrderStorageAdapter): void {
+    this.adapter = adapter;
+  }
+
+  /**
+   * Create or update an order
+   */
+  public saveOrder(order: Order): Promise<void> {
+    return this.adapter.saveOrder(order);
+  }
+
+  public getOrder(id: string): Promise<Order | null> {
+    return this.adapter.getOrder(id);
+  }
+
+  /**
+   * Whether the backend issues invoice numbers from one sequence shared by every customer
+   */
+  public canIssueInvoiceNumbers(): boolean {
+    return !!this.adapter.assignInvoiceNumber;
+  }
+
+  /**
+   * The order with its invoice number, issuing the next one of the sequence the first time
+   */
+  public async assignInvoiceNumber(order: Order): Promise<Order> {
+    if (order.invoiceNumber) return order;
+    if (!this.adapter.assignInvoiceNumber) throw new Error('This order storage does not issue invoice numbers');
+    return this.adapter.assignInvoiceNumber(order.id);
+  }
+
+  /**
+   * Past orders, most recent first
+   */
+  public async listOrders(): Promise<Order[]> {
+    const orders = await this.adapter.listOrders();
+    return [...orders].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+}
+
+const ORDERS_API_URL = import.meta.env.VITE_ORDERS_API_URL;
+
+// Export a singleton instance, backed by the orders API when one is configured
+export const orderRepository = new OrderRepository(
+  ORDERS_API_URL ? new ApiOrderStorageAdapter(ORDERS_API_URL) : new LocalOrderStorageAdapter()
+);
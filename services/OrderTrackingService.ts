@@ -0,0 +1,139 @@
+import { Order, OrderStatus, OrderStatusEvent } from '@/types';
+import { orderStatusSteps } from '@/data/orderStatuses';
+import { getMockOrderById, mockOrders } from '@/data/mockOrders';
+import { orderRepository } from './OrderRepository';
+import { normalizeMoroccanPhone } from '@/utils/phoneNumber';
+
+export interface OrderTimelineEntry {
+  status: OrderStatus;
+  label: string;
+  description: string;
+  state: 'complete' | 'current' | 'upcoming';
+  // ISO 8601, when the order reached this step
+  date?: string;
+  note?: string;
+}
+
+export interface OrderStatusUpdate {
+  note?: string;
+  trackingNumber?: string;
+  // Defaults to now
+  date?: string;
+}
+
+// Steps that need an approved proof
+const PRODUCTION_STATUSES: OrderStatus[] = ['engraving', 'quality_check', 'shipped', 'delivered'];
+
+/**
+ * Order status model: finds orders for the tracking page and records status changes
+ */
+export class OrderTrackingService {
+  /**
+   * Find an order by its number, only when the email or phone matches the one given at checkout
+   */
+  public async findOrder(orderId: string, contact: string): Promise<Order | null> {
+    const order = await this.loadOrder(orderId.trim().toUpperCase());
+    if (!order || !this.matchesContact(order, contact)) return null;
+    return order;
+  }
+
+  public getStatus(order: Order): OrderStatus {
+    const history = order.statusHistory || [];
+    return order.status || history[history.length - 1]?.status || 'received';
+  }
+
+  /**
+   * Every production step with its date, marking the ones already done
+   */
+  public getTimeline(order: Order): OrderTimelineEntry[] {
+    const currentIndex = orderStatusSteps.findIndex(step => step.status === this.getStatus(order));
+    const isPickup = !!order.shippingMethod?.isPickup;
+    const history = order.statusHistory?.length
+      ? order.statusHistory
+      : [{ status: 'received', date: order.date } as OrderStatusEvent];
+
+    return orderStatusSteps.map((step, index) => {
+      // A step can be reached more than once when an admin corrects the status
+      const event = [...history].reverse().find(item => item.status === step.status);
+
+      return {
+        status: step.status,
+        label: (isPickup && step.pickupLabel) || step.label,
+        description: (isPickup && step.pickupDescription) || step.description,
+        state: index < currentIndex ? 'complete' : index === currentIndex ? 'current' : 'upcoming',
+        date: index <= currentIndex ? event?.date : undefined,
+        note: index <= currentIndex ? event?.note : undefined
+      };
+    });
+  }
+
+  /**
+   * Move an order to a new status, recording when it happened
+   */
+  public async updateStatus(orderId: string, status: OrderStatus, update: OrderStatusUpdate = {}): Promise<Order> {
+    const order = await this.loadOrder(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+
+    const updatedOrder = this.applyStatus(order, status, update);
+    await orderRepository.saveOrder(updatedOrder);
+    return updatedOrder;
+  }
+
+  /**
+   * Copy of the order in the new status. Orders with a proof only go into
+   * production once the customer has approved it.
+   */
+  public applyStatus(order: Order, status: OrderStatus, update: OrderStatusUpdate = {}): Order {
+    const isProduction = PRODUCTION_STATUSES.includes(status);
+    if (isProduction && order.proof && order.proof.status !== 'approved') {
+      throw new Error(`Order ${order.id} cannot go into production before its proof is approved`);
+    }
+
+    const event: OrderStatusEvent = {
+      status,
+      date: update.date || new Date().toISOString(),
+      ...(update.note ? { note: update.note } : {})
+    };
+    return {
+      ...order,
+      status,
+      statusHistory: [...(order.statusHistory || [{ status: 'received', date: order.date }]), event],
+      trackingNumber: update.trackingNumber || order.trackingNumber
+    };
+  }
+
+  /**
+   * Every order, most recent first; in development the sample orders are added
+   */
+  public async listOrders(): Promise<Order[]> {
+    const orders = await orderRepository.listOrders();
+    if (!import.meta.env.DEV) return orders;
+
+    const samples = mockOrders.filter(sample => !orders.some(order => order.id === sample.id));
+    return [...orders, ...samples].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  /**
+   * Saved orders first; in development, fall back to the sample orders
+   */
+  public async loadOrder(orderId: string): Promise<Order | null> {
+    const order = await orderRepository.getOrder(orderId);
+    if (order) return order;
+    return import.meta.env.DEV ? getMockOrderById(orderId) || null : null;
+  }
+
+  private matchesContact(order: Order, contact: string): boolean {
+    const value = contact.trim();
+    if (!value) return false;
+
+    if (value.includes('@')) {
+      return value.toLowerCase() === order.email.trim().toLowerCase();
+    }
+
+    const phone = normalizeMoroccanPhone(value);
+    return !!phone && !!order.phone && phone === normalizeMoroccanPhone(order.phone);
+  }
+}
+
+// Export a singleton instance
+export const orderTrackingService = new OrderTrackingService();
@@ -0,0 +1,136 @@
+import type { ComponentType } from 'react';
+
+// Checkout form values seen by payment methods
+export interface PaymentFormValues {
+  paymentMethod?: string;
+  fullName?: string;
+  email?: string;
+  phone?: string;
+  [field: string]: unknown;
+}
+
+export interface PaymentAmounts {
+  // Items subtotal after volume and pack discounts, TTC
+  subtotal: number;
+  // Amount due before any payment fee (subtotal - promo discount + shipping), TTC
+  total: number;
+}
+
+export interface PaymentRequest {
+  orderId: string;
+  // Amount to charge, payment fee included
+  amount: number;
+  values: PaymentFormValues;
+}
+
+export type PaymentStatus = 'paid' | 'pending' | 'redirect' | 'failed';
+
+export interface PaymentResult {
+  status: PaymentStatus;
+  // Gateway transaction id or transfer reference
+  reference?: string;
+  // Form to post to the gateway for redirect flows
+  redirect?: {
+    url: string;
+    fields: Record<string, string>;
+  };
+  error?: string;
+}
+
+export type PaymentIssueReporter = (field: string, message: string) => void;
+
+export interface PaymentMethodDefinition {
+  id: string;
+  label: string;
+  description: string;
+  // Form fields owned by this method, validated before leaving the billing step
+  fields: string[];
+  // Extra inputs shown under the method in BillingForm
+  Fields?: ComponentType;
+  isAvailable?: (amounts: PaymentAmounts) => boolean;
+  // Fee added to the order total, TTC
+  getFee?: (amounts: PaymentAmounts) => number;
+  validate?: (values: PaymentFormValues, report: PaymentIssueReporter) => void;
+  // Lines describing the payment on the review step
+  getReviewLines: (values: PaymentFormValues, amount: number) => string[];
+  processPayment: (request: PaymentRequest) => Promise<PaymentResult>;
+}
+
+export class PaymentMethodRegistry {
+  private methods: Map<string, PaymentMethodDefinition> = new Map();
+
+  /**
+   * Add a payment method; registering an existing id replaces it
+   */
+  public register(method: PaymentMethodDefinition): void {
+    this.methods.set(method.id, method);
+  }
+
+  public unregister(id: string): void {
+    this.methods.delete(id);
+  }
+
+  public get(id: string): PaymentMethodDefinition | undefined {
+    return this.methods.get(id);
+  }
+
+  public getAll(): PaymentMethodDefinition[] {
+    return Array.from(this.methods.values());
+  }
+
+  /**
+   * Methods that can be used for an order of the given amounts
+   */
+  public getAvailable(amounts: PaymentAmounts): PaymentMethodDefinition[] {
+    return this.getAll().filter(method => !method.isAvailable || method.isAvailable(amounts));
+  }
+
+  public getLabel(id: string): string {
+    return this.methods.get(id)?.label || id;
+  }
+
+  public getFee(id: string, amounts: PaymentAmounts): number {
+    const method = this.methods.get(id);
+    return method?.getFee ? method.getFee(amounts) : 0;
+  }
+
+  /**
+   * Run the selected method's validation, reporting issues per field
+   */
+  public validate(values: PaymentFormValues, amounts: PaymentAmounts | null, report: PaymentIssueReporter): void {
+    const method = this.methods.get(values.paymentMethod);
+    if (!method) {
+      report('paymentMethod', 'Please select a payment method');
+      return;
+    }
+    if (amounts && method.isAvailable && !method.isAvailable(amounts)) {
+      report('paymentMethod', `${method.label} is not available for this order`);
+      return;
+    }
+    method.validate?.(values, report);
+  }
+}
+
+// Export a singleton instance
+export const paymentMethodRegistry = new PaymentMethodRegistry();
+
+/**
+ * Leave the site for a hosted payment page by posting its form
+ */
+export const submitPaymentRedirect = (redirect: NonNullable<PaymentResult['redirect']>): void => {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = redirect.url;
+  form.style.display = 'none';
+
+  Object.entries(redirect.fields).forEach(([name, value]) => {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  });
+
+  document.body.appendChild(form);
+  form.submit();
+};
@@ -0,0 +1,142 @@
+import { Accessory, BundleOffer, CartItem, QuantityTier } from '@/types';
+import { getAccessoryById, getBundleOfferById, getQuantityTiers } from '@/data/pricing';
+import { productVariantService } from './ProductVariantService';
+
+export interface CartLinePricing {
+  lineId: string;
+  quantity: number;
+  // Units of the same model across the whole cart, used to pick the tier
+  tierQuantity: number;
+  listUnitPrice: number;
+  unitPrice: number;
+  tier?: QuantityTier;
+  nextTier?: QuantityTier;
+  bundle?: BundleOffer;
+  bundleAccessories: Accessory[];
+  // Accessories price for one pack
+  accessoriesUnitPrice: number;
+  // Bundle discount for one pack
+  bundleUnitDiscount: number;
+  listTotal: number;
+  tierDiscount: number;
+  bundleDiscount: number;
+  lineTotal: number;
+}
+
+export interface CartPricing {
+  lines: CartLinePricing[];
+  // Total at list prices, accessories included
+  listSubtotal: number;
+  tierDiscount: number;
+  bundleDiscount: number;
+  subtotal: number;
+}
+
+const roundPrice = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PricingService {
+  /**
+   * Find the best tier reached by the given quantity
+   */
+  public getTier(productId: string, quantity: number): QuantityTier | undefined {
+    return getQuantityTiers(productId)
+      .filter(tier => quantity >= tier.minQuantity)
+      .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+  }
+
+  /**
+   * Find the next tier the customer can reach by ordering more
+   */
+  public getNextTier(productId: string, quantity: number): QuantityTier | undefined {
+    return getQuantityTiers(productId)
+      .filter(tier => quantity < tier.minQuantity)
+      .sort((a, b) => a.minQuantity - b.minQuantity)[0];
+  }
+
+  /**
+   * Unit price of a product for a tier, from its base price; variant surcharges come on top
+   */
+  public getTierUnitPrice(listPrice: number, tier?: QuantityTier): number {
+    if (!tier) return listPrice;
+    if (tier.unitPrice !== undefined) return Math.min(tier.unitPrice, listPrice);
+    return roundPrice(listPrice * (1 - (tier.discountPercent || 0) / 100));
+  }
+
+  /**
+   * Short description of a tier, e.g. "20+ units: -10%"
+   */
+  public describeTier(tier: QuantityTier): string {
+    return tier.unitPrice !== undefined
+      ? `${tier.minQuantity}+ units: ${tier.unitPrice} DHS/unit`
+      : `${tier.minQuantity}+ units: -${tier.discountPercent}%`;
+  }
+
+  /**
+   * Price every line of the cart. Tiers count all lines of the same model,
+   * so 30 stamps with different branch addresses get the 20+ price.
+   */
+  public priceCart(items: CartItem[]): CartPricing {
+    const quantitiesByProduct = items.reduce<Record<string, number>>((totals, item) => {
+      totals[item.productId] = (totals[item.productId] || 0) + item.quantity;
+      return totals;
+    }, {});
+
+    const lines = items.map(item => this.priceLine(item, quantitiesByProduct[item.productId]));
+
+    const sum = (key: 'listTotal' | 'tierDiscount' | 'bundleDiscount' | 'lineTotal') =>
+      roundPrice(lines.reduce((total, line) => total + line[key], 0));
+
+    return {
+      lines,
+      listSubtotal: sum('listTotal'),
+      tierDiscount: sum('tierDiscount'),
+      bundleDiscount: sum('bundleDiscount'),
+      subtotal: sum('lineTotal')
+    };
+  }
+
+  private priceLine(item: CartItem, tierQuantity: number): CartLinePricing {
+    const listUnitPrice = productVariantService.getUnitPrice(item.product, item.variant);
+    const tier = this.getTier(item.productId, tierQuantity);
+    // Tiers price the model, so a larger pad or another colour keeps its surcharge
+    const unitPrice = roundPrice(this.getTierUnitPrice(item.product.price, tier) + (item.variant?.priceDelta || 0));
+
+    const offer = item.bundleId ? getBundleOfferById(item.bundleId) : undefined;
+    const bundle = offer && offer.productIds.includes(item.productId) ? offer : undefined;
+    const bundleAccessories = (bundle?.accessoryIds || [])
+      .map(id => getAccessoryById(id))
+      .filter((accessory): accessory is Accessory => !!accessory);
+    const accessoriesUnitPrice = bundleAccessories.reduce((total, accessory) => total + accessory.price, 0);
+
+    let bundleUnitDiscount = 0;
+    if (bundle) {
+      bundleUnitDiscount = bundle.discountType === 'percent'
+        ? roundPrice((unitPrice + accessoriesUnitPrice) * bundle.discountValue / 100)
+        : Math.min(bundle.discountValue, unitPrice + accessoriesUnitPrice);
+    }
+
+    const listTotal = roundPrice((listUnitPrice + accessoriesUnitPrice) * item.quantity);
+    const tierDiscount = roundPrice((listUnitPrice - unitPrice) * item.quantity);
+    const bundleDiscount = roundPrice(bundleUnitDiscount * item.quantity);
+
+    return {
+      lineId: item.id,
+      quantity: item.quantity,
+      tierQuantity,
+      listUnitPrice,
+      unitPrice,
+      tier,
+      nextTier: this.getNextTier(item.productId, tierQuantity),
+      bundle,
+      bundleAccessories,
+      accessoriesUnitPrice,
+      bundleUnitDiscount,
+      listTotal,
+      tierDiscount,
+      bundleDiscount,
+      lineTotal: roundPrice(listTotal - tierDiscount - bundleDiscount)
+    };
+  }
+}
+
+export const pricingService = new PricingService();
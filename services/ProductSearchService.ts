@@ -0,0 +1,263 @@
+import { Product } from '@/types';
+import { searchStopWords, searchSynonymGroups } from '@/data/searchSynonyms';
+import { productVariantService } from './ProductVariantService';
+
+export interface ProductSearchResult {
+  product: Product;
+  score: number;
+}
+
+// Part of a text, marked when it matches the search
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface IndexedField {
+  weight: number;
+  tokens: string[];
+}
+
+interface IndexedProduct {
+  product: Product;
+  name: string;
+  fields: IndexedField[];
+}
+
+// A word to look for and how much a match on it counts
+interface SearchTerm {
+  term: string;
+  weight: number;
+  fuzzy: boolean;
+}
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const SYNONYM_MATCH = 0.9;
+const TYPO_MATCH = 0.6;
+const TYPO_PREFIX_MATCH = 0.5;
+const NAME_PREFIX_BONUS = 5;
+
+const FIELD_WEIGHTS = {
+  name: 5,
+  brand: 4,
+  model: 4,
+  size: 3,
+  shape: 3,
+  description: 1
+};
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+/**
+ * Catalogue search over name, brand, model, size, shape and description. Ignores
+ * accents and Arabic diacritics, tolerates typos, understands French, English and
+ * Arabic synonyms and ranks products by how well they match.
+ */
+export class ProductSearchService {
+  private indexes = new WeakMap<Product[], IndexedProduct[]>();
+  private synonymGroups: string[][] = searchSynonymGroups.map(group =>
+    Array.from(new Set(group.flatMap(word => this.tokenize(word))))
+  );
+  private stopWords = new Set(searchStopWords.map(word => this.normalize(word)));
+
+  /**
+   * Lower case without accents, Arabic diacritics or letter variants
+   */
+  public normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g, '')
+      .toLowerCase()
+      .replace(/[أإآٱ]/g, 'ا')
+      .replace(/ة/g, 'ه')
+      .replace(/ى/g, 'ي')
+      .replace(/ؤ/g, 'و')
+      .replace(/ئ/g, 'ي')
+      .replace(/œ/g, 'oe');
+  }
+
+  /**
+   * Whether the query has anything to search for once stop words are left out
+   */
+  public hasSearchTerms(query: string): boolean {
+    return this.getQueryTokens(query).length > 0;
+  }
+
+  /**
+   * Products matching the query, best match first. Only products matching every word
+   * of the query are kept; when none does, the products matching the most words are
+   * returned so a query such as "cachet rond dateur" still finds something.
+   */
+  public search(products: Product[], query: string): ProductSearchResult[] {
+    const queryTokens = this.getQueryTokens(query);
+    if (queryTokens.length === 0) {
+      return products.map(product => ({ product, score: 0 }));
+    }
+
+    const termGroups = queryTokens.map(token => this.expand(token));
+    const normalizedQuery = queryTokens.join(' ');
+
+    const matches = this.getIndex(products).map(indexed => {
+      let score = 0;
+      let matchedTerms = 0;
+
+      termGroups.forEach(terms => {
+        const termScore = Math.max(...indexed.fields.map(field =>
+          field.weight * this.getBestQuality(terms, field.tokens)
+        ));
+        if (termScore > 0) matchedTerms++;
+        score += termScore;
+      });
+
+      if (matchedTerms > 0 && indexed.name.startsWith(normalizedQuery)) score += NAME_PREFIX_BONUS;
+      return { product: indexed.product, score, matchedTerms };
+    });
+
+    const mostMatchedTerms = Math.max(0, ...matches.map(match => match.matchedTerms));
+    if (mostMatchedTerms === 0) return [];
+
+    return matches
+      .filter(match => match.matchedTerms === mostMatchedTerms)
+      .sort((a, b) => b.score - a.score)
+      .map(({ product, score }) => ({ product, score }));
+  }
+
+  /**
+   * Split a text into the words that match the query and the rest, for highlighting
+   */
+  public highlight(text: string, query: string): HighlightSegment[] {
+    const termGroups = this.getQueryTokens(query).map(token => this.expand(token));
+    if (termGroups.length === 0) return [{ text, highlighted: false }];
+
+    const segments: HighlightSegment[] = [];
+    const addSegment = (segment: string, highlighted: boolean) => {
+      if (!segment) return;
+      const last = segments[segments.length - 1];
+      if (last && last.highlighted === highlighted) {
+        last.text += segment;
+      } else {
+        segments.push({ text: segment, highlighted });
+      }
+    };
+
+    let position = 0;
+    for (const word of text.matchAll(WORD_PATTERN)) {
+      const tokens = this.tokenize(word[0]);
+      const isMatch = termGroups.some(terms => this.getBestQuality(terms, tokens) > 0);
+      addSegment(text.slice(position, word.index), false);
+      addSegment(word[0], isMatch);
+      position = word.index + word[0].length;
+    }
+    addSegment(text.slice(position), false);
+
+    return segments;
+  }
+
+  private tokenize(text: string): string[] {
+    return this.normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  }
+
+  private getQueryTokens(query: string): string[] {
+    return this.tokenize(query).filter(token => !this.stopWords.has(token));
+  }
+
+  /**
+   * The query word itself, typos allowed, plus the synonyms of the groups it belongs to
+   */
+  private expand(token: string): SearchTerm[] {
+    const terms: SearchTerm[] = [{ term: token, weight: EXACT_MATCH, fuzzy: true }];
+
+    this.synonymGroups.forEach(group => {
+      const quality = Math.max(...group.map(word => this.getMatchQuality(token, word, true)));
+      if (quality === 0) return;
+      group
+        .filter(word => word !== token)
+        .forEach(word => terms.push({ term: word, weight: SYNONYM_MATCH * quality, fuzzy: false }));
+    });
+
+    return terms;
+  }
+
+  private getBestQuality(terms: SearchTerm[], tokens: string[]): number {
+    let best = 0;
+    terms.forEach(({ term, weight, fuzzy }) => {
+      tokens.forEach(token => {
+        best = Math.max(best, weight * this.getMatchQuality(term, token, fuzzy));
+      });
+    });
+    return best;
+  }
+
+  /**
+   * How well a query word matches an indexed word: exactly, as the start of it, or
+   * with one typo (two for long words)
+   */
+  private getMatchQuality(term: string, token: string, fuzzy: boolean): number {
+    if (token === term) return EXACT_MATCH;
+    if (term.length >= 2 && token.startsWith(term)) return PREFIX_MATCH;
+    if (!fuzzy || term.length < 4 || /\d/.test(term)) return 0;
+
+    const maxTypos = term.length >= 8 ? 2 : 1;
+    if (Math.abs(token.length - term.length) <= maxTypos && this.getEditDistance(term, token) <= maxTypos) {
+      return TYPO_MATCH;
+    }
+    if (term.length >= 5 && token.length > term.length
+        && this.getEditDistance(term, token.slice(0, term.length)) <= maxTypos) {
+      return TYPO_PREFIX_MATCH;
+    }
+    return 0;
+  }
+
+  /**
+   * Edits needed to turn one word into the other, a swap of two letters counting as one
+   */
+  private getEditDistance(a: string, b: string): number {
+    const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+      Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        distances[i][j] = Math.min(
+          distances[i - 1][j] + 1,
+          distances[i][j - 1] + 1,
+          distances[i - 1][j - 1] + cost
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return distances[a.length][b.length];
+  }
+
+  /**
+   * Searchable words of each product, built once per product list
+   */
+  private getIndex(products: Product[]): IndexedProduct[] {
+    let index = this.indexes.get(products);
+    if (!index) {
+      index = products.map(product => ({
+        product,
+        name: this.tokenize(product.name).join(' '),
+        fields: [
+          { weight: FIELD_WEIGHTS.name, tokens: this.tokenize(product.name) },
+          { weight: FIELD_WEIGHTS.brand, tokens: this.tokenize(product.brand) },
+          // Models are also searched without separators, e.g. "s723" for "S-723"
+          { weight: FIELD_WEIGHTS.model, tokens: [...this.tokenize(product.model), this.tokenize(product.model).join('')] },
+          { weight: FIELD_WEIGHTS.size, tokens: productVariantService.getSizes(product).flatMap(size => [...this.tokenize(size), ...(size.match(/\d+/g) || [])]) },
+          { weight: FIELD_WEIGHTS.shape, tokens: this.tokenize(product.shape || '') },
+          { weight: FIELD_WEIGHTS.description, tokens: this.tokenize(product.description) }
+        ]
+      }));
+      this.indexes.set(products, index);
+    }
+    return index;
+  }
+}
+
+// Export a singleton instance
+export const productSearchService = new ProductSearchService();
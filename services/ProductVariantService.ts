@@ -0,0 +1,120 @@
+import { CartItem, Product, ProductVariant, VariantOptions, VariantOptionType } from '@/types';
+import { getVariantOptionDefinition, variantOptionDefinitions } from '@/data/variantOptions';
+import { catalogRepository } from './CatalogRepository';
+
+/**
+ * Variants of a product: the combinations of size, body colour, ink colour, pad size and
+ * dater language it is sold in, each with its own SKU, price, image and stock
+ */
+export class ProductVariantService {
+  public hasVariants(product: Product): boolean {
+    return (product.variants || []).length > 0;
+  }
+
+  /**
+   * Option types the product's variants differ on, in display order
+   */
+  public getOptionTypes(product: Product): VariantOptionType[] {
+    return variantOptionDefinitions
+      .map(definition => definition.type)
+      .filter(type => (product.variants || []).some(variant => variant.options[type] !== undefined));
+  }
+
+  public getOptionValues(product: Product, type: VariantOptionType): string[] {
+    return Array.from(new Set(
+      (product.variants || []).map(variant => variant.options[type]).filter(Boolean)
+    ));
+  }
+
+  public getVariantBySku(product: Product, sku?: string): ProductVariant | undefined {
+    return sku ? (product.variants || []).find(variant => variant.sku === sku) : undefined;
+  }
+
+  /**
+   * Variant with exactly these options
+   */
+  public findVariant(product: Product, options: VariantOptions): ProductVariant | undefined {
+    return (product.variants || []).find(variant =>
+      this.getOptionTypes(product).every(type => variant.options[type] === options[type])
+    );
+  }
+
+  /**
+   * Variant after changing one option, keeping the other options where such a variant exists
+   */
+  public selectOption(product: Product, current: ProductVariant | undefined, type: VariantOptionType, value: string): ProductVariant | undefined {
+    return this.findVariant(product, { ...current?.options, [type]: value })
+      || (product.variants || []).find(variant => variant.options[type] === value);
+  }
+
+  public getDefaultVariant(product: Product): ProductVariant | undefined {
+    return (product.variants || [])[0];
+  }
+
+  /**
+   * The product as sold in this variant: a size option replaces the impression size and
+   * the text lines, so the designer, exports and fit checks work on the size ordered.
+   * The price stays the product's; see getUnitPrice.
+   */
+  public applyVariant(product: Product, variant?: ProductVariant): Product {
+    if (!variant?.options.size) return product;
+    return { ...product, size: variant.options.size, lines: variant.lines || product.lines };
+  }
+
+  /**
+   * Impression sizes the product is sold in
+   */
+  public getSizes(product: Product): string[] {
+    const sizes = this.getOptionValues(product, 'size');
+    return sizes.length > 0 ? sizes : [product.size];
+  }
+
+  /**
+   * The product at each size it is sold in, with the first variant of that size.
+   * Products sold in a single size come back as they are, without a variant.
+   */
+  public getSizeVariants(product: Product): { product: Product; variant?: ProductVariant }[] {
+    if (this.getOptionValues(product, 'size').length === 0) {
+      return [{ product }];
+    }
+    return this.getSizes(product).map(size => {
+      const variant = product.variants.find(entry => entry.options.size === size);
+      return { product: this.applyVariant(product, variant), variant };
+    });
+  }
+
+  public getUnitPrice(product: Product, variant?: ProductVariant): number {
+    return product.price + (variant?.priceDelta || 0);
+  }
+
+  public getImage(product: Product, variant?: ProductVariant): string | undefined {
+    return variant?.image || product.images[0];
+  }
+
+  /**
+   * Variant of a cart line as it is in the catalogue now, falling back to the line's snapshot
+   */
+  public getCurrentVariant(item: CartItem): ProductVariant | undefined {
+    if (!item.variant) return undefined;
+    const product = catalogRepository.getProductById(item.productId) || item.product;
+    return this.getVariantBySku(product, item.variant.sku) || item.variant;
+  }
+
+  public getOptionLabel(type: VariantOptionType, value: string): string {
+    return getVariantOptionDefinition(type)?.valueLabels?.[value] || value.charAt(0).toUpperCase() + value.slice(1);
+  }
+
+  /**
+   * Options of a variant for display, e.g. "Body colour: Black • Dater language: French"
+   */
+  public describe(variant?: ProductVariant): string {
+    if (!variant) return '';
+    return variantOptionDefinitions
+      .filter(definition => variant.options[definition.type] !== undefined)
+      .map(definition => `${definition.label}: ${this.getOptionLabel(definition.type, variant.options[definition.type])}`)
+      .join(' • ');
+  }
+}
+
+// Export a singleton instance
+export const productVariantService = new ProductVariantService();
@@ -0,0 +1,198 @@
+import { Product, StampDesign } from '@/types';
+import { getProductDimensions } from '@/utils/stampDimensions';
+import { escapeXml, formatSvgNumber as fmt } from '@/utils/markup';
+import { vectorExportService } from '@/services/VectorExportService';
+
+export interface ProductionProofMetadata {
+  orderId?: string;
+  createdAt?: Date;
+}
+
+// Layout constants in millimetres
+const MARGIN = 18;
+const CROP_MARK_LENGTH = 6;
+const CROP_MARK_OFFSET = 2;
+const REGISTRATION_RADIUS = 2.5;
+const FOOTER_HEIGHT = 26;
+const MIN_PAGE_WIDTH = 110;
+const MARK_STROKE = 0.15;
+
+/**
+ * Service for generating the workshop production proof of a stamp:
+ * the plate mirrored at 1:1 scale with crop and registration marks,
+ * a scale bar and an order footer, ready to print and manufacture from.
+ */
+class ProductionProofService {
+  /**
+   * Build the proof page as SVG markup (page size in millimetres)
+   */
+  generateProofSvg(design: StampDesign, product: Product, metadata: ProductionProofMetadata = {}): string {
+    const dimensions = getProductDimensions(product);
+    const { width, height } = dimensions;
+
+    const pageWidth = Math.max(width + MARGIN * 2, MIN_PAGE_WIDTH);
+    const pageHeight = height + MARGIN * 2 + FOOTER_HEIGHT;
+    const plateX = (pageWidth - width) / 2;
+    const plateY = MARGIN;
+
+    // Rubber dies are engraved as a mirror image and printed in solid black
+    const plateDesign: StampDesign = { ...design, inkColor: '#000000' };
+    const plate = vectorExportService.renderPlate(plateDesign, dimensions);
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1"`,
+      ` width="${fmt(pageWidth)}mm" height="${fmt(pageHeight)}mm" viewBox="0 0 ${fmt(pageWidth)} ${fmt(pageHeight)}">`,
+      `<rect width="${fmt(pageWidth)}" height="${fmt(pageHeight)}" fill="white"/>`,
+      `<g transform="translate(${fmt(plateX + width)} ${fmt(plateY)}) scale(-1 1)">${plate}</g>`,
+      this.renderPlateOutline(plateX, plateY, width, height, dimensions.isRound || design.shape === 'circle'),
+      this.renderCropMarks(plateX, plateY, width, height),
+      this.renderRegistrationMarks(plateX, plateY, width, height),
+      this.renderScaleBar(MARGIN / 2, plateY + height + MARGIN - 4),
+      this.renderFooter(design, product, metadata, pageWidth, plateY + height + MARGIN + 4),
+      `</svg>`
+    ].join('');
+  }
+
+  /**
+   * Trigger a download of the proof as an SVG file, with the plate's text as outlines
+   */
+  async downloadProof(design: StampDesign, product: Product, metadata: ProductionProofMetadata = {}): Promise<void> {
+    await vectorExportService.loadFonts(design);
+    const svg = this.generateProofSvg(design, product, metadata);
+    const blob = new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = `${this.getFileBaseName(product, metadata)}.svg`;
+    link.href = url;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Open the proof in a print window at 100% scale
+   */
+  async printProof(design: StampDesign, product: Product, metadata: ProductionProofMetadata = {}): Promise<boolean> {
+    // Open the window before waiting for the fonts, while the click still allows pop-ups
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+
+    await vectorExportService.loadFonts(design);
+    const svg = this.generateProofSvg(design, product, metadata);
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>${escapeXml(this.getFileBaseName(product, metadata))}</title>
+    <style>
+      @page { size: A4; margin: 10mm; }
+      html, body { margin: 0; padding: 0; }
+      svg { display: block; margin: 0 auto; }
+    </style>
+  </head>
+  <body>${svg}</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    // The blank window has already loaded by now, so an onload handler would never run
+    printWindow.print();
+
+    return true;
+  }
+
+  private renderPlateOutline(x: number, y: number, width: number, height: number, isRound: boolean): string {
+    const style = `fill="none" stroke="#999999" stroke-width="${MARK_STROKE}" stroke-dasharray="1 1"`;
+
+    if (isRound) {
+      return `<circle cx="${fmt(x + width / 2)}" cy="${fmt(y + height / 2)}" r="${fmt(Math.min(width, height) / 2)}" ${style}/>`;
+    }
+
+    return `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(width)}" height="${fmt(height)}" ${style}/>`;
+  }
+
+  private renderCropMarks(x: number, y: number, width: number, height: number): string {
+    const corners = [
+      { cx: x, cy: y, dx: -1, dy: -1 },
+      { cx: x + width, cy: y, dx: 1, dy: -1 },
+      { cx: x, cy: y + height, dx: -1, dy: 1 },
+      { cx: x + width, cy: y + height, dx: 1, dy: 1 }
+    ];
+
+    return corners.map(({ cx, cy, dx, dy }) => {
+      const horizontalStart = cx + dx * CROP_MARK_OFFSET;
+      const verticalStart = cy + dy * CROP_MARK_OFFSET;
+      return this.line(horizontalStart, cy, horizontalStart + dx * CROP_MARK_LENGTH, cy) +
+        this.line(cx, verticalStart, cx, verticalStart + dy * CROP_MARK_LENGTH);
+    }).join('');
+  }
+
+  private renderRegistrationMarks(x: number, y: number, width: number, height: number): string {
+    const distance = CROP_MARK_OFFSET + CROP_MARK_LENGTH + REGISTRATION_RADIUS;
+    const centers = [
+      { cx: x + width / 2, cy: y - distance },
+      { cx: x + width / 2, cy: y + height + distance },
+      { cx: x - distance, cy: y + height / 2 },
+      { cx: x + width + distance, cy: y + height / 2 }
+    ];
+
+    return centers.map(({ cx, cy }) => {
+      const reach = REGISTRATION_RADIUS * 1.6;
+      return `<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${REGISTRATION_RADIUS}" fill="none" stroke="#000000" stroke-width="${MARK_STROKE}"/>` +
+        this.line(cx - reach, cy, cx + reach, cy) +
+        this.line(cx, cy - reach, cx, cy + reach);
+    }).join('');
+  }
+
+  private renderScaleBar(x: number, y: number): string {
+    const length = 20;
+    const parts: string[] = [this.line(x, y, x + length, y)];
+
+    for (let mm = 0; mm <= length; mm++) {
+      const tick = mm % 10 === 0 ? 2 : mm % 5 === 0 ? 1.4 : 0.8;
+      parts.push(this.line(x + mm, y, x + mm, y - tick));
+    }
+
+    parts.push(this.text(x, y + 3, '0', 2));
+    parts.push(this.text(x + 10, y + 3, '10', 2, 'middle'));
+    parts.push(this.text(x + length, y + 3, '20 mm', 2, 'middle'));
+
+    return parts.join('');
+  }
+
+  private renderFooter(
+    design: StampDesign,
+    product: Product,
+    metadata: ProductionProofMetadata,
+    pageWidth: number,
+    top: number
+  ): string {
+    const lineCount = design.lines.filter(line => line.text && line.text.trim()).length;
+    const createdAt = (metadata.createdAt || new Date()).toISOString().slice(0, 10);
+    const left = MARGIN / 2;
+
+    return [
+      this.line(left, top, pageWidth - left, top),
+      this.text(left, top + 5, `Order: ${metadata.orderId || 'DRAFT'}`, 3, 'start', true),
+      this.text(pageWidth - left, top + 5, createdAt, 2.5, 'end'),
+      this.text(left, top + 10, `Model: ${product.brand} ${product.model} - ${product.name} (${product.size})`, 2.5),
+      this.text(left, top + 14.5, `Ink colour: ${design.inkColor}   Lines: ${lineCount}   Border: ${design.borderStyle}`, 2.5),
+      this.text(left, top + 19, 'MIRRORED PLATE - SCALE 1:1 - PRINT AT 100%', 2.2, 'start', true)
+    ].join('');
+  }
+
+  private line(x1: number, y1: number, x2: number, y2: number): string {
+    return `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" stroke="#000000" stroke-width="${MARK_STROKE}"/>`;
+  }
+
+  private text(x: number, y: number, value: string, size: number, anchor: 'start' | 'middle' | 'end' = 'start', bold = false): string {
+    return `<text x="${fmt(x)}" y="${fmt(y)}" font-family="Arial, sans-serif" font-size="${size}" ` +
+      `text-anchor="${anchor}" fill="#000000"${bold ? ' font-weight="bold"' : ''}>${escapeXml(value)}</text>`;
+  }
+
+  private getFileBaseName(product: Product, metadata: ProductionProofMetadata): string {
+    return `proof-${metadata.orderId || 'draft'}-${product.id}`;
+  }
+}
+
+export const productionProofService = new ProductionProofService();
@@ -0,0 +1,118 @@
+import { CartItem, PromoCode } from '@/types';
+import { getPromoCode } from '@/data/promoCodes';
+import { pricingService } from '@/services/PricingService';
+
+const REDEMPTIONS_STORAGE_KEY = 'promoRedemptions';
+
+export interface PromoCodeContext {
+  items: CartItem[];
+  // Checked against one-use-per-email codes when known
+  email?: string;
+  now?: Date;
+}
+
+export interface PromoCodeResult {
+  valid: boolean;
+  error?: string;
+  promo?: PromoCode;
+  // Amount taken off the items subtotal, in DHS
+  discount: number;
+  freeShipping: boolean;
+}
+
+const invalid = (error: string, promo?: PromoCode): PromoCodeResult => ({
+  valid: false,
+  error,
+  promo,
+  discount: 0,
+  freeShipping: false
+});
+
+export class PromoCodeService {
+  /**
+   * Validate a code against the cart and compute its discount
+   */
+  public applyPromoCode(code: string, context: PromoCodeContext): PromoCodeResult {
+    const promo = getPromoCode(code);
+    if (!promo) {
+      return invalid('This promo code does not exist');
+    }
+
+    const now = context.now || new Date();
+    if (promo.startsAt && now < new Date(promo.startsAt)) {
+      return invalid('This promo code is not active yet', promo);
+    }
+    if (promo.expiresAt && now > new Date(promo.expiresAt)) {
+      return invalid('This promo code has expired', promo);
+    }
+
+    const pricing = pricingService.priceCart(context.items);
+    if (promo.minOrderValue && pricing.subtotal < promo.minOrderValue) {
+      return invalid(`This code requires a minimum order of ${promo.minOrderValue} DHS`, promo);
+    }
+
+    if (promo.oneUsePerEmail && context.email && this.hasRedeemed(promo.code, context.email)) {
+      return invalid('This promo code has already been used with this email address', promo);
+    }
+
+    // Product-specific codes only discount the matching lines
+    const eligibleSubtotal = pricing.lines
+      .filter((_, index) => !promo.productIds || promo.productIds.includes(context.items[index].productId))
+      .reduce((total, line) => total + line.lineTotal, 0);
+
+    if (promo.productIds && eligibleSubtotal === 0) {
+      return invalid('None of the products in your cart are eligible for this code', promo);
+    }
+
+    switch (promo.type) {
+      case 'free_shipping':
+        return { valid: true, promo, discount: 0, freeShipping: true };
+      case 'fixed':
+        return { valid: true, promo, discount: Math.min(promo.value, eligibleSubtotal), freeShipping: false };
+      default:
+        return {
+          valid: true,
+          promo,
+          discount: Math.round(eligibleSubtotal * promo.value) / 100,
+          freeShipping: false
+        };
+    }
+  }
+
+  /**
+   * Check whether an email address has already used a code
+   */
+  public hasRedeemed(code: string, email: string): boolean {
+    const redemptions = this.getRedemptions();
+    return (redemptions[code.toUpperCase()] || []).includes(email.trim().toLowerCase());
+  }
+
+  /**
+   * Remember that an email address used a code once the order is placed
+   */
+  public recordRedemption(code: string, email: string): void {
+    const redemptions = this.getRedemptions();
+    const key = code.toUpperCase();
+    const normalizedEmail = email.trim().toLowerCase();
+
+    redemptions[key] = Array.from(new Set([...(redemptions[key] || []), normalizedEmail]));
+
+    try {
+      localStorage.setItem(REDEMPTIONS_STORAGE_KEY, JSON.stringify(redemptions));
+    } catch (error) {
+      console.error('Error saving promo code redemption:', error);
+    }
+  }
+
+  private getRedemptions(): Record<string, string[]> {
+    try {
+      const saved = localStorage.getItem(REDEMPTIONS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error('Error loading promo code redemptions:', error);
+      return {};
+    }
+  }
+}
+
+export const promoCodeService = new PromoCodeService();
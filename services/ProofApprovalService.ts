@@ -0,0 +1,158 @@
+import { CartItem, Order, OrderProof, ProofArtwork, ProofRevision, StampDesign } from '@/types';
+import { orderRepository } from './OrderRepository';
+import { orderTrackingService } from './OrderTrackingService';
+
+const TOKEN_BYTES = 16;
+
+/**
+ * Customer sign-off of the artwork before engraving. Every proof sent to the
+ * customer is kept as a revision with their decision and comments.
+ */
+export class ProofApprovalService {
+  /**
+   * First proof of an order, showing the artwork as ordered
+   */
+  public createProof(items: CartItem[], createdAt: string = new Date().toISOString()): OrderProof {
+    return {
+      token: this.createToken(),
+      status: 'pending',
+      revisions: [{
+        number: 1,
+        createdAt,
+        artwork: items.map(item => this.toArtwork(item)),
+        status: 'pending'
+      }]
+    };
+  }
+
+  public getCurrentRevision(order: Order): ProofRevision | undefined {
+    const revisions = order.proof?.revisions || [];
+    return revisions[revisions.length - 1];
+  }
+
+  /**
+   * Design to engrave for an order line: the one on the latest proof revision, else the one ordered.
+   * A line whose proof was corrected with an uploaded image has no design to build a plate from.
+   */
+  public getProductionDesign(order: Order, item: CartItem): StampDesign | undefined {
+    const artwork = this.getCurrentRevision(order)?.artwork.find(entry => entry.lineId === item.id);
+    return artwork ? artwork.design : item.design;
+  }
+
+  public getProofPath(order: Order): string {
+    return `/proof/${encodeURIComponent(order.id)}?token=${order.proof?.token || ''}`;
+  }
+
+  /**
+   * Link sent to the customer to review the proof
+   */
+  public getProofUrl(order: Order): string {
+    return `${window.location.origin}${this.getProofPath(order)}`;
+  }
+
+  /**
+   * Load an order from its proof link; the token must match
+   */
+  public async getOrderForProof(orderId: string, token: string): Promise<Order | null> {
+    const order = await orderTrackingService.loadOrder(orderId);
+    if (!order?.proof || !token || order.proof.token !== token) return null;
+    return order;
+  }
+
+  /**
+   * Sign off the current proof and release the order to production
+   */
+  public async approve(orderId: string, token: string): Promise<Order> {
+    const order = await this.getPendingOrder(orderId, token);
+    const now = new Date().toISOString();
+    const revision = this.getCurrentRevision(order);
+
+    const approvedOrder = this.withCurrentRevision(order, 'approved', { ...revision, status: 'approved', respondedAt: now });
+    const updatedOrder = orderTrackingService.applyStatus(approvedOrder, 'proof_approved', {
+      date: now,
+      note: `Proof revision ${revision.number} approved`
+    });
+
+    await orderRepository.saveOrder(updatedOrder);
+    return updatedOrder;
+  }
+
+  /**
+   * Send the current proof back to the workshop with the customer's comments
+   */
+  public async requestChanges(orderId: string, token: string, comment: string): Promise<Order> {
+    if (!comment.trim()) throw new Error('Please describe the changes you need');
+
+    const order = await this.getPendingOrder(orderId, token);
+    const revision = this.getCurrentRevision(order);
+    const updatedOrder = this.withCurrentRevision(order, 'changes_requested', {
+      ...revision,
+      status: 'changes_requested',
+      respondedAt: new Date().toISOString(),
+      comment: comment.trim()
+    });
+
+    await orderRepository.saveOrder(updatedOrder);
+    return updatedOrder;
+  }
+
+  /**
+   * Send a corrected proof to the customer (workshop side)
+   */
+  public async addRevision(orderId: string, artwork: ProofArtwork[], note?: string): Promise<Order> {
+    const order = await orderTrackingService.loadOrder(orderId);
+    if (!order) throw new Error(`Order ${orderId} not found`);
+    if (order.proof?.status === 'approved') {
+      throw new Error(`The proof of order ${orderId} is already approved`);
+    }
+
+    const proof = order.proof || { token: this.createToken(), status: 'pending', revisions: [] };
+    const revision: ProofRevision = {
+      number: proof.revisions.length + 1,
+      createdAt: new Date().toISOString(),
+      artwork,
+      note,
+      status: 'pending'
+    };
+    const updatedOrder: Order = {
+      ...order,
+      proof: { ...proof, status: 'pending', revisions: [...proof.revisions, revision] }
+    };
+
+    await orderRepository.saveOrder(updatedOrder);
+    return updatedOrder;
+  }
+
+  public toArtwork(item: CartItem): ProofArtwork {
+    return {
+      lineId: item.id,
+      design: item.design,
+      previewImage: item.previewImage,
+      customText: item.customText
+    };
+  }
+
+  private async getPendingOrder(orderId: string, token: string): Promise<Order> {
+    const order = await this.getOrderForProof(orderId, token);
+    if (!order) throw new Error('This proof link is not valid');
+    if (order.proof.status !== 'pending') throw new Error('This proof has already been answered');
+    return order;
+  }
+
+  private withCurrentRevision(order: Order, status: OrderProof['status'], revision: ProofRevision): Order {
+    const revisions = order.proof.revisions.slice(0, -1);
+    return {
+      ...order,
+      proof: { ...order.proof, status, revisions: [...revisions, revision] }
+    };
+  }
+
+  private createToken(): string {
+    const bytes = new Uint8Array(TOKEN_BYTES);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+// Export a singleton instance
+export const proofApprovalService = new ProofApprovalService();
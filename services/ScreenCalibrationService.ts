@@ -0,0 +1,73 @@
+const CALIBRATION_STORAGE_KEY = 'cachet-screen-calibration';
+// Browsers draw a CSS millimetre as 96/25.4 pixels whatever the screen, so it is only
+// a real millimetre on some displays
+export const CSS_PIXELS_PER_MM = 96 / 25.4;
+// ISO/IEC 7810 ID-1, the size of bank and ID cards
+export const CARD_WIDTH_MM = 85.6;
+export const CARD_HEIGHT_MM = 53.98;
+
+type CalibrationListener = () => void;
+
+/**
+ * Scale of this screen, measured by matching an on-screen card to a real bank card,
+ * so actual-size previews are drawn at real millimetres
+ */
+export class ScreenCalibrationService {
+  private listeners = new Set<CalibrationListener>();
+
+  /**
+   * CSS pixels per real millimetre; the CSS default until the screen is calibrated
+   */
+  public getPixelsPerMm(): number {
+    return this.readCalibration() || CSS_PIXELS_PER_MM;
+  }
+
+  public isCalibrated(): boolean {
+    return this.readCalibration() !== null;
+  }
+
+  public setPixelsPerMm(pixelsPerMm: number): void {
+    try {
+      localStorage.setItem(CALIBRATION_STORAGE_KEY, String(pixelsPerMm));
+    } catch (error) {
+      console.error('Error saving screen calibration:', error);
+    }
+    this.notify();
+  }
+
+  public reset(): void {
+    try {
+      localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error resetting screen calibration:', error);
+    }
+    this.notify();
+  }
+
+  /**
+   * Listen for calibration changes; returns an unsubscribe function
+   */
+  public subscribe(listener: CalibrationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private readCalibration(): number | null {
+    try {
+      const value = Number(localStorage.getItem(CALIBRATION_STORAGE_KEY));
+      return value > 0 ? value : null;
+    } catch (error) {
+      console.error('Error reading screen calibration:', error);
+      return null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export a singleton instance
+export const screenCalibrationService = new ScreenCalibrationService();
@@ -0,0 +1,232 @@
+import { CartItem, Product, ShippingRate, ShippingZone } from '@/types';
+import { getAccessoryById, getBundleOfferById } from '@/data/pricing';
+import { getPublicHoliday } from '@/data/holidays';
+import { moroccanRegions } from '@/data/moroccoAddresses';
+import {
+  casablancaZoneCities,
+  freeShippingThresholds,
+  majorCities,
+  ORDER_CUTOFF_HOUR,
+  remoteRegionIds,
+  ShippingCarrier,
+  shippingCarriers,
+  ZoneRate
+} from '@/data/shipping';
+import { findCity, normalizePlaceName } from '@/utils/moroccanAddress';
+import { inventoryService } from './InventoryService';
+import { parseProductSize } from '@/utils/stampDimensions';
+
+export interface ParcelWeight {
+  // Kilograms, packaging included
+  actualWeight: number;
+  // Kilograms billed for the parcel volume (cm³ / 5000)
+  volumetricWeight: number;
+  // The larger of the two, used for pricing
+  chargeableWeight: number;
+}
+
+export interface ShippingRateRequest {
+  items: CartItem[];
+  city: string;
+  region?: string;
+  // Order subtotal after discounts, checked against the free shipping threshold
+  subtotal: number;
+  now?: Date;
+}
+
+// Box, cushioning and label of the parcel
+const PACKAGING_WEIGHT = 150;
+const DEFAULT_ACCESSORY_WEIGHT = 40;
+// Space around the impression area taken by the stamp mount and its box, in mm
+const BOX_MARGIN = 30;
+const BOX_HEIGHT = 80;
+const VOLUMETRIC_DIVISOR = 5000;
+
+const roundWeight = (kilograms: number): number => Math.round(kilograms * 100) / 100;
+
+const toDateString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const fromDateString = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export class ShippingService {
+  /**
+   * Delivery zone of a city; cities missing from the address dataset are placed by region
+   */
+  public getZone(city: string, region?: string): ShippingZone {
+    const knownCity = findCity(city);
+    if (knownCity) {
+      if (casablancaZoneCities.includes(knownCity.name)) return 'casablanca';
+      if (majorCities.includes(knownCity.name)) return 'major_city';
+      return remoteRegionIds.includes(knownCity.regionId) ? 'remote' : 'standard';
+    }
+
+    const regionName = normalizePlaceName(region || '');
+    const knownRegion = moroccanRegions.find(option => normalizePlaceName(option.name) === regionName);
+    return knownRegion && remoteRegionIds.includes(knownRegion.id) ? 'remote' : 'standard';
+  }
+
+  /**
+   * Boxed weight of one stamp in grams. Products without a catalogue weight are
+   * estimated from their impression area: bigger stamps have bigger mounts.
+   */
+  public getProductWeight(product: Product): number {
+    if (product.weight) return product.weight;
+    const { width, height } = parseProductSize(product.size);
+    return Math.round(80 + width * height * 0.05);
+  }
+
+  /**
+   * Weight and volumetric weight of the parcel for the whole cart
+   */
+  public getCartWeight(items: CartItem[]): ParcelWeight {
+    let grams = items.length > 0 ? PACKAGING_WEIGHT : 0;
+    let volume = 0;
+
+    items.forEach(item => {
+      const bundle = item.bundleId ? getBundleOfferById(item.bundleId) : undefined;
+      const accessoriesWeight = (bundle?.accessoryIds || []).reduce(
+        (total, id) => total + (getAccessoryById(id)?.weight || DEFAULT_ACCESSORY_WEIGHT),
+        0
+      );
+      grams += (this.getProductWeight(item.product) + accessoriesWeight) * item.quantity;
+
+      const { width, height } = parseProductSize(item.product.size);
+      volume += ((width + BOX_MARGIN) * (height + BOX_MARGIN) * BOX_HEIGHT / 1000) * item.quantity;
+    });
+
+    const actualWeight = roundWeight(grams / 1000);
+    const volumetricWeight = roundWeight(volume / VOLUMETRIC_DIVISOR);
+    return {
+      actualWeight,
+      volumetricWeight,
+      chargeableWeight: Math.max(actualWeight, volumetricWeight)
+    };
+  }
+
+  /**
+   * Sundays and public holidays are not working days for the workshop or the carriers
+   */
+  public isBusinessDay(date: Date): boolean {
+    return date.getDay() !== 0 && !getPublicHoliday(toDateString(date));
+  }
+
+  public addBusinessDays(date: Date, days: number): Date {
+    const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    let remaining = days;
+    while (remaining > 0 || !this.isBusinessDay(result)) {
+      result.setDate(result.getDate() + 1);
+      if (this.isBusinessDay(result)) remaining--;
+    }
+    return result;
+  }
+
+  /**
+   * Day the order leaves the workshop: today before the cutoff, otherwise the next working day,
+   * pushed back by the lead time of back-ordered items
+   */
+  public getDispatchDate(now: Date = new Date(), leadDays: number = 0): Date {
+    const dispatchDate = this.isBusinessDay(now) && now.getHours() < ORDER_CUTOFF_HOUR
+      ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+      : this.addBusinessDays(now, 1);
+    return leadDays > 0 ? this.addBusinessDays(dispatchDate, leadDays) : dispatchDate;
+  }
+
+  public estimateDelivery(rate: ZoneRate, now: Date = new Date(), leadDays: number = 0): ShippingRate['estimatedDelivery'] {
+    const dispatchDate = this.getDispatchDate(now, leadDays);
+    return {
+      from: toDateString(this.addBusinessDays(dispatchDate, rate.minDays)),
+      to: toDateString(this.addBusinessDays(dispatchDate, rate.maxDays))
+    };
+  }
+
+  /**
+   * Price of a carrier for a zone and parcel weight, before any free shipping
+   */
+  public getCarrierPrice(rate: ZoneRate, chargeableWeight: number): number {
+    const extraKilograms = Math.max(0, Math.ceil(chargeableWeight - rate.includedWeight));
+    return rate.basePrice + extraKilograms * rate.pricePerExtraKg;
+  }
+
+  public getFreeShippingThreshold(zone: ShippingZone): number {
+    return freeShippingThresholds[zone];
+  }
+
+  /**
+   * Amount left to spend before eligible carriers become free; 0 once reached
+   */
+  public getFreeShippingRemaining(city: string, region: string | undefined, subtotal: number): number {
+    const threshold = this.getFreeShippingThreshold(this.getZone(city, region));
+    return Math.max(0, Math.round((threshold - subtotal) * 100) / 100);
+  }
+
+  /**
+   * Delivery options for the cart and destination, with prices and delivery estimates
+   */
+  public getRates({ items, city, region, subtotal, now = new Date() }: ShippingRateRequest): ShippingRate[] {
+    const zone = this.getZone(city, region);
+    const { chargeableWeight } = this.getCartWeight(items);
+    const freeShipping = subtotal >= this.getFreeShippingThreshold(zone);
+    const leadDays = inventoryService.getCartLeadDays(items);
+
+    return shippingCarriers
+      .filter(carrier => carrier.rates[zone] && chargeableWeight <= carrier.maxWeight)
+      .map(carrier => this.createRate(carrier, carrier.rates[zone], chargeableWeight, freeShipping, now, leadDays));
+  }
+
+  /**
+   * Rate selected by default: the cheapest home or agency delivery
+   */
+  public getDefaultRate(rates: ShippingRate[]): ShippingRate | undefined {
+    const deliveries = rates.filter(rate => !rate.isPickup);
+    return [...(deliveries.length > 0 ? deliveries : rates)].sort((a, b) => a.price - b.price)[0];
+  }
+
+  /**
+   * Delivery window for display, e.g. "Tue 21 Oct" or "Tue 21 Oct – Thu 23 Oct"
+   */
+  public formatDeliveryEstimate(estimate: ShippingRate['estimatedDelivery']): string {
+    const format = (date: string) =>
+      fromDateString(date).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+    return estimate.from === estimate.to ? format(estimate.from) : `${format(estimate.from)} – ${format(estimate.to)}`;
+  }
+
+  private createRate(
+    carrier: ShippingCarrier,
+    rate: ZoneRate,
+    chargeableWeight: number,
+    freeShipping: boolean,
+    now: Date,
+    leadDays: number
+  ): ShippingRate {
+    const price = this.getCarrierPrice(rate, chargeableWeight);
+    const isFree = freeShipping && carrier.freeShippingEligible && price > 0;
+
+    return {
+      id: carrier.id,
+      name: carrier.name,
+      description: carrier.description,
+      price: isFree ? 0 : price,
+      originalPrice: isFree ? price : undefined,
+      days: this.describeTransit(carrier, rate),
+      estimatedDelivery: this.estimateDelivery(rate, now, leadDays),
+      isPickup: carrier.isPickup
+    };
+  }
+
+  private describeTransit(carrier: ShippingCarrier, rate: ZoneRate): string {
+    if (carrier.isPickup) return 'Ready for pickup';
+    if (rate.maxDays === 0) return 'Same-day delivery';
+    if (rate.minDays === rate.maxDays) return `${rate.maxDays} business day${rate.maxDays > 1 ? 's' : ''}`;
+    return `${rate.minDays}-${rate.maxDays} business days`;
+  }
+}
+
+// Export a singleton instance
+export const shippingService = new ShippingService();
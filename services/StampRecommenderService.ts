@@ -0,0 +1,249 @@
+import { Product, ProductVariant, StampDesign } from '@/types';
+import { getStampTextFieldById, StampTextFieldId } from '@/data/stampPurposes';
+import { ContentAnalysisResult, enhancedAiDesignService } from './EnhancedAiDesignService';
+import { inventoryService } from './InventoryService';
+import { productVariantService } from './ProductVariantService';
+import { getProductDimensions } from '@/utils/stampDimensions';
+
+type StampShape = 'rectangle' | 'circle' | 'square';
+
+// What the text needs from a stamp
+export interface StampRequirements {
+  lines: number;
+  // Characters on the longest line
+  longestLine: number;
+  // Smallest impression in millimetres that keeps the text legible
+  minWidth: number;
+  minHeight: number;
+  // Smallest round stamp, with the two longest lines along the edge
+  minDiameter: number;
+  needsDater: boolean;
+  needsLogo: boolean;
+  preferredShape?: StampShape;
+}
+
+export interface StampRecommendation {
+  // At the recommended size
+  product: Product;
+  // Size variant to order, for products sold in several sizes
+  variant?: ProductVariant;
+  price: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface TextRequirements {
+  requirements: StampRequirements;
+  analysis: ContentAnalysisResult;
+  warnings: string[];
+}
+
+// Smallest comfortable line pitch, about 7 pt text with its spacing
+const LINE_PITCH_MM = 3.5;
+// Average width of a character at that size
+const CHARACTER_WIDTH_MM = 1.6;
+// Space kept free along each edge and for the border
+const MARGIN_MM = 2;
+// Room a logo takes beside the text
+const LOGO_WIDTH_MM = 15;
+// Longer lines are split when estimating pasted text
+const MAX_LINE_CHARACTERS = 40;
+// Share of each half of a round stamp's edge that text along it can use
+const ROUND_EDGE_TEXT_RATIO = 0.85;
+// Share of the middle of a round stamp usable by straight lines
+const ROUND_CENTRE_TEXT_RATIO = 0.8;
+
+const DATE_WORDS = /\b(re[çc]u|pay[ée]|livr[ée]|dat[ée]|date|received|paid|delivered)\b/i;
+const ICE_PATTERN = /\bICE\b|\b\d{15}\b/i;
+
+/**
+ * "Which stamp do I need?": works out the lines and the impression size a text needs
+ * and ranks the catalogue by fit, price and shape
+ */
+export class StampRecommenderService {
+  /**
+   * Requirements of the lines the customer ticked
+   */
+  public getRequirementsFromFields(fieldIds: StampTextFieldId[], preferredShape?: StampShape): StampRequirements {
+    const lineLengths = fieldIds
+      .map(id => getStampTextFieldById(id))
+      .filter(Boolean)
+      .flatMap(field => Array.from({ length: field.lines }, () => field.characters));
+
+    return this.buildRequirements(lineLengths, {
+      needsDater: fieldIds.includes('date'),
+      needsLogo: fieldIds.includes('logo'),
+      preferredShape
+    });
+  }
+
+  /**
+   * Requirements of a text pasted by the customer, one stamp line per text line
+   */
+  public async getRequirementsFromText(text: string, preferredShape?: StampShape): Promise<TextRequirements> {
+    const textLines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const lineLengths = textLines.flatMap(line =>
+      Array.from({ length: Math.ceil(line.length / MAX_LINE_CHARACTERS) }, (_, index) =>
+        Math.min(MAX_LINE_CHARACTERS, line.length - index * MAX_LINE_CHARACTERS)
+      )
+    );
+
+    const analysis = await enhancedAiDesignService.analyzeContent(
+      this.toDesign(textLines, preferredShape || 'rectangle'),
+      preferredShape || 'rectangle',
+      ''
+    );
+
+    const warnings: string[] = [];
+    if (textLines.some(line => line.length > MAX_LINE_CHARACTERS)) {
+      warnings.push(`Lines longer than ${MAX_LINE_CHARACTERS} characters are counted as two lines; shorter lines give a larger text.`);
+    }
+    if (analysis.textDensity === 'overcrowded') {
+      warnings.push('This is a lot of text for a stamp. Consider keeping only what your documents require.');
+    }
+    if (ICE_PATTERN.test(text) && !/\d{15}/.test(text.replace(/\s/g, ''))) {
+      warnings.push('An ICE number has 15 digits; check yours before ordering.');
+    }
+
+    return {
+      requirements: this.buildRequirements(lineLengths, {
+        needsDater: analysis.contentType === 'date' || DATE_WORDS.test(text),
+        needsLogo: false,
+        preferredShape
+      }),
+      analysis,
+      warnings
+    };
+  }
+
+  public isDater(product: Product): boolean {
+    return /dater|dateur/i.test(`${product.name} ${product.description}`)
+      || (product.variants || []).some(variant => variant.options.daterLanguage !== undefined);
+  }
+
+  /**
+   * Whether the text fits the stamp at a legible size
+   */
+  public fits(product: Product, requirements: StampRequirements): boolean {
+    if (product.lines < requirements.lines) return false;
+    if (requirements.needsDater && !this.isDater(product)) return false;
+
+    const { width, height, isRound } = getProductDimensions(product);
+    if (isRound) return width >= requirements.minDiameter;
+    return width >= requirements.minWidth && height >= requirements.minHeight;
+  }
+
+  /**
+   * Products the text fits on that can be ordered, best first. Cheaper stamps, the
+   * preferred shape and little unused room rank higher. Products sold in several sizes
+   * are recommended at the smallest size that fits.
+   */
+  public recommend(products: Product[], requirements: StampRequirements, limit: number = 3): StampRecommendation[] {
+    const candidates = products
+      .map(product => productVariantService.getSizeVariants(product)
+        .map(({ product: sized, variant }) => ({
+          product: sized,
+          variant,
+          price: productVariantService.getUnitPrice(sized, variant),
+          availability: variant
+            ? inventoryService.getVariantAvailability(product, variant)
+            : inventoryService.getProductAvailability(product)
+        }))
+        .filter(candidate => this.fits(candidate.product, requirements) && inventoryService.isPurchasable(candidate.availability))
+        .sort((a, b) => a.price - b.price)[0])
+      .filter(Boolean);
+    if (candidates.length === 0) return [];
+
+    const prices = candidates.map(candidate => candidate.price);
+    const minPrice = Math.min(...prices);
+    const priceRange = Math.max(...prices) - minPrice || 1;
+
+    return candidates
+      .map(({ product, variant, price }) => {
+        const { width, height } = getProductDimensions(product);
+        const spareLines = product.lines - requirements.lines;
+        const isPreferredShape = !requirements.preferredShape || product.shape === requirements.preferredShape;
+        const hasLogoSpace = /logo/i.test(product.description);
+
+        let score = 100;
+        score -= 30 * (price - minPrice) / priceRange;
+        score -= 4 * Math.max(0, spareLines - 1);
+        if (!isPreferredShape) score -= 25;
+        if (!requirements.needsDater && this.isDater(product)) score -= 15;
+        if (requirements.needsLogo && !hasLogoSpace) score -= 10;
+
+        const reasons = [
+          `Fits your ${requirements.lines} ${requirements.lines === 1 ? 'line' : 'lines'} (up to ${product.lines})`,
+          `${Math.round(width)} × ${Math.round(height)} mm impression keeps the text legible`
+        ];
+        if (price === minPrice) reasons.push('Lowest price of the stamps that fit');
+        if (requirements.preferredShape && isPreferredShape) reasons.push(`${product.shape === 'circle' ? 'Round' : 'Rectangular'} as you prefer`);
+        if (requirements.needsDater) reasons.push('Includes a changeable date band');
+        if (requirements.needsLogo && hasLogoSpace) reasons.push('Room for your logo');
+
+        return { product, variant, price, score: Math.round(score), reasons };
+      })
+      .sort((a, b) => b.score - a.score || a.price - b.price)
+      .slice(0, limit);
+  }
+
+  /**
+   * Sizes needed for lines of the given lengths in characters
+   */
+  private buildRequirements(
+    lineLengths: number[],
+    options: Pick<StampRequirements, 'needsDater' | 'needsLogo' | 'preferredShape'>
+  ): StampRequirements {
+    const sortedLengths = [...lineLengths].sort((a, b) => b - a);
+    const firstLine = sortedLengths[0] || 0;
+    const centreLines = sortedLengths.slice(2);
+    const ringWidth = 2 * MARGIN_MM + LINE_PITCH_MM;
+
+    // On round stamps the two longest lines run along the top and bottom of the edge,
+    // the others are straight in the middle, where the logo also goes
+    const edgeDiameter = (firstLine * CHARACTER_WIDTH_MM) / ((Math.PI / 2) * ROUND_EDGE_TEXT_RATIO) + ringWidth;
+    const centreSize = Math.max(
+      Math.max(0, ...centreLines) * CHARACTER_WIDTH_MM,
+      centreLines.length * LINE_PITCH_MM
+    );
+    const centreDiameter = centreSize / ROUND_CENTRE_TEXT_RATIO + ringWidth;
+
+    return {
+      lines: lineLengths.length,
+      longestLine: firstLine,
+      minWidth: Math.ceil(firstLine * CHARACTER_WIDTH_MM + 2 * MARGIN_MM + (options.needsLogo ? LOGO_WIDTH_MM : 0)),
+      minHeight: Math.ceil(lineLengths.length * LINE_PITCH_MM + 2 * MARGIN_MM),
+      minDiameter: Math.ceil(Math.max(edgeDiameter, centreDiameter)),
+      ...options
+    };
+  }
+
+  private toDesign(textLines: string[], shape: StampShape): StampDesign {
+    return {
+      lines: textLines.map(text => ({
+        text,
+        fontSize: 16,
+        fontFamily: 'Arial',
+        bold: false,
+        italic: false,
+        alignment: 'center',
+        curved: false,
+        xPosition: 0,
+        yPosition: 0,
+        letterSpacing: 0
+      })),
+      inkColor: 'blue',
+      includeLogo: false,
+      logoPosition: 'top',
+      logoX: 0,
+      logoY: 0,
+      logoDragging: false,
+      shape,
+      borderStyle: 'single',
+      elements: []
+    };
+  }
+}
+
+// Export a singleton instance
+export const stampRecommenderService = new StampRecommenderService();
@@ -0,0 +1,82 @@
+import { CartItem } from '@/types';
+import { TVA_RATE } from '@/data/company';
+import { pricingService } from '@/services/PricingService';
+
+export interface TaxAmounts {
+  ht: number;
+  tva: number;
+  ttc: number;
+}
+
+export interface TaxLine extends TaxAmounts {
+  // Cart line id, or 'discount' / 'shipping' / 'payment_fee'
+  id: string;
+  label: string;
+  quantity?: number;
+}
+
+export interface OrderTaxBreakdown {
+  rate: number;
+  lines: TaxLine[];
+  totals: TaxAmounts;
+}
+
+export interface OrderTaxInput {
+  items: CartItem[];
+  // Promo code discount, TTC
+  discount?: number;
+  // Shipping price, TTC
+  shipping?: number;
+  // Payment method fee, TTC
+  paymentFee?: number;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class TaxService {
+  /**
+   * Split a VAT-inclusive amount into HT, TVA and TTC
+   */
+  public splitTtc(ttc: number, rate: number = TVA_RATE): TaxAmounts {
+    const ht = roundAmount(ttc / (1 + rate));
+    return { ht, tva: roundAmount(ttc - ht), ttc: roundAmount(ttc) };
+  }
+
+  /**
+   * Compute the HT/TVA/TTC breakdown of every line and of the whole order.
+   * Catalogue prices, discounts and shipping are all VAT inclusive.
+   */
+  public computeOrderTax({ items, discount = 0, shipping = 0, paymentFee = 0 }: OrderTaxInput): OrderTaxBreakdown {
+    const pricing = pricingService.priceCart(items);
+
+    const lines: TaxLine[] = items.map((item, index) => ({
+      id: item.id,
+      label: pricing.lines[index].bundle
+        ? `${item.product.name} + ${pricing.lines[index].bundleAccessories.map(accessory => accessory.name).join(', ')}`
+        : item.product.name,
+      quantity: item.quantity,
+      ...this.splitTtc(pricing.lines[index].lineTotal)
+    }));
+
+    if (discount > 0) {
+      lines.push({ id: 'discount', label: 'Discount', ...this.splitTtc(-discount) });
+    }
+    if (shipping > 0) {
+      lines.push({ id: 'shipping', label: 'Shipping', ...this.splitTtc(shipping) });
+    }
+    if (paymentFee > 0) {
+      lines.push({ id: 'payment_fee', label: 'Payment fee', ...this.splitTtc(paymentFee) });
+    }
+
+    // Totals are computed on the order total so HT + TVA always equals TTC
+    const totalTtc = lines.reduce((total, line) => total + line.ttc, 0);
+
+    return {
+      rate: TVA_RATE,
+      lines,
+      totals: this.splitTtc(totalTtc)
+    };
+  }
+}
+
+export const taxService = new TaxService();
@@ -0,0 +1,199 @@
+import { parse } from 'opentype.js';
+import type { Font, Glyph } from 'opentype.js';
+import { StampTextLine } from '@/types';
+import { fallbackOutlineFont, getOutlineFontFaces, OutlineFontStyle } from '@/data/outlineFonts';
+
+// Scripts whose letters change shape with their neighbours
+const ARABIC_PATTERN = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+export interface TextOutlineStyle {
+  fontFamily?: string;
+  bold?: boolean;
+  italic?: boolean;
+  fontSize: number;
+  // Extra space after each glyph, in the same unit as fontSize
+  letterSpacing?: number;
+}
+
+export interface PlacedGlyph {
+  glyph: Glyph;
+  // Offset of the glyph origin from the start of the text
+  x: number;
+  advance: number;
+}
+
+export interface TextOutlineLayout {
+  glyphs: PlacedGlyph[];
+  width: number;
+  // Height of the lower-case letters, to centre the text on a line like dominant-baseline="middle"
+  xHeight: number;
+}
+
+/**
+ * Turns stamp text into glyph outlines, so production files engrave the same letters
+ * on any machine, with or without the fonts installed. Fonts are loaded on demand;
+ * text is only laid out once every font it needs has loaded.
+ */
+export class TextOutlineService {
+  private fonts = new Map<string, Font>();
+  private pending = new Map<string, Promise<void>>();
+
+  /**
+   * Load the fonts needed to outline these lines; fonts that fail to load are logged and skipped
+   */
+  public async loadFonts(lines: StampTextLine[]): Promise<void> {
+    const urls = new Set(lines
+      .filter(line => line.text && line.text.trim())
+      .flatMap(line => this.getFontUrls(this.getLineStyle(line))));
+
+    await Promise.all(Array.from(urls, url => this.loadFont(url)));
+  }
+
+  public isLoaded(lines: StampTextLine[]): boolean {
+    return lines
+      .filter(line => line.text && line.text.trim())
+      .every(line => this.getFontUrls(this.getLineStyle(line)).every(url => this.fonts.has(url)));
+  }
+
+  /**
+   * Place the glyphs of a line of text, switching to the fallback font for characters
+   * the line's font lacks. Returns undefined when a font is not loaded or no font has a character.
+   */
+  public layout(text: string, style: TextOutlineStyle): TextOutlineLayout | undefined {
+    const fonts = this.getFontUrls(style).map(url => this.fonts.get(url));
+    if (fonts.some(font => !font)) return undefined;
+
+    const runs = this.splitRuns(text, fonts as Font[]);
+    if (!runs) return undefined;
+
+    const glyphs: PlacedGlyph[] = [];
+    let x = 0;
+    for (const run of runs) {
+      const placed = this.placeRun(run.font, run.text, x, style);
+      if (!placed) return undefined;
+      glyphs.push(...placed.glyphs);
+      x = placed.end;
+    }
+
+    const primary = fonts[0] as Font;
+    const os2 = primary.tables.os2 as { sxHeight?: number } | undefined;
+    const xHeight = ((os2?.sxHeight || primary.unitsPerEm / 2) / primary.unitsPerEm) * style.fontSize;
+
+    return { glyphs, width: x, xHeight };
+  }
+
+  /**
+   * Outline style of a design line; bold and italic text effects count as bold and italic
+   */
+  public getLineStyle(line: StampTextLine, fontSize: number = line.fontSize, letterSpacing = 0): TextOutlineStyle {
+    return {
+      fontFamily: line.fontFamily,
+      bold: line.bold || line.textEffect?.type === 'bold',
+      italic: line.italic || line.textEffect?.type === 'italic',
+      fontSize,
+      letterSpacing
+    };
+  }
+
+  /**
+   * SVG path data of a glyph with its origin at (x, y)
+   */
+  public getGlyphPathData(glyph: Glyph, x: number, y: number, fontSize: number): string {
+    return glyph.getPath(x, y, fontSize).toPathData(3);
+  }
+
+
+  private getFontStyle({ bold, italic }: Pick<TextOutlineStyle, 'bold' | 'italic'>): OutlineFontStyle {
+    if (bold && italic) return 'boldItalic';
+    if (bold) return 'bold';
+    return italic ? 'italic' : 'regular';
+  }
+
+  /**
+   * Shape and place a run of text from x. opentype.js rejects some substitution lookups
+   * (e.g. in Gelasio and DejaVu Sans): Latin text is then placed glyph by glyph with kerning,
+   * while Arabic, which cannot be drawn without shaping, has no layout.
+   */
+  private placeRun(font: Font, text: string, x: number, style: TextOutlineStyle): { glyphs: PlacedGlyph[]; end: number } | undefined {
+    const scale = style.fontSize / font.unitsPerEm;
+    const spacing = style.letterSpacing || 0;
+
+    try {
+      const glyphs: PlacedGlyph[] = [];
+      const options = { kerning: true, letterSpacing: spacing / style.fontSize };
+      const end = font.forEachGlyph(text, x, 0, style.fontSize, options, (glyph, glyphX) => {
+        glyphs.push({ glyph, x: glyphX, advance: (glyph.advanceWidth || 0) * scale });
+      });
+      return { glyphs, end };
+    } catch (error) {
+      if (ARABIC_PATTERN.test(text)) {
+        console.error('Error shaping text for outlines:', error);
+        return undefined;
+      }
+    }
+
+    let end = x;
+    const unshaped = Array.from(text, char => font.charToGlyph(char));
+    const glyphs = unshaped.map((glyph, index) => {
+      const placed = { glyph, x: end, advance: (glyph.advanceWidth || 0) * scale };
+      const next = unshaped[index + 1];
+      end += ((glyph.advanceWidth || 0) + (next ? font.getKerningValue(glyph, next) : 0)) * scale + spacing;
+      return placed;
+    });
+    return { glyphs, end };
+  }
+
+  // The line's font, then the fallback font
+  private getFontUrls(style: TextOutlineStyle): string[] {
+    const outlineStyle = this.getFontStyle(style);
+    return [getOutlineFontFaces(style.fontFamily)[outlineStyle], fallbackOutlineFont[outlineStyle]];
+  }
+
+  /**
+   * Split text into runs of characters drawn with the same font. Spaces stay in the
+   * current run so words of a script are shaped together.
+   */
+  private splitRuns(text: string, fonts: Font[]): { font: Font; text: string }[] | undefined {
+    const runs: { font: Font; text: string }[] = [];
+
+    for (const char of Array.from(text)) {
+      const current = runs[runs.length - 1];
+      if (current && /\s/.test(char)) {
+        current.text += char;
+        continue;
+      }
+
+      const font = fonts.find(candidate => candidate.charToGlyphIndex(char) > 0);
+      if (!font) return undefined;
+
+      if (current?.font === font) current.text += char;
+      else runs.push({ font, text: char });
+    }
+
+    return runs;
+  }
+
+  private loadFont(url: string): Promise<void> {
+    if (this.fonts.has(url)) return Promise.resolve();
+
+    let promise = this.pending.get(url);
+    if (!promise) {
+      promise = fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`Font request failed with status ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(buffer => {
+          this.fonts.set(url, parse(buffer));
+        })
+        .catch(error => console.error(`Error loading outline font ${url}:`, error))
+        .finally(() => this.pending.delete(url));
+      this.pending.set(url, promise);
+    }
+
+    return promise;
+  }
+}
+
+// Export a singleton instance
+export const textOutlineService = new TextOutlineService();
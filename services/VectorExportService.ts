@@ -0,0 +1,360 @@
+import { Product, StampDesign, StampElement, StampTextLine } from '@/types';
+import { getProductDimensions, StampDimensions } from '@/utils/stampDimensions';
+import { escapeXml, formatSvgNumber as fmt } from '@/utils/markup';
+import { TextOutlineLayout, textOutlineService } from '@/services/TextOutlineService';
+
+export interface VectorExportOptions {
+  // Paint a white background behind the plate (off for engraving files)
+  background?: boolean;
+}
+
+const BORDER_STROKE_WIDTH = 0.5;
+const BORDER_RING_SPACING = 1.5;
+
+/**
+ * Service for exporting a finished stamp design as a production-ready vector file.
+ * All coordinates are in millimetres so the file opens at the physical product size,
+ * and text is converted to glyph outlines so the file needs no fonts to engrave.
+ */
+class VectorExportService {
+  /**
+   * Build the SVG markup for a design at the physical size of its product
+   */
+  generateSvg(design: StampDesign, product: Product, options: VectorExportOptions = {}): string {
+    const dimensions = getProductDimensions(product);
+    const { width, height } = dimensions;
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" version="1.1"`,
+      ` width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+      `<title>${escapeXml(`${product.name} (${product.size})`)}</title>`,
+      options.background ? `<rect width="${width}" height="${height}" fill="white"/>` : '',
+      this.renderPlate(design, dimensions),
+      `</svg>`
+    ].join('');
+  }
+
+  /**
+   * Render the plate content (border, logo, text and elements) without the surrounding <svg>
+   */
+  renderPlate(design: StampDesign, dimensions: StampDimensions): string {
+    const isCircle = design.shape === 'circle' || dimensions.isRound;
+    const parts: string[] = [];
+
+    parts.push(isCircle ? this.renderCircleBorder(design, dimensions) : this.renderRectangleBorder(design, dimensions));
+    parts.push(this.renderLogo(design, dimensions, isCircle));
+
+    design.lines.forEach((line, index) => {
+      if (!line.text || !line.text.trim()) return;
+      parts.push(isCircle
+        ? this.renderCircleLine(design, line, index, dimensions)
+        : this.renderRectangleLine(design, line, dimensions));
+    });
+
+    (design.elements || []).forEach(element => {
+      parts.push(this.renderElement(element, dimensions));
+    });
+
+    return parts.join('');
+  }
+
+  /**
+   * Load the fonts that turn the design's text into outlines. Text whose fonts
+   * are not loaded yet is written as <text>, in whatever font the viewer has.
+   */
+  loadFonts(design: StampDesign): Promise<void> {
+    return textOutlineService.loadFonts(design.lines);
+  }
+
+  areFontsLoaded(design: StampDesign): boolean {
+    return textOutlineService.isLoaded(design.lines);
+  }
+
+  /**
+   * Trigger a download of the SVG file, with its text as outlines
+   */
+  async downloadSvg(design: StampDesign, product: Product): Promise<void> {
+    await this.loadFonts(design);
+    const svg = this.generateSvg(design, product);
+    const blob = new Blob([svg], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = `${this.getFileBaseName(product)}.svg`;
+    link.href = url;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Open the vector design in a print window sized to the product,
+   * so it can be saved as a PDF with the browser's "Save as PDF" destination
+   */
+  async printAsPdf(design: StampDesign, product: Product): Promise<boolean> {
+    const { width, height } = getProductDimensions(product);
+
+    // Open the window before waiting for the fonts, while the click still allows pop-ups
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+
+    await this.loadFonts(design);
+    const svg = this.generateSvg(design, product);
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>${escapeXml(this.getFileBaseName(product))}</title>
+    <style>
+      @page { size: ${width}mm ${height}mm; margin: 0; }
+      html, body { margin: 0; padding: 0; }
+      svg { display: block; }
+    </style>
+  </head>
+  <body>${svg}</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    // The blank window has already loaded by now, so an onload handler would never run
+    printWindow.print();
+
+    return true;
+  }
+
+  private renderCircleBorder(design: StampDesign, { width, height }: StampDimensions): string {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const radius = this.getCircleRadius(width, height);
+
+    return this.getBorderRingCount(design.borderStyle)
+      .map(ring => {
+        const r = radius - ring * BORDER_RING_SPACING;
+        return `<circle cx="${fmt(centerX)}" cy="${fmt(centerY)}" r="${fmt(r)}" fill="none" stroke="${escapeXml(design.inkColor)}" stroke-width="${BORDER_STROKE_WIDTH}"/>`;
+      })
+      .join('');
+  }
+
+  private renderRectangleBorder(design: StampDesign, { width, height }: StampDimensions): string {
+    const cornerRadius = width * 0.05;
+
+    return this.getBorderRingCount(design.borderStyle)
+      .map(ring => {
+        const inset = BORDER_STROKE_WIDTH + ring * BORDER_RING_SPACING;
+        return `<rect x="${fmt(inset)}" y="${fmt(inset)}" width="${fmt(width - inset * 2)}" height="${fmt(height - inset * 2)}" rx="${fmt(Math.max(0, cornerRadius - ring * 0.5))}" fill="none" stroke="${escapeXml(design.inkColor)}" stroke-width="${BORDER_STROKE_WIDTH}"/>`;
+      })
+      .join('');
+  }
+
+  private renderLogo(design: StampDesign, { width, height }: StampDimensions, isCircle: boolean): string {
+    if (!design.includeLogo || !design.logoImage) return '';
+
+    const centerX = width / 2;
+    const centerY = height / 2;
+
+    if (isCircle) {
+      const radius = this.getCircleRadius(width, height);
+      const logoSize = radius / 3;
+      const logoX = centerX + (design.logoX || 0) / 100 * (radius - logoSize);
+      const logoY = centerY + (design.logoY || 0) / 100 * (radius - logoSize);
+
+      return this.renderImage(design.logoImage, logoX - logoSize, logoY - logoSize, logoSize * 2, logoSize * 2);
+    }
+
+    const logoWidth = width * 0.2;
+    const logoHeight = height * 0.2;
+    const logoX = centerX + ((design.logoX || 0) / 100) * (width / 2 - logoWidth / 2);
+    const logoY = centerY + ((design.logoY || 0) / 100) * (height / 2 - logoHeight / 2);
+
+    return this.renderImage(design.logoImage, logoX - logoWidth / 2, logoY - logoHeight / 2, logoWidth, logoHeight);
+  }
+
+  private renderCircleLine(design: StampDesign, line: StampTextLine, index: number, { width, height }: StampDimensions): string {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const radius = this.getCircleRadius(width, height);
+    const fontSize = (line.fontSize / 20) * (radius / 10);
+
+    if (line.curved) {
+      let pathRadius: number;
+      if (index === 0) {
+        pathRadius = radius - fontSize / 2;
+      } else if (index === design.lines.length - 1 && design.lines.length > 2) {
+        pathRadius = radius * 0.65;
+      } else {
+        pathRadius = radius - (index * (radius / (design.lines.length + 1)));
+      }
+
+      const isBottom = line.curvature === 'bottom' || (line.curvature !== 'top' && line.yPosition > 0);
+      const letterSpacing = line.letterSpacing || 0.5;
+      const layout = textOutlineService.layout(this.getDisplayText(line), textOutlineService.getLineStyle(line, fontSize, letterSpacing));
+      if (layout) {
+        return this.renderCurvedOutline(design, line, layout, fontSize, centerX, centerY, pathRadius, isBottom);
+      }
+
+      const sweep = isBottom ? 0 : 1;
+      const pathId = `curve-${index}`;
+      const d = `M ${fmt(centerX - pathRadius)} ${fmt(centerY)} ` +
+        `a ${fmt(pathRadius)} ${fmt(pathRadius)} 0 1 ${sweep} ${fmt(pathRadius * 2)} 0 ` +
+        `a ${fmt(pathRadius)} ${fmt(pathRadius)} 0 1 ${sweep} ${fmt(-pathRadius * 2)} 0`;
+      // The path starts on the left, so a quarter of the way along is the top (or bottom) of the circle
+      const startOffset = `${25 + (line.xPosition || 0) / 2}%`;
+
+      return `<defs><path id="${pathId}" d="${d}" fill="none"/></defs>` +
+        `<text ${this.getTextAttributes(design, line, fontSize, letterSpacing)} text-anchor="middle">` +
+        `<textPath xlink:href="#${pathId}" href="#${pathId}" startOffset="${startOffset}"${isBottom ? ' side="right"' : ''}>` +
+        `${escapeXml(this.getDisplayText(line))}</textPath></text>`;
+    }
+
+    const straightLines = design.lines.filter(l => !l.curved).length;
+    const straightIndex = design.lines.filter((l, i) => !l.curved && i < index).length;
+
+    let baseY = centerY;
+    if (straightLines > 1) {
+      const totalHeight = straightLines * fontSize * 1.2;
+      baseY = centerY - totalHeight / 2 + fontSize / 2 + straightIndex * fontSize * 1.2;
+    }
+
+    const x = centerX + (line.xPosition || 0) / 100 * (radius / 2);
+    const y = baseY + (line.yPosition || 0) / 100 * (radius / 2);
+
+    return this.renderStraightText(design, line, x, y, fontSize);
+  }
+
+  private renderRectangleLine(design: StampDesign, line: StampTextLine, { width, height }: StampDimensions): string {
+    const fontSize = (line.fontSize / 20) * (height / 10);
+    const x = width / 2 + (line.xPosition || 0) / 100 * (width / 3);
+    const y = height / 2 + (line.yPosition || 0) / 100 * (height / 3);
+
+    return this.renderStraightText(design, line, x, y, fontSize);
+  }
+
+  private renderStraightText(design: StampDesign, line: StampTextLine, x: number, y: number, fontSize: number): string {
+    const letterSpacing = line.letterSpacing || 0;
+    const layout = textOutlineService.layout(this.getDisplayText(line), textOutlineService.getLineStyle(line, fontSize, letterSpacing));
+
+    if (layout) {
+      const startX = line.alignment === 'left' ? x : line.alignment === 'right' ? x - layout.width : x - layout.width / 2;
+      // Centre the lower-case letters on y, as dominant-baseline="middle" does
+      const baseline = y + layout.xHeight / 2;
+      const d = layout.glyphs
+        .map(({ glyph, x: offset }) => textOutlineService.getGlyphPathData(glyph, startX + offset, baseline, fontSize))
+        .join('');
+      return `<path d="${d}" ${this.getOutlineAttributes(design, line)}/>`;
+    }
+
+    const anchor = line.alignment === 'left' ? 'start' : line.alignment === 'right' ? 'end' : 'middle';
+
+    return `<text x="${fmt(x)}" y="${fmt(y)}" text-anchor="${anchor}" dominant-baseline="middle" ` +
+      `${this.getTextAttributes(design, line, fontSize, letterSpacing)}>` +
+      `${escapeXml(this.getDisplayText(line))}</text>`;
+  }
+
+  /**
+   * Glyph outlines along a circle, centred on its top or bottom and reading left to right
+   */
+  private renderCurvedOutline(
+    design: StampDesign,
+    line: StampTextLine,
+    layout: TextOutlineLayout,
+    fontSize: number,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    isBottom: boolean
+  ): string {
+    // Top text runs clockwise and bottom text anticlockwise; xPosition moves it along the circle by up to half a turn
+    const direction = isBottom ? -1 : 1;
+    const shift = ((line.xPosition || 0) / 200) * Math.PI * 2;
+    const centerAngle = isBottom ? Math.PI / 2 - shift : -Math.PI / 2 + shift;
+
+    const glyphs = layout.glyphs.map(({ glyph, x }) => {
+      const d = textOutlineService.getGlyphPathData(glyph, 0, 0, fontSize);
+      if (!d) return '';
+
+      const angle = centerAngle + direction * (x - layout.width / 2) / radius;
+      const rotation = ((angle + direction * Math.PI / 2) * 180) / Math.PI;
+      return `<path transform="translate(${fmt(centerX + radius * Math.cos(angle))} ${fmt(centerY + radius * Math.sin(angle))}) ` +
+        `rotate(${fmt(rotation)})" d="${d}"/>`;
+    });
+
+    return `<g ${this.getOutlineAttributes(design, line)}>${glyphs.join('')}</g>`;
+  }
+
+  private renderElement(element: StampElement, { width, height }: StampDimensions): string {
+    // Element positions are the centre of the element
+    const centerX = width / 2 + (element.x / 100) * (width / 2 - element.width / 2);
+    const centerY = height / 2 + (element.y / 100) * (height / 2 - element.height / 2);
+    const x = centerX - element.width / 2;
+    const y = centerY - element.height / 2;
+
+    // Vector elements (QR codes, barcodes) are nested as-is so they stay sharp at any scale
+    if (element.svgContent && /^<svg\b/.test(element.svgContent)) {
+      return element.svgContent.replace(/^<svg\b/,
+        `<svg x="${fmt(x)}" y="${fmt(y)}" width="${fmt(element.width)}" height="${fmt(element.height)}"`);
+    }
+
+    return this.renderImage(element.dataUrl, x, y, element.width, element.height);
+  }
+
+  private renderImage(href: string, x: number, y: number, width: number, height: number): string {
+    const safeHref = escapeXml(href);
+    return `<image xlink:href="${safeHref}" href="${safeHref}" x="${fmt(x)}" y="${fmt(y)}" ` +
+      `width="${fmt(width)}" height="${fmt(height)}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+
+  private getTextAttributes(design: StampDesign, line: StampTextLine, fontSize: number, letterSpacing: number): string {
+    const attributes = [
+      `font-family="${escapeXml(line.fontFamily || 'Arial')}"`,
+      `font-size="${fmt(fontSize)}"`
+    ];
+
+    if (line.bold || line.textEffect?.type === 'bold') attributes.push('font-weight="bold"');
+    if (line.italic || line.textEffect?.type === 'italic') attributes.push('font-style="italic"');
+    if (letterSpacing) attributes.push(`letter-spacing="${fmt(letterSpacing)}"`);
+
+    return [...attributes, this.getOutlineAttributes(design, line)].join(' ');
+  }
+
+  /**
+   * Paint of the text: the ink colour, with the outline effect as a stroke around the glyphs
+   */
+  private getOutlineAttributes(design: StampDesign, line: StampTextLine): string {
+    const attributes = [`fill="${escapeXml(design.inkColor)}"`];
+
+    // Outlines are engraved as a stroke around the glyphs, in the effect colour
+    if (line.textEffect?.type === 'outline') {
+      const thickness = (line.textEffect.thickness || 1) * 0.15;
+      attributes.push(`stroke="${escapeXml(line.textEffect.color || design.inkColor)}"`);
+      attributes.push(`stroke-width="${fmt(thickness)}"`);
+      attributes.push('paint-order="stroke"');
+    }
+
+    return attributes.join(' ');
+  }
+
+  private getDisplayText(line: StampTextLine): string {
+    if (line.textEffect?.type === 'separator' && line.textEffect.separatorChar) {
+      return line.text.trim().split(/\s+/).join(` ${line.textEffect.separatorChar} `);
+    }
+    return line.text;
+  }
+
+  private getBorderRingCount(borderStyle: StampDesign['borderStyle']): number[] {
+    switch (borderStyle) {
+      case 'single': return [0];
+      case 'double': return [0, 1];
+      case 'triple': return [0, 1, 2];
+      default: return [];
+    }
+  }
+
+  private getCircleRadius(width: number, height: number): number {
+    return Math.min(width, height) / 2 - 1;
+  }
+
+  private getFileBaseName(product: Product): string {
+    return `${product.name.replace(/\s+/g, '-')}-${product.size}-stamp`;
+  }
+}
+
+export const vectorExportService = new VectorExportService();
@@ -12,15 +12,215 @@ export interface Product {
   description: string;
   featured?: boolean;
   shape?: 'rectangle' | 'circle' | 'square';
+  // Boxed weight in grams; estimated from the size when missing
+  weight?: number;
+  // Units on hand; not tracked when missing
+  stock?: number;
+  // Units on hand per ink colour, replacing stock when set
+  inkStock?: Record<string, number>;
+  // "Only N left" is shown at or below this quantity (default 5)
+  lowStockThreshold?: number;
+  // When set, out-of-stock units can still be ordered and ship after this many business days
+  backorderLeadDays?: number;
+  // Purchasable combinations of options; the product is sold as is when missing
+  variants?: ProductVariant[];
+}
+
+export type VariantOptionType = 'size' | 'bodyColor' | 'inkColor' | 'padSize' | 'daterLanguage';
+
+// Option values of a variant, e.g. { bodyColor: 'black', inkColor: 'blue' }. A size option
+// ("40mm") replaces the product's impression size.
+export type VariantOptions = Partial<Record<VariantOptionType, string>>;
+
+export interface ProductVariant {
+  sku: string;
+  options: VariantOptions;
+  // Added to the product price, in DHS TTC
+  priceDelta?: number;
+  // Shown instead of the product's first image
+  image?: string;
+  // Units on hand; the product's stock applies when missing
+  stock?: number;
+  // Text lines of this size; the product's lines apply when missing
+  lines?: number;
+}
+
+export type StockStatus = 'in_stock' | 'low_stock' | 'backorder' | 'out_of_stock';
+
+export interface StockAvailability {
+  status: StockStatus;
+  // Units on hand; missing when stock is not tracked
+  available?: number;
+  // Business days before back-ordered units ship
+  leadDays?: number;
 }
 
 export interface CartItem {
+  // Stable identifier of this cart line
+  id: string;
   productId: string;
   product: Product;
   quantity: number;
   customText?: string;
   inkColor?: string;
   previewImage?: string;
+  // Snapshot of the design, used to reopen the line in the designer
+  design?: StampDesign;
+  // Bundle offer added to this line (e.g. stamp + spare ink pad)
+  bundleId?: string;
+  // Snapshot of the chosen variant
+  variant?: ProductVariant;
+}
+
+// Volume price break: either a percentage off the list price or a fixed unit price
+export interface QuantityTier {
+  minQuantity: number;
+  discountPercent?: number;
+  unitPrice?: number;
+}
+
+export interface Accessory {
+  id: string;
+  name: string;
+  price: number;
+  description?: string;
+  // Weight in grams
+  weight?: number;
+}
+
+export interface BundleOffer {
+  id: string;
+  name: string;
+  description: string;
+  productIds: string[];
+  // Accessories added once per stamp in the line
+  accessoryIds: string[];
+  discountType: 'percent' | 'fixed';
+  // Percentage off the pack price, or DHS off each pack
+  discountValue: number;
+}
+
+// Customer company details printed on B2B invoices
+export interface CompanyDetails {
+  name: string;
+  ice: string;
+  if?: string;
+  rc?: string;
+}
+
+export type ShippingZone = 'casablanca' | 'major_city' | 'standard' | 'remote';
+
+// Delivery option offered at checkout for the cart and destination
+export interface ShippingRate {
+  // Carrier id
+  id: string;
+  name: string;
+  description?: string;
+  price: number;
+  // Price before the free shipping threshold was applied
+  originalPrice?: number;
+  // Transit time, e.g. "2-3 business days"
+  days: string;
+  // First and last expected delivery (or pickup) dates, YYYY-MM-DD
+  estimatedDelivery: {
+    from: string;
+    to: string;
+  };
+  isPickup?: boolean;
+}
+
+// Production and delivery steps, in order
+export type OrderStatus = 'received' | 'proof_approved' | 'engraving' | 'quality_check' | 'shipped' | 'delivered';
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  // ISO 8601
+  date: string;
+  // Shown to the customer, e.g. the carrier tracking number
+  note?: string;
+}
+
+export type ProofStatus = 'pending' | 'approved' | 'changes_requested';
+
+// Artwork of one order line as shown on a proof
+export interface ProofArtwork {
+  lineId: string;
+  design?: StampDesign;
+  previewImage?: string;
+  customText?: string;
+}
+
+export interface ProofRevision {
+  // 1 for the artwork ordered, then one more per correction
+  number: number;
+  createdAt: string;
+  artwork: ProofArtwork[];
+  // Message from the workshop about the changes made
+  note?: string;
+  status: ProofStatus;
+  respondedAt?: string;
+  // Changes asked for by the customer
+  comment?: string;
+}
+
+// Artwork the customer signs off before engraving starts
+export interface OrderProof {
+  // Secret part of the proof link sent to the customer
+  token: string;
+  status: ProofStatus;
+  // Oldest first; the last one is the current proof
+  revisions: ProofRevision[];
+}
+
+// Order as placed at checkout
+export interface Order {
+  id: string;
+  customerName: string;
+  email: string;
+  // E.164, e.g. +212612345678
+  phone?: string;
+  shippingAddress: string;
+  shippingMethod: ShippingRate;
+  paymentMethod: string;
+  // 'pending' until cash, transfer or gateway payment is received
+  paymentStatus?: 'paid' | 'pending';
+  // Gateway transaction id or bank transfer reference
+  paymentReference?: string;
+  items: CartItem[];
+  company?: CompanyDetails;
+  subtotal: number;
+  promoCode?: string;
+  discount?: number;
+  shipping: number;
+  // Fee charged by the payment method, e.g. cash on delivery
+  paymentFee?: number;
+  total: number;
+  date: string;
+  status?: OrderStatus;
+  // Every status change, oldest first
+  statusHistory?: OrderStatusEvent[];
+  // Carrier tracking number, once shipped
+  trackingNumber?: string;
+  proof?: OrderProof;
+  // Given by the order repository when the invoice is first issued, e.g. FA-2026-00012
+  invoiceNumber?: string;
+}
+
+export type PromoCodeType = 'percent' | 'fixed' | 'free_shipping';
+
+export interface PromoCode {
+  code: string;
+  type: PromoCodeType;
+  // Percentage for 'percent', amount in DHS for 'fixed', unused for 'free_shipping'
+  value: number;
+  description: string;
+  // Restrict the discount to these products
+  productIds?: string[];
+  startsAt?: string;
+  expiresAt?: string;
+  // Minimum cart subtotal in DHS, after volume discounts
+  minOrderValue?: number;
+  oneUsePerEmail?: boolean;
 }
 
 export interface TextEffect {
@@ -70,8 +270,12 @@ export interface StampElement {
   x: number;
   y: number;
   isDragging: boolean;
+  // Standalone vector markup (root <svg> with a viewBox only) used by vector exports
+  svgContent?: string;
 }
 
+export type StampElementInput = Omit<StampElement, 'id' | 'x' | 'y' | 'isDragging'>;
+
 // Add our new type imports
 import { 
   StampTemplate, 
@@ -0,0 +1,379 @@
+/**
+ * Self-contained 1D barcode encoder for Code 128 (A/B/C with automatic switching),
+ * EAN-13, EAN-8, Code 39 and ITF-14, rendering to SVG or a PNG data URL
+ * with physical dimensions in millimetres.
+ */
+
+export type BarcodeFormat = 'code128' | 'ean13' | 'ean8' | 'code39' | 'itf14';
+
+export interface Barcode {
+  format: BarcodeFormat;
+  // One character per module, '1' for a bar and '0' for a space
+  pattern: string;
+  // Human-readable text printed under the bars (includes computed check digits)
+  text: string;
+}
+
+export interface BarcodeRenderOptions {
+  // Width of the narrowest bar in millimetres
+  moduleWidth?: number;
+  // Bar height in millimetres
+  height?: number;
+  showText?: boolean;
+  // Light margin on each side, in modules
+  quietZone?: number;
+  color?: string;
+  background?: string;
+}
+
+export class BarcodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BarcodeError';
+  }
+}
+
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE128_START = { A: 103, B: 104, C: 105 };
+const CODE128_SWITCH = { A: 101, B: 100, C: 99 };
+const CODE128_STOP = 106;
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const EAN13_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Bars and spaces alternate, starting with a bar; 'w' is wide, 'n' is narrow
+const CODE39_PATTERNS: Record<string, string> = {
+  '0': 'nnnwwnwnn', '1': 'wnnwnnnnw', '2': 'nnwwnnnnw', '3': 'wnwwnnnnn', '4': 'nnnwwnnnw',
+  '5': 'wnnwwnnnn', '6': 'nnwwwnnnn', '7': 'nnnwnnwnw', '8': 'wnnwnnwnn', '9': 'nnwwnnwnn',
+  'A': 'wnnnnwnnw', 'B': 'nnwnnwnnw', 'C': 'wnwnnwnnn', 'D': 'nnnnwwnnw', 'E': 'wnnnwwnnn',
+  'F': 'nnwnwwnnn', 'G': 'nnnnnwwnw', 'H': 'wnnnnwwnn', 'I': 'nnwnnwwnn', 'J': 'nnnnwwwnn',
+  'K': 'wnnnnnnww', 'L': 'nnwnnnnww', 'M': 'wnwnnnnwn', 'N': 'nnnnwnnww', 'O': 'wnnnwnnwn',
+  'P': 'nnwnwnnwn', 'Q': 'nnnnnnwww', 'R': 'wnnnnnwwn', 'S': 'nnwnnnwwn', 'T': 'nnnnwnwwn',
+  'U': 'wwnnnnnnw', 'V': 'nwwnnnnnw', 'W': 'wwwnnnnnn', 'X': 'nwnnwnnnw', 'Y': 'wwnnwnnnn',
+  'Z': 'nwwnwnnnn', '-': 'nwnnnnwnw', '.': 'wwnnnnwnn', ' ': 'nwwnnnwnn', '$': 'nwnwnwnnn',
+  '/': 'nwnwnnnwn', '+': 'nwnnnwnwn', '%': 'nnnwnwnwn', '*': 'nwnnwnwnn'
+};
+
+const ITF_PATTERNS = ['nnwwn', 'wnnnw', 'nwnnw', 'wwnnn', 'nnwnw', 'wnwnn', 'nwwnn', 'nnnww', 'wnnwn', 'nwnwn'];
+
+const WIDE_RATIO = 3;
+
+// Convert alternating bar/space widths into a module pattern
+const widthsToPattern = (widths: number[]): string =>
+  widths.map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(width)).join('');
+
+const wideNarrowToWidths = (elements: string): number[] =>
+  [...elements].map(element => (element === 'w' ? WIDE_RATIO : 1));
+
+/**
+ * Compute a GS1 (EAN/ITF) check digit for the given digits, without the check digit
+ */
+export const computeGs1CheckDigit = (digits: string): number => {
+  const sum = [...digits].reverse().reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const withGs1CheckDigit = (value: string, length: number, label: string): string => {
+  const digits = value.replace(/\s/g, '');
+  if (!/^\d+$/.test(digits)) {
+    throw new BarcodeError(`${label} only accepts digits`);
+  }
+  if (digits.length === length - 1) {
+    return digits + computeGs1CheckDigit(digits);
+  }
+  if (digits.length === length) {
+    const expected = computeGs1CheckDigit(digits.substring(0, length - 1));
+    if (Number(digits[length - 1]) !== expected) {
+      throw new BarcodeError(`Invalid ${label} check digit: expected ${expected}`);
+    }
+    return digits;
+  }
+  throw new BarcodeError(`${label} needs ${length - 1} digits (or ${length} with check digit)`);
+};
+
+type Code128Set = 'A' | 'B' | 'C';
+
+const countDigits = (value: string, from: number): number => {
+  let count = 0;
+  while (from + count < value.length && /\d/.test(value[from + count])) count++;
+  return count;
+};
+
+// Characters only available in set A (control characters)
+const isSetAOnly = (code: number): boolean => code < 32;
+// Characters only available in set B (lowercase and friends)
+const isSetBOnly = (code: number): boolean => code >= 96 && code <= 127;
+
+const chooseTextSet = (value: string, from: number): Code128Set => {
+  for (let i = from; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (isSetAOnly(code)) return 'A';
+    if (isSetBOnly(code)) return 'B';
+  }
+  return 'B';
+};
+
+const encodeCode128 = (value: string): Barcode => {
+  if (!value) throw new BarcodeError('Code 128 needs a value');
+  if ([...value].some(char => char.charCodeAt(0) > 127)) {
+    throw new BarcodeError('Code 128 only accepts ASCII characters');
+  }
+
+  const codes: number[] = [];
+  let set: Code128Set;
+  let i = 0;
+
+  // Runs of digits are packed in pairs with set C when it saves space
+  const startDigits = countDigits(value, 0);
+  if (startDigits >= 4 || (startDigits === value.length && startDigits >= 2 && startDigits % 2 === 0)) {
+    set = 'C';
+  } else {
+    set = chooseTextSet(value, 0);
+  }
+  codes.push(CODE128_START[set]);
+
+  while (i < value.length) {
+    if (set === 'C') {
+      if (countDigits(value, i) >= 2) {
+        codes.push(Number(value.substring(i, i + 2)));
+        i += 2;
+        continue;
+      }
+      set = chooseTextSet(value, i);
+      codes.push(CODE128_SWITCH[set]);
+      continue;
+    }
+
+    const digits = countDigits(value, i);
+    const atEnd = i + digits === value.length;
+    if (digits >= 6 || (atEnd && digits >= 4)) {
+      // Keep an odd leading digit in the current set so the rest pairs up
+      if (digits % 2 === 1) {
+        codes.push(value.charCodeAt(i) - 32);
+        i++;
+      }
+      set = 'C';
+      codes.push(CODE128_SWITCH.C);
+      continue;
+    }
+
+    const code = value.charCodeAt(i);
+    if (set === 'A' && isSetBOnly(code)) {
+      set = 'B';
+      codes.push(CODE128_SWITCH.B);
+      continue;
+    }
+    if (set === 'B' && isSetAOnly(code)) {
+      set = 'A';
+      codes.push(CODE128_SWITCH.A);
+      continue;
+    }
+
+    codes.push(set === 'A' && code < 32 ? code + 64 : code - 32);
+    i++;
+  }
+
+  const checksum = codes.reduce((sum, code, index) => sum + code * (index === 0 ? 1 : index), 0) % 103;
+  codes.push(checksum, CODE128_STOP);
+
+  const pattern = codes
+    .map(code => widthsToPattern([...CODE128_PATTERNS[code]].map(Number)))
+    .join('');
+
+  return { format: 'code128', pattern, text: value };
+};
+
+const encodeEan13 = (value: string): Barcode => {
+  const digits = withGs1CheckDigit(value, 13, 'EAN-13');
+  const parity = EAN13_PARITY[Number(digits[0])];
+
+  let pattern = '101';
+  for (let i = 1; i <= 6; i++) {
+    const digit = Number(digits[i]);
+    pattern += parity[i - 1] === 'L' ? EAN_L[digit] : EAN_G[digit];
+  }
+  pattern += '01010';
+  for (let i = 7; i <= 12; i++) {
+    pattern += EAN_R[Number(digits[i])];
+  }
+  pattern += '101';
+
+  return { format: 'ean13', pattern, text: digits };
+};
+
+const encodeEan8 = (value: string): Barcode => {
+  const digits = withGs1CheckDigit(value, 8, 'EAN-8');
+
+  let pattern = '101';
+  for (let i = 0; i < 4; i++) pattern += EAN_L[Number(digits[i])];
+  pattern += '01010';
+  for (let i = 4; i < 8; i++) pattern += EAN_R[Number(digits[i])];
+  pattern += '101';
+
+  return { format: 'ean8', pattern, text: digits };
+};
+
+const encodeCode39 = (value: string): Barcode => {
+  const text = value.toUpperCase();
+  if (!text) throw new BarcodeError('Code 39 needs a value');
+
+  const invalid = [...text].find(char => char === '*' || !CODE39_PATTERNS[char]);
+  if (invalid) {
+    throw new BarcodeError(`Code 39 cannot encode "${invalid}" (use 0-9, A-Z, space and - . $ / + %)`);
+  }
+
+  const pattern = [...`*${text}*`]
+    .map(char => widthsToPattern(wideNarrowToWidths(CODE39_PATTERNS[char])))
+    // Narrow inter-character gap
+    .join('0');
+
+  return { format: 'code39', pattern, text };
+};
+
+const encodeItf14 = (value: string): Barcode => {
+  const digits = withGs1CheckDigit(value, 14, 'ITF-14');
+
+  let pattern = widthsToPattern([1, 1, 1, 1]);
+  for (let i = 0; i < digits.length; i += 2) {
+    const bars = ITF_PATTERNS[Number(digits[i])];
+    const spaces = ITF_PATTERNS[Number(digits[i + 1])];
+    const widths: number[] = [];
+    for (let k = 0; k < 5; k++) {
+      widths.push(bars[k] === 'w' ? WIDE_RATIO : 1, spaces[k] === 'w' ? WIDE_RATIO : 1);
+    }
+    pattern += widthsToPattern(widths);
+  }
+  pattern += widthsToPattern([WIDE_RATIO, 1, 1]);
+
+  return { format: 'itf14', pattern, text: digits };
+};
+
+/**
+ * Encode a value in the requested symbology
+ */
+export const encodeBarcode = (value: string, format: BarcodeFormat): Barcode => {
+  switch (format) {
+    case 'ean13': return encodeEan13(value);
+    case 'ean8': return encodeEan8(value);
+    case 'code39': return encodeCode39(value);
+    case 'itf14': return encodeItf14(value);
+    default: return encodeCode128(value);
+  }
+};
+
+const getLayout = (barcode: Barcode, options: BarcodeRenderOptions) => {
+  const moduleWidth = options.moduleWidth || 0.33;
+  const barHeight = options.height || 10;
+  // Scanners need a light margin of at least 10 modules on each side
+  const quietZone = options.quietZone ?? 10;
+  const fontSize = Math.max(1.5, Math.min(3, barHeight * 0.2));
+  const textHeight = options.showText === false ? 0 : fontSize * 1.3;
+
+  return {
+    moduleWidth,
+    barHeight,
+    quietZone,
+    fontSize,
+    textHeight,
+    width: (barcode.pattern.length + quietZone * 2) * moduleWidth,
+    height: barHeight + textHeight
+  };
+};
+
+/**
+ * Physical size of the rendered barcode in millimetres
+ */
+export const getBarcodeSize = (barcode: Barcode, options: BarcodeRenderOptions = {}): { width: number; height: number } => {
+  const { width, height } = getLayout(barcode, options);
+  return { width, height };
+};
+
+/**
+ * Render a barcode as standalone SVG markup (viewBox in millimetres)
+ */
+export const barcodeToSvg = (barcode: Barcode, options: BarcodeRenderOptions = {}): string => {
+  const layout = getLayout(barcode, options);
+  const color = options.color || '#000000';
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  const commands: string[] = [];
+  let x = 0;
+  while (x < barcode.pattern.length) {
+    if (barcode.pattern[x] !== '1') {
+      x++;
+      continue;
+    }
+    let run = 1;
+    while (x + run < barcode.pattern.length && barcode.pattern[x + run] === '1') run++;
+    const left = (x + layout.quietZone) * layout.moduleWidth;
+    commands.push(`M${round(left)} 0h${round(run * layout.moduleWidth)}v${round(layout.barHeight)}h${round(-run * layout.moduleWidth)}z`);
+    x += run;
+  }
+
+  const background = options.background && options.background !== 'transparent'
+    ? `<rect width="${round(layout.width)}" height="${round(layout.height)}" fill="${options.background}"/>`
+    : '';
+  const text = layout.textHeight
+    ? `<text x="${round(layout.width / 2)}" y="${round(layout.barHeight + layout.fontSize)}" font-family="OCR-B, monospace" ` +
+      `font-size="${round(layout.fontSize)}" text-anchor="middle" fill="${color}">${barcode.text.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</text>`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${round(layout.width)} ${round(layout.height)}" shape-rendering="crispEdges">` +
+    background +
+    `<path d="${commands.join('')}" fill="${color}"/>` +
+    text +
+    `</svg>`;
+};
+
+/**
+ * Render a barcode as a PNG data URL
+ */
+export const barcodeToDataUrl = (barcode: Barcode, options: BarcodeRenderOptions & { pixelsPerMm?: number } = {}): string => {
+  const layout = getLayout(barcode, options);
+  // Keep at least two pixels per module so narrow bars stay crisp
+  const scale = Math.max(options.pixelsPerMm || 12, 2 / layout.moduleWidth);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(layout.width * scale);
+  canvas.height = Math.ceil(layout.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  if (options.background && options.background !== 'transparent') {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.fillStyle = options.color || '#000000';
+  [...barcode.pattern].forEach((module, i) => {
+    if (module === '1') {
+      const left = Math.round((i + layout.quietZone) * layout.moduleWidth * scale);
+      const right = Math.round((i + 1 + layout.quietZone) * layout.moduleWidth * scale);
+      ctx.fillRect(left, 0, right - left, Math.round(layout.barHeight * scale));
+    }
+  });
+
+  if (layout.textHeight) {
+    ctx.font = `${layout.fontSize * scale}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(barcode.text, canvas.width / 2, (layout.barHeight + layout.fontSize) * scale);
+  }
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,167 @@
+export type CardBrandId = 'visa' | 'mastercard' | 'amex';
+
+export interface CardBrand {
+  id: CardBrandId;
+  name: string;
+  // Number prefixes; ranges are written "from-to" on prefixes of equal length
+  prefixes: string[];
+  lengths: number[];
+  cvcLength: number;
+  // Digit group sizes used to display the number
+  gaps: number[];
+}
+
+// International brands only: domestic Moroccan cards are paid on the CMI hosted page,
+// which recognises them itself
+export const CARD_BRANDS: CardBrand[] = [
+  {
+    id: 'visa',
+    name: 'Visa',
+    prefixes: ['4'],
+    lengths: [13, 16, 19],
+    cvcLength: 3,
+    gaps: [4, 4, 4, 4, 3]
+  },
+  {
+    id: 'mastercard',
+    name: 'Mastercard',
+    prefixes: ['51-55', '2221-2720'],
+    lengths: [16],
+    cvcLength: 3,
+    gaps: [4, 4, 4, 4]
+  },
+  {
+    id: 'amex',
+    name: 'American Express',
+    prefixes: ['34', '37'],
+    lengths: [15],
+    cvcLength: 4,
+    gaps: [4, 6, 5]
+  }
+];
+
+const DEFAULT_GAPS = [4, 4, 4, 4, 3];
+const MAX_CARD_LENGTH = 19;
+
+export const normalizeCardNumber = (value: string): string => value.replace(/\D/g, '').slice(0, MAX_CARD_LENGTH);
+
+const matchesPrefix = (digits: string, prefix: string): boolean => {
+  const [from, to] = prefix.split('-');
+  if (!to) return digits.startsWith(from);
+
+  const head = digits.slice(0, from.length);
+  // Only a partial number: accept while it can still fall in the range
+  if (head.length < from.length) {
+    return head >= from.slice(0, head.length) && head <= to.slice(0, head.length);
+  }
+  return head >= from && head <= to;
+};
+
+/**
+ * Detect the card brand from the first digits, as soon as they are typed
+ */
+export const detectCardBrand = (value: string): CardBrand | null => {
+  const digits = normalizeCardNumber(value);
+  if (!digits) return null;
+
+  return CARD_BRANDS.find(brand => brand.prefixes.some(prefix => matchesPrefix(digits, prefix))) || null;
+};
+
+/**
+ * Luhn (mod 10) checksum used by all payment card numbers
+ */
+export const luhnCheck = (value: string): boolean => {
+  const digits = normalizeCardNumber(value);
+  if (!digits) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Group the digits the way they are printed on the card, e.g. "3782 822463 10005"
+ */
+export const formatCardNumber = (value: string): string => {
+  const digits = normalizeCardNumber(value);
+  const brand = detectCardBrand(digits);
+  const gaps = brand ? brand.gaps : DEFAULT_GAPS;
+  const maxLength = brand ? Math.max(...brand.lengths) : MAX_CARD_LENGTH;
+
+  const groups: string[] = [];
+  let position = 0;
+  for (const size of gaps) {
+    if (position >= Math.min(digits.length, maxLength)) break;
+    groups.push(digits.slice(position, Math.min(position + size, maxLength)));
+    position += size;
+  }
+  return groups.join(' ');
+};
+
+export const formatExpiry = (value: string): string => {
+  const digits = value.replace(/\D/g, '').slice(0, 4);
+
+  if (digits.length >= 3) {
+    return `${digits.substring(0, 2)}/${digits.substring(2, 4)}`;
+  }
+  return digits;
+};
+
+/**
+ * Return an error message for an invalid card number, or null
+ */
+export const validateCardNumber = (value: string): string | null => {
+  const digits = normalizeCardNumber(value || '');
+  if (!digits) return 'Card number is required';
+
+  const brand = detectCardBrand(digits);
+  if (!brand) return 'This form takes Visa, Mastercard and American Express cards. Pay with a Moroccan card through Bank Card (CMI)';
+  if (!brand.lengths.includes(digits.length)) {
+    const lengths = brand.lengths.length > 1
+      ? `${brand.lengths.slice(0, -1).join(', ')} or ${brand.lengths[brand.lengths.length - 1]}`
+      : String(brand.lengths[0]);
+    return `${brand.name} card numbers have ${lengths} digits`;
+  }
+  if (!luhnCheck(digits)) return 'This card number is not valid';
+  return null;
+};
+
+/**
+ * Return an error message for an invalid or past MM/YY expiry date, or null.
+ * Cards are valid until the last day of their expiry month.
+ */
+export const validateExpiry = (value: string, now: Date = new Date()): string | null => {
+  const match = (value || '').match(/^(\d{2})\/(\d{2})$/);
+  if (!match) return 'Enter the expiry date as MM/YY';
+
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return 'Expiry month must be between 01 and 12';
+
+  const currentYear = now.getFullYear();
+  const currentMonth = now.getMonth() + 1;
+  if (year < currentYear || (year === currentYear && month < currentMonth)) {
+    return 'This card has expired';
+  }
+  if (year > currentYear + 20) return 'Expiry date is too far in the future';
+  return null;
+};
+
+/**
+ * Return an error message for a security code of the wrong length, or null
+ */
+export const validateCvc = (value: string, brand: CardBrand | null): string | null => {
+  const cvc = value || '';
+  const length = brand ? brand.cvcLength : 3;
+
+  if (!/^\d+$/.test(cvc)) return 'Security code is required';
+  if (cvc.length !== length) return `Security code must have ${length} digits`;
+  return null;
+};
@@ -0,0 +1,21 @@
+/**
+ * Validation and formatting of Moroccan company identifiers
+ */
+
+/**
+ * ICE (Identifiant Commun de l'Entreprise) numbers are 15 digits
+ */
+export const isValidIce = (ice: string): boolean => /^\d{15}$/.test(ice.replace(/\s/g, ''));
+
+/**
+ * IF (Identifiant Fiscal) numbers are 6 to 8 digits
+ */
+export const isValidIf = (taxId: string): boolean => /^\d{6,8}$/.test(taxId.replace(/\s/g, ''));
+
+/**
+ * Format an ICE in groups of 3 digits for display
+ */
+export const formatIce = (ice: string): string => {
+  const digits = ice.replace(/\s/g, '');
+  return digits.replace(/(\d{3})(?=\d)/g, '$1 ');
+};
@@ -0,0 +1,40 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Quote fields containing separators, quotes or line breaks (RFC 4180).
+// Text starting like a formula is prefixed with ' so spreadsheets show it instead of running it.
+const escapeCsvField = (value: string | number | boolean | null | undefined): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV document with a header row
+ */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const lines = [
+    columns.map(column => escapeCsvField(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvField(column.value(row))).join(','))
+  ];
+  return lines.join('\r\n');
+};
+
+/**
+ * Download a CSV file; the byte order mark lets Excel read accents correctly
+ */
+export const downloadCsv = (fileName: string, csv: string): void => {
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,19 @@
+/**
+ * Helpers for writing XML and SVG markup
+ */
+
+/**
+ * Escape text for XML content and attribute values
+ */
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Format an SVG coordinate or length with at most 3 decimals, e.g. 12.5 or 0.333
+ */
+export const formatSvgNumber = (value: number): string => String(Math.round(value * 1000) / 1000);
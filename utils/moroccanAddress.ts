@@ -0,0 +1,74 @@
+import { MoroccanCity, moroccanCities, moroccanRegions } from '@/data/moroccoAddresses';
+
+/**
+ * Lowercase and strip accents and punctuation so "Fès", "fes" and "FES" compare equal
+ */
+export const normalizePlaceName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const cityNames = (city: MoroccanCity): string[] =>
+  [city.name, ...(city.aliases || [])].map(normalizePlaceName);
+
+/**
+ * Find a city by its name or one of its usual spellings
+ */
+export const findCity = (name: string): MoroccanCity | undefined => {
+  const query = normalizePlaceName(name || '');
+  if (!query) return undefined;
+  return moroccanCities.find(city => cityNames(city).includes(query));
+};
+
+/**
+ * Cities for the autocomplete: names starting with the query first, then names containing it
+ */
+export const searchCities = (query: string, limit: number = 8): MoroccanCity[] => {
+  const normalized = normalizePlaceName(query || '');
+  if (!normalized) return [];
+
+  const startsWith = moroccanCities.filter(city =>
+    cityNames(city).some(name => name.startsWith(normalized) || name.split(' ').some(word => word.startsWith(normalized)))
+  );
+  const contains = moroccanCities.filter(city =>
+    !startsWith.includes(city) && cityNames(city).some(name => name.includes(normalized))
+  );
+
+  return [...startsWith, ...contains].slice(0, limit);
+};
+
+export const getCityRegionName = (city: MoroccanCity): string =>
+  moroccanRegions.find(region => region.id === city.regionId)?.name || '';
+
+export const isValidPostalCodeFormat = (postalCode: string): boolean => /^\d{5}$/.test((postalCode || '').trim());
+
+/**
+ * Return an error message when the postal code is malformed or belongs to another city, or null.
+ * Cities missing from the dataset only get the format check.
+ */
+export const validatePostalCode = (postalCode: string, cityName?: string): string | null => {
+  const code = (postalCode || '').trim();
+  if (!isValidPostalCodeFormat(code)) return 'Moroccan postal codes have 5 digits';
+
+  const city = cityName ? findCity(cityName) : undefined;
+  if (city && !city.postalPrefixes.some(prefix => code.startsWith(prefix))) {
+    return `This postal code is not in ${city.name} (e.g. ${city.postalCode})`;
+  }
+  return null;
+};
+
+/**
+ * Return an error message when a known city is not in the selected region, or null
+ */
+export const validateCityRegion = (cityName: string, regionName: string): string | null => {
+  const city = findCity(cityName);
+  if (!city || !regionName) return null;
+
+  const regionOfCity = getCityRegionName(city);
+  return normalizePlaceName(regionOfCity) === normalizePlaceName(regionName)
+    ? null
+    : `${city.name} is in the ${regionOfCity} region`;
+};
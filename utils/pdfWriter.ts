@@ -0,0 +1,340 @@
+/**
+ * Minimal PDF 1.4 writer for client-side documents: A4 pages, the standard
+ * Helvetica fonts (WinAnsi encoding), lines, rectangles and JPEG images.
+ * Coordinates are in millimetres from the top-left corner of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfTextAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: string;
+  align?: PdfTextAlign;
+}
+
+export interface PdfShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfImage {
+  id: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const MM_TO_PT = 72 / 25.4;
+export const A4_WIDTH_MM = 210;
+export const A4_HEIGHT_MM = 297;
+
+// Glyph widths (1/1000 em) of ASCII 32..126 from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// WinAnsi code points outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, 'œ': 0x9c, 'Œ': 0x8c
+};
+
+const toWinAnsi = (text: string): number[] =>
+  [...text].map(char => {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+    // Narrow no-break spaces from Intl number formatting
+    if (code === 0x202f) return 0xa0;
+    return 63; // '?'
+  });
+
+// Approximate accented letters with their base letter's width
+const glyphWidth = (code: number, font: PdfFont): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  if (code >= 32 && code <= 126) return widths[code - 32];
+  return 556;
+};
+
+const parseColor = (color: string): string => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? [...hex].map(c => c + c).join('') : hex;
+  const value = parseInt(full, 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+const fmt = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+export class PdfPage {
+  private commands: string[] = [];
+  private usedImages: Set<string> = new Set();
+
+  constructor(private readonly heightMm: number) {}
+
+  /**
+   * Width of a text in millimetres
+   */
+  public static measureText(text: string, size: number = 10, font: PdfFont = 'regular'): number {
+    const units = toWinAnsi(text).reduce((total, code) => total + glyphWidth(code, font), 0);
+    return (units / 1000) * size / MM_TO_PT;
+  }
+
+  /**
+   * Draw a single line of text; y is the baseline
+   */
+  public text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const font = options.font || 'regular';
+    const width = PdfPage.measureText(text, size, font);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    const hex = toWinAnsi(text).map(code => code.toString(16).padStart(2, '0')).join('');
+
+    this.commands.push(
+      `BT /${font === 'bold' ? 'F2' : 'F1'} ${fmt(size)} Tf ${parseColor(options.color || '#000000')} rg ` +
+      `${fmt(left * MM_TO_PT)} ${fmt((this.heightMm - y) * MM_TO_PT)} Td <${hex}> Tj ET`
+    );
+  }
+
+  /**
+   * Draw text wrapped to a maximum width; returns the number of lines drawn
+   */
+  public wrappedText(x: number, y: number, text: string, maxWidth: number, lineHeight: number, options: PdfTextOptions = {}): number {
+    const lines = PdfPage.wrapText(text, maxWidth, options.size || 10, options.font || 'regular');
+    lines.forEach((line, index) => this.text(x, y + index * lineHeight, line, options));
+    return lines.length;
+  }
+
+  /**
+   * Split a text into lines that fit in the given width
+   */
+  public static wrapText(text: string, maxWidth: number, size: number = 10, font: PdfFont = 'regular'): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+      let current = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && PdfPage.measureText(candidate, size, font) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      });
+      lines.push(current);
+    });
+    return lines;
+  }
+
+  public line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}): void {
+    this.commands.push(
+      `${fmt((options.lineWidth || 0.2) * MM_TO_PT)} w ${parseColor(options.stroke || '#000000')} RG ` +
+      `${fmt(x1 * MM_TO_PT)} ${fmt((this.heightMm - y1) * MM_TO_PT)} m ` +
+      `${fmt(x2 * MM_TO_PT)} ${fmt((this.heightMm - y2) * MM_TO_PT)} l S`
+    );
+  }
+
+  public rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    const path = `${fmt(x * MM_TO_PT)} ${fmt((this.heightMm - y - height) * MM_TO_PT)} ${fmt(width * MM_TO_PT)} ${fmt(height * MM_TO_PT)} re`;
+    const parts = [`${fmt((options.lineWidth || 0.2) * MM_TO_PT)} w`];
+    if (options.fill) parts.push(`${parseColor(options.fill)} rg`);
+    if (options.stroke) parts.push(`${parseColor(options.stroke)} RG`);
+    parts.push(path, options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S');
+    this.commands.push(parts.join(' '));
+  }
+
+  public image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    this.usedImages.add(image.id);
+    this.commands.push(
+      `q ${fmt(width * MM_TO_PT)} 0 0 ${fmt(height * MM_TO_PT)} ${fmt(x * MM_TO_PT)} ${fmt((this.heightMm - y - height) * MM_TO_PT)} cm /${image.id} Do Q`
+    );
+  }
+
+  public getContent(): string {
+    return this.commands.join('\n');
+  }
+
+  public getImageIds(): string[] {
+    return Array.from(this.usedImages);
+  }
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+  private images: PdfImage[] = [];
+
+  constructor(private readonly title: string = '') {}
+
+  public addPage(): PdfPage {
+    const page = new PdfPage(A4_HEIGHT_MM);
+    this.pages.push(page);
+    return page;
+  }
+
+  public getPageCount(): number {
+    return this.pages.length;
+  }
+
+  public getPage(index: number): PdfPage {
+    return this.pages[index];
+  }
+
+  /**
+   * Register a baseline JPEG for drawing on pages
+   */
+  public addJpegImage(data: Uint8Array, width: number, height: number): PdfImage {
+    const image = { id: `Im${this.images.length + 1}`, data, width, height };
+    this.images.push(image);
+    return image;
+  }
+
+  /**
+   * Serialise the document to PDF bytes
+   */
+  public toBytes(): Uint8Array {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const startObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 pages, 3-4 fonts, 5 info, then images, then page/content pairs
+    const imageIds: Record<string, number> = {};
+    this.images.forEach((image, index) => {
+      imageIds[image.id] = 6 + index;
+    });
+    const firstPageId = 6 + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>\nendobj\n`);
+
+    startObject(3);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+    startObject(4);
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+
+    startObject(5);
+    const titleHex = toWinAnsi(this.title).map(code => code.toString(16).padStart(2, '0')).join('');
+    write(`<< /Title <${titleHex}> /Producer (Cachets Maroc) >>\nendobj\n`);
+
+    this.images.forEach(image => {
+      startObject(imageIds[image.id]);
+      write(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+      );
+      write(image.data);
+      write('\nendstream\nendobj\n');
+    });
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const xObjects = page.getImageIds().map(id => `/${id} ${imageIds[id]} 0 R`).join(' ');
+
+      startObject(pageId);
+      write(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(A4_WIDTH_MM * MM_TO_PT)} ${fmt(A4_HEIGHT_MM * MM_TO_PT)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${pageId + 1} 0 R >>\nendobj\n`
+      );
+
+      const content = encoder.encode(page.getContent());
+      startObject(pageId + 1);
+      write(`<< /Length ${content.length} >>\nstream\n`);
+      write(content);
+      write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const result = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      result.set(chunk, position);
+      position += chunk.length;
+    });
+    return result;
+  }
+
+  /**
+   * Serialise the document as a Blob ready for download
+   */
+  public toBlob(): Blob {
+    return new Blob([this.toBytes()], { type: 'application/pdf' });
+  }
+}
+
+/**
+ * Convert any image URL (PNG, SVG, data URL...) to JPEG bytes on a white background
+ */
+export const loadImageAsJpeg = (src: string, maxSize: number = 400): Promise<{ data: Uint8Array; width: number; height: number } | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          resolve(null);
+          return;
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+        const base64 = canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+        const binary = atob(base64);
+        const data = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+
+        resolve({ data, width: canvas.width, height: canvas.height });
+      } catch (error) {
+        // Tainted canvas (cross-origin image) or decoding error
+        console.error('Error converting image for PDF:', error);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
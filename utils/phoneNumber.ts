@@ -0,0 +1,44 @@
+const MOROCCO_COUNTRY_CODE = '212';
+
+/**
+ * Normalise a Moroccan phone number to E.164 (+212XXXXXXXXX), or return null if it is not one.
+ * Accepts national (06 12 34 56 78) and international (+212 6..., 00212 6..., +212 (0)6...) forms.
+ */
+export const normalizeMoroccanPhone = (value: string): string | null => {
+  let digits = (value || '').replace(/\(0\)/g, '').replace(/[\s.\-()/]/g, '');
+
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = MOROCCO_COUNTRY_CODE + digits.slice(1);
+  }
+
+  if (!/^\d+$/.test(digits) || !digits.startsWith(MOROCCO_COUNTRY_CODE)) return null;
+
+  // 9 digit national number: 5 landline, 6/7 mobile, 8 VoIP and business lines
+  const national = digits.slice(MOROCCO_COUNTRY_CODE.length);
+  if (!/^[5-8]\d{8}$/.test(national)) return null;
+
+  return `+${MOROCCO_COUNTRY_CODE}${national}`;
+};
+
+export const isValidMoroccanPhone = (value: string): boolean => normalizeMoroccanPhone(value) !== null;
+
+export const isMoroccanMobile = (value: string): boolean => /^\+212[67]/.test(normalizeMoroccanPhone(value) || '');
+
+/**
+ * Display a Moroccan number as "+212 6 12 34 56 78" or "06 12 34 56 78".
+ * Values that are not Moroccan numbers are returned unchanged.
+ */
+export const formatMoroccanPhone = (value: string, style: 'international' | 'national' = 'international'): string => {
+  const normalized = normalizeMoroccanPhone(value);
+  if (!normalized) return value;
+
+  const national = normalized.slice(4);
+  const pairs = national.slice(1).match(/\d{2}/g) || [];
+  return style === 'national'
+    ? `0${national[0]} ${pairs.join(' ')}`
+    : `+${MOROCCO_COUNTRY_CODE} ${national[0]} ${pairs.join(' ')}`;
+};
@@ -0,0 +1,87 @@
+import { Product } from '@/types';
+import { inventoryService } from '@/services/InventoryService';
+import { getImpressionArea } from '@/utils/stampDimensions';
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  values: string[];
+  // Whether the compared products differ on this attribute
+  differs: boolean;
+  // Columns with the best value, for attributes where lower or higher is better
+  bestIndexes: number[];
+}
+
+interface ComparisonAttribute {
+  key: string;
+  label: string;
+  format: (product: Product) => string;
+  // Numeric value used to find the best product
+  measure?: (product: Product) => number;
+  better?: 'lower' | 'higher';
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const comparisonAttributes: ComparisonAttribute[] = [
+  { key: 'brand', label: 'Brand', format: product => product.brand },
+  { key: 'model', label: 'Model', format: product => product.model },
+  {
+    key: 'price',
+    label: 'Price',
+    format: product => `${product.price.toFixed(2)} DHS`,
+    measure: product => product.price,
+    better: 'lower'
+  },
+  { key: 'size', label: 'Size', format: product => product.size },
+  {
+    key: 'area',
+    label: 'Impression area',
+    format: product => `${Math.round(getImpressionArea(product))} mm²`,
+    measure: product => Math.round(getImpressionArea(product)),
+    better: 'higher'
+  },
+  {
+    key: 'lines',
+    label: 'Text lines',
+    format: product => String(product.lines),
+    measure: product => product.lines,
+    better: 'higher'
+  },
+  {
+    key: 'pricePerLine',
+    label: 'Price per line',
+    format: product => `${(product.price / product.lines).toFixed(2)} DHS`,
+    measure: product => Math.round((product.price / product.lines) * 100),
+    better: 'lower'
+  },
+  { key: 'shape', label: 'Shape', format: product => (product.shape ? capitalize(product.shape) : 'N/A') },
+  { key: 'inkColors', label: 'Ink colours', format: product => product.inkColors.map(capitalize).join(', ') },
+  { key: 'colors', label: 'Body colours', format: product => product.colors.map(capitalize).join(', ') },
+  {
+    key: 'availability',
+    label: 'Availability',
+    format: product => inventoryService.getLabel(inventoryService.getProductAvailability(product))
+  }
+];
+
+/**
+ * Attribute matrix of the compared products, one row per attribute and one value
+ * per product, with the differences and best values marked
+ */
+export const buildComparisonRows = (products: Product[]): ComparisonRow[] =>
+  comparisonAttributes.map(attribute => {
+    const values = products.map(attribute.format);
+    const differs = new Set(values).size > 1;
+
+    let bestIndexes: number[] = [];
+    if (differs && attribute.measure) {
+      const measures = products.map(attribute.measure);
+      const best = attribute.better === 'lower' ? Math.min(...measures) : Math.max(...measures);
+      bestIndexes = measures
+        .map((measure, index) => (measure === best ? index : -1))
+        .filter(index => index >= 0);
+    }
+
+    return { key: attribute.key, label: attribute.label, values, differs, bestIndexes };
+  });
@@ -0,0 +1,110 @@
+import type { FilterState } from '@/hooks/useProductFilter';
+
+const PRODUCTS_URL = 'https://cachets-maroc.com/products';
+
+// Query parameter of each filter, e.g. /products?shape=circle&brand=Shiny&maxPrice=200
+export const FILTER_PARAMS = {
+  searchQuery: 'q',
+  brands: 'brand',
+  shape: 'shape',
+  sizes: 'size',
+  lines: 'lines',
+  colors: 'ink',
+  availability: 'availability',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  sort: 'sort'
+} as const;
+
+const DEFAULT_SORT = 'featured';
+const LINE_OPTIONS = [2, 4, 5];
+const AVAILABILITY_OPTIONS = ['in_stock', 'orderable'];
+const SHAPE_OPTIONS = ['rectangle', 'circle', 'square'];
+
+const splitParam = (value: string | null): string[] =>
+  (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+
+const parsePrice = (value: string | null, fallback: number, min: number, max: number): number => {
+  const price = Number(value);
+  return value !== null && value !== '' && Number.isFinite(price) ? Math.min(max, Math.max(min, price)) : fallback;
+};
+
+/**
+ * Whether the URL carries any filter or sort, in which case it wins over the saved filters
+ */
+export const hasFilterParams = (params: URLSearchParams): boolean =>
+  Object.values(FILTER_PARAMS).some(name => params.has(name));
+
+/**
+ * Filters described by the URL; anything missing or invalid keeps its default
+ */
+export const searchParamsToFilters = (params: URLSearchParams, defaults: FilterState): FilterState => {
+  const lines = Number(params.get(FILTER_PARAMS.lines));
+  const shape = params.get(FILTER_PARAMS.shape);
+  const availability = params.get(FILTER_PARAMS.availability);
+
+  return {
+    ...defaults,
+    searchQuery: params.get(FILTER_PARAMS.searchQuery) || '',
+    selectedBrands: splitParam(params.get(FILTER_PARAMS.brands)),
+    selectedShape: SHAPE_OPTIONS.includes(shape) ? shape : null,
+    selectedSizes: splitParam(params.get(FILTER_PARAMS.sizes)),
+    selectedLines: LINE_OPTIONS.includes(lines) ? lines : null,
+    selectedColors: splitParam(params.get(FILTER_PARAMS.colors)),
+    selectedAvailability: AVAILABILITY_OPTIONS.includes(availability) ? availability : null,
+    priceRange: [
+      parsePrice(params.get(FILTER_PARAMS.minPrice), defaults.minPrice, defaults.minPrice, defaults.maxPrice),
+      parsePrice(params.get(FILTER_PARAMS.maxPrice), defaults.maxPrice, defaults.minPrice, defaults.maxPrice)
+    ],
+    sortOption: params.get(FILTER_PARAMS.sort) || DEFAULT_SORT
+  };
+};
+
+/**
+ * Query parameters for the filters, leaving out everything at its default so links stay short
+ */
+export const filtersToSearchParams = (filters: FilterState): URLSearchParams => {
+  const params = new URLSearchParams();
+  const setParam = (name: string, value: string | null | undefined) => {
+    if (value) params.set(name, value);
+  };
+
+  setParam(FILTER_PARAMS.searchQuery, filters.searchQuery.trim());
+  setParam(FILTER_PARAMS.brands, filters.selectedBrands.join(','));
+  setParam(FILTER_PARAMS.shape, filters.selectedShape);
+  setParam(FILTER_PARAMS.sizes, filters.selectedSizes.join(','));
+  setParam(FILTER_PARAMS.lines, filters.selectedLines ? String(filters.selectedLines) : null);
+  setParam(FILTER_PARAMS.colors, filters.selectedColors.join(','));
+  setParam(FILTER_PARAMS.availability, filters.selectedAvailability);
+  if (filters.priceRange[0] > filters.minPrice) setParam(FILTER_PARAMS.minPrice, String(filters.priceRange[0]));
+  if (filters.priceRange[1] < filters.maxPrice) setParam(FILTER_PARAMS.maxPrice, String(filters.priceRange[1]));
+  if (filters.sortOption !== DEFAULT_SORT) setParam(FILTER_PARAMS.sort, filters.sortOption);
+
+  return params;
+};
+
+/**
+ * Only the filter parameters of a URL, in a stable order, for comparing two URLs
+ */
+export const getFilterParamsKey = (params: URLSearchParams): string => {
+  const filterParams = new URLSearchParams();
+  Object.values(FILTER_PARAMS).forEach(name => {
+    const value = params.get(name);
+    if (value !== null) filterParams.set(name, value);
+  });
+  return filterParams.toString();
+};
+
+/**
+ * Canonical URL of a filtered listing. Pages for a single brand or a shape are worth
+ * indexing on their own; search, price, sort and the other filters only reorder or
+ * narrow those pages, so they point back to them.
+ */
+export const getCanonicalProductsUrl = (filters: FilterState): string => {
+  const params = new URLSearchParams();
+  if (filters.selectedBrands.length === 1) params.set(FILTER_PARAMS.brands, filters.selectedBrands[0]);
+  if (filters.selectedShape) params.set(FILTER_PARAMS.shape, filters.selectedShape);
+
+  const query = params.toString();
+  return query ? `${PRODUCTS_URL}?${query}` : PRODUCTS_URL;
+};
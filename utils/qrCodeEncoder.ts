@@ -0,0 +1,541 @@
+/**
+ * Self-contained QR code encoder (ISO/IEC 18004, model 2, versions 1-40).
+ * Supports numeric, alphanumeric and byte (UTF-8) modes with L/M/Q/H error correction,
+ * and renders to an SVG path or a PNG data URL without any network access.
+ */
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+export type QrEncodingMode = 'auto' | 'numeric' | 'alphanumeric' | 'byte';
+
+export interface QrEncodeOptions {
+  errorCorrection?: QrErrorCorrectionLevel;
+  mode?: QrEncodingMode;
+}
+
+export interface QrCode {
+  version: number;
+  size: number;
+  errorCorrection: QrErrorCorrectionLevel;
+  mode: Exclude<QrEncodingMode, 'auto'>;
+  // modules[y][x] is true for a dark module
+  modules: boolean[][];
+}
+
+export interface QrRenderOptions {
+  // Light border around the symbol, in modules (the standard asks for 4)
+  quietZone?: number;
+  darkColor?: string;
+  lightColor?: string;
+}
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+// Indexed by error correction level then version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MODE_INDICATORS: Record<QrCode['mode'], number> = { numeric: 0x1, alphanumeric: 0x2, byte: 0x4 };
+
+const CHAR_COUNT_BITS: Record<QrCode['mode'], [number, number, number]> = {
+  numeric: [10, 12, 14],
+  alphanumeric: [9, 11, 13],
+  byte: [8, 16, 16]
+};
+
+class BitBuffer {
+  bits: number[] = [];
+
+  append(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+}
+
+const getCharCountBits = (mode: QrCode['mode'], version: number): number => {
+  const index = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  return CHAR_COUNT_BITS[mode][index];
+};
+
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number, ecl: QrErrorCorrectionLevel): number =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+
+/**
+ * Pick the most compact mode able to represent the text
+ */
+export const detectQrMode = (text: string): QrCode['mode'] => {
+  if (/^\d*$/.test(text)) return 'numeric';
+  if ([...text].every(char => ALPHANUMERIC_CHARSET.includes(char))) return 'alphanumeric';
+  return 'byte';
+};
+
+const encodeData = (text: string, mode: QrCode['mode']): { bits: BitBuffer; count: number } => {
+  const buffer = new BitBuffer();
+
+  if (mode === 'numeric') {
+    for (let i = 0; i < text.length; i += 3) {
+      const chunk = text.substring(i, i + 3);
+      buffer.append(parseInt(chunk, 10), chunk.length * 3 + 1);
+    }
+    return { bits: buffer, count: text.length };
+  }
+
+  if (mode === 'alphanumeric') {
+    for (let i = 0; i < text.length; i += 2) {
+      const first = ALPHANUMERIC_CHARSET.indexOf(text[i]);
+      if (i + 1 < text.length) {
+        buffer.append(first * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+      } else {
+        buffer.append(first, 6);
+      }
+    }
+    return { bits: buffer, count: text.length };
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  bytes.forEach(byte => buffer.append(byte, 8));
+  return { bits: buffer, count: bytes.length };
+};
+
+// Galois field GF(2^8) multiplication with the QR reducing polynomial 0x11D
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+const addEccAndInterleave = (data: number[], version: number, ecl: QrErrorCorrectionLevel): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    k += blockData.length;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    if (i < numShortBlocks) blockData.push(0);
+    blocks.push(blockData.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly ecl: QrErrorCorrectionLevel) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.getAlignmentPatternPositions();
+    const count = positions.length;
+    for (let i = 0; i < count; i++) {
+      for (let j = 0; j < count; j++) {
+        const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === count - 1) || (i === count - 1 && j === 0);
+        if (!overlapsFinder) this.drawAlignmentPattern(positions[i], positions[j]);
+      }
+    }
+
+    // Reserve the format area with a dummy mask, then draw version information
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.ecl] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, bit(i));
+    this.setFunctionModule(8, 7, bit(6));
+    this.setFunctionModule(8, 8, bit(7));
+    this.setFunctionModule(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, bit(i));
+    // Always-dark module
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  drawCodewords(data: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && this.maskCondition(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  getPenaltyScore(): number {
+    let penalty = 0;
+    const size = this.size;
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true]
+    ];
+
+    for (let a = 0; a < size; a++) {
+      // Rule 1: runs of five or more same-colour modules, rows then columns
+      for (const horizontal of [true, false]) {
+        let runColor = false;
+        let runLength = 0;
+        for (let b = 0; b < size; b++) {
+          const color = horizontal ? this.modules[a][b] : this.modules[b][a];
+          if (b > 0 && color === runColor) {
+            runLength++;
+            if (runLength === 5) penalty += 3;
+            else if (runLength > 5) penalty++;
+          } else {
+            runColor = color;
+            runLength = 1;
+          }
+        }
+
+        // Rule 3: finder-like patterns
+        for (let b = 0; b + 11 <= size; b++) {
+          for (const pattern of finderLike) {
+            const matches = pattern.every((expected, k) =>
+              (horizontal ? this.modules[a][b + k] : this.modules[b + k][a]) === expected);
+            if (matches) penalty += 40;
+          }
+        }
+      }
+    }
+
+    // Rule 2: 2x2 blocks of the same colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // Rule 4: balance of dark and light modules
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    penalty += Math.max(0, k) * 10;
+
+    return penalty;
+  }
+
+  private maskCondition(mask: number, x: number, y: number): boolean {
+    switch (mask) {
+      case 0: return (x + y) % 2 === 0;
+      case 1: return y % 2 === 0;
+      case 2: return x % 3 === 0;
+      case 3: return (x + y) % 3 === 0;
+      case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+      case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+      case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+      default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    }
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, dark);
+      this.setFunctionModule(b, a, dark);
+    }
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private getAlignmentPatternPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = this.version === 32 ? 26 : Math.ceil((this.version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const result = [6];
+    for (let position = this.size - 7; result.length < numAlign; position -= step) {
+      result.splice(1, 0, position);
+    }
+    return result;
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+/**
+ * Encode text into a QR code using the smallest version that fits
+ */
+export const encodeQrCode = (text: string, options: QrEncodeOptions = {}): QrCode => {
+  const ecl = options.errorCorrection || 'M';
+  const mode = !options.mode || options.mode === 'auto' ? detectQrMode(text) : options.mode;
+
+  if (mode === 'numeric' && !/^\d*$/.test(text)) {
+    throw new Error('Numeric mode only accepts digits');
+  }
+  if (mode === 'alphanumeric' && detectQrMode(text) === 'byte') {
+    throw new Error('Alphanumeric mode only accepts 0-9, A-Z, space and $%*+-./:');
+  }
+
+  const { bits: dataBits, count } = encodeData(text, mode);
+
+  let version = 1;
+  for (; version <= 40; version++) {
+    const capacityBits = getNumDataCodewords(version, ecl) * 8;
+    const usedBits = 4 + getCharCountBits(mode, version) + dataBits.bits.length;
+    if (count < (1 << getCharCountBits(mode, version)) && usedBits <= capacityBits) break;
+  }
+  if (version > 40) {
+    throw new Error('Data too long for a QR code');
+  }
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  const buffer = new BitBuffer();
+  buffer.append(MODE_INDICATORS[mode], 4);
+  buffer.append(count, getCharCountBits(mode, version));
+  buffer.bits.push(...dataBits.bits);
+
+  // Terminator, byte alignment and alternating pad bytes
+  buffer.append(0, Math.min(4, capacityBits - buffer.bits.length));
+  buffer.append(0, (8 - (buffer.bits.length % 8)) % 8);
+  for (let pad = 0xec; buffer.bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    buffer.append(pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < buffer.bits.length; i += 8) {
+    dataCodewords.push(buffer.bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const matrix = new QrMatrix(version, ecl);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(addEccAndInterleave(dataCodewords, version, ecl));
+
+  // Choose the mask with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.getPenaltyScore();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    // Masks are XOR operations, applying again undoes them
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return {
+    version,
+    size: matrix.size,
+    errorCorrection: ecl,
+    mode,
+    modules: matrix.modules
+  };
+};
+
+/**
+ * Build an SVG path of all dark modules, one unit per module, offset by the quiet zone
+ */
+export const qrCodeToSvgPath = (qr: QrCode, quietZone: number = 4): string => {
+  const commands: string[] = [];
+
+  qr.modules.forEach((row, y) => {
+    let x = 0;
+    while (x < qr.size) {
+      if (!row[x]) {
+        x++;
+        continue;
+      }
+      // Merge horizontal runs into a single rectangle
+      let run = 1;
+      while (x + run < qr.size && row[x + run]) run++;
+      commands.push(`M${x + quietZone} ${y + quietZone}h${run}v1h-${run}z`);
+      x += run;
+    }
+  });
+
+  return commands.join('');
+};
+
+/**
+ * Render a QR code as standalone SVG markup (viewBox only, so it scales to any size)
+ */
+export const qrCodeToSvg = (qr: QrCode, options: QrRenderOptions = {}): string => {
+  const quietZone = options.quietZone ?? 4;
+  const dimension = qr.size + quietZone * 2;
+  const background = options.lightColor && options.lightColor !== 'transparent'
+    ? `<rect width="${dimension}" height="${dimension}" fill="${options.lightColor}"/>`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    background +
+    `<path d="${qrCodeToSvgPath(qr, quietZone)}" fill="${options.darkColor || '#000000'}"/>` +
+    `</svg>`;
+};
+
+/**
+ * Render a QR code as a PNG data URL with the given pixel size per module
+ */
+export const qrCodeToDataUrl = (qr: QrCode, options: QrRenderOptions & { scale?: number } = {}): string => {
+  const quietZone = options.quietZone ?? 4;
+  const scale = options.scale || 8;
+  const dimension = (qr.size + quietZone * 2) * scale;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = dimension;
+  canvas.height = dimension;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  if (options.lightColor !== 'transparent') {
+    ctx.fillStyle = options.lightColor || '#ffffff';
+    ctx.fillRect(0, 0, dimension, dimension);
+  }
+
+  ctx.fillStyle = options.darkColor || '#000000';
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        ctx.fillRect((x + quietZone) * scale, (y + quietZone) * scale, scale, scale);
+      }
+    });
+  });
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,112 @@
+/**
+ * Payload builders for the QR code presets Moroccan businesses put on their stamps
+ */
+
+export type QrPresetType = 'text' | 'vcard' | 'whatsapp' | 'wifi' | 'business';
+
+export interface VCardData {
+  firstName?: string;
+  lastName?: string;
+  organization?: string;
+  title?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+  city?: string;
+}
+
+export interface WhatsAppData {
+  phone: string;
+  message?: string;
+}
+
+export interface WifiData {
+  ssid: string;
+  password?: string;
+  encryption: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
+}
+
+export interface BusinessIdentifiersData {
+  companyName?: string;
+  ice?: string;
+  rc?: string;
+  rcCity?: string;
+  if?: string;
+  patente?: string;
+  cnss?: string;
+}
+
+const escapeVCardValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+const escapeWifiValue = (value: string): string =>
+  value.replace(/([\\;,:"])/g, '\\$1');
+
+/**
+ * Convert a Moroccan phone number (06..., 07..., 05..., +212..., 00212...) to international digits
+ */
+export const toInternationalPhoneDigits = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('00')) return digits.substring(2);
+  if (digits.startsWith('0') && digits.length === 10) return `212${digits.substring(1)}`;
+  return digits;
+};
+
+/**
+ * Build a vCard 3.0 payload
+ */
+export const buildVCard = (data: VCardData): string => {
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0'];
+  const fullName = [data.firstName, data.lastName].filter(Boolean).join(' ');
+
+  lines.push(`N:${escapeVCardValue(data.lastName || '')};${escapeVCardValue(data.firstName || '')};;;`);
+  lines.push(`FN:${escapeVCardValue(fullName || data.organization || '')}`);
+  if (data.organization) lines.push(`ORG:${escapeVCardValue(data.organization)}`);
+  if (data.title) lines.push(`TITLE:${escapeVCardValue(data.title)}`);
+  if (data.phone) lines.push(`TEL;TYPE=WORK,VOICE:+${toInternationalPhoneDigits(data.phone)}`);
+  if (data.email) lines.push(`EMAIL:${data.email.trim()}`);
+  if (data.website) lines.push(`URL:${data.website.trim()}`);
+  if (data.address || data.city) {
+    lines.push(`ADR;TYPE=WORK:;;${escapeVCardValue(data.address || '')};${escapeVCardValue(data.city || '')};;;Maroc`);
+  }
+  lines.push('END:VCARD');
+
+  return lines.join('\n');
+};
+
+/**
+ * Build a wa.me click-to-chat link
+ */
+export const buildWhatsAppLink = (data: WhatsAppData): string => {
+  const base = `https://wa.me/${toInternationalPhoneDigits(data.phone)}`;
+  return data.message ? `${base}?text=${encodeURIComponent(data.message)}` : base;
+};
+
+/**
+ * Build a Wi-Fi network join payload
+ */
+export const buildWifiPayload = (data: WifiData): string => {
+  const parts = [`T:${data.encryption}`, `S:${escapeWifiValue(data.ssid)}`];
+  if (data.encryption !== 'nopass' && data.password) parts.push(`P:${escapeWifiValue(data.password)}`);
+  if (data.hidden) parts.push('H:true');
+
+  return `WIFI:${parts.join(';')};;`;
+};
+
+/**
+ * Build the company identifiers block (ICE, RC, IF, Patente, CNSS)
+ */
+export const buildBusinessIdentifiers = (data: BusinessIdentifiersData): string => {
+  const lines: string[] = [];
+
+  if (data.companyName) lines.push(data.companyName.trim());
+  if (data.ice) lines.push(`ICE: ${data.ice.replace(/\s/g, '')}`);
+  if (data.rc) lines.push(`RC: ${data.rc.trim()}${data.rcCity ? ` ${data.rcCity.trim()}` : ''}`);
+  if (data.if) lines.push(`IF: ${data.if.trim()}`);
+  if (data.patente) lines.push(`Patente: ${data.patente.trim()}`);
+  if (data.cnss) lines.push(`CNSS: ${data.cnss.trim()}`);
+
+  return lines.join('\n');
+};
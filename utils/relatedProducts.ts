@@ -0,0 +1,19 @@
+import { Product } from '@/types';
+import { inventoryService } from '@/services/InventoryService';
+
+/**
+ * Other products a customer looking at this one may want: same shape first, then
+ * same brand, then closest in price. Products that cannot be ordered are left out.
+ */
+export const getRelatedProducts = (product: Product, products: Product[], limit: number = 4): Product[] => {
+  const score = (candidate: Product) =>
+    (candidate.shape === product.shape ? 2 : 0) + (candidate.brand === product.brand ? 1 : 0);
+
+  return products
+    .filter(candidate => candidate.id !== product.id)
+    .filter(candidate => inventoryService.isPurchasable(inventoryService.getProductAvailability(candidate)))
+    .sort((a, b) =>
+      score(b) - score(a) || Math.abs(a.price - product.price) - Math.abs(b.price - product.price)
+    )
+    .slice(0, limit);
+};
@@ -1,5 +1,7 @@
 
 import { useEffect } from 'react';
+import { Product } from '@/types';
+import { inventoryService } from '@/services/InventoryService';
 
 interface HrefLangTag {
   lang: string;
@@ -13,6 +15,8 @@ interface MetaProps {
   ogImage?: string;
   ogType?: 'website' | 'article' | 'product';
   ogUrl?: string;
+  // Preferred URL of the page for search engines
+  canonicalUrl?: string;
   structuredData?: any;
   hrefLangTags?: HrefLangTag[];
 }
@@ -24,6 +28,7 @@ export const useMetaTags = ({
   ogImage = 'https://lovable.dev/opengraph-image-p98pqg.png',
   ogType = 'website',
   ogUrl,
+  canonicalUrl,
   structuredData,
   hrefLangTags
 }: MetaProps) => {
@@ -72,6 +77,16 @@ export const useMetaTags = ({
       ogUrlMeta.setAttribute('content', ogUrl);
     }
     
+    if (canonicalUrl) {
+      let canonicalLink = document.querySelector('link[rel="canonical"]');
+      if (!canonicalLink) {
+        canonicalLink = document.createElement('link');
+        canonicalLink.setAttribute('rel', 'canonical');
+        document.head.appendChild(canonicalLink);
+      }
+      canonicalLink.setAttribute('href', canonicalUrl);
+    }
+    
     // Handle hreflang tags for multi-language support
     if (hrefLangTags && hrefLangTags.length > 0) {
       // Remove any existing hreflang tags
@@ -108,21 +123,28 @@ export const useMetaTags = ({
         script.remove();
       }
       
+      if (canonicalUrl) {
+        document.querySelector('link[rel="canonical"]')?.remove();
+      }
+      
       // Clean up hreflang tags
       if (hrefLangTags && hrefLangTags.length > 0) {
         document.querySelectorAll('link[rel="alternate"][hreflang]').forEach(el => el.remove());
       }
     };
-  }, [title, description, keywords, ogImage, ogType, ogUrl, structuredData, hrefLangTags]);
+  }, [title, description, keywords, ogImage, ogType, ogUrl, canonicalUrl, structuredData, hrefLangTags]);
 };
 
+// Public URL of a product's detail page
+export const getProductUrl = (product: Product) => `https://cachets-maroc.com/products/${product.id}`;
+
 // Helper to generate product structured data
-export const generateProductSchema = (product: any) => {
+export const generateProductSchema = (product: Product) => {
   return {
     "@context": "https://schema.org/",
     "@type": "Product",
     "name": product.name,
-    "image": product.imageUrl,
+    "image": product.images.map(image => new URL(image, 'https://cachets-maroc.com').href),
     "description": product.description,
     "brand": {
       "@type": "Brand",
@@ -130,10 +152,10 @@ export const generateProductSchema = (product: any) => {
     },
     "offers": {
       "@type": "Offer",
-      "url": `https://cachets-maroc.com/products/${product.id}`,
+      "url": getProductUrl(product),
       "priceCurrency": "MAD",
       "price": product.price,
-      "availability": product.inStock ? "https://schema.org/InStock" : "https://schema.org/OutOfStock"
+      "availability": inventoryService.getSchemaAvailability(product)
     }
   };
 };
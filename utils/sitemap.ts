@@ -0,0 +1,64 @@
+import { Product } from '@/types';
+import { escapeXml } from '@/utils/markup';
+import { getProductUrl } from '@/utils/seo';
+
+interface SitemapEntry {
+  url: string;
+  changefreq: 'daily' | 'weekly' | 'monthly';
+  priority: number;
+}
+
+const SITE_URL = 'https://cachets-maroc.com';
+
+// Pages listed in every sitemap, before the product pages
+const staticEntries: SitemapEntry[] = [
+  { url: `${SITE_URL}/`, changefreq: 'weekly', priority: 1.0 },
+  { url: `${SITE_URL}/products`, changefreq: 'daily', priority: 0.9 },
+  { url: `${SITE_URL}/design`, changefreq: 'monthly', priority: 0.8 },
+  { url: `${SITE_URL}/stamp-finder`, changefreq: 'monthly', priority: 0.8 },
+  { url: `${SITE_URL}/contact`, changefreq: 'monthly', priority: 0.7 },
+  { url: `${SITE_URL}/cart`, changefreq: 'monthly', priority: 0.6 }
+];
+
+/**
+ * sitemap.xml listing the site's pages and one detail page per product, to publish
+ * again after the catalogue changes
+ */
+export const generateSitemap = (products: Product[], lastmod: string = new Date().toISOString().slice(0, 10)): string => {
+  const entries: SitemapEntry[] = [
+    ...staticEntries,
+    ...products.map(product => ({ url: getProductUrl(product), changefreq: 'weekly' as const, priority: 0.8 }))
+  ];
+
+  const urls = entries.map(entry => [
+    '  <url>',
+    `    <loc>${escapeXml(entry.url)}</loc>`,
+    `    <lastmod>${lastmod}</lastmod>`,
+    `    <changefreq>${entry.changefreq}</changefreq>`,
+    `    <priority>${entry.priority.toFixed(1)}</priority>`,
+    '  </url>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Download the sitemap, e.g. from the back-office
+ */
+export const downloadSitemap = (products: Product[]): void => {
+  const blob = new Blob([generateSitemap(products)], { type: 'application/xml;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.download = 'sitemap.xml';
+  link.href = url;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
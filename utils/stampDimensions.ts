@@ -0,0 +1,63 @@
+import { Product } from '@/types';
+
+export interface StampDimensions {
+  // Physical impression size in millimetres
+  width: number;
+  height: number;
+  // A single value in the size string ("42mm") describes a round stamp diameter
+  isRound: boolean;
+}
+
+const DEFAULT_DIMENSIONS: StampDimensions = { width: 60, height: 40, isRound: false };
+
+/**
+ * Parse a product size string such as "60x40mm", "42x42mm" or "42mm" into millimetres.
+ * Vertical notations ("18x48mm") are returned in landscape orientation, the same way
+ * the designer preview lays them out.
+ */
+export const parseProductSize = (size: string): StampDimensions => {
+  const values = (size || '')
+    .toLowerCase()
+    .replace(/mm/g, '')
+    .split('x')
+    .map(value => parseFloat(value.trim().replace(',', '.')))
+    .filter(value => !isNaN(value) && value > 0);
+
+  if (values.length === 0) {
+    return { ...DEFAULT_DIMENSIONS };
+  }
+
+  if (values.length === 1) {
+    return { width: values[0], height: values[0], isRound: true };
+  }
+
+  const [first, second] = values;
+  return {
+    width: Math.max(first, second),
+    height: Math.min(first, second),
+    isRound: false
+  };
+};
+
+/**
+ * Get the physical dimensions of a product's impression area
+ */
+export const getProductDimensions = (product: Product | null): StampDimensions => {
+  if (!product) return { ...DEFAULT_DIMENSIONS };
+
+  const dimensions = parseProductSize(product.size);
+  if (product.shape === 'circle') {
+    const diameter = Math.min(dimensions.width, dimensions.height);
+    return { width: diameter, height: diameter, isRound: true };
+  }
+
+  return dimensions;
+};
+
+/**
+ * Inked surface in mm²: a disc for round stamps, width × height otherwise
+ */
+export const getImpressionArea = (product: Product): number => {
+  const { width, height, isRound } = getProductDimensions(product);
+  return isRound ? Math.PI * (width / 2) ** 2 : width * height;
+};
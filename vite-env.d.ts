@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // CMI hosted payment page settings
+  readonly VITE_CMI_GATEWAY_URL?: string;
+  readonly VITE_CMI_CLIENT_ID?: string;
+  readonly VITE_CMI_SIGNING_ENDPOINT?: string;
+  readonly VITE_CMI_CALLBACK_URL?: string;
+  // Orders API; orders are kept in the browser when unset
+  readonly VITE_ORDERS_API_URL?: string;
+  // Passcode of the /admin back-office
+  readonly VITE_ADMIN_PASSCODE?: string;
+  // Company registration identifiers printed on invoices; invoices are refused until they are set
+  readonly VITE_COMPANY_ICE?: string;
+  readonly VITE_COMPANY_IF?: string;
+  readonly VITE_COMPANY_RC?: string;
+  readonly VITE_COMPANY_PATENTE?: string;
+  // Account credited by bank transfers; the bank transfer method is hidden until it is set
+  readonly VITE_COMPANY_BANK_NAME?: string;
+  readonly VITE_COMPANY_RIB?: string;
+}